@@ -7,19 +7,42 @@ import EquipmentManager from "@/components/EquipmentManager";
 import PasswordManager from "@/components/PasswordManager";
 import TaskManager from "@/components/TaskManager";
 import Settings from "@/components/Settings";
+import ScheduledJobs from "@/components/ScheduledJobs";
+import NotificationManager from "@/components/NotificationManager";
+import StocktakingManager from "@/components/StocktakingManager";
+import DepreciationReport from "@/components/DepreciationReport";
+import LocationManager from "@/components/LocationManager";
+import DepartmentManager from "@/components/DepartmentManager";
+import StockManager from "@/components/StockManager";
+import RepairReport from "@/components/RepairReport";
+import LicenseManager from "@/components/LicenseManager";
+import StaffChecklistManager from "@/components/StaffChecklistManager";
+import ChangePassword from "@/components/ChangePassword";
+import type { CurrentUser } from "@/lib/api";
+import { CHAT_TYPES, ROLES } from "@shared/schema";
 
 interface AdminPanelProps {
+  user: CurrentUser;
   onLogout: () => void;
 }
 
-type ActiveTab = "dashboard" | "users" | "equipment" | "passwords" | "tasks" | "settings";
+type ActiveTab = "dashboard" | "users" | "checklists" | "departments" | "equipment" | "locations" | "stock" | "repairs" | "licenses" | "stocktaking" | "depreciation" | "passwords" | "tasks" | "notifications" | "settings" | "account";
 
-export default function AdminPanel({ onLogout }: AdminPanelProps) {
+export default function AdminPanel({ user, onLogout }: AdminPanelProps) {
   const [activeTab, setActiveTab] = useState<ActiveTab>("dashboard");
   const [mobileSidebarOpen, setMobileSidebarOpen] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const isMobile = useMobile();
 
+  // Sections the server would allow; the rest are hidden from the menu
+  const canAccess = (chatType: string) => user.isAdmin || !!user.permissions[chatType];
+  // Accounting data is for accountants with access to equipment, as on the server
+  const canSeeAccounting = user.isAdmin || (user.role === ROLES.ACCOUNTANT && canAccess(CHAT_TYPES.EQUIPMENT));
+  // Department heads see the equipment of their departments without access to the section
+  const canSeeEquipment = canAccess(CHAT_TYPES.EQUIPMENT) || user.role === ROLES.MANAGER;
+  // Stock and licenses are changed by those who may change the equipment registry
+  const canEditRegistry = user.isAdmin || (canAccess(CHAT_TYPES.EQUIPMENT) && (user.role === ROLES.SYSADMIN || user.role === ROLES.ACCOUNTANT));
+
   const toggleSidebar = () => {
     setMobileSidebarOpen(!mobileSidebarOpen);
   };
@@ -38,7 +61,7 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
         >
           <div className="p-4 flex items-center border-b border-sidebar-border">
             <span className="mr-2">👤</span>
-            <div className="font-medium">Администратор</div>
+            <div className="font-medium">{user.isAdmin ? "Администратор" : `${user.lastName} ${user.firstName}`}</div>
           </div>
 
           <nav className="mt-4">
@@ -53,51 +76,169 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
               <span>Главная</span>
             </a>
 
-            <a
-                href="#"
-                onClick={(e) => { e.preventDefault(); setActiveTab("users"); if (isMobile) setMobileSidebarOpen(false); }}
-                className={`sidebar-link ${activeTab === "users" ? "active" : ""}`}
-            >
-              <span className="mr-3">👥</span>
-              <span>Пользователи</span>
-            </a>
+            {user.isAdmin && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("users"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "users" ? "active" : ""}`}
+              >
+                <span className="mr-3">👥</span>
+                <span>Пользователи</span>
+              </a>
+            )}
 
-            <a
-                href="#"
-                onClick={(e) => { e.preventDefault(); setActiveTab("equipment"); if (isMobile) setMobileSidebarOpen(false); }}
-                className={`sidebar-link ${activeTab === "equipment" ? "active" : ""}`}
-            >
-              <span className="mr-3">💻</span>
-              <span>Мат.ответственность</span>
-            </a>
+            {user.isAdmin && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("checklists"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "checklists" ? "active" : ""}`}
+              >
+                <span className="mr-3">📝</span>
+                <span>Прием и увольнение</span>
+              </a>
+            )}
 
-            <a
-                href="#"
-                onClick={(e) => { e.preventDefault(); setActiveTab("passwords"); if (isMobile) setMobileSidebarOpen(false); }}
-                className={`sidebar-link ${activeTab === "passwords" ? "active" : ""}`}
-            >
-              <span className="mr-3">🔑</span>
-              <span>Пароли</span>
-            </a>
+            {user.isAdmin && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("departments"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "departments" ? "active" : ""}`}
+              >
+                <span className="mr-3">🗂️</span>
+                <span>Отделы</span>
+              </a>
+            )}
 
-            <a
-                href="#"
-                onClick={(e) => { e.preventDefault(); setActiveTab("tasks"); if (isMobile) setMobileSidebarOpen(false); }}
-                className={`sidebar-link ${activeTab === "tasks" ? "active" : ""}`}
-            >
-              <span className="mr-3">📝</span>
-              <span>Задачи</span>
-            </a>
+            {canSeeEquipment && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("equipment"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "equipment" ? "active" : ""}`}
+              >
+                <span className="mr-3">💻</span>
+                <span>Мат.ответственность</span>
+              </a>
+            )}
+
+            {canAccess(CHAT_TYPES.EQUIPMENT) && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("locations"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "locations" ? "active" : ""}`}
+              >
+                <span className="mr-3">🏢</span>
+                <span>Местоположения</span>
+              </a>
+            )}
+
+            {canAccess(CHAT_TYPES.EQUIPMENT) && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("stock"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "stock" ? "active" : ""}`}
+              >
+                <span className="mr-3">📦</span>
+                <span>Склад расходников</span>
+              </a>
+            )}
+
+            {canAccess(CHAT_TYPES.EQUIPMENT) && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("repairs"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "repairs" ? "active" : ""}`}
+              >
+                <span className="mr-3">🔧</span>
+                <span>Ремонты</span>
+              </a>
+            )}
+
+            {canAccess(CHAT_TYPES.EQUIPMENT) && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("licenses"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "licenses" ? "active" : ""}`}
+              >
+                <span className="mr-3">🔑</span>
+                <span>Лицензии</span>
+              </a>
+            )}
+
+            {user.isAdmin && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("stocktaking"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "stocktaking" ? "active" : ""}`}
+              >
+                <span className="mr-3">📋</span>
+                <span>Инвентаризация</span>
+              </a>
+            )}
+
+            {canSeeAccounting && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("depreciation"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "depreciation" ? "active" : ""}`}
+              >
+                <span className="mr-3">💰</span>
+                <span>Амортизация</span>
+              </a>
+            )}
+
+            {canAccess(CHAT_TYPES.PASSWORDS) && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("passwords"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "passwords" ? "active" : ""}`}
+              >
+                <span className="mr-3">🔑</span>
+                <span>Пароли</span>
+              </a>
+            )}
+
+            {canAccess(CHAT_TYPES.TASKS) && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("tasks"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "tasks" ? "active" : ""}`}
+              >
+                <span className="mr-3">📝</span>
+                <span>Задачи</span>
+              </a>
+            )}
+
+            {user.isAdmin && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("notifications"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "notifications" ? "active" : ""}`}
+              >
+                <span className="mr-3">📨</span>
+                <span>Уведомления</span>
+              </a>
+            )}
 
             <div className="px-4 py-2 mt-6 text-sm text-sidebar-foreground/70 uppercase tracking-wider">Настройки</div>
 
+            {user.isAdmin && (
+              <a
+                  href="#"
+                  onClick={(e) => { e.preventDefault(); setActiveTab("settings"); if (isMobile) setMobileSidebarOpen(false); }}
+                  className={`sidebar-link ${activeTab === "settings" ? "active" : ""}`}
+              >
+                <span className="mr-3">⚙️</span>
+                <span>Настройки бота</span>
+              </a>
+            )}
+
             <a
                 href="#"
-                onClick={(e) => { e.preventDefault(); setActiveTab("settings"); if (isMobile) setMobileSidebarOpen(false); }}
-                className={`sidebar-link ${activeTab === "settings" ? "active" : ""}`}
+                onClick={(e) => { e.preventDefault(); setActiveTab("account"); if (isMobile) setMobileSidebarOpen(false); }}
+                className={`sidebar-link ${activeTab === "account" ? "active" : ""}`}
             >
-              <span className="mr-3">⚙️</span>
-              <span>Настройки бота</span>
+              <span className="mr-3">🔒</span>
+              <span>Сменить пароль</span>
             </a>
 
             <a
@@ -151,10 +292,20 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
                 <h1 className="text-2xl font-semibold text-foreground">
                   {activeTab === "dashboard" && "Панель администратора"}
                   {activeTab === "users" && "Управление пользователями"}
+                  {activeTab === "checklists" && "Прием и увольнение сотрудников"}
+                  {activeTab === "departments" && "Отделы"}
                   {activeTab === "equipment" && "Управление имуществом"}
+                  {activeTab === "locations" && "Местоположения"}
+                  {activeTab === "stock" && "Склад расходников"}
+                  {activeTab === "repairs" && "Ремонты"}
+                  {activeTab === "licenses" && "Лицензии и подписки"}
+                  {activeTab === "stocktaking" && "Инвентаризация"}
+                  {activeTab === "depreciation" && "Амортизация и гарантия"}
                   {activeTab === "passwords" && "Безопасные пароли"}
                   {activeTab === "tasks" && "Управление задачами"}
+                  {activeTab === "notifications" && "Уведомления бота"}
                   {activeTab === "settings" && "Настройки бота"}
+                  {activeTab === "account" && "Смена пароля"}
                 </h1>
                 <div className="flex space-x-2">
                   <button
@@ -167,12 +318,29 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
                 </div>
               </div>
 
-              {activeTab === "dashboard" && <Dashboard key={`dashboard-${refreshKey}`} />}
-              {activeTab === "users" && <UserManager key={`users-${refreshKey}`} />}
-              {activeTab === "equipment" && <EquipmentManager key={`equipment-${refreshKey}`} />}
+              {activeTab === "dashboard" && <Dashboard key={`dashboard-${refreshKey}`} isAdmin={user.isAdmin} />}
+              {activeTab === "users" && user.isAdmin && <UserManager key={`users-${refreshKey}`} />}
+              {activeTab === "checklists" && user.isAdmin && <StaffChecklistManager key={`checklists-${refreshKey}`} />}
+              {activeTab === "departments" && user.isAdmin && <DepartmentManager key={`departments-${refreshKey}`} />}
+              {activeTab === "equipment" && canSeeEquipment && (
+                <EquipmentManager key={`equipment-${refreshKey}`} readOnly={!canAccess(CHAT_TYPES.EQUIPMENT)} />
+              )}
+              {activeTab === "locations" && <LocationManager key={`locations-${refreshKey}`} />}
+              {activeTab === "stock" && <StockManager key={`stock-${refreshKey}`} canEdit={canEditRegistry} />}
+              {activeTab === "repairs" && <RepairReport key={`repairs-${refreshKey}`} />}
+              {activeTab === "licenses" && <LicenseManager key={`licenses-${refreshKey}`} canEdit={canEditRegistry} />}
+              {activeTab === "stocktaking" && user.isAdmin && <StocktakingManager key={`stocktaking-${refreshKey}`} />}
+              {activeTab === "depreciation" && canSeeAccounting && <DepreciationReport key={`depreciation-${refreshKey}`} />}
               {activeTab === "passwords" && <PasswordManager key={`passwords-${refreshKey}`} />}
               {activeTab === "tasks" && <TaskManager key={`tasks-${refreshKey}`} />}
-              {activeTab === "settings" && <Settings key={`settings-${refreshKey}`} />}
+              {activeTab === "notifications" && user.isAdmin && <NotificationManager key={`notifications-${refreshKey}`} />}
+              {activeTab === "settings" && user.isAdmin && (
+                <div className="space-y-6">
+                  <Settings key={`settings-${refreshKey}`} />
+                  <ScheduledJobs key={`jobs-${refreshKey}`} />
+                </div>
+              )}
+              {activeTab === "account" && <ChangePassword key={`account-${refreshKey}`} />}
             </div>
           </main>
         </div>
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { changePassword } from "@/lib/api";
+
+const passwordFormSchema = z.object({
+  currentPassword: z.string().min(1, "Введите текущий пароль"),
+  newPassword: z.string().min(8, "Пароль должен содержать не менее 8 символов"),
+  confirmPassword: z.string().min(1, "Повторите новый пароль")
+}).refine(values => values.newPassword === values.confirmPassword, {
+  message: "Пароли не совпадают",
+  path: ["confirmPassword"]
+});
+
+interface ChangePasswordProps {
+  forced?: boolean;
+  onChanged?: () => void;
+}
+
+export default function ChangePassword({ forced = false, onChanged }: ChangePasswordProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof passwordFormSchema>>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: ""
+    }
+  });
+
+  async function onSubmit(values: z.infer<typeof passwordFormSchema>) {
+    try {
+      setIsSaving(true);
+      await changePassword(values.currentPassword, values.newPassword);
+
+      form.reset();
+
+      toast({
+        title: "Успешно",
+        description: "Пароль изменен"
+      });
+
+      onChanged?.();
+    } catch (error: any) {
+      console.error("Failed to change password:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось сменить пароль. Проверьте текущий пароль."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Card className="max-w-md">
+      <CardHeader>
+        <CardTitle>Смена пароля</CardTitle>
+        <CardDescription>
+          {forced
+            ? "Вы вошли с одноразовым паролем. Задайте новый пароль, чтобы продолжить работу."
+            : "Задайте новый пароль для входа в административную панель."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Текущий пароль</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="current-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Новый пароль</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Повторите новый пароль</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={isSaving}>
+              {isSaving ? "Сохранение..." : "Сменить пароль"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,7 +4,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { getUsers, getEquipment, getTasks } from "@/lib/api";
 import UserManager from "@/components/UserManager";
 
-export default function Dashboard() {
+interface DashboardProps {
+  isAdmin: boolean;
+}
+
+export default function Dashboard({ isAdmin }: DashboardProps) {
   const [stats, setStats] = useState({
     totalUsers: 0,
     totalEquipment: 0,
@@ -16,10 +20,11 @@ export default function Dashboard() {
   useEffect(() => {
     const fetchStats = async () => {
       try {
+        // Sections the user has no access to simply count as empty
         const [users, equipment, tasks] = await Promise.all([
           getUsers(),
-          getEquipment(),
-          getTasks()
+          getEquipment().catch(() => []),
+          getTasks().catch(() => [])
         ]);
         
         setStats({
@@ -113,7 +118,7 @@ export default function Dashboard() {
       
       {/* Recent users panel */}
       <div className="grid grid-cols-1 lg:grid-cols-1 gap-6">
-        <UserManager limit={5} showAsCard={true} />
+        <UserManager limit={5} showAsCard={true} canManage={isAdmin} />
       </div>
     </>
   );
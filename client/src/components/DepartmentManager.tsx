@@ -0,0 +1,271 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  getDepartments,
+  createDepartment,
+  updateDepartment,
+  deleteDepartment,
+  mergeDepartments,
+  getUsers
+} from "@/lib/api";
+import { LucideEdit, LucideMerge, LucidePlus, LucideTrash2 } from "lucide-react";
+import { ROLES } from "@shared/schema";
+
+// Select value for a department without a head
+const NO_HEAD = "none";
+
+function userName(user: any): string {
+  return `${user.lastName || ''} ${user.firstName || ''}`.trim() || user.username || "Без имени";
+}
+
+export default function DepartmentManager() {
+  const [departments, setDepartments] = useState<any[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Department being edited, null for a new one; undefined while the dialog is closed
+  const [editTarget, setEditTarget] = useState<any | null | undefined>(undefined);
+  const [name, setName] = useState("");
+  const [headUserId, setHeadUserId] = useState(NO_HEAD);
+  const [mergeSource, setMergeSource] = useState<any | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    try {
+      setIsLoading(true);
+      const [departmentList, userList] = await Promise.all([getDepartments(), getUsers()]);
+      setDepartments(Array.isArray(departmentList) ? departmentList : []);
+      setUsers(Array.isArray(userList) ? userList : []);
+    } catch (error) {
+      console.error("Failed to fetch departments:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить отделы"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function openEdit(department: any | null) {
+    setEditTarget(department);
+    setName(department?.name || "");
+    setHeadUserId(department?.headUserId ? String(department.headUserId) : NO_HEAD);
+  }
+
+  async function handleSave() {
+    const data = { name: name.trim(), headUserId: headUserId === NO_HEAD ? null : Number(headUserId) };
+
+    try {
+      setIsSaving(true);
+
+      if (editTarget) {
+        await updateDepartment(editTarget.id, data);
+      } else {
+        await createDepartment(data);
+      }
+
+      setEditTarget(undefined);
+      await fetchData();
+    } catch (error) {
+      console.error("Failed to save department:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось сохранить отдел. Возможно, такой отдел уже есть под другим написанием."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete(department: any) {
+    if (!confirm(`Удалить отдел "${department.name}"?`)) {
+      return;
+    }
+
+    try {
+      await deleteDepartment(department.id);
+      await fetchData();
+    } catch (error) {
+      console.error("Failed to delete department:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось удалить. В отделе есть сотрудники или имущество, объедините его с другим отделом."
+      });
+    }
+  }
+
+  async function handleMerge() {
+    try {
+      setIsSaving(true);
+      await mergeDepartments(mergeSource.id, Number(mergeTargetId));
+      setMergeSource(null);
+      await fetchData();
+
+      toast({
+        title: "Успешно",
+        description: "Отделы объединены"
+      });
+    } catch (error) {
+      console.error("Failed to merge departments:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось объединить отделы"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  // Heads are usually managers, the rest of the users are offered after them
+  const headCandidates = [...users].sort((a, b) =>
+    Number(b.role === ROLES.MANAGER) - Number(a.role === ROLES.MANAGER) || userName(a).localeCompare(userName(b), 'ru')
+  );
+
+  const columns = [
+    {
+      header: "Отдел",
+      accessorKey: "name"
+    },
+    {
+      header: "Руководитель",
+      accessorKey: (row: any) => row.head ? userName(row.head) : "—"
+    },
+    {
+      header: "Сотрудников",
+      accessorKey: (row: any) => users.filter(user => user.departmentId === row.id).length
+    },
+    {
+      header: "Действия",
+      accessorKey: (row: any) => (
+        <div className="flex justify-end gap-1">
+          <Button variant="ghost" size="sm" title="Изменить" onClick={() => openEdit(row)}>
+            <LucideEdit className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Объединить с другим отделом"
+            onClick={() => { setMergeSource(row); setMergeTargetId(""); }}
+          >
+            <LucideMerge className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" title="Удалить" onClick={() => handleDelete(row)}>
+            <LucideTrash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Отделы</CardTitle>
+              <CardDescription>
+                Сотрудники выбирают отдел при регистрации в боте. Руководитель отдела видит имущество своего отдела.
+                Один отдел под разными названиями объедините, чтобы перенести сотрудников и имущество.
+              </CardDescription>
+            </div>
+            <Button onClick={() => openEdit(null)}>
+              <LucidePlus className="h-4 w-4 mr-2" />
+              Отдел
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={departments}
+            columns={columns}
+            isLoading={isLoading}
+            pageSize={20}
+            noDataMessage="Отделы еще не добавлены"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={editTarget !== undefined} onOpenChange={(open) => !open && setEditTarget(undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editTarget ? `Отдел: ${editTarget.name}` : "Новый отдел"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder="Например: IT отдел, Бухгалтерия"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Select value={headUserId} onValueChange={setHeadUserId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Руководитель" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_HEAD}>Без руководителя</SelectItem>
+                {headCandidates.map(user => (
+                  <SelectItem key={user.id} value={String(user.id)}>
+                    {userName(user)}{user.role === ROLES.MANAGER ? " (руководитель)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTarget(undefined)}>
+              Отмена
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!mergeSource} onOpenChange={(open) => !open && setMergeSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Объединить "{mergeSource?.name}"</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Сотрудники и имущество перейдут в выбранный отдел, а "{mergeSource?.name}" будет удален.
+          </p>
+          <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Отдел, в который перенести" />
+            </SelectTrigger>
+            <SelectContent>
+              {departments.filter(department => department.id !== mergeSource?.id).map(department => (
+                <SelectItem key={department.id} value={String(department.id)}>{department.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeSource(null)}>
+              Отмена
+            </Button>
+            <Button onClick={handleMerge} disabled={!mergeTargetId || isSaving}>
+              Объединить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
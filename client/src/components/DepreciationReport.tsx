@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import { getDepreciation, getDepreciationReportUrl, getDepartments } from "@/lib/api";
+import { LucideDownload } from "lucide-react";
+
+const ALL = "all";
+
+// Warranties ending within this many days are highlighted, as in the sysadmin alert
+const WARRANTY_SOON_DAYS = 30;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function formatRubles(value: number | null | undefined): string {
+  if (value === null || value === undefined) {
+    return "—";
+  }
+
+  return `${value.toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽`;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString('ru-RU') : "—";
+}
+
+function warrantyClass(value: string | null): string {
+  if (!value) {
+    return "";
+  }
+
+  const daysLeft = (new Date(value).getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+
+  if (daysLeft < 0) {
+    return "text-muted-foreground line-through";
+  }
+
+  return daysLeft <= WARRANTY_SOON_DAYS ? "text-orange-600 font-medium" : "";
+}
+
+export default function DepreciationReport() {
+  const [asOf, setAsOf] = useState(today());
+  const [department, setDepartment] = useState(ALL);
+  const [departments, setDepartments] = useState<any[]>([]);
+  const [report, setReport] = useState<any | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchReport();
+  }, [asOf]);
+
+  useEffect(() => {
+    getDepartments()
+      .then(data => setDepartments(Array.isArray(data) ? data : []))
+      .catch(error => console.error("Failed to fetch departments:", error));
+  }, []);
+
+  async function fetchReport() {
+    try {
+      setIsLoading(true);
+      setReport(await getDepreciation({ asOf }));
+    } catch (error) {
+      console.error("Failed to fetch depreciation:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить данные об амортизации"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleDownload() {
+    window.location.href = getDepreciationReportUrl({ asOf, departmentId: department === ALL ? undefined : Number(department) });
+  }
+
+  const items: any[] = report?.items || [];
+  const selectedName = departments.find(item => String(item.id) === department)?.name;
+  const visibleItems = items.filter(item => department === ALL || String(item.departmentId) === department);
+  const visibleTotals = (report?.departments || []).filter((totals: any) => department === ALL || totals.department === selectedName);
+
+  const itemColumns = [
+    {
+      header: "Инв. номер",
+      accessorKey: "inventoryNumber"
+    },
+    {
+      header: "Наименование",
+      accessorKey: (row: any) => (
+        <div>
+          <div>{row.name}</div>
+          <div className="text-xs text-muted-foreground">{row.department?.name || "Без отдела"}</div>
+        </div>
+      )
+    },
+    {
+      header: "Покупка",
+      accessorKey: (row: any) => (
+        <div>
+          <div>{formatDate(row.purchaseDate)}</div>
+          {(row.supplier || row.invoiceNumber) && (
+            <div className="text-xs text-muted-foreground">
+              {[row.supplier, row.invoiceNumber && `счет ${row.invoiceNumber}`].filter(Boolean).join(", ")}
+            </div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: "Стоимость",
+      accessorKey: (row: any) => formatRubles(row.depreciation?.cost)
+    },
+    {
+      header: "Срок, мес.",
+      accessorKey: (row: any) => row.usefulLifeMonths ?? "—"
+    },
+    {
+      header: "Начислено",
+      accessorKey: (row: any) => row.depreciation
+        ? `${formatRubles(row.depreciation.accumulated)} (${row.depreciation.monthsDepreciated} мес.)`
+        : "—"
+    },
+    {
+      header: "Остаточная стоимость",
+      accessorKey: (row: any) => formatRubles(row.depreciation?.residualValue)
+    },
+    {
+      header: "Гарантия до",
+      accessorKey: (row: any) => <span className={warrantyClass(row.warrantyEndDate)}>{formatDate(row.warrantyEndDate)}</span>
+    }
+  ];
+
+  const totalsColumns = [
+    {
+      header: "Отдел",
+      accessorKey: "department"
+    },
+    {
+      header: "Предметов",
+      accessorKey: "count"
+    },
+    {
+      header: "Стоимость",
+      accessorKey: (row: any) => formatRubles(row.cost)
+    },
+    {
+      header: "Начислено",
+      accessorKey: (row: any) => formatRubles(row.accumulated)
+    },
+    {
+      header: "Остаточная стоимость",
+      accessorKey: (row: any) => formatRubles(row.residualValue)
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Амортизация по отделам</CardTitle>
+          <CardDescription>
+            Линейная амортизация начисляется ежемесячно, начиная с месяца после покупки.
+            Списанное имущество и предметы без стоимости в расчет не входят.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div>
+              <div className="text-sm text-muted-foreground mb-1">На дату</div>
+              <Input type="date" className="w-[180px]" value={asOf} onChange={(e) => setAsOf(e.target.value || today())} />
+            </div>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Отдел" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Все отделы</SelectItem>
+                {departments.map(item => (
+                  <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleDownload}>
+              <LucideDownload className="h-4 w-4 mr-2" />
+              Скачать Excel
+            </Button>
+          </div>
+
+          <DataTable
+            data={visibleTotals}
+            columns={totalsColumns}
+            isLoading={isLoading}
+            pageSize={20}
+            noDataMessage="Нет имущества со стоимостью"
+          />
+
+          {report && department === ALL && (
+            <div className="flex flex-wrap gap-6 text-sm font-medium">
+              <div>Всего предметов: {report.total.count}</div>
+              <div>Стоимость: {formatRubles(report.total.cost)}</div>
+              <div>Начислено: {formatRubles(report.total.accumulated)}</div>
+              <div>Остаточная стоимость: {formatRubles(report.total.residualValue)}</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Имущество</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={visibleItems}
+            columns={itemColumns}
+            isLoading={isLoading}
+            pageSize={20}
+            noDataMessage="Нет имущества на балансе"
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
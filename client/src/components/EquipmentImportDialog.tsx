@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import { previewEquipmentImport, importEquipment, downloadEquipmentImportErrors } from "@/lib/api";
+import { LucideDownload, LucideUpload } from "lucide-react";
+
+// Mirrors IMPORT_MODE and IMPORT_ACTION in server/equipment-import.ts
+const MODE_INSERT = "insert";
+const MODE_UPSERT = "upsert";
+
+const actionLabels: Record<string, { name: string, class: string }> = {
+  create: { name: "Добавить", class: "bg-green-100 text-green-800" },
+  update: { name: "Обновить", class: "bg-blue-100 text-blue-800" },
+  skip: { name: "Пропустить", class: "bg-gray-100 text-gray-800" },
+  error: { name: "Ошибка", class: "bg-red-100 text-red-800" }
+};
+
+// Select value for "leave without a holder"
+const NO_EMPLOYEE = "none";
+
+interface EquipmentImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+export default function EquipmentImportDialog({ open, onOpenChange, onImported }: EquipmentImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState(MODE_INSERT);
+  const [employees, setEmployees] = useState<Record<number, number | null>>({});
+  const [preview, setPreview] = useState<any | null>(null);
+  const [issuesOnly, setIssuesOnly] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const { toast } = useToast();
+
+  function reset() {
+    setFile(null);
+    setMode(MODE_INSERT);
+    setEmployees({});
+    setPreview(null);
+    setIssuesOnly(false);
+  }
+
+  function handleOpenChange(value: boolean) {
+    if (!value) {
+      reset();
+    }
+
+    onOpenChange(value);
+  }
+
+  async function runPreview(options: { file: File, mode: string, employees: Record<number, number | null> }) {
+    try {
+      setIsBusy(true);
+      setPreview(await previewEquipmentImport(options));
+    } catch (error: any) {
+      console.error("Failed to preview import:", error);
+      setPreview(null);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: error.message || "Не удалось проверить файл"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  function handleFileChange(event: React.ChangeEvent<HTMLInputElement>) {
+    const selected = event.target.files?.[0] || null;
+    setFile(selected);
+    setEmployees({});
+
+    if (selected) {
+      runPreview({ file: selected, mode, employees: {} });
+    } else {
+      setPreview(null);
+    }
+  }
+
+  function handleModeChange(value: string) {
+    setMode(value);
+
+    if (file) {
+      runPreview({ file, mode: value, employees });
+    }
+  }
+
+  function handleEmployeeChange(rowNumber: number, value: string) {
+    const next = { ...employees, [rowNumber]: value === NO_EMPLOYEE ? null : parseInt(value, 10) };
+    setEmployees(next);
+    runPreview({ file: file!, mode, employees: next });
+  }
+
+  async function handleDownloadErrors() {
+    try {
+      await downloadEquipmentImportErrors({ file: file!, mode, employees });
+    } catch (error: any) {
+      console.error("Failed to download import errors:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: error.message || "Не удалось скачать файл с ошибками"
+      });
+    }
+  }
+
+  async function handleImport() {
+    try {
+      setIsBusy(true);
+      const result = await importEquipment({ file: file!, mode, employees });
+
+      toast({
+        title: "Успешно",
+        description: `Добавлено: ${result.created}, обновлено: ${result.updated}, пропущено: ${result.skipped}, с ошибками: ${result.failed}`
+      });
+
+      handleOpenChange(false);
+      onImported();
+    } catch (error: any) {
+      console.error("Import error:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: error.message || "Не удалось импортировать данные"
+      });
+
+      // The registry may have changed meanwhile, show the current state of the file
+      await runPreview({ file: file!, mode, employees });
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  const summary = preview?.summary || { create: 0, update: 0, skip: 0, error: 0 };
+  const rows = (preview?.rows || []).filter((row: any) =>
+    !issuesOnly || row.action === "error" || row.reasons.length > 0 || row.suggestions.length > 0
+  );
+
+  const columns = [
+    {
+      header: "Строка",
+      accessorKey: "rowNumber"
+    },
+    {
+      header: "Инв. номер",
+      accessorKey: (row: any) => row.inventoryNumber || "—"
+    },
+    {
+      header: "Наименование",
+      accessorKey: (row: any) => row.name || "—"
+    },
+    {
+      header: "Действие",
+      accessorKey: (row: any) => {
+        const action = actionLabels[row.action];
+        return <span className={`px-2 py-1 text-xs rounded-full ${action.class}`}>{action.name}</span>;
+      }
+    },
+    {
+      header: "Сотрудник",
+      accessorKey: (row: any) => {
+        const choice = employees[row.rowNumber];
+
+        // Offer a choice when the name in the file is not an exact match
+        if (row.action === "skip" || (row.suggestions.length === 0 && choice === undefined)) {
+          return row.employee?.name || row.employeeName || "—";
+        }
+
+        return (
+          <div className="space-y-1">
+            <div className="text-xs text-muted-foreground">В файле: {row.employeeName}</div>
+            <Select
+              value={choice === undefined ? undefined : choice === null ? NO_EMPLOYEE : String(choice)}
+              onValueChange={(value) => handleEmployeeChange(row.rowNumber, value)}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Выберите сотрудника" />
+              </SelectTrigger>
+              <SelectContent>
+                {row.suggestions.map((suggestion: any) => (
+                  <SelectItem key={suggestion.userId} value={String(suggestion.userId)}>
+                    {suggestion.name} ({Math.round(suggestion.score * 100)}%)
+                  </SelectItem>
+                ))}
+                {row.employee && !row.suggestions.some((suggestion: any) => suggestion.userId === row.employee.userId) && (
+                  <SelectItem value={String(row.employee.userId)}>{row.employee.name}</SelectItem>
+                )}
+                <SelectItem value={NO_EMPLOYEE}>Без сотрудника</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      }
+    },
+    {
+      header: "Примечания",
+      accessorKey: (row: any) => (
+        <div className={`text-xs ${row.action === "error" ? "text-red-700" : "text-muted-foreground"}`}>
+          {row.reasons.map((reason: string) => <div key={reason}>{reason}</div>)}
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Импорт имущества из Excel</DialogTitle>
+          <DialogDescription>
+            Файл сначала проверяется: ничего не записывается, пока вы не нажмете "Импортировать".
+            Строки с ошибками не загружаются, их можно скачать, исправить и загрузить снова.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <Input type="file" accept=".xlsx,.xls,.csv" className="max-w-xs" onChange={handleFileChange} />
+          <Select value={mode} onValueChange={handleModeChange}>
+            <SelectTrigger className="w-[260px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={MODE_INSERT}>Только новое имущество</SelectItem>
+              <SelectItem value={MODE_UPSERT}>Новое и обновление существующего</SelectItem>
+            </SelectContent>
+          </Select>
+          {preview && (
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={issuesOnly} onChange={(event) => setIssuesOnly(event.target.checked)} />
+              Только строки с примечаниями
+            </label>
+          )}
+        </div>
+
+        {preview && (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <div className="text-green-700">Будет добавлено: {summary.create}</div>
+              <div className="text-blue-700">Будет обновлено: {summary.update}</div>
+              <div className="text-muted-foreground">Пропущено: {summary.skip}</div>
+              <div className="text-red-700">С ошибками: {summary.error}</div>
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto">
+              <DataTable
+                data={rows}
+                columns={columns}
+                isLoading={isBusy}
+                pageSize={50}
+                noDataMessage="В файле нет строк для импорта"
+              />
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          {preview && summary.error > 0 && (
+            <Button variant="outline" onClick={handleDownloadErrors} disabled={isBusy}>
+              <LucideDownload className="h-4 w-4 mr-2" />
+              Скачать строки с ошибками
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Отмена
+          </Button>
+          <Button onClick={handleImport} disabled={isBusy || !preview || summary.create + summary.update === 0}>
+            <LucideUpload className="h-4 w-4 mr-2" />
+            Импортировать ({summary.create + summary.update})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
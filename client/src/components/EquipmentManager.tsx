@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
     Select,
     SelectContent,
@@ -25,13 +26,34 @@ import {
     SelectValue
 } from "@/components/ui/select";
 import { DataTable } from "@/components/ui/data-table";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import EquipmentImportDialog from "@/components/EquipmentImportDialog";
+import EquipmentRepairs from "@/components/EquipmentRepairs";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { getEquipment, getUsers, addEquipment, updateEquipment, getEquipmentHistory } from "@/lib/api";
-import { LucideEdit, LucideSearch, LucideUpload, LucidePlus, LucideHistory, LucideDownload, LucideTrash2 } from "lucide-react";
+import {
+    getEquipment,
+    getUsers,
+    addEquipment,
+    updateEquipment,
+    getEquipmentHistory,
+    getTransferActs,
+    transferEquipment,
+    getTransferActDocumentUrl,
+    getEquipmentLabelsUrl,
+    getEquipmentExportUrl,
+    getLocations,
+    getDepartments
+} from "@/lib/api";
+import { LucideEdit, LucideSearch, LucideUpload, LucidePlus, LucideHistory, LucideDownload, LucideTrash2, LucideFileText, LucideArrowRightLeft, LucideQrCode } from "lucide-react";
 import { queryClient } from "@/lib/queryClient";
-import { EQUIPMENT_STATUS } from "@shared/schema";
+import { EQUIPMENT_STATUS, RECEIPT_STATUS } from "@shared/schema";
 
 const equipmentFormSchema = z.object({
     id: z.number().optional(),
@@ -40,9 +62,23 @@ const equipmentFormSchema = z.object({
     type: z.string().min(1, "Тип обязателен"),
     status: z.string().min(1, "Статус обязателен"),
     assignedToUserId: z.number().nullable().optional(),
-    description: z.string().optional()
+    departmentId: z.number().nullable().optional(),
+    locationId: z.number().nullable().optional(),
+    description: z.string().optional(),
+    purchaseDate: z.string().optional(),
+    purchaseCost: z.string().regex(/^(\d+([.,]\d{1,2})?)?$/, "Укажите сумму, например 45000,50").optional(),
+    supplier: z.string().optional(),
+    invoiceNumber: z.string().optional(),
+    warrantyEndDate: z.string().optional(),
+    usefulLifeMonths: z.string().regex(/^\d*$/, "Укажите количество месяцев").optional()
 });
 
+// Select value for "no filter"
+const ALL_FILTER = "all";
+
+// Label sheet formats offered for printing, labels per A4 sheet
+const LABELS_PER_PAGE_OPTIONS = ["8", "21", "24", "40"];
+
 const statusLabels = {
     [EQUIPMENT_STATUS.ACTIVE]: { name: "Активно", class: "bg-green-100 text-green-800" },
     [EQUIPMENT_STATUS.STORAGE]: { name: "На складе", class: "bg-gray-100 text-gray-800" },
@@ -51,6 +87,12 @@ const statusLabels = {
     [EQUIPMENT_STATUS.WRITTEN_OFF]: { name: "Списано", class: "bg-red-300 text-red-900" }
 };
 
+const receiptLabels = {
+    [RECEIPT_STATUS.PENDING]: { name: "Ожидает подтверждения", class: "bg-yellow-100 text-yellow-800" },
+    [RECEIPT_STATUS.CONFIRMED]: { name: "Получение подтверждено", class: "bg-green-100 text-green-800" },
+    [RECEIPT_STATUS.REJECTED]: { name: "Не получал", class: "bg-red-100 text-red-800" }
+};
+
 const EQUIPMENT_TYPES = [
     "Ноутбук",
     "Монитор",
@@ -88,17 +130,34 @@ async function deleteEquipment(id: number): Promise<void> {
     }
 }
 
-export default function EquipmentManager() {
+// Department heads without access to the section only see the equipment of their departments,
+// without changing it
+export default function EquipmentManager({ readOnly = false }: { readOnly?: boolean }) {
     const [equipment, setEquipment] = useState<any[]>([]);
     const [users, setUsers] = useState<any[]>([]);
+    const [locations, setLocations] = useState<any[]>([]);
+    const [departments, setDepartments] = useState<any[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isDialogOpen, setIsDialogOpen] = useState(false);
     const [isHistoryDialogOpen, setIsHistoryDialogOpen] = useState(false);
     const [selectedEquipment, setSelectedEquipment] = useState<any | null>(null);
     const [equipmentHistory, setEquipmentHistory] = useState<any[]>([]);
     const [isHistoryLoading, setIsHistoryLoading] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<number[]>([]);
+    const [isTransferDialogOpen, setIsTransferDialogOpen] = useState(false);
+    const [transferToUserId, setTransferToUserId] = useState<string>("");
+    const [isActsDialogOpen, setIsActsDialogOpen] = useState(false);
+    const [actsTitle, setActsTitle] = useState("");
+    const [transferActs, setTransferActs] = useState<any[]>([]);
+    const [isActsLoading, setIsActsLoading] = useState(false);
+    const [labelsPerPage, setLabelsPerPage] = useState("24");
+    const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
     const [searchInventory, setSearchInventory] = useState("");
     const [searchEmployee, setSearchEmployee] = useState("");
+    const [filterStatus, setFilterStatus] = useState(ALL_FILTER);
+    const [filterType, setFilterType] = useState(ALL_FILTER);
+    const [filterDepartment, setFilterDepartment] = useState(ALL_FILTER);
+    const [filterLocation, setFilterLocation] = useState(ALL_FILTER);
     const { toast } = useToast();
 
     const form = useForm<z.infer<typeof equipmentFormSchema>>({
@@ -116,6 +175,11 @@ export default function EquipmentManager() {
     useEffect(() => {
         fetchEquipment();
         fetchUsers();
+        fetchDepartments();
+
+        if (!readOnly) {
+            fetchLocations();
+        }
     }, []);
 
     useEffect(() => {
@@ -127,7 +191,15 @@ export default function EquipmentManager() {
                 type: selectedEquipment.type,
                 status: selectedEquipment.status,
                 assignedToUserId: selectedEquipment.assignedToUserId || null,
-                description: selectedEquipment.description || ""
+                departmentId: selectedEquipment.departmentId || null,
+                locationId: selectedEquipment.locationId || null,
+                description: selectedEquipment.description || "",
+                purchaseDate: selectedEquipment.purchaseDate || "",
+                purchaseCost: selectedEquipment.purchaseCost || "",
+                supplier: selectedEquipment.supplier || "",
+                invoiceNumber: selectedEquipment.invoiceNumber || "",
+                warrantyEndDate: selectedEquipment.warrantyEndDate || "",
+                usefulLifeMonths: selectedEquipment.usefulLifeMonths ? String(selectedEquipment.usefulLifeMonths) : ""
             });
         } else {
             form.reset({
@@ -136,15 +208,35 @@ export default function EquipmentManager() {
                 type: "",
                 status: EQUIPMENT_STATUS.STORAGE,
                 assignedToUserId: null,
-                description: ""
+                departmentId: null,
+                locationId: null,
+                description: "",
+                purchaseDate: "",
+                purchaseCost: "",
+                supplier: "",
+                invoiceNumber: "",
+                warrantyEndDate: "",
+                usefulLifeMonths: ""
             });
         }
     }, [selectedEquipment, form]);
 
+    // The search panel filters, used for the list and its export
+    function currentFilters() {
+        return {
+            inventoryNumber: searchInventory.trim(),
+            employeeName: searchEmployee.trim(),
+            status: filterStatus === ALL_FILTER ? undefined : filterStatus,
+            type: filterType === ALL_FILTER ? undefined : filterType,
+            departmentId: filterDepartment === ALL_FILTER ? undefined : filterDepartment,
+            locationId: filterLocation === ALL_FILTER ? undefined : filterLocation
+        };
+    }
+
     async function fetchEquipment() {
         try {
             setIsLoading(true);
-            const data = await getEquipment();
+            const data = await getEquipment(currentFilters());
             setEquipment(Array.isArray(data) ? data : []);
         } catch (error) {
             console.error("Failed to fetch equipment:", error);
@@ -167,6 +259,26 @@ export default function EquipmentManager() {
         }
     }
 
+    async function fetchLocations() {
+        try {
+            const data = await getLocations();
+            setLocations(Array.isArray(data)
+                ? data.sort((a: any, b: any) => a.path.localeCompare(b.path, 'ru', { numeric: true }))
+                : []);
+        } catch (error) {
+            console.error("Failed to fetch locations:", error);
+        }
+    }
+
+    async function fetchDepartments() {
+        try {
+            const data = await getDepartments();
+            setDepartments(Array.isArray(data) ? data : []);
+        } catch (error) {
+            console.error("Failed to fetch departments:", error);
+        }
+    }
+
     async function fetchEquipmentHistory(equipmentId: number) {
         if (!equipmentId) return;
 
@@ -186,43 +298,64 @@ export default function EquipmentManager() {
         }
     }
 
-    const handleFileImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
-        if (!event.target.files?.length) return;
-
-        const file = event.target.files[0];
-        const formData = new FormData();
-        formData.append('file', file);
+    async function openTransferActs(title: string, equipmentId?: number) {
+        setActsTitle(title);
+        setTransferActs([]);
+        setIsActsDialogOpen(true);
 
         try {
-            const response = await fetch('/api/equipment/import', {
-                method: 'POST',
-                body: formData
+            setIsActsLoading(true);
+            const data = await getTransferActs(equipmentId);
+            setTransferActs(Array.isArray(data) ? data : []);
+        } catch (error) {
+            console.error("Failed to fetch transfer acts:", error);
+            toast({
+                variant: "destructive",
+                title: "Ошибка",
+                description: "Не удалось загрузить акты приема-передачи"
             });
+        } finally {
+            setIsActsLoading(false);
+        }
+    }
 
-            if (!response.ok) {
-                const error = await response.json();
-                throw new Error(error.message || 'Import failed');
-            }
+    function toggleSelected(equipmentId: number, checked: boolean) {
+        setSelectedIds(prev => checked
+            ? [...prev, equipmentId]
+            : prev.filter(id => id !== equipmentId));
+    }
+
+    function handleOpenTransferDialog() {
+        setTransferToUserId("");
+        setIsTransferDialogOpen(true);
+    }
+
+    async function handleTransfer() {
+        try {
+            const toUserId = transferToUserId === "warehouse" ? null : parseInt(transferToUserId, 10);
+            const acts = await transferEquipment(selectedIds, toUserId);
+
+            setIsTransferDialogOpen(false);
+            setSelectedIds([]);
+            await fetchEquipment();
 
             toast({
                 title: "Успешно",
-                description: "Данные импортированы"
+                description: `Оформлено актов: ${acts.length}`
             });
 
-            await fetchEquipment();
-        } catch (error: any) {
-            console.error('Import error:', error);
+            setActsTitle("Оформленные акты");
+            setTransferActs(acts);
+            setIsActsDialogOpen(true);
+        } catch (error) {
+            console.error("Failed to transfer equipment:", error);
             toast({
                 variant: "destructive",
                 title: "Ошибка",
-                description: error.message || "Не удалось импортировать данные"
+                description: "Не удалось оформить передачу имущества"
             });
-        } finally {
-            if (event.target) {
-                event.target.value = '';
-            }
         }
-    };
+    }
 
     async function handleDeleteEquipment(equipmentId: number) {
         if (!window.confirm("Вы уверены, что хотите удалить это имущество? Это действие нельзя отменить.")) {
@@ -273,8 +406,15 @@ export default function EquipmentManager() {
             const formData = {
                 ...values,
                 assignedToUserId: values.assignedToUserId || null,
-                department: values.department || null,
-                description: values.description || null
+                departmentId: values.departmentId || null,
+                locationId: values.locationId || null,
+                description: values.description || null,
+                purchaseDate: values.purchaseDate || null,
+                purchaseCost: values.purchaseCost ? values.purchaseCost.replace(",", ".") : null,
+                supplier: values.supplier || null,
+                invoiceNumber: values.invoiceNumber || null,
+                warrantyEndDate: values.warrantyEndDate || null,
+                usefulLifeMonths: values.usefulLifeMonths ? parseInt(values.usefulLifeMonths, 10) : null
             };
 
             if (selectedEquipment?.id) {
@@ -292,6 +432,11 @@ export default function EquipmentManager() {
                     ? "Данные имущества обновлены"
                     : "Имущество успешно добавлено"
             });
+
+            // A change of holder produces a transfer act, offer it right away
+            if (selectedEquipment?.id && (selectedEquipment.assignedToUserId || null) !== formData.assignedToUserId) {
+                await openTransferActs(`Акты: ${selectedEquipment.name} (${selectedEquipment.inventoryNumber})`, selectedEquipment.id);
+            }
         } catch (error) {
             console.error("Failed to save equipment:", error);
             toast({
@@ -302,7 +447,19 @@ export default function EquipmentManager() {
         }
     }
 
-    const columns = [
+    const unconfirmedCount = equipment.filter(item => item.receiptStatus && item.receiptStatus !== RECEIPT_STATUS.CONFIRMED).length;
+
+    const allColumns = [
+        {
+            header: "",
+            accessorKey: (row: any) => (
+                <Checkbox
+                    checked={selectedIds.includes(row.id)}
+                    onCheckedChange={(checked) => toggleSelected(row.id, checked === true)}
+                    aria-label="Выбрать"
+                />
+            )
+        },
         {
             header: "Инв. номер",
             accessorKey: "inventoryNumber"
@@ -315,13 +472,37 @@ export default function EquipmentManager() {
             header: "Тип",
             accessorKey: "type"
         },
+        {
+            header: "Отдел",
+            accessorKey: (row: any) => row.department?.name || "—"
+        },
+        {
+            header: "Местоположение",
+            accessorKey: (row: any) => locations.find(location => location.id === row.locationId)?.path || "—"
+        },
         {
             header: "Закреплено за",
             accessorKey: (row: any) => {
                 const user = users.find(u => u.id === row.assignedToUserId);
-                return user
-                    ? `${user.lastName || ''} ${user.firstName || ''}`
-                    : "—";
+                const receipt = receiptLabels[row.receiptStatus as keyof typeof receiptLabels];
+
+                if (!user) {
+                    return "—";
+                }
+
+                return (
+                    <div>
+                        <div>{`${user.lastName || ''} ${user.firstName || ''}`}</div>
+                        {receipt && (
+                            <span
+                                className={`px-2 py-0.5 text-xs rounded-full ${receipt.class}`}
+                                title={row.receiptAnsweredAt ? new Date(row.receiptAnsweredAt).toLocaleString('ru-RU') : undefined}
+                            >
+                                {receipt.name}
+                            </span>
+                        )}
+                    </div>
+                );
             }
         },
         {
@@ -359,6 +540,16 @@ export default function EquipmentManager() {
                         <LucideHistory className="h-4 w-4" />
                         <span className="sr-only">История</span>
                     </Button>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openTransferActs(`Акты: ${row.name} (${row.inventoryNumber})`, row.id)}
+                        className="text-muted-foreground hover:text-foreground"
+                        title="Акты приема-передачи"
+                    >
+                        <LucideFileText className="h-4 w-4" />
+                        <span className="sr-only">Акты приема-передачи</span>
+                    </Button>
                     <Button
                         variant="ghost"
                         size="icon"
@@ -374,6 +565,9 @@ export default function EquipmentManager() {
         }
     ];
 
+    // Selection and actions need the access to the section
+    const columns = readOnly ? allColumns.slice(1, -1) : allColumns;
+
     const historyColumns = [
         {
             header: "Действие",
@@ -400,6 +594,46 @@ export default function EquipmentManager() {
         }
     ];
 
+    const actColumns = [
+        {
+            header: "№",
+            accessorKey: "number"
+        },
+        {
+            header: "Дата",
+            accessorKey: (row: any) => new Date(row.createdAt).toLocaleDateString('ru-RU')
+        },
+        {
+            header: "Передал",
+            accessorKey: "fromName"
+        },
+        {
+            header: "Принял",
+            accessorKey: "toName"
+        },
+        {
+            header: "Имущество",
+            accessorKey: (row: any) => (
+                <div className="max-w-xs truncate" title={row.items?.map((item: any) => item.inventoryNumber).join(", ")}>
+                    {row.items?.map((item: any) => item.inventoryNumber).join(", ")}
+                </div>
+            )
+        },
+        {
+            header: "",
+            accessorKey: (row: any) => (
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => window.location.href = getTransferActDocumentUrl(row.id)}
+                >
+                    <LucideDownload className="h-4 w-4 mr-1" />
+                    DOCX
+                </Button>
+            )
+        }
+    ];
+
     return (
         <>
             {/* Search Panel */}
@@ -422,6 +656,58 @@ export default function EquipmentManager() {
                                 onChange={(e) => setSearchEmployee(e.target.value)}
                             />
                         </div>
+                        <div className="w-[180px]">
+                            <Select value={filterStatus} onValueChange={setFilterStatus}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL_FILTER}>Все статусы</SelectItem>
+                                    {Object.entries(statusLabels).map(([status, label]) => (
+                                        <SelectItem key={status} value={status}>{label.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="w-[200px]">
+                            <Select value={filterType} onValueChange={setFilterType}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL_FILTER}>Все типы</SelectItem>
+                                    {Array.from(new Set(EQUIPMENT_TYPES)).map(type => (
+                                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="w-[180px]">
+                            <Select value={filterDepartment} onValueChange={setFilterDepartment}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL_FILTER}>Все отделы</SelectItem>
+                                    {departments.map(department => (
+                                        <SelectItem key={department.id} value={department.id.toString()}>{department.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="w-[220px]">
+                            <Select value={filterLocation} onValueChange={setFilterLocation}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL_FILTER}>Все местоположения</SelectItem>
+                                    {locations.map(location => (
+                                        <SelectItem key={location.id} value={location.id.toString()}>{location.path}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
                         <div className="w-auto">
                             <Button
                                 variant="secondary"
@@ -437,33 +723,89 @@ export default function EquipmentManager() {
                     <div className="flex justify-between items-center">
                         <div className="text-sm text-muted-foreground">
                             Найдено: {equipment.length}
+                            {unconfirmedCount > 0 && (
+                                <span className="text-yellow-800">, без подтверждения получения: {unconfirmedCount}</span>
+                            )}
+                            {selectedIds.length > 0 && <>, выбрано: {selectedIds.length}</>}
                         </div>
                         <div className="flex space-x-2">
-                            <Button
-                                onClick={handleOpenAddDialog}
-                                className="bg-primary text-primary-foreground"
-                            >
-                                <LucidePlus className="h-4 w-4 mr-2" />
-                                Добавить
-                            </Button>
-                            <div className="flex space-x-2">
-                                <Button variant="outline" onClick={() => window.location.href = '/api/equipment/template'}>
-                                    <LucideDownload className="h-4 w-4 mr-2" />
-                                    Скачать шаблон
+                            {!readOnly && selectedIds.length > 0 && (
+                                <Button variant="outline" onClick={handleOpenTransferDialog}>
+                                    <LucideArrowRightLeft className="h-4 w-4 mr-2" />
+                                    Передать
+                                </Button>
+                            )}
+                            {!readOnly && selectedIds.length > 0 && (
+                                <div className="flex">
+                                    <Select value={labelsPerPage} onValueChange={setLabelsPerPage}>
+                                        <SelectTrigger className="w-[110px] rounded-r-none" title="Этикеток на листе A4">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {LABELS_PER_PAGE_OPTIONS.map(option => (
+                                                <SelectItem key={option} value={option}>
+                                                    {option} на листе
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <Button
+                                        variant="outline"
+                                        className="rounded-l-none border-l-0"
+                                        onClick={() => window.location.href = getEquipmentLabelsUrl(selectedIds, Number(labelsPerPage))}
+                                    >
+                                        <LucideQrCode className="h-4 w-4 mr-2" />
+                                        Этикетки
+                                    </Button>
+                                </div>
+                            )}
+                            {!readOnly && (
+                                <Button variant="outline" onClick={() => openTransferActs("Акты приема-передачи")}>
+                                    <LucideFileText className="h-4 w-4 mr-2" />
+                                    Акты
                                 </Button>
-                                <label className="cursor-pointer">
-                                    <Button variant="outline" onClick={() => document.getElementById('fileInput')?.click()}>
+                            )}
+                            {!readOnly && (
+                                <Button
+                                    onClick={handleOpenAddDialog}
+                                    className="bg-primary text-primary-foreground"
+                                >
+                                    <LucidePlus className="h-4 w-4 mr-2" />
+                                    Добавить
+                                </Button>
+                            )}
+                            <div className="flex space-x-2">
+                                <DropdownMenu>
+                                    <DropdownMenuTrigger asChild>
+                                        <Button variant="outline">
+                                            <LucideDownload className="h-4 w-4 mr-2" />
+                                            Экспорт
+                                        </Button>
+                                    </DropdownMenuTrigger>
+                                    <DropdownMenuContent>
+                                        <DropdownMenuItem onClick={() => window.location.href = getEquipmentExportUrl(currentFilters(), "xlsx")}>
+                                            Excel
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem onClick={() => window.location.href = getEquipmentExportUrl(currentFilters(), "xlsx", true)}>
+                                            Excel с историей
+                                        </DropdownMenuItem>
+                                        <DropdownMenuItem onClick={() => window.location.href = getEquipmentExportUrl(currentFilters(), "csv")}>
+                                            CSV
+                                        </DropdownMenuItem>
+                                    </DropdownMenuContent>
+                                </DropdownMenu>
+                                {!readOnly && (
+                                    <Button variant="outline" onClick={() => window.location.href = '/api/equipment/template'}>
+                                        <LucideDownload className="h-4 w-4 mr-2" />
+                                        Скачать шаблон
+                                    </Button>
+                                )}
+                                {!readOnly && (
+                                    <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
                                         <LucideUpload className="h-4 w-4 mr-2" />
                                         Импорт
                                     </Button>
-                                    <input
-                                        id="fileInput"
-                                        type="file"
-                                        accept=".xlsx,.xls"
-                                        className="hidden"
-                                        onChange={handleFileImport}
-                                    />
-                                </label>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -483,7 +825,7 @@ export default function EquipmentManager() {
 
             {/* Add/Edit Equipment Dialog */}
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-                <DialogContent>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                         <DialogTitle>
                             {selectedEquipment ? "Редактировать имущество" : "Добавить имущество"}
@@ -610,6 +952,74 @@ export default function EquipmentManager() {
                                 )}
                             />
 
+                            <FormField
+                                control={form.control}
+                                name="departmentId"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Отдел</FormLabel>
+                                        <Select
+                                            value={field.value?.toString() || ""}
+                                            onValueChange={(value) =>
+                                                field.onChange(value === "null" ? null : parseInt(value, 10))
+                                            }
+                                        >
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Выберите отдел" />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                <SelectItem value="null">Не указан</SelectItem>
+                                                {departments.map((department) => (
+                                                    <SelectItem
+                                                        key={department.id}
+                                                        value={department.id.toString()}
+                                                    >
+                                                        {department.name}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="locationId"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Местоположение</FormLabel>
+                                        <Select
+                                            value={field.value?.toString() || ""}
+                                            onValueChange={(value) =>
+                                                field.onChange(value === "null" ? null : parseInt(value, 10))
+                                            }
+                                        >
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Выберите помещение" />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                <SelectItem value="null">Не указано</SelectItem>
+                                                {locations.map((location) => (
+                                                    <SelectItem
+                                                        key={location.id}
+                                                        value={location.id.toString()}
+                                                    >
+                                                        {location.path}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+
                             <FormField
                                 control={form.control}
                                 name="description"
@@ -624,6 +1034,87 @@ export default function EquipmentManager() {
                                 )}
                             />
 
+                            <div className="grid grid-cols-2 gap-4">
+                                <FormField
+                                    control={form.control}
+                                    name="purchaseDate"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Дата покупки</FormLabel>
+                                            <FormControl>
+                                                <Input type="date" {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name="purchaseCost"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Стоимость, ₽</FormLabel>
+                                            <FormControl>
+                                                <Input inputMode="decimal" placeholder="0,00" {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name="supplier"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Поставщик</FormLabel>
+                                            <FormControl>
+                                                <Input {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name="invoiceNumber"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Номер счета</FormLabel>
+                                            <FormControl>
+                                                <Input {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name="warrantyEndDate"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Гарантия до</FormLabel>
+                                            <FormControl>
+                                                <Input type="date" {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                                <FormField
+                                    control={form.control}
+                                    name="usefulLifeMonths"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Срок полезного использования (мес.)</FormLabel>
+                                            <FormControl>
+                                                <Input type="number" min={1} {...field} />
+                                            </FormControl>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+
                             <DialogFooter>
                                 <Button type="submit" className="w-full">
                                     {selectedEquipment ? "Обновить" : "Добавить"}
@@ -653,6 +1144,16 @@ export default function EquipmentManager() {
                         />
                     </div>
 
+                    {!readOnly && selectedEquipment && (
+                        <EquipmentRepairs
+                            equipment={selectedEquipment}
+                            onStatusChange={() => {
+                                fetchEquipment();
+                                fetchEquipmentHistory(selectedEquipment.id);
+                            }}
+                        />
+                    )}
+
                     <DialogFooter>
                         <Button
                             variant="outline"
@@ -663,6 +1164,81 @@ export default function EquipmentManager() {
                     </DialogFooter>
                 </DialogContent>
             </Dialog>
+
+            {/* Batch Transfer Dialog */}
+            <Dialog open={isTransferDialogOpen} onOpenChange={setIsTransferDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Передача имущества</DialogTitle>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="text-sm text-muted-foreground">
+                            Выбрано предметов: {selectedIds.length}. На каждого прежнего владельца будет оформлен отдельный акт приема-передачи.
+                        </div>
+                        <Select value={transferToUserId} onValueChange={setTransferToUserId}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="Кому передать" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="warehouse">Склад</SelectItem>
+                                {users.map((user) => (
+                                    <SelectItem
+                                        key={user.id}
+                                        value={user.id.toString()}
+                                    >
+                                        {user.lastName} {user.firstName} ({user.username})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+
+                    <DialogFooter>
+                        <Button
+                            className="w-full"
+                            onClick={handleTransfer}
+                            disabled={!transferToUserId}
+                        >
+                            Оформить передачу
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            {/* Transfer Acts Dialog */}
+            <Dialog open={isActsDialogOpen} onOpenChange={setIsActsDialogOpen}>
+                <DialogContent className="max-w-3xl">
+                    <DialogHeader>
+                        <DialogTitle>{actsTitle}</DialogTitle>
+                    </DialogHeader>
+
+                    <div className="max-h-[500px] overflow-y-auto">
+                        <DataTable
+                            data={transferActs}
+                            columns={actColumns}
+                            isLoading={isActsLoading}
+                            pageSize={10}
+                            noDataMessage="Акты не найдены"
+                        />
+                    </div>
+
+                    <DialogFooter>
+                        <Button
+                            variant="outline"
+                            onClick={() => setIsActsDialogOpen(false)}
+                        >
+                            Закрыть
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+
+            <EquipmentImportDialog
+                open={isImportDialogOpen}
+                onOpenChange={setIsImportDialogOpen}
+                onImported={fetchEquipment}
+            />
         </>
     );
 }
\ No newline at end of file
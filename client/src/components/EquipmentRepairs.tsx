@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import { getRepairOrders, createRepairOrder, updateRepairOrder, completeRepairOrder, getTasks } from "@/lib/api";
+import { LucideEdit, LucideUndo2, LucideWrench } from "lucide-react";
+import { TASK_STATUS } from "@shared/schema";
+
+// Select value for a repair not linked to a task
+const NO_TASK = "none";
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString('ru-RU') : "—";
+}
+
+function formatRubles(value: string | null): string {
+  return value ? `${Number(value).toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽` : "—";
+}
+
+interface EquipmentRepairsProps {
+  equipment: any;
+  // Called when a repair changed the status of the equipment
+  onStatusChange?: () => void;
+}
+
+export default function EquipmentRepairs({ equipment, onStatusChange }: EquipmentRepairsProps) {
+  const [orders, setOrders] = useState<any[]>([]);
+  const [tasks, setTasks] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Repair being edited, null for a new one; undefined while the dialog is closed
+  const [editTarget, setEditTarget] = useState<any | null | undefined>(undefined);
+  const [vendor, setVendor] = useState("");
+  const [issue, setIssue] = useState("");
+  const [sentAt, setSentAt] = useState(today());
+  const [isWarranty, setIsWarranty] = useState(false);
+  const [taskId, setTaskId] = useState(NO_TASK);
+  const [cost, setCost] = useState("");
+  const [returnTarget, setReturnTarget] = useState<any | null>(null);
+  const [returnedAt, setReturnedAt] = useState(today());
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchOrders();
+
+    // Tasks need access to their section, without it repairs are not linked to tasks
+    getTasks()
+      .then(data => setTasks(Array.isArray(data) ? data : []))
+      .catch(() => setTasks([]));
+  }, [equipment.id]);
+
+  async function fetchOrders() {
+    try {
+      setIsLoading(true);
+      setOrders(await getRepairOrders({ equipmentId: equipment.id }));
+    } catch (error) {
+      console.error("Failed to fetch repair orders:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить ремонты"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function openEdit(order: any | null) {
+    setEditTarget(order);
+    setVendor(order?.vendor || "");
+    setIssue(order?.issue || "");
+    setSentAt(order?.sentAt || today());
+    setIsWarranty(!!order?.isWarranty);
+    setTaskId(order?.taskId ? String(order.taskId) : NO_TASK);
+    setCost(order?.cost || "");
+  }
+
+  function openReturn(order: any) {
+    setReturnTarget(order);
+    setReturnedAt(today());
+    setCost(order.cost || "");
+  }
+
+  async function handleSave() {
+    const data = {
+      vendor: vendor.trim(),
+      issue: issue.trim() || null,
+      sentAt,
+      isWarranty,
+      taskId: taskId === NO_TASK ? null : Number(taskId),
+      ...(editTarget ? { cost: cost.trim() ? cost.trim().replace(",", ".") : null } : {})
+    };
+
+    try {
+      setIsSaving(true);
+
+      if (editTarget) {
+        await updateRepairOrder(editTarget.id, data);
+      } else {
+        await createRepairOrder(equipment.id, data);
+        onStatusChange?.();
+      }
+
+      setEditTarget(undefined);
+      await fetchOrders();
+    } catch (error) {
+      console.error("Failed to save repair order:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось сохранить ремонт"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleReturn() {
+    try {
+      setIsSaving(true);
+      await completeRepairOrder(returnTarget.id, {
+        returnedAt,
+        cost: cost.trim() ? cost.trim().replace(",", ".") : null
+      });
+
+      setReturnTarget(null);
+      await fetchOrders();
+      onStatusChange?.();
+
+      toast({
+        title: "Успешно",
+        description: "Имущество возвращено из ремонта"
+      });
+    } catch (error) {
+      console.error("Failed to complete repair order:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось завершить ремонт. Проверьте дату возврата и стоимость."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const hasOpenOrder = orders.some(order => !order.returnedAt);
+  // The linked task is offered even when it is already completed
+  const taskOptions = tasks.filter(task => task.status !== TASK_STATUS.COMPLETED || String(task.id) === taskId);
+
+  const columns = [
+    {
+      header: "Сервисный центр",
+      accessorKey: (row: any) => (
+        <div>
+          <div>{row.vendor || "Не указан"}{row.isWarranty ? " (гарантия)" : ""}</div>
+          {row.issue && <div className="text-xs text-muted-foreground">{row.issue}</div>}
+          {row.task && <div className="text-xs text-muted-foreground">Задача: {row.task.title}</div>}
+        </div>
+      )
+    },
+    {
+      header: "Отправлено",
+      accessorKey: (row: any) => formatDate(row.sentAt)
+    },
+    {
+      header: "Возвращено",
+      accessorKey: (row: any) => row.returnedAt ? formatDate(row.returnedAt) : "В ремонте"
+    },
+    {
+      header: "Дней",
+      accessorKey: "days"
+    },
+    {
+      header: "Стоимость",
+      accessorKey: (row: any) => formatRubles(row.cost)
+    },
+    {
+      header: "",
+      accessorKey: (row: any) => (
+        <div className="flex justify-end gap-1">
+          {!row.returnedAt && (
+            <Button variant="ghost" size="sm" title="Вернуть из ремонта" onClick={() => openReturn(row)}>
+              <LucideUndo2 className="h-4 w-4" />
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" title="Изменить" onClick={() => openEdit(row)}>
+            <LucideEdit className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="font-medium">Ремонты</h3>
+        {!hasOpenOrder && (
+          <Button variant="outline" size="sm" onClick={() => openEdit(null)}>
+            <LucideWrench className="h-4 w-4 mr-2" />
+            Отправить в ремонт
+          </Button>
+        )}
+      </div>
+
+      <DataTable
+        data={orders}
+        columns={columns}
+        isLoading={isLoading}
+        pageSize={5}
+        noDataMessage="Ремонтов не было"
+      />
+
+      <Dialog open={editTarget !== undefined} onOpenChange={(open) => !open && setEditTarget(undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editTarget ? "Ремонт" : `В ремонт: ${equipment.name} (${equipment.inventoryNumber})`}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Сервисный центр</Label>
+              <Input placeholder="Например: Сервис-Центр на Ленина" value={vendor} onChange={(e) => setVendor(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Неисправность</Label>
+              <Input value={issue} onChange={(e) => setIssue(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Дата отправки</Label>
+                <Input type="date" value={sentAt} onChange={(e) => setSentAt(e.target.value)} />
+              </div>
+              {editTarget?.returnedAt && (
+                <div className="space-y-2">
+                  <Label>Стоимость, ₽</Label>
+                  <Input value={cost} onChange={(e) => setCost(e.target.value)} />
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Задача</Label>
+              <Select value={taskId} onValueChange={setTaskId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TASK}>Без задачи</SelectItem>
+                  {taskOptions.map(task => (
+                    <SelectItem key={task.id} value={String(task.id)}>{task.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox id="repair-warranty" checked={isWarranty} onCheckedChange={(checked) => setIsWarranty(checked === true)} />
+              <Label htmlFor="repair-warranty">Гарантийный ремонт</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTarget(undefined)}>
+              Отмена
+            </Button>
+            <Button onClick={handleSave} disabled={!vendor.trim() || !sentAt || isSaving}>
+              {editTarget ? "Сохранить" : "Отправить"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!returnTarget} onOpenChange={(open) => !open && setReturnTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Возврат из ремонта</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Имуществу вернется статус, который был до ремонта.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Дата возврата</Label>
+              <Input type="date" value={returnedAt} min={returnTarget?.sentAt} onChange={(e) => setReturnedAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Стоимость, ₽</Label>
+              <Input
+                placeholder={returnTarget?.isWarranty ? "0 — гарантийный" : ""}
+                value={cost}
+                onChange={(e) => setCost(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReturnTarget(null)}>
+              Отмена
+            </Button>
+            <Button onClick={handleReturn} disabled={!returnedAt || isSaving}>
+              Вернуть
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,454 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  getLicenses,
+  createLicense,
+  updateLicense,
+  deleteLicense,
+  getLicenseKey,
+  assignLicenseSeat,
+  removeLicenseSeat,
+  getUsers,
+  getEquipment
+} from "@/lib/api";
+import { LucideEdit, LucideKeyRound, LucidePlus, LucideTrash2, LucideUsers, LucideX } from "lucide-react";
+
+// Licenses ending within this many days are highlighted, as in the sysadmin alert
+const EXPIRY_SOON_DAYS = 30;
+
+// Who a new seat is given to
+const SEAT_USER = "user";
+const SEAT_EQUIPMENT = "equipment";
+
+function userName(user: any): string {
+  return `${user.lastName || ''} ${user.firstName || ''}`.trim() || user.username || "Без имени";
+}
+
+function seatHolder(seat: any): string {
+  if (seat.user) {
+    return userName(seat.user);
+  }
+
+  return seat.equipment ? `${seat.equipment.name} (${seat.equipment.inventoryNumber})` : "—";
+}
+
+function expiryClass(value: string | null): string {
+  if (!value) {
+    return "";
+  }
+
+  const daysLeft = (new Date(value).getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+
+  if (daysLeft < 0) {
+    return "text-destructive font-medium";
+  }
+
+  return daysLeft <= EXPIRY_SOON_DAYS ? "text-orange-600 font-medium" : "";
+}
+
+interface LicenseManagerProps {
+  // Changes, seats and keys are hidden from viewers
+  canEdit: boolean;
+}
+
+export default function LicenseManager({ canEdit }: LicenseManagerProps) {
+  const [licenses, setLicenses] = useState<any[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
+  const [equipment, setEquipment] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // License being edited, null for a new one; undefined while the dialog is closed
+  const [editTarget, setEditTarget] = useState<any | null | undefined>(undefined);
+  const [product, setProduct] = useState("");
+  const [seats, setSeats] = useState("1");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [key, setKey] = useState("");
+  const [removeKey, setRemoveKey] = useState(false);
+  const [notes, setNotes] = useState("");
+  // License whose seats are shown, kept by id so that it follows reloads
+  const [seatsLicenseId, setSeatsLicenseId] = useState<number | null>(null);
+  const [seatKind, setSeatKind] = useState(SEAT_USER);
+  const [seatTargetId, setSeatTargetId] = useState("");
+  const [revealed, setRevealed] = useState<{ product: string, key: string | null } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    try {
+      setIsLoading(true);
+      setLicenses(await getLicenses());
+
+      // Seats are only given by editors
+      if (canEdit) {
+        const [userList, equipmentList] = await Promise.all([getUsers(), getEquipment()]);
+        setUsers(Array.isArray(userList) ? userList : []);
+        setEquipment(Array.isArray(equipmentList) ? equipmentList : []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch licenses:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить лицензии"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function openEdit(license: any | null) {
+    setEditTarget(license);
+    setProduct(license?.product || "");
+    setSeats(license ? String(license.seats) : "1");
+    setExpiresAt(license?.expiresAt || "");
+    setKey("");
+    setRemoveKey(false);
+    setNotes(license?.notes || "");
+  }
+
+  async function handleSave() {
+    const data = {
+      product: product.trim(),
+      seats: Number(seats),
+      expiresAt: expiresAt || null,
+      notes: notes.trim() || null,
+      // An empty field keeps the stored key
+      ...(removeKey ? { key: null } : key.trim() ? { key: key.trim() } : {})
+    };
+
+    try {
+      setIsSaving(true);
+
+      if (editTarget) {
+        await updateLicense(editTarget.id, data);
+      } else {
+        await createLicense(data);
+      }
+
+      setEditTarget(undefined);
+      await fetchData();
+    } catch (error) {
+      console.error("Failed to save license:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось сохранить лицензию"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete(license: any) {
+    if (!confirm(`Удалить лицензию "${license.product}" вместе с выделенными местами?`)) {
+      return;
+    }
+
+    try {
+      await deleteLicense(license.id);
+      await fetchData();
+    } catch (error) {
+      console.error("Failed to delete license:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось удалить лицензию"
+      });
+    }
+  }
+
+  async function handleReveal(license: any) {
+    try {
+      const { key } = await getLicenseKey(license.id);
+      setRevealed({ product: license.product, key });
+    } catch (error) {
+      console.error("Failed to fetch license key:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить ключ"
+      });
+    }
+  }
+
+  async function handleAssign() {
+    try {
+      setIsSaving(true);
+      const result = await assignLicenseSeat(
+        seatsLicenseId!,
+        seatKind === SEAT_USER ? { userId: Number(seatTargetId) } : { equipmentId: Number(seatTargetId) }
+      );
+
+      setSeatTargetId("");
+      await fetchData();
+
+      if (result.overAllocated) {
+        toast({
+          variant: "destructive",
+          title: "Мест не хватает",
+          description: `Выделено мест: ${result.assignedSeats} из ${result.seats}. Докупите лицензии или освободите места.`
+        });
+      }
+    } catch (error) {
+      console.error("Failed to assign license seat:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось выделить место. Возможно, оно уже выделено."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleRemoveSeat(seat: any) {
+    try {
+      await removeLicenseSeat(seat.id);
+      await fetchData();
+    } catch (error) {
+      console.error("Failed to remove license seat:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось освободить место"
+      });
+    }
+  }
+
+  const seatsLicense = licenses.find(license => license.id === seatsLicenseId);
+  const overAllocatedCount = licenses.filter(license => license.assignments.length > license.seats).length;
+  const seatTargets = seatKind === SEAT_USER
+    ? users.map(user => ({ id: user.id, label: userName(user) }))
+    : equipment.map(item => ({ id: item.id, label: `${item.name} (${item.inventoryNumber})` }));
+
+  const columns = [
+    {
+      header: "Продукт",
+      accessorKey: (row: any) => (
+        <div>
+          <div>{row.product}</div>
+          {row.notes && <div className="text-xs text-muted-foreground">{row.notes}</div>}
+        </div>
+      )
+    },
+    {
+      header: "Места",
+      accessorKey: (row: any) => row.assignments.length > row.seats
+        ? <span className="text-destructive font-medium">⚠️ {row.assignments.length} из {row.seats}</span>
+        : `${row.assignments.length} из ${row.seats}`
+    },
+    {
+      header: "Действует до",
+      accessorKey: (row: any) => row.expiresAt
+        ? <span className={expiryClass(row.expiresAt)}>{new Date(row.expiresAt).toLocaleDateString('ru-RU')}</span>
+        : "Бессрочно"
+    },
+    {
+      header: "Действия",
+      accessorKey: (row: any) => (
+        <div className="flex justify-end gap-1">
+          {canEdit && row.hasKey && (
+            <Button variant="ghost" size="sm" title="Показать ключ" onClick={() => handleReveal(row)}>
+              <LucideKeyRound className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Места"
+            onClick={() => { setSeatsLicenseId(row.id); setSeatTargetId(""); }}
+          >
+            <LucideUsers className="h-4 w-4" />
+          </Button>
+          {canEdit && (
+            <>
+              <Button variant="ghost" size="sm" title="Изменить" onClick={() => openEdit(row)}>
+                <LucideEdit className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="sm" title="Удалить" onClick={() => handleDelete(row)}>
+                <LucideTrash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Лицензии и подписки</CardTitle>
+              <CardDescription>
+                Места выделяются сотрудникам или имуществу. Ключи хранятся в зашифрованном виде.
+                Системные администраторы получают в боте предупреждение об окончании срока действия.
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button onClick={() => openEdit(null)}>
+                <LucidePlus className="h-4 w-4 mr-2" />
+                Лицензия
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {overAllocatedCount > 0 && (
+            <div className="text-sm text-destructive">
+              Выделено больше мест, чем куплено, у лицензий: {overAllocatedCount}
+            </div>
+          )}
+          <DataTable
+            data={licenses}
+            columns={columns}
+            isLoading={isLoading}
+            pageSize={20}
+            noDataMessage="Лицензии еще не добавлены"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={editTarget !== undefined} onOpenChange={(open) => !open && setEditTarget(undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editTarget ? `Лицензия: ${editTarget.product}` : "Новая лицензия"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Продукт</Label>
+              <Input placeholder="Например: Microsoft Office 2021, Kaspersky Endpoint Security" value={product} onChange={(e) => setProduct(e.target.value)} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Количество мест</Label>
+                <Input type="number" min={1} value={seats} onChange={(e) => setSeats(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Действует до</Label>
+                <Input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Ключ</Label>
+              <Input
+                placeholder={editTarget?.hasKey ? "Оставьте пустым, чтобы не менять" : "Необязательно"}
+                value={key}
+                disabled={removeKey}
+                onChange={(e) => setKey(e.target.value)}
+              />
+              {editTarget?.hasKey && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox id="license-remove-key" checked={removeKey} onCheckedChange={(checked) => setRemoveKey(checked === true)} />
+                  <Label htmlFor="license-remove-key">Удалить ключ</Label>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Примечание</Label>
+              <Input placeholder="Например: договор, личный кабинет поставщика" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTarget(undefined)}>
+              Отмена
+            </Button>
+            <Button onClick={handleSave} disabled={!product.trim() || !(Number(seats) > 0) || isSaving}>
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!seatsLicense} onOpenChange={(open) => !open && setSeatsLicenseId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Места: {seatsLicense?.product}</DialogTitle>
+          </DialogHeader>
+          {seatsLicense && (
+            <div className="space-y-4">
+              <div className={`text-sm ${seatsLicense.assignments.length > seatsLicense.seats ? "text-destructive" : "text-muted-foreground"}`}>
+                Выделено мест: {seatsLicense.assignments.length} из {seatsLicense.seats}
+              </div>
+              <div className="space-y-1 max-h-[300px] overflow-y-auto">
+                {seatsLicense.assignments.length === 0 && (
+                  <div className="text-sm text-muted-foreground">Места еще не выделены</div>
+                )}
+                {seatsLicense.assignments.map((seat: any) => (
+                  <div key={seat.id} className="flex justify-between items-center text-sm">
+                    <span>{seat.user ? "👤" : "💻"} {seatHolder(seat)}</span>
+                    {canEdit && (
+                      <Button variant="ghost" size="sm" title="Освободить" onClick={() => handleRemoveSeat(seat)}>
+                        <LucideX className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {canEdit && (
+                <div className="flex gap-2">
+                  <Select value={seatKind} onValueChange={(value) => { setSeatKind(value); setSeatTargetId(""); }}>
+                    <SelectTrigger className="w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SEAT_USER}>Сотруднику</SelectItem>
+                      <SelectItem value={SEAT_EQUIPMENT}>На имущество</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={seatTargetId} onValueChange={setSeatTargetId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={seatKind === SEAT_USER ? "Сотрудник" : "Имущество"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {seatTargets.map(target => (
+                        <SelectItem key={target.id} value={String(target.id)}>{target.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleAssign} disabled={!seatTargetId || isSaving}>
+                    Выделить
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revealed} onOpenChange={(open) => !open && setRevealed(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ключ: {revealed?.product}</DialogTitle>
+          </DialogHeader>
+          <div className="font-mono text-sm break-all bg-muted rounded-md p-3">
+            {revealed?.key || "Ключ не указан"}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRevealed(null)}>
+              Закрыть
+            </Button>
+            {revealed?.key && (
+              <Button onClick={() => navigator.clipboard.writeText(revealed.key!)}>
+                Скопировать
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  getLocations,
+  createLocation,
+  updateLocation,
+  deleteLocation,
+  getLocationReportUrl,
+  getEquipment
+} from "@/lib/api";
+import { LucideDownload, LucideEdit, LucidePlus, LucideTrash2 } from "lucide-react";
+import { LOCATION_KIND, LOCATION_PARENT_KIND, type LocationKind } from "@shared/schema";
+
+const kindLabels: Record<LocationKind, { name: string, icon: string }> = {
+  [LOCATION_KIND.BUILDING]: { name: "Здание", icon: "🏢" },
+  [LOCATION_KIND.FLOOR]: { name: "Этаж", icon: "🪜" },
+  [LOCATION_KIND.ROOM]: { name: "Помещение", icon: "🚪" }
+};
+
+// What can be added inside each level: the reverse of LOCATION_PARENT_KIND
+const CHILD_KIND = Object.fromEntries(
+  Object.entries(LOCATION_PARENT_KIND)
+    .filter(([, parentKind]) => parentKind)
+    .map(([kind, parentKind]) => [parentKind, kind])
+) as Partial<Record<LocationKind, LocationKind>>;
+
+// Create a location of the kind inside the parent, or rename an existing one
+type EditTarget = { kind: LocationKind, parentId: number | null } | { location: any };
+
+function byName(a: any, b: any) {
+  return a.name.localeCompare(b.name, 'ru', { numeric: true });
+}
+
+export default function LocationManager() {
+  const [locations, setLocations] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [items, setItems] = useState<any[]>([]);
+  const [isItemsLoading, setIsItemsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchLocations();
+  }, []);
+
+  async function fetchLocations() {
+    try {
+      setIsLoading(true);
+      const data = await getLocations();
+      setLocations(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch locations:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить местоположения"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleSelect(id: number) {
+    setSelectedId(id);
+
+    try {
+      setIsItemsLoading(true);
+      const data = await getEquipment({ locationId: String(id) });
+      setItems(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch location equipment:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить имущество"
+      });
+    } finally {
+      setIsItemsLoading(false);
+    }
+  }
+
+  function openEdit(target: EditTarget) {
+    setEditTarget(target);
+    setName("location" in target ? target.location.name : "");
+  }
+
+  async function handleSave() {
+    if (!editTarget) {
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      if ("location" in editTarget) {
+        await updateLocation(editTarget.location.id, { name: name.trim() });
+      } else {
+        await createLocation({ name: name.trim(), kind: editTarget.kind, parentId: editTarget.parentId });
+      }
+
+      setEditTarget(null);
+      await fetchLocations();
+    } catch (error) {
+      console.error("Failed to save location:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось сохранить местоположение"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete(location: any) {
+    if (!confirm(`Удалить "${location.path}"?`)) {
+      return;
+    }
+
+    try {
+      await deleteLocation(location.id);
+
+      if (selectedId === location.id) {
+        setSelectedId(null);
+      }
+
+      await fetchLocations();
+    } catch (error) {
+      console.error("Failed to delete location:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось удалить. Сначала перенесите места и имущество, которые находятся внутри."
+      });
+    }
+  }
+
+  function renderLocation(location: any, depth: number) {
+    const kind = location.kind as LocationKind;
+    const childKind = CHILD_KIND[kind];
+    const children = locations.filter(child => child.parentId === location.id).sort(byName);
+
+    return (
+      <div key={location.id}>
+        <div
+          className={`flex items-center justify-between rounded-md px-2 py-1 hover:bg-muted ${selectedId === location.id ? "bg-muted" : ""}`}
+          style={{ paddingLeft: `${depth * 24 + 8}px` }}
+        >
+          <button className="flex items-center gap-2 text-left text-sm flex-1" onClick={() => handleSelect(location.id)}>
+            <span>{kindLabels[kind]?.icon}</span>
+            <span>{location.name}</span>
+          </button>
+          <div className="flex gap-1">
+            {childKind && (
+              <Button variant="ghost" size="sm" onClick={() => openEdit({ kind: childKind, parentId: location.id })}>
+                <LucidePlus className="h-4 w-4 mr-1" />
+                {kindLabels[childKind].name}
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" title="Переименовать" onClick={() => openEdit({ location })}>
+              <LucideEdit className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" title="Удалить" onClick={() => handleDelete(location)}>
+              <LucideTrash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {children.map(child => renderLocation(child, depth + 1))}
+      </div>
+    );
+  }
+
+  const selected = locations.find(location => location.id === selectedId);
+  const buildings = locations.filter(location => !location.parentId).sort(byName);
+
+  const itemColumns = [
+    {
+      header: "Инв. номер",
+      accessorKey: "inventoryNumber"
+    },
+    {
+      header: "Наименование",
+      accessorKey: "name"
+    },
+    {
+      header: "Где",
+      accessorKey: (row: any) => locations.find(location => location.id === row.locationId)?.path || "—"
+    },
+    {
+      header: "Закреплено за",
+      accessorKey: (row: any) => row.assignedUser
+        ? `${row.assignedUser.lastName || ''} ${row.assignedUser.firstName || ''}`
+        : "—"
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Здания, этажи и помещения</CardTitle>
+              <CardDescription>
+                Выберите место, чтобы увидеть имущество в нем. Перемещения между местами записываются в историю имущества.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => { window.location.href = getLocationReportUrl(); }}>
+                <LucideDownload className="h-4 w-4 mr-2" />
+                Отчет по всем местам
+              </Button>
+              <Button onClick={() => openEdit({ kind: LOCATION_KIND.BUILDING, parentId: null })}>
+                <LucidePlus className="h-4 w-4 mr-2" />
+                Здание
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading && <div className="text-sm text-muted-foreground">Загрузка...</div>}
+          {!isLoading && buildings.length === 0 && (
+            <div className="text-sm text-muted-foreground">Местоположения еще не добавлены</div>
+          )}
+          {!isLoading && buildings.map(building => renderLocation(building, 0))}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-start">
+              <div>
+                <CardTitle>{selected.path}</CardTitle>
+                <CardDescription>Имущество здесь и во вложенных местах</CardDescription>
+              </div>
+              <Button variant="outline" onClick={() => { window.location.href = getLocationReportUrl(selected.id); }}>
+                <LucideDownload className="h-4 w-4 mr-2" />
+                Скачать Excel
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <DataTable
+              data={items}
+              columns={itemColumns}
+              isLoading={isItemsLoading}
+              pageSize={20}
+              noDataMessage="Имущества здесь не числится"
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!editTarget} onOpenChange={(open) => !open && setEditTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editTarget && ("location" in editTarget
+                ? `Переименовать: ${editTarget.location.path}`
+                : `Добавить ${kindLabels[editTarget.kind].name.toLowerCase()}`)}
+            </DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="Например: Главный корпус, 3 этаж, 305, Серверная"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTarget(null)}>
+              Отмена
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || isSaving}>
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/ui/data-table";
+import { getNotifications, resendNotification } from "@/lib/api";
+import { LucideRotateCw } from "lucide-react";
+import { NOTIFICATION_STATUS, NOTIFICATION_CATEGORY, NOTIFICATION_KIND } from "@shared/schema";
+
+const statusLabels: Record<string, { name: string, class: string }> = {
+  [NOTIFICATION_STATUS.PENDING]: { name: "В очереди", class: "bg-yellow-100 text-yellow-800" },
+  [NOTIFICATION_STATUS.SENT]: { name: "Отправлено", class: "bg-green-100 text-green-800" },
+  [NOTIFICATION_STATUS.FAILED]: { name: "Ошибка", class: "bg-red-100 text-red-800" }
+};
+
+const categoryLabels: Record<string, string> = {
+  [NOTIFICATION_CATEGORY.TASK_ASSIGNED]: "Назначение задачи",
+  [NOTIFICATION_CATEGORY.TASK_STATUS]: "Статус задачи",
+  [NOTIFICATION_CATEGORY.TASK_COMMENT]: "Комментарий к задаче",
+  [NOTIFICATION_CATEGORY.TASK_SLA]: "Нарушение срока",
+  [NOTIFICATION_CATEGORY.TASK_DIGEST]: "Сводка задач",
+  [NOTIFICATION_CATEGORY.TASK_STALE]: "Напоминание о задаче",
+  [NOTIFICATION_CATEGORY.SECURE_PASSWORD]: "Новый пароль",
+  [NOTIFICATION_CATEGORY.PASSWORD_REMINDER]: "Напоминание о пароле",
+  [NOTIFICATION_CATEGORY.REGISTRATION_REQUEST]: "Заявка на регистрацию",
+  [NOTIFICATION_CATEGORY.REGISTRATION_DECISION]: "Решение по регистрации",
+  [NOTIFICATION_CATEGORY.EQUIPMENT_RECEIPT]: "Получение имущества",
+  [NOTIFICATION_CATEGORY.EQUIPMENT_RECEIPT_REMINDER]: "Напоминание о получении имущества",
+  [NOTIFICATION_CATEGORY.EQUIPMENT_RECEIPT_REJECTED]: "Имущество не получено",
+  [NOTIFICATION_CATEGORY.STOCKTAKING]: "Инвентаризация",
+  [NOTIFICATION_CATEGORY.WARRANTY_EXPIRY]: "Окончание гарантии",
+  [NOTIFICATION_CATEGORY.LOW_STOCK]: "Мало на складе",
+  [NOTIFICATION_CATEGORY.REPAIR_OVERDUE]: "Долгий ремонт",
+  [NOTIFICATION_CATEGORY.LICENSE_EXPIRY]: "Окончание лицензий",
+  [NOTIFICATION_CATEGORY.PASSWORD_ROTATION]: "Смена паролей"
+};
+
+export default function NotificationManager() {
+  const [notifications, setNotifications] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState<string>("all");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [activeTab]);
+
+  async function fetchNotifications() {
+    try {
+      setIsLoading(true);
+      const data = await getNotifications(activeTab === "all" ? undefined : activeTab);
+      setNotifications(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch notifications:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить уведомления"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleResend(notificationId: number) {
+    try {
+      await resendNotification(notificationId);
+      await fetchNotifications();
+
+      toast({
+        title: "Успешно",
+        description: "Уведомление поставлено в очередь"
+      });
+    } catch (error) {
+      console.error("Failed to resend notification:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось поставить уведомление в очередь"
+      });
+    }
+  }
+
+  const notificationColumns = [
+    {
+      header: "Создано",
+      accessorKey: (row: any) => new Date(row.createdAt).toLocaleString('ru-RU')
+    },
+    {
+      header: "Получатель",
+      accessorKey: (row: any) => (
+        <div>
+          <div>{row.user ? `${row.user.lastName || ''} ${row.user.firstName || ''}` : row.chatId}</div>
+          {row.user?.botBlockedAt && (
+            <div className="text-xs text-red-600">Заблокировал бота</div>
+          )}
+        </div>
+      )
+    },
+    {
+      header: "Тип",
+      accessorKey: (row: any) => categoryLabels[row.category] || row.category
+    },
+    {
+      header: "Сообщение",
+      accessorKey: (row: any) => {
+        if (row.kind !== NOTIFICATION_KIND.MESSAGE) {
+          return row.kind === NOTIFICATION_KIND.PHOTO ? "📷 Фото" : "📎 Файл";
+        }
+
+        return (
+          <div className="max-w-xs truncate text-muted-foreground" title={row.text}>
+            {row.text}
+          </div>
+        );
+      }
+    },
+    {
+      header: "Статус",
+      accessorKey: (row: any) => {
+        const status = statusLabels[row.status] || { name: row.status, class: "bg-gray-100 text-gray-800" };
+
+        return (
+          <div>
+            <span className={`px-2 py-1 text-xs rounded-full ${status.class}`}>{status.name}</span>
+            <div className="text-xs text-muted-foreground mt-1">
+              {row.status === NOTIFICATION_STATUS.SENT && row.sentAt
+                ? new Date(row.sentAt).toLocaleString('ru-RU')
+                : `Попыток: ${row.attempts}`}
+            </div>
+            {row.lastError && (
+              <div className="text-xs text-red-600 max-w-xs truncate" title={row.lastError}>{row.lastError}</div>
+            )}
+          </div>
+        );
+      }
+    },
+    {
+      header: "",
+      accessorKey: (row: any) => row.status !== NOTIFICATION_STATUS.PENDING && (
+        <Button variant="outline" size="sm" onClick={() => handleResend(row.id)}>
+          <LucideRotateCw className="h-4 w-4 mr-1" />
+          Отправить снова
+        </Button>
+      )
+    }
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Очередь уведомлений</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="mb-4">
+          <TabsList>
+            <TabsTrigger value="all">Все</TabsTrigger>
+            <TabsTrigger value={NOTIFICATION_STATUS.PENDING}>В очереди</TabsTrigger>
+            <TabsTrigger value={NOTIFICATION_STATUS.SENT}>Отправленные</TabsTrigger>
+            <TabsTrigger value={NOTIFICATION_STATUS.FAILED}>С ошибкой</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <DataTable
+          data={notifications}
+          columns={notificationColumns}
+          isLoading={isLoading}
+          pageSize={20}
+          noDataMessage="Уведомлений нет"
+        />
+      </CardContent>
+    </Card>
+  );
+}
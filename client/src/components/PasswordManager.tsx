@@ -35,17 +35,27 @@ import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { getUsers, getSecurePasswords, createSecurePassword, markPasswordAsRead } from "@/lib/api";
+import { getUsers, getSecurePasswords, getSecurePassword, createSecurePassword } from "@/lib/api";
 import { LucideInfo, LucideEye } from "lucide-react";
 import { queryClient } from "@/lib/queryClient";
+import { SECURE_PASSWORD_LIFETIME } from "@shared/schema";
 
 const passwordFormSchema = z.object({
   receiverId: z.string().min(1, "Выберите получателя"),
   type: z.string().min(1, "Выберите тип информации"),
   title: z.string().min(1, "Введите название"),
-  content: z.string().min(1, "Введите содержимое")
+  content: z.string().min(1, "Введите содержимое"),
+  lifetime: z.string()
 });
 
+const lifetimeLabels: Record<string, string> = {
+  [SECURE_PASSWORD_LIFETIME.FOREVER]: "Бессрочно",
+  [SECURE_PASSWORD_LIFETIME.BURN_AFTER_READING]: "Сжечь после прочтения",
+  [SECURE_PASSWORD_LIFETIME.ONE_HOUR]: "1 час",
+  [SECURE_PASSWORD_LIFETIME.ONE_DAY]: "24 часа",
+  [SECURE_PASSWORD_LIFETIME.ONE_WEEK]: "7 дней"
+};
+
 export default function PasswordManager() {
   const [users, setUsers] = useState<any[]>([]);
   const [passwords, setPasswords] = useState<any[]>([]);
@@ -60,7 +70,8 @@ export default function PasswordManager() {
       receiverId: "",
       type: "credentials",
       title: "",
-      content: ""
+      content: "",
+      lifetime: SECURE_PASSWORD_LIFETIME.FOREVER
     }
   });
 
@@ -104,13 +115,30 @@ export default function PasswordManager() {
     try {
       setSelectedPassword(password);
       setIsViewDialogOpen(true);
-      
+
+      // Content is only returned decrypted for a single record
+      const data = await getSecurePassword(password.id);
+      setSelectedPassword(data);
+
+      // Opening the record marks it as read for the receiver
       if (!password.isRead) {
-        await markPasswordAsRead(password.id);
         await fetchPasswords();
       }
     } catch (error) {
-      console.error("Failed to mark password as read:", error);
+      console.error("Failed to load secure password:", error);
+      const isForbidden = error instanceof Error && error.message === 'Forbidden';
+
+      if (isForbidden) {
+        setIsViewDialogOpen(false);
+      }
+
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: isForbidden
+          ? "Содержимое доступно только отправителю и получателю"
+          : "Не удалось загрузить содержимое"
+      });
     }
   }
 
@@ -120,7 +148,8 @@ export default function PasswordManager() {
         receiverId: parseInt(values.receiverId, 10),
         type: values.type,
         title: values.title,
-        encryptedContent: values.content // In a real app, this would be encrypted
+        content: values.content,
+        lifetime: values.lifetime
       });
       
       // Reset form and refresh data
@@ -187,11 +216,42 @@ export default function PasswordManager() {
     },
     {
       header: "Статус",
-      accessorKey: (row: any) => (
-        <span className={`px-2 py-1 text-xs rounded-full ${row.isRead ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
-          {row.isRead ? "Прочитано" : "Не прочитано"}
-        </span>
-      )
+      accessorKey: (row: any) => {
+        // The receiver has left the company, the sender should change the credentials
+        if (row.rotationRequiredAt) {
+          return (
+            <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800">
+              Требуется смена
+            </span>
+          );
+        }
+
+        if (row.destroyedAt) {
+          return (
+            <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">
+              Уничтожено
+            </span>
+          );
+        }
+
+        return (
+          <span className={`px-2 py-1 text-xs rounded-full ${row.isRead ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'}`}>
+            {row.isRead ? "Прочитано" : "Не прочитано"}
+          </span>
+        );
+      }
+    },
+    {
+      header: "Срок хранения",
+      accessorKey: (row: any) => {
+        if (row.burnAfterReading) {
+          return "После прочтения";
+        }
+
+        return row.expiresAt
+          ? `До ${new Date(row.expiresAt).toLocaleString('ru-RU')}`
+          : "Бессрочно";
+      }
     },
     {
       header: "",
@@ -336,6 +396,34 @@ export default function PasswordManager() {
                   )}
                 />
                 
+                <FormField
+                  control={form.control}
+                  name="lifetime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Срок хранения</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Выберите срок хранения" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(lifetimeLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                
                 <Button type="submit" className="w-full">
                   Отправить в защищенный чат
                 </Button>
@@ -380,7 +468,9 @@ export default function PasswordManager() {
             <div>
               <div className="text-sm font-medium mb-1">Содержимое:</div>
               <div className="bg-muted p-3 rounded-md whitespace-pre-wrap text-sm font-mono">
-                {selectedPassword?.encryptedContent}
+                {selectedPassword?.isDestroyed
+                  ? "Содержимое уничтожено"
+                  : selectedPassword?.content ?? "Загрузка..."}
               </div>
             </div>
             
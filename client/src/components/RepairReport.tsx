@@ -0,0 +1,190 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import { getRepairOrders, getRepairSummary, getRepairReportUrl } from "@/lib/api";
+import { LucideDownload } from "lucide-react";
+
+// Same values as REPAIR_GROUP_BY on the server
+const GROUP_BY_TYPE = "type";
+const GROUP_BY_VENDOR = "vendor";
+
+function formatRubles(value: number | string | null | undefined): string {
+  if (value === null || value === undefined || value === "") {
+    return "—";
+  }
+
+  return `${Number(value).toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽`;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString('ru-RU') : "—";
+}
+
+export default function RepairReport() {
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [groupBy, setGroupBy] = useState(GROUP_BY_TYPE);
+  const [summary, setSummary] = useState<any | null>(null);
+  const [openOrders, setOpenOrders] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchSummary();
+  }, [from, to, groupBy]);
+
+  useEffect(() => {
+    getRepairOrders({ open: true })
+      .then(data => setOpenOrders(Array.isArray(data) ? data : []))
+      .catch(error => console.error("Failed to fetch open repair orders:", error));
+  }, []);
+
+  async function fetchSummary() {
+    try {
+      setIsLoading(true);
+      setSummary(await getRepairSummary({ from, to, groupBy }));
+    } catch (error) {
+      console.error("Failed to fetch repair summary:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить отчет по ремонтам"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function handleDownload() {
+    window.location.href = getRepairReportUrl({ from, to, groupBy });
+  }
+
+  const openColumns = [
+    {
+      header: "Инв. номер",
+      accessorKey: (row: any) => row.equipment.inventoryNumber
+    },
+    {
+      header: "Наименование",
+      accessorKey: (row: any) => (
+        <div>
+          <div>{row.equipment.name}</div>
+          {row.issue && <div className="text-xs text-muted-foreground">{row.issue}</div>}
+        </div>
+      )
+    },
+    {
+      header: "Сервисный центр",
+      accessorKey: (row: any) => `${row.vendor || "Не указан"}${row.isWarranty ? " (гарантия)" : ""}`
+    },
+    {
+      header: "Отправлено",
+      accessorKey: (row: any) => formatDate(row.sentAt)
+    },
+    {
+      header: "Дней в ремонте",
+      accessorKey: "days"
+    }
+  ];
+
+  const totalsColumns = [
+    {
+      header: groupBy === GROUP_BY_VENDOR ? "Сервисный центр" : "Тип",
+      accessorKey: "group"
+    },
+    {
+      header: "Ремонтов",
+      accessorKey: "count"
+    },
+    {
+      header: "Завершено",
+      accessorKey: "completed"
+    },
+    {
+      header: "Средний срок, дн.",
+      accessorKey: (row: any) => row.averageDays ?? "—"
+    },
+    {
+      header: "Гарантийных",
+      accessorKey: "warrantyCount"
+    },
+    {
+      header: "Затраты",
+      accessorKey: (row: any) => formatRubles(row.cost)
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Сейчас в ремонте</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={openOrders}
+            columns={openColumns}
+            pageSize={10}
+            noDataMessage="Все имущество вернулось из ремонта"
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Ремонты за период</CardTitle>
+          <CardDescription>
+            Учитываются ремонты, отправленные в выбранный период.
+            Средний срок считается только по вернувшемуся из ремонта имуществу.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div>
+              <div className="text-sm text-muted-foreground mb-1">С</div>
+              <Input type="date" className="w-[180px]" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground mb-1">По</div>
+              <Input type="date" className="w-[180px]" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <Select value={groupBy} onValueChange={setGroupBy}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GROUP_BY_TYPE}>По типам имущества</SelectItem>
+                <SelectItem value={GROUP_BY_VENDOR}>По сервисным центрам</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleDownload}>
+              <LucideDownload className="h-4 w-4 mr-2" />
+              Скачать Excel
+            </Button>
+          </div>
+
+          <DataTable
+            data={summary?.groups || []}
+            columns={totalsColumns}
+            isLoading={isLoading}
+            pageSize={20}
+            noDataMessage="Ремонтов за период не было"
+          />
+
+          {summary && summary.total.count > 0 && (
+            <div className="flex flex-wrap gap-6 text-sm font-medium">
+              <div>Всего ремонтов: {summary.total.count}</div>
+              <div>Средний срок: {summary.total.averageDays ?? "—"} дн.</div>
+              <div>Гарантийных: {summary.total.warrantyCount}</div>
+              <div>Затраты: {formatRubles(summary.total.cost)}</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { getScheduledJobs, runScheduledJob } from "@/lib/api";
+import { LucidePlay } from "lucide-react";
+import { SCHEDULED_JOBS } from "@shared/schema";
+
+const jobLabels = [
+  { name: SCHEDULED_JOBS.TASK_DIGEST, title: "Утренняя сводка задач", description: "Системным администраторам — их открытые задачи" },
+  { name: SCHEDULED_JOBS.STALE_TASK_REMINDER, title: "Напоминание о новых задачах", description: "Авторам задач, которые долго остаются в статусе \"Новая\"" },
+  { name: SCHEDULED_JOBS.UNREAD_PASSWORD_REMINDER, title: "Напоминание о паролях", description: "Получателям непрочитанных паролей" },
+  { name: SCHEDULED_JOBS.EQUIPMENT_RECEIPT_REMINDER, title: "Напоминание о получении имущества", description: "Сотрудникам, которые не подтвердили получение закрепленного имущества" },
+  { name: SCHEDULED_JOBS.WARRANTY_EXPIRY_ALERT, title: "Окончание гарантии", description: "Системным администраторам — имущество, гарантия на которое скоро закончится" },
+  { name: SCHEDULED_JOBS.REPAIR_OVERDUE_ALERT, title: "Долгий ремонт", description: "Системным администраторам — имущество, которое в ремонте дольше заданного срока" },
+  { name: SCHEDULED_JOBS.LICENSE_EXPIRY_ALERT, title: "Окончание лицензий", description: "Системным администраторам — лицензии и подписки, срок которых скоро закончится" }
+];
+
+export default function ScheduledJobs() {
+  const [jobs, setJobs] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  async function fetchJobs() {
+    try {
+      setIsLoading(true);
+      const data = await getScheduledJobs();
+      setJobs(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch scheduled jobs:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить расписание"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleRun(name: string) {
+    try {
+      setRunningJob(name);
+      const result = await runScheduledJob(name);
+
+      if (result.error) {
+        toast({
+          variant: "destructive",
+          title: "Ошибка",
+          description: `Задание завершилось с ошибкой: ${result.error}`
+        });
+      } else {
+        toast({
+          title: "Успешно",
+          description: `Поставлено в очередь уведомлений: ${result.sentCount}`
+        });
+      }
+
+      await fetchJobs();
+    } catch (error) {
+      console.error("Failed to run scheduled job:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось запустить задание"
+      });
+    } finally {
+      setRunningJob(null);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Запланированные уведомления</CardTitle>
+        <CardDescription>
+          Состояние заданий планировщика. Запуск вручную ставит уведомления в очередь сразу, без учета тихих часов.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {jobLabels.map(({ name, title, description }) => {
+          const job = jobs.find(item => item.name === name);
+
+          return (
+            <div key={name} className="flex justify-between items-start border-b pb-4 last:border-b-0 last:pb-0">
+              <div className="text-sm space-y-1">
+                <div className="font-medium">{title}</div>
+                <div className="text-muted-foreground">{description}</div>
+                {!isLoading && (
+                  <div className="text-xs text-muted-foreground">
+                    Следующий запуск: {job ? new Date(job.nextRunAt).toLocaleString('ru-RU') : "не запланирован"}
+                    {job?.lastRunAt && (
+                      <> · Последний: {new Date(job.lastRunAt).toLocaleString('ru-RU')}, уведомлений: {job.lastSentCount ?? 0}</>
+                    )}
+                  </div>
+                )}
+                {job?.lastError && (
+                  <div className="text-xs text-red-600">Ошибка: {job.lastError}</div>
+                )}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRun(name)}
+                disabled={runningJob !== null}
+              >
+                <LucidePlay className="h-4 w-4 mr-1" />
+                {runningJob === name ? "Выполняется..." : "Запустить"}
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
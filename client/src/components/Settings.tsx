@@ -5,11 +5,81 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { getBotSettings, updateBotSettings } from "@/lib/api";
+import { getBotSettings, updateBotSettings, reencryptSecurePasswords } from "@/lib/api";
 import { queryClient } from "@/lib/queryClient";
+import { TASK_PRIORITY, BOT_UPDATE_MODE } from "@shared/schema";
+
+const slaTargetSchema = z.object({
+  responseHours: z.coerce.number().positive("Должно быть больше нуля"),
+  resolveHours: z.coerce.number().positive("Должно быть больше нуля")
+});
+
+// Same defaults as server/sla.ts
+const DEFAULT_SLA_TARGETS = {
+  [TASK_PRIORITY.LOW]: { responseHours: 24, resolveHours: 120 },
+  [TASK_PRIORITY.NORMAL]: { responseHours: 8, resolveHours: 48 },
+  [TASK_PRIORITY.HIGH]: { responseHours: 2, resolveHours: 24 },
+  [TASK_PRIORITY.URGENT]: { responseHours: 1, resolveHours: 4 }
+};
+
+const timeSchema = z.string().regex(/^(\d{2}:\d{2})?$/, "Укажите время в формате ЧЧ:ММ");
+
+// Same defaults as server/scheduler.ts
+const DEFAULT_SCHEDULE = {
+  digestEnabled: true,
+  digestTime: "09:00",
+  staleTaskReminderEnabled: true,
+  staleTaskAfterHours: 24,
+  staleTaskReminderIntervalHours: 4,
+  unreadPasswordReminderEnabled: true,
+  unreadPasswordAfterHours: 2,
+  unreadPasswordReminderIntervalHours: 6,
+  equipmentReceiptReminderEnabled: true,
+  equipmentReceiptAfterHours: 24,
+  equipmentReceiptReminderIntervalHours: 24,
+  warrantyAlertEnabled: true,
+  warrantyAlertDaysAhead: 30,
+  repairOverdueAlertEnabled: true,
+  repairOverdueAfterDays: 14,
+  licenseExpiryAlertEnabled: true,
+  licenseExpiryDaysAhead: 30,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "08:00"
+};
+
+// Reminders that share the same fields: enabled, age of the item and repeat interval
+const REMINDER_FIELDS = [
+  {
+    title: "Напоминание о задачах в статусе \"Новая\"",
+    enabled: "schedule.staleTaskReminderEnabled",
+    afterHours: "schedule.staleTaskAfterHours",
+    intervalHours: "schedule.staleTaskReminderIntervalHours"
+  },
+  {
+    title: "Напоминание о непрочитанных паролях",
+    enabled: "schedule.unreadPasswordReminderEnabled",
+    afterHours: "schedule.unreadPasswordAfterHours",
+    intervalHours: "schedule.unreadPasswordReminderIntervalHours"
+  },
+  {
+    title: "Напоминание о неподтвержденном получении имущества",
+    enabled: "schedule.equipmentReceiptReminderEnabled",
+    afterHours: "schedule.equipmentReceiptAfterHours",
+    intervalHours: "schedule.equipmentReceiptReminderIntervalHours"
+  }
+] as const;
+
+const SLA_PRIORITY_LABELS = [
+  { priority: TASK_PRIORITY.LOW, name: "Низкий" },
+  { priority: TASK_PRIORITY.NORMAL, name: "Обычный" },
+  { priority: TASK_PRIORITY.HIGH, name: "Высокий" },
+  { priority: TASK_PRIORITY.URGENT, name: "Срочный" }
+];
 
 const settingsFormSchema = z.object({
   botToken: z.string().min(1, "Токен бота обязателен"),
@@ -17,11 +87,47 @@ const settingsFormSchema = z.object({
   equipmentChatId: z.string().optional(),
   passwordsChatId: z.string().optional(),
   tasksChatId: z.string().optional(),
-  adminUsernames: z.string().optional()
+  adminUsernames: z.string().optional(),
+  onboardingKit: z.string().optional(),
+  onboardingTasks: z.string().optional(),
+  revealMessageTtlMinutes: z.coerce.number().int().min(1, "Минимум 1 минута"),
+  updateMode: z.enum([BOT_UPDATE_MODE.POLLING, BOT_UPDATE_MODE.WEBHOOK]),
+  webhookUrl: z.string().optional(),
+  slaTargets: z.object({
+    [TASK_PRIORITY.LOW]: slaTargetSchema,
+    [TASK_PRIORITY.NORMAL]: slaTargetSchema,
+    [TASK_PRIORITY.HIGH]: slaTargetSchema,
+    [TASK_PRIORITY.URGENT]: slaTargetSchema
+  }),
+  schedule: z.object({
+    digestEnabled: z.boolean(),
+    digestTime: timeSchema.refine(value => value !== "", "Укажите время сводки"),
+    staleTaskReminderEnabled: z.boolean(),
+    staleTaskAfterHours: z.coerce.number().positive("Должно быть больше нуля"),
+    staleTaskReminderIntervalHours: z.coerce.number().positive("Должно быть больше нуля"),
+    unreadPasswordReminderEnabled: z.boolean(),
+    unreadPasswordAfterHours: z.coerce.number().positive("Должно быть больше нуля"),
+    unreadPasswordReminderIntervalHours: z.coerce.number().positive("Должно быть больше нуля"),
+    equipmentReceiptReminderEnabled: z.boolean(),
+    equipmentReceiptAfterHours: z.coerce.number().positive("Должно быть больше нуля"),
+    equipmentReceiptReminderIntervalHours: z.coerce.number().positive("Должно быть больше нуля"),
+    warrantyAlertEnabled: z.boolean(),
+    warrantyAlertDaysAhead: z.coerce.number().int().positive("Должно быть больше нуля"),
+    repairOverdueAlertEnabled: z.boolean(),
+    repairOverdueAfterDays: z.coerce.number().int().positive("Должно быть больше нуля"),
+    licenseExpiryAlertEnabled: z.boolean(),
+    licenseExpiryDaysAhead: z.coerce.number().int().positive("Должно быть больше нуля"),
+    quietHoursStart: timeSchema,
+    quietHoursEnd: timeSchema
+  })
+}).refine(values => values.updateMode !== BOT_UPDATE_MODE.WEBHOOK || /^https:\/\//.test(values.webhookUrl || ""), {
+  message: "Для режима webhook укажите адрес, начинающийся с https://",
+  path: ["webhookUrl"]
 });
 
 export default function Settings() {
   const [isLoading, setIsLoading] = useState(true);
+  const [isReencrypting, setIsReencrypting] = useState(false);
   const { toast } = useToast();
 
   const form = useForm<z.infer<typeof settingsFormSchema>>({
@@ -32,7 +138,14 @@ export default function Settings() {
       equipmentChatId: "",
       passwordsChatId: "",
       tasksChatId: "",
-      adminUsernames: ""
+      adminUsernames: "",
+      onboardingKit: "",
+      onboardingTasks: "",
+      revealMessageTtlMinutes: 5,
+      updateMode: BOT_UPDATE_MODE.POLLING,
+      webhookUrl: "",
+      slaTargets: DEFAULT_SLA_TARGETS,
+      schedule: DEFAULT_SCHEDULE
     }
   });
 
@@ -52,7 +165,14 @@ export default function Settings() {
           equipmentChatId: settings.equipmentChatId || "",
           passwordsChatId: settings.passwordsChatId || "",
           tasksChatId: settings.tasksChatId || "",
-          adminUsernames: settings.adminUsernames ? settings.adminUsernames.join(", ") : ""
+          adminUsernames: settings.adminUsernames ? settings.adminUsernames.join(", ") : "",
+          onboardingKit: settings.onboardingKit ? settings.onboardingKit.join(", ") : "",
+          onboardingTasks: settings.onboardingTasks ? settings.onboardingTasks.join("\n") : "",
+          revealMessageTtlMinutes: settings.revealMessageTtlMinutes || 5,
+          updateMode: settings.updateMode || BOT_UPDATE_MODE.POLLING,
+          webhookUrl: settings.webhookUrl || "",
+          slaTargets: { ...DEFAULT_SLA_TARGETS, ...settings.slaTargets },
+          schedule: { ...DEFAULT_SCHEDULE, ...settings.schedule }
         });
       }
     } catch (error) {
@@ -67,6 +187,31 @@ export default function Settings() {
     }
   }
 
+  async function handleReencrypt() {
+    if (!confirm("Перешифровать все безопасные пароли и ключи лицензий текущим мастер-ключом?")) {
+      return;
+    }
+
+    try {
+      setIsReencrypting(true);
+      const result = await reencryptSecurePasswords();
+
+      toast({
+        title: "Успешно",
+        description: `Перешифровано записей: ${result.updated} из ${result.total} (версия ключа ${result.keyVersion})`
+      });
+    } catch (error) {
+      console.error("Failed to re-encrypt secure passwords:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось перешифровать безопасные пароли"
+      });
+    } finally {
+      setIsReencrypting(false);
+    }
+  }
+
   async function onSubmit(values: z.infer<typeof settingsFormSchema>) {
     try {
       // Process adminUsernames to convert string to array
@@ -74,9 +219,15 @@ export default function Settings() {
         ? values.adminUsernames.split(",").map(username => username.trim())
         : [];
       
+      // Kit types are separated by commas, setup tasks go one per line; empty lists fall back to the defaults
+      const onboardingKit = (values.onboardingKit || "").split(",").map(type => type.trim()).filter(Boolean);
+      const onboardingTasks = (values.onboardingTasks || "").split("\n").map(title => title.trim()).filter(Boolean);
+
       await updateBotSettings({
         ...values,
-        adminUsernames
+        adminUsernames,
+        onboardingKit,
+        onboardingTasks
       });
       
       // Invalidate queries
@@ -144,6 +295,50 @@ export default function Settings() {
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="updateMode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Получение обновлений</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Выберите режим" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={BOT_UPDATE_MODE.POLLING}>Long polling</SelectItem>
+                        <SelectItem value={BOT_UPDATE_MODE.WEBHOOK}>Webhook</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      В режиме webhook Telegram сам присылает обновления на сервер; нужен публичный HTTPS-адрес
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("updateMode") === BOT_UPDATE_MODE.WEBHOOK && (
+                <FormField
+                  control={form.control}
+                  name="webhookUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Адрес панели для webhook</FormLabel>
+                      <FormControl>
+                        <Input placeholder="https://your-domain.com" {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Обновления будут приходить на /api/telegram/webhook по этому адресу
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="welcomeMessage"
@@ -232,6 +427,303 @@ export default function Settings() {
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="revealMessageTtlMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Время жизни сообщения с паролем (мин.)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Через сколько минут бот удалит свое сообщение с содержимым пароля из чата
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-medium">Прием сотрудников</h3>
+                <p className="text-sm text-muted-foreground">
+                  Что выдается и создается по листу приема на работу
+                </p>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="onboardingKit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Стандартный комплект</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Ноутбук, Монитор" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      Типы имущества через запятую; со склада выдается по одному предмету каждого типа
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="onboardingTasks"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Задачи на подготовку рабочего места</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder={"Создать учетную запись и почту\nПодготовить рабочее место"} {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      По одной задаче на строку
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-medium">Сроки выполнения задач (SLA)</h3>
+                <p className="text-sm text-muted-foreground">
+                  Сколько часов у задачи каждого приоритета есть на взятие в работу и на выполнение.
+                  Срок, указанный в самой задаче, заменяет срок выполнения.
+                </p>
+              </div>
+
+              {SLA_PRIORITY_LABELS.map(({ priority, name }) => (
+                <div key={priority} className="grid grid-cols-3 gap-4 items-start">
+                  <div className="text-sm pt-8">{name}</div>
+                  <FormField
+                    control={form.control}
+                    name={`slaTargets.${priority}.responseHours`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Реакция (ч.)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.5" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`slaTargets.${priority}.resolveHours`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Выполнение (ч.)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.5" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-sm font-medium">Расписание уведомлений</h3>
+                <p className="text-sm text-muted-foreground">
+                  Время указывается по часовому поясу сервера. Уведомления, выпавшие на тихие часы, отправляются после их окончания.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 items-start">
+                <FormField
+                  control={form.control}
+                  name="schedule.digestEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 pt-8">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Утренняя сводка задач</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="schedule.digestTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Время сводки</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {REMINDER_FIELDS.map(reminder => (
+                <div key={reminder.enabled} className="grid grid-cols-3 gap-4 items-start">
+                  <FormField
+                    control={form.control}
+                    name={reminder.enabled}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center space-x-2 space-y-0 pt-8">
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <FormLabel>{reminder.title}</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={reminder.afterHours}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Через (ч.)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.5" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={reminder.intervalHours}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Повторять каждые (ч.)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.5" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+
+              <div className="grid grid-cols-3 gap-4 items-start">
+                <FormField
+                  control={form.control}
+                  name="schedule.warrantyAlertEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 pt-8">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Предупреждение об окончании гарантии</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="schedule.warrantyAlertDaysAhead"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>За (дн.)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 items-start">
+                <FormField
+                  control={form.control}
+                  name="schedule.repairOverdueAlertEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 pt-8">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Напоминание о долгом ремонте</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="schedule.repairOverdueAfterDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Через (дн.)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 items-start">
+                <FormField
+                  control={form.control}
+                  name="schedule.licenseExpiryAlertEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 pt-8">
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                      <FormLabel>Предупреждение об окончании лицензий</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="schedule.licenseExpiryDaysAhead"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>За (дн.)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 items-start">
+                <div className="text-sm pt-8">Тихие часы</div>
+                <FormField
+                  control={form.control}
+                  name="schedule.quietHoursStart"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>С</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="schedule.quietHoursEnd"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>До</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormDescription>Оставьте пустым, чтобы отключить</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
             </div>
             
             <Button type="submit">Сохранить настройки</Button>
@@ -244,6 +736,15 @@ export default function Settings() {
           Если вы изменили токен бота или другие важные настройки, необходимо перезапустить бота.
         </p>
         <Button variant="outline">Перезапустить бота</Button>
+
+        <h3 className="text-sm font-medium mt-6 mb-2">Ротация ключа шифрования</h3>
+        <p className="text-sm text-muted-foreground mb-4">
+          После добавления новой версии мастер-ключа в SECURE_CONTENT_MASTER_KEYS перешифруйте сохраненные пароли и ключи лицензий,
+          затем старый ключ можно удалить из окружения.
+        </p>
+        <Button variant="outline" onClick={handleReencrypt} disabled={isReencrypting}>
+          {isReencrypting ? "Перешифрование..." : "Перешифровать пароли"}
+        </Button>
       </CardFooter>
     </Card>
   );
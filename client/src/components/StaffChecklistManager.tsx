@@ -0,0 +1,450 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  getUsers,
+  getStaffChecklists,
+  getStaffChecklist,
+  startStaffChecklist,
+  returnChecklistEquipment,
+  issueChecklistKit,
+  reassignChecklistTasks,
+  createChecklistSetupTasks,
+  changeChecklistAccess,
+  flagChecklistPasswords,
+  blockChecklistUser,
+  signOffStaffChecklist,
+  getStaffChecklistReportUrl
+} from "@/lib/api";
+import { LucideDownload, LucideEye, LucidePlay } from "lucide-react";
+import { CHECKLIST_KIND, CHECKLIST_STEP, REGISTRATION_STATUS, ROLES } from "@shared/schema";
+
+// Receiver of returned equipment when it goes back to the warehouse
+const WAREHOUSE = "warehouse";
+// Setup tasks left in the common queue
+const NO_ASSIGNEE = "none";
+
+const kindLabels: Record<string, string> = {
+  [CHECKLIST_KIND.OFFBOARDING]: "Увольнение",
+  [CHECKLIST_KIND.ONBOARDING]: "Прием"
+};
+
+function userName(user: any): string {
+  return `${user.lastName || ''} ${user.firstName || ''}`.trim() || user.username || "Без имени";
+}
+
+export default function StaffChecklistManager() {
+  const [checklists, setChecklists] = useState<any[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newUserId, setNewUserId] = useState("");
+  const [newKind, setNewKind] = useState<string>(CHECKLIST_KIND.OFFBOARDING);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [selected, setSelected] = useState<any | null>(null);
+  const [equipmentIds, setEquipmentIds] = useState<number[]>([]);
+  const [equipmentReceiver, setEquipmentReceiver] = useState(WAREHOUSE);
+  const [taskReceiver, setTaskReceiver] = useState("");
+  const [setupAssignee, setSetupAssignee] = useState(NO_ASSIGNEE);
+  const [isBusy, setIsBusy] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  async function fetchData() {
+    try {
+      setIsLoading(true);
+      const [checklistList, userList] = await Promise.all([getStaffChecklists(), getUsers()]);
+      setChecklists(Array.isArray(checklistList) ? checklistList : []);
+      setUsers(Array.isArray(userList) ? userList : []);
+    } catch (error) {
+      console.error("Failed to fetch checklists:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить листы приема и увольнения"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function fetchChecklist(id: number) {
+    try {
+      setSelected(await getStaffChecklist(id));
+    } catch (error) {
+      console.error("Failed to fetch checklist:", error);
+    }
+  }
+
+  function handleOpen(id: number) {
+    setSelectedId(id);
+    setSelected(null);
+    setEquipmentIds([]);
+    setEquipmentReceiver(WAREHOUSE);
+    setTaskReceiver("");
+    setSetupAssignee(NO_ASSIGNEE);
+    fetchChecklist(id);
+  }
+
+  async function handleStart() {
+    try {
+      setIsBusy(true);
+      const checklist = await startStaffChecklist(Number(newUserId), newKind);
+      setNewUserId("");
+      await fetchData();
+      handleOpen(checklist.id);
+    } catch (error: any) {
+      console.error("Failed to start checklist:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: error.message || "Не удалось создать лист"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  // Runs a step of the open checklist and shows what is left afterwards
+  async function runStep(action: () => Promise<any>, success: string) {
+    if (!selectedId) return;
+
+    try {
+      setIsBusy(true);
+      await action();
+      await fetchChecklist(selectedId);
+      toast({ title: "Успешно", description: success });
+    } catch (error: any) {
+      console.error("Failed to run checklist step:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: error.message || "Не удалось выполнить действие"
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  }
+
+  async function handleSignOff() {
+    if (!window.confirm("Подписать лист? После этого отметки нельзя будет изменить.")) {
+      return;
+    }
+
+    await runStep(() => signOffStaffChecklist(selectedId!), "Лист подписан");
+    await fetchData();
+  }
+
+  function toggleEquipment(id: number, checked: boolean) {
+    setEquipmentIds(checked ? [...equipmentIds, id] : equipmentIds.filter(value => value !== id));
+  }
+
+  const isOpen = !!selected && !selected.signedOffAt && !!selected.userId;
+  const colleagues = users.filter(user =>
+    user.id !== selected?.userId && user.registrationStatus === REGISTRATION_STATUS.APPROVED
+  );
+  const sysadmins = colleagues.filter(user => user.role === ROLES.SYSADMIN);
+
+  // Controls shown under a step while it is not done
+  function stepActions(step: string) {
+    if (selected.kind === CHECKLIST_KIND.OFFBOARDING) {
+      switch (step) {
+        case CHECKLIST_STEP.EQUIPMENT:
+          return (
+            <div className="space-y-2">
+              <div className="space-y-1">
+                {selected.equipment.map((item: any) => (
+                  <div key={item.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      id={`checklist-equipment-${item.id}`}
+                      checked={equipmentIds.includes(item.id)}
+                      onCheckedChange={(checked) => toggleEquipment(item.id, checked === true)}
+                    />
+                    <label htmlFor={`checklist-equipment-${item.id}`}>{item.name} ({item.inventoryNumber})</label>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Select value={equipmentReceiver} onValueChange={setEquipmentReceiver}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WAREHOUSE}>Сдать на склад</SelectItem>
+                    {colleagues.map(user => (
+                      <SelectItem key={user.id} value={String(user.id)}>Передать: {userName(user)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  disabled={equipmentIds.length === 0 || isBusy}
+                  onClick={() => runStep(async () => {
+                    await returnChecklistEquipment(selected.id, equipmentIds, equipmentReceiver === WAREHOUSE ? null : Number(equipmentReceiver));
+                    setEquipmentIds([]);
+                  }, "Акты приема-передачи оформлены")}
+                >
+                  Оформить
+                </Button>
+              </div>
+            </div>
+          );
+        case CHECKLIST_STEP.TASKS:
+          return (
+            <div className="flex gap-2">
+              <Select value={taskReceiver} onValueChange={setTaskReceiver}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Кому передать задачи" />
+                </SelectTrigger>
+                <SelectContent>
+                  {colleagues.map(user => (
+                    <SelectItem key={user.id} value={String(user.id)}>{userName(user)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                disabled={!taskReceiver || isBusy}
+                onClick={() => runStep(() => reassignChecklistTasks(selected.id, Number(taskReceiver)), "Задачи переназначены")}
+              >
+                Переназначить
+              </Button>
+            </div>
+          );
+        case CHECKLIST_STEP.ACCESS:
+          return (
+            <Button size="sm" disabled={isBusy} onClick={() => runStep(() => changeChecklistAccess(selected.id), "Доступ отозван")}>
+              Отозвать доступ
+            </Button>
+          );
+        case CHECKLIST_STEP.PASSWORDS:
+          return (
+            <Button
+              size="sm"
+              disabled={isBusy}
+              onClick={() => runStep(() => flagChecklistPasswords(selected.id), "Отправителям паролей отправлены напоминания о смене")}
+            >
+              Отметить для смены
+            </Button>
+          );
+        case CHECKLIST_STEP.BOT:
+          return (
+            <Button size="sm" disabled={isBusy} onClick={() => runStep(() => blockChecklistUser(selected.id), "Аккаунт заблокирован")}>
+              Заблокировать
+            </Button>
+          );
+      }
+    }
+
+    switch (step) {
+      case CHECKLIST_STEP.ACCESS:
+        return (
+          <Button size="sm" disabled={isBusy} onClick={() => runStep(() => changeChecklistAccess(selected.id), "Регистрация подтверждена")}>
+            Подтвердить регистрацию
+          </Button>
+        );
+      case CHECKLIST_STEP.EQUIPMENT:
+        return (
+          <Button size="sm" disabled={isBusy} onClick={() => runStep(() => issueChecklistKit(selected.id), "Комплект выдан, сотруднику отправлен запрос на подтверждение")}>
+            Выдать комплект
+          </Button>
+        );
+      case CHECKLIST_STEP.TASKS:
+        return (
+          <div className="flex gap-2">
+            <Select value={setupAssignee} onValueChange={setSetupAssignee}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ASSIGNEE}>Без исполнителя</SelectItem>
+                {sysadmins.map(user => (
+                  <SelectItem key={user.id} value={String(user.id)}>{userName(user)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              disabled={isBusy}
+              onClick={() => runStep(
+                () => createChecklistSetupTasks(selected.id, setupAssignee === NO_ASSIGNEE ? null : Number(setupAssignee)),
+                "Задачи созданы"
+              )}
+            >
+              Создать задачи
+            </Button>
+          </div>
+        );
+    }
+
+    return null;
+  }
+
+  const columns = [
+    {
+      header: "Сотрудник",
+      accessorKey: "employeeName"
+    },
+    {
+      header: "Вид",
+      accessorKey: (row: any) => kindLabels[row.kind] || row.kind
+    },
+    {
+      header: "Начат",
+      accessorKey: (row: any) => new Date(row.createdAt).toLocaleDateString('ru-RU')
+    },
+    {
+      header: "Статус",
+      accessorKey: (row: any) => row.signedOffAt
+        ? <span className="px-2 py-1 text-xs rounded-full bg-green-100 text-green-800">Подписан {new Date(row.signedOffAt).toLocaleDateString('ru-RU')}</span>
+        : <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800">В работе</span>
+    },
+    {
+      header: "",
+      accessorKey: (row: any) => (
+        <div className="flex justify-end space-x-2">
+          <Button variant="ghost" size="icon" onClick={() => handleOpen(row.id)} title="Открыть">
+            <LucideEye className="h-4 w-4" />
+            <span className="sr-only">Открыть</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => window.location.href = getStaffChecklistReportUrl(row.id)}
+            title="Отчет в Word"
+          >
+            <LucideDownload className="h-4 w-4" />
+            <span className="sr-only">Отчет в Word</span>
+          </Button>
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Новый лист</CardTitle>
+          <CardDescription>
+            Обходной лист проводит увольняемого сотрудника через сдачу имущества, передачу задач, отзыв доступа,
+            смену полученных паролей и блокировку в боте. Лист приема подтверждает регистрацию, выдает стандартный
+            комплект и создает задачи на подготовку рабочего места. Комплект и задачи задаются в настройках бота.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-4 items-end">
+            <Select value={newUserId} onValueChange={setNewUserId}>
+              <SelectTrigger className="w-[260px]">
+                <SelectValue placeholder="Сотрудник" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={String(user.id)}>{userName(user)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={newKind} onValueChange={setNewKind}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={CHECKLIST_KIND.OFFBOARDING}>Увольнение</SelectItem>
+                <SelectItem value={CHECKLIST_KIND.ONBOARDING}>Прием на работу</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleStart} disabled={!newUserId || isBusy}>
+              <LucidePlay className="h-4 w-4 mr-2" />
+              Начать
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Листы</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={checklists}
+            columns={columns}
+            isLoading={isLoading}
+            pageSize={10}
+            noDataMessage="Листов еще не было"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selected ? `${kindLabels[selected.kind]}: ${selected.employeeName}` : "Лист"}
+            </DialogTitle>
+          </DialogHeader>
+
+          {selected && (
+            <div className="space-y-4">
+              {!selected.userId && !selected.signedOffAt && (
+                <div className="text-sm text-destructive">Сотрудник удален, лист нельзя завершить</div>
+              )}
+
+              {selected.items.map((item: any) => (
+                <div key={item.step} className="border rounded-md p-3 space-y-2">
+                  <div className="font-medium">{item.done ? "✅" : "⏳"} {item.title}</div>
+                  {/* Held items are listed with checkboxes below */}
+                  {item.details.length > 0 && !(isOpen && item.step === CHECKLIST_STEP.EQUIPMENT && selected.kind === CHECKLIST_KIND.OFFBOARDING) && (
+                    <ul className="text-sm text-muted-foreground list-disc pl-5">
+                      {item.details.map((line: string) => <li key={line}>{line}</li>)}
+                    </ul>
+                  )}
+                  {isOpen && !item.done && stepActions(item.step)}
+                </div>
+              ))}
+
+              <div>
+                <div className="font-medium mb-2">Выполненные действия</div>
+                {selected.entries.length === 0 && (
+                  <div className="text-sm text-muted-foreground">Пока ничего не сделано</div>
+                )}
+                <div className="space-y-1 text-sm">
+                  {selected.entries.map((entry: any) => (
+                    <div key={entry.id}>
+                      <span className="text-muted-foreground">{new Date(entry.createdAt).toLocaleString('ru-RU')}</span>
+                      {" — "}{entry.text} <span className="text-muted-foreground">({entry.actorName})</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {selected.signedOffAt && (
+                <div className="text-sm">
+                  Подписан: {selected.signedOffByName}, {new Date(selected.signedOffAt).toLocaleString('ru-RU')}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {selected && (
+              <Button variant="outline" onClick={() => window.location.href = getStaffChecklistReportUrl(selected.id)}>
+                <LucideDownload className="h-4 w-4 mr-2" />
+                Отчет
+              </Button>
+            )}
+            {isOpen && (
+              <Button onClick={handleSignOff} disabled={isBusy || selected.items.some((item: any) => !item.done)}>
+                Подписать
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  getStockItems,
+  createStockItem,
+  updateStockItem,
+  recordStockMovement,
+  getStockMovements,
+  getUsers,
+  getTasks
+} from "@/lib/api";
+import { LucideEdit, LucidePackageMinus, LucidePackagePlus, LucidePlus } from "lucide-react";
+import { STOCK_MOVEMENT_KIND, TASK_STATUS } from "@shared/schema";
+
+// Select value for an issue without a recipient or a task, and for the journal of all items
+const NONE = "none";
+const ALL = "all";
+
+const kindLabels: Record<string, string> = {
+  [STOCK_MOVEMENT_KIND.RECEIPT]: "Приход",
+  [STOCK_MOVEMENT_KIND.ISSUE]: "Выдача"
+};
+
+function userName(user: any): string {
+  return `${user.lastName || ''} ${user.firstName || ''}`.trim() || user.username || "Без имени";
+}
+
+interface StockManagerProps {
+  // Receipts, issues and item changes are hidden from viewers
+  canEdit: boolean;
+}
+
+export default function StockManager({ canEdit }: StockManagerProps) {
+  const [items, setItems] = useState<any[]>([]);
+  const [movements, setMovements] = useState<any[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
+  const [tasks, setTasks] = useState<any[]>([]);
+  const [journalItemId, setJournalItemId] = useState(ALL);
+  const [isLoading, setIsLoading] = useState(true);
+  // Item being edited, null for a new one; undefined while the dialog is closed
+  const [editTarget, setEditTarget] = useState<any | null | undefined>(undefined);
+  const [name, setName] = useState("");
+  const [unit, setUnit] = useState("");
+  const [minQuantity, setMinQuantity] = useState("0");
+  // Item and direction of the receipt or issue being entered
+  const [movementTarget, setMovementTarget] = useState<{ item: any, kind: string } | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [issuedToUserId, setIssuedToUserId] = useState(NONE);
+  const [taskId, setTaskId] = useState(NONE);
+  const [comment, setComment] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [journalItemId]);
+
+  async function fetchData() {
+    try {
+      setIsLoading(true);
+      setItems(await getStockItems());
+
+      // Recipients and tasks are only offered when issuing; tasks need access to their section
+      if (canEdit) {
+        const [userList, taskList] = await Promise.all([getUsers(), getTasks().catch(() => [])]);
+        setUsers(Array.isArray(userList) ? userList : []);
+        setTasks(Array.isArray(taskList) ? taskList.filter((task: any) => task.status !== TASK_STATUS.COMPLETED) : []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch stock:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить склад"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function fetchMovements() {
+    try {
+      setMovements(await getStockMovements(journalItemId === ALL ? undefined : Number(journalItemId)));
+    } catch (error) {
+      console.error("Failed to fetch stock movements:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить журнал движения"
+      });
+    }
+  }
+
+  function openEdit(item: any | null) {
+    setEditTarget(item);
+    setName(item?.name || "");
+    setUnit(item?.unit || "шт.");
+    setMinQuantity(String(item?.minQuantity ?? 0));
+  }
+
+  function openMovement(item: any, kind: string) {
+    setMovementTarget({ item, kind });
+    setQuantity("");
+    setIssuedToUserId(NONE);
+    setTaskId(NONE);
+    setComment("");
+  }
+
+  // Items issued against a task usually go to whoever asked for them
+  function handleTaskChange(value: string) {
+    setTaskId(value);
+
+    const task = tasks.find(item => String(item.id) === value);
+
+    if (task && issuedToUserId === NONE) {
+      setIssuedToUserId(String(task.createdByUserId));
+    }
+  }
+
+  async function handleSave() {
+    const data = { name: name.trim(), unit: unit.trim(), minQuantity: Number(minQuantity) || 0 };
+
+    try {
+      setIsSaving(true);
+
+      if (editTarget) {
+        await updateStockItem(editTarget.id, data);
+      } else {
+        await createStockItem(data);
+      }
+
+      setEditTarget(undefined);
+      await fetchData();
+    } catch (error) {
+      console.error("Failed to save stock item:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось сохранить позицию. Возможно, она уже есть на складе."
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleMovement() {
+    const isIssue = movementTarget!.kind === STOCK_MOVEMENT_KIND.ISSUE;
+
+    try {
+      setIsSaving(true);
+      await recordStockMovement(movementTarget!.item.id, {
+        kind: movementTarget!.kind,
+        quantity: Number(quantity),
+        issuedToUserId: isIssue && issuedToUserId !== NONE ? Number(issuedToUserId) : null,
+        taskId: isIssue && taskId !== NONE ? Number(taskId) : null,
+        comment: comment.trim() || null
+      });
+
+      setMovementTarget(null);
+      await Promise.all([fetchData(), fetchMovements()]);
+
+      toast({
+        title: "Успешно",
+        description: isIssue ? "Выдача записана" : "Приход записан"
+      });
+    } catch (error) {
+      console.error("Failed to record stock movement:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: isIssue ? "Не удалось выдать. Возможно, на складе недостаточно." : "Не удалось записать приход"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const itemColumns = [
+    {
+      header: "Наименование",
+      accessorKey: "name"
+    },
+    {
+      header: "Остаток",
+      accessorKey: (row: any) => (
+        <span className={row.quantity <= row.minQuantity ? "px-2 py-1 text-xs rounded-full bg-red-100 text-red-800" : ""}>
+          {row.quantity} {row.unit}
+        </span>
+      )
+    },
+    {
+      header: "Минимум",
+      accessorKey: (row: any) => `${row.minQuantity} ${row.unit}`
+    },
+    ...(canEdit ? [{
+      header: "Действия",
+      accessorKey: (row: any) => (
+        <div className="flex justify-end gap-1">
+          <Button variant="ghost" size="sm" title="Приход" onClick={() => openMovement(row, STOCK_MOVEMENT_KIND.RECEIPT)}>
+            <LucidePackagePlus className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title="Выдать"
+            disabled={row.quantity === 0}
+            onClick={() => openMovement(row, STOCK_MOVEMENT_KIND.ISSUE)}
+          >
+            <LucidePackageMinus className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" title="Изменить" onClick={() => openEdit(row)}>
+            <LucideEdit className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    }] : [])
+  ];
+
+  const movementColumns = [
+    {
+      header: "Дата",
+      accessorKey: (row: any) => new Date(row.createdAt).toLocaleString('ru-RU')
+    },
+    {
+      header: "Позиция",
+      accessorKey: (row: any) => row.item?.name
+    },
+    {
+      header: "Операция",
+      accessorKey: (row: any) => kindLabels[row.kind] || row.kind
+    },
+    {
+      header: "Количество",
+      accessorKey: (row: any) => `${row.kind === STOCK_MOVEMENT_KIND.ISSUE ? "−" : "+"}${row.quantity} ${row.item?.unit || ""}`
+    },
+    {
+      header: "Остаток",
+      accessorKey: "balance"
+    },
+    {
+      header: "Получатель",
+      accessorKey: (row: any) => [
+        row.issuedTo ? userName(row.issuedTo) : null,
+        row.task ? `Задача #${row.task.id}: ${row.task.title}` : null
+      ].filter(Boolean).join(", ") || "—"
+    },
+    {
+      header: "Кто провел",
+      accessorKey: (row: any) => row.createdBy ? userName(row.createdBy) : "—"
+    },
+    {
+      header: "Комментарий",
+      accessorKey: (row: any) => row.comment || ""
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <div>
+              <CardTitle>Остатки</CardTitle>
+              <CardDescription>
+                Расходники и запчасти учитываются количеством, без инвентарных номеров.
+                Когда остаток опускается до минимума, системные администраторы получают уведомление в боте.
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button onClick={() => openEdit(null)}>
+                <LucidePlus className="h-4 w-4 mr-2" />
+                Позиция
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={items}
+            columns={itemColumns}
+            isLoading={isLoading}
+            pageSize={20}
+            noDataMessage="На складе пока нет позиций"
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-start">
+            <CardTitle>Журнал движения</CardTitle>
+            <Select value={journalItemId} onValueChange={setJournalItemId}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Все позиции</SelectItem>
+                {items.map(item => (
+                  <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={movements}
+            columns={movementColumns}
+            pageSize={20}
+            noDataMessage="Операций еще не было"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={editTarget !== undefined} onOpenChange={(open) => !open && setEditTarget(undefined)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editTarget ? `Позиция: ${editTarget.name}` : "Новая позиция"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Наименование</Label>
+              <Input
+                placeholder="Например: Картридж HP 85A"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Единица измерения</Label>
+                <Input value={unit} onChange={(e) => setUnit(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Минимальный остаток</Label>
+                <Input type="number" min={0} value={minQuantity} onChange={(e) => setMinQuantity(e.target.value)} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditTarget(undefined)}>
+              Отмена
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || !unit.trim() || isSaving}>
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!movementTarget} onOpenChange={(open) => !open && setMovementTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {movementTarget && `${kindLabels[movementTarget.kind]}: ${movementTarget.item.name}`}
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            В наличии: {movementTarget?.item.quantity} {movementTarget?.item.unit}
+          </p>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Количество</Label>
+              <Input type="number" min={1} value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            </div>
+            {movementTarget?.kind === STOCK_MOVEMENT_KIND.ISSUE && (
+              <>
+                <div className="space-y-2">
+                  <Label>Кому</Label>
+                  <Select value={issuedToUserId} onValueChange={setIssuedToUserId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Без получателя</SelectItem>
+                      {users.map(user => (
+                        <SelectItem key={user.id} value={String(user.id)}>{userName(user)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>По задаче</Label>
+                  <Select value={taskId} onValueChange={handleTaskChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Без задачи</SelectItem>
+                      {tasks.map(task => (
+                        <SelectItem key={task.id} value={String(task.id)}>#{task.id}: {task.title}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label>Комментарий</Label>
+              <Input
+                placeholder={movementTarget?.kind === STOCK_MOVEMENT_KIND.RECEIPT ? "Например: счет № 123" : ""}
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMovementTarget(null)}>
+              Отмена
+            </Button>
+            <Button onClick={handleMovement} disabled={!(Number(quantity) > 0) || !Number.isInteger(Number(quantity)) || isSaving}>
+              {movementTarget?.kind === STOCK_MOVEMENT_KIND.ISSUE ? "Выдать" : "Оприходовать"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/ui/data-table";
+import {
+  getEquipment,
+  getDepartments,
+  getStocktakings,
+  getStocktaking,
+  startStocktaking,
+  checkStocktakingItem,
+  completeStocktaking,
+  getStocktakingReportUrl,
+  getStocktakingPhotoUrl
+} from "@/lib/api";
+import { LucideClipboardCheck, LucideDownload, LucideEye, LucideFlag } from "lucide-react";
+import { STOCKTAKING_STATUS, STOCKTAKING_RESULT } from "@shared/schema";
+
+// Progress of running campaigns is refreshed while the page is open
+const LIVE_REFRESH_MS = 15 * 1000;
+
+const ALL = "all";
+
+const resultLabels: Record<string, { name: string, class: string }> = {
+  [STOCKTAKING_RESULT.PRESENT]: { name: "На месте", class: "bg-green-100 text-green-800" },
+  [STOCKTAKING_RESULT.MISSING]: { name: "Отсутствует", class: "bg-red-100 text-red-800" },
+  [STOCKTAKING_RESULT.DAMAGED]: { name: "Неисправно", class: "bg-yellow-100 text-yellow-800" }
+};
+
+function progressPercent(progress: { total: number, checked: number }): number {
+  return progress.total > 0 ? Math.round(progress.checked / progress.total * 100) : 0;
+}
+
+export default function StocktakingManager() {
+  const [stocktakings, setStocktakings] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [departments, setDepartments] = useState<any[]>([]);
+  const [equipmentTypes, setEquipmentTypes] = useState<string[]>([]);
+  const [title, setTitle] = useState("");
+  const [department, setDepartment] = useState(ALL);
+  const [equipmentType, setEquipmentType] = useState(ALL);
+  const [isStarting, setIsStarting] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [selected, setSelected] = useState<any | null>(null);
+  const [showDiscrepanciesOnly, setShowDiscrepanciesOnly] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchStocktakings();
+    fetchScopeOptions();
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      fetchStocktakings(false);
+
+      if (selectedId) {
+        fetchStocktaking(selectedId);
+      }
+    }, LIVE_REFRESH_MS);
+
+    return () => clearInterval(timer);
+  }, [selectedId]);
+
+  async function fetchStocktakings(showLoading = true) {
+    try {
+      if (showLoading) setIsLoading(true);
+      const data = await getStocktakings();
+      setStocktakings(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch stocktakings:", error);
+      if (showLoading) {
+        toast({
+          variant: "destructive",
+          title: "Ошибка",
+          description: "Не удалось загрузить инвентаризации"
+        });
+      }
+    } finally {
+      if (showLoading) setIsLoading(false);
+    }
+  }
+
+  async function fetchStocktaking(id: number) {
+    try {
+      setSelected(await getStocktaking(id));
+    } catch (error) {
+      console.error("Failed to fetch stocktaking:", error);
+    }
+  }
+
+  // Departments and the types used in the equipment registry to choose the scope from
+  async function fetchScopeOptions() {
+    try {
+      const [equipment, departmentList] = await Promise.all([getEquipment(), getDepartments()]);
+      const unique = (values: (string | null)[]) =>
+        Array.from(new Set(values.filter((value): value is string => !!value))).sort();
+
+      setDepartments(Array.isArray(departmentList) ? departmentList : []);
+      setEquipmentTypes(unique(equipment.map((item: any) => item.type)));
+    } catch (error) {
+      console.error("Failed to fetch equipment:", error);
+    }
+  }
+
+  async function handleStart() {
+    try {
+      setIsStarting(true);
+      await startStocktaking({
+        title,
+        departmentId: department === ALL ? null : Number(department),
+        equipmentType: equipmentType === ALL ? null : equipmentType
+      });
+
+      setTitle("");
+      await fetchStocktakings();
+
+      toast({
+        title: "Успешно",
+        description: "Инвентаризация начата, сотрудникам отправлены списки имущества"
+      });
+    } catch (error) {
+      console.error("Failed to start stocktaking:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось начать инвентаризацию. Проверьте, что под условия подходит хотя бы один предмет."
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  }
+
+  function handleOpen(id: number) {
+    setSelectedId(id);
+    setSelected(null);
+    setShowDiscrepanciesOnly(false);
+    fetchStocktaking(id);
+  }
+
+  async function handleCheckItem(itemId: number, result: string) {
+    if (!selectedId) return;
+
+    try {
+      await checkStocktakingItem(selectedId, itemId, result);
+      await fetchStocktaking(selectedId);
+      await fetchStocktakings(false);
+    } catch (error) {
+      console.error("Failed to check stocktaking item:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось сохранить результат проверки"
+      });
+    }
+  }
+
+  async function handleComplete(id: number) {
+    if (!window.confirm("Завершить инвентаризацию? После этого результаты нельзя будет изменить.")) {
+      return;
+    }
+
+    try {
+      await completeStocktaking(id);
+      await fetchStocktakings();
+
+      if (selectedId === id) {
+        await fetchStocktaking(id);
+      }
+
+      toast({
+        title: "Успешно",
+        description: "Инвентаризация завершена"
+      });
+    } catch (error) {
+      console.error("Failed to complete stocktaking:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось завершить инвентаризацию"
+      });
+    }
+  }
+
+  const stocktakingColumns = [
+    {
+      header: "Название",
+      accessorKey: (row: any) => (
+        <div>
+          <div className="font-medium">{row.title}</div>
+          <div className="text-xs text-muted-foreground">
+            {row.department || "Все отделы"} · {row.equipmentType || "Все типы"}
+          </div>
+        </div>
+      )
+    },
+    {
+      header: "Начата",
+      accessorKey: (row: any) => new Date(row.createdAt).toLocaleString('ru-RU')
+    },
+    {
+      header: "Прогресс",
+      accessorKey: (row: any) => (
+        <div className="min-w-[140px]">
+          <Progress value={progressPercent(row.progress)} className="h-2" />
+          <div className="text-xs text-muted-foreground mt-1">
+            Проверено {row.progress.checked} из {row.progress.total}
+          </div>
+        </div>
+      )
+    },
+    {
+      header: "Расхождения",
+      accessorKey: (row: any) => row.progress.discrepancies > 0
+        ? <span className="text-red-600">{row.progress.discrepancies}</span>
+        : "—"
+    },
+    {
+      header: "Статус",
+      accessorKey: (row: any) => row.status === STOCKTAKING_STATUS.ACTIVE
+        ? <span className="px-2 py-1 text-xs rounded-full bg-blue-100 text-blue-800">Идет</span>
+        : <span className="px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-800">Завершена</span>
+    },
+    {
+      header: "",
+      accessorKey: (row: any) => (
+        <div className="flex justify-end space-x-2">
+          <Button variant="ghost" size="icon" onClick={() => handleOpen(row.id)} title="Открыть">
+            <LucideEye className="h-4 w-4" />
+            <span className="sr-only">Открыть</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => window.location.href = getStocktakingReportUrl(row.id)}
+            title="Отчет в Excel"
+          >
+            <LucideDownload className="h-4 w-4" />
+            <span className="sr-only">Отчет в Excel</span>
+          </Button>
+          {row.status === STOCKTAKING_STATUS.ACTIVE && (
+            <Button variant="ghost" size="icon" onClick={() => handleComplete(row.id)} title="Завершить">
+              <LucideFlag className="h-4 w-4" />
+              <span className="sr-only">Завершить</span>
+            </Button>
+          )}
+        </div>
+      )
+    }
+  ];
+
+  const isSelectedActive = selected?.status === STOCKTAKING_STATUS.ACTIVE;
+
+  const itemColumns = [
+    {
+      header: "Инв. номер",
+      accessorKey: "inventoryNumber"
+    },
+    {
+      header: "Наименование",
+      accessorKey: (row: any) => (
+        <div>
+          <div>{row.name}</div>
+          <div className="text-xs text-muted-foreground">{row.type}</div>
+        </div>
+      )
+    },
+    {
+      header: "Мат. ответственный",
+      accessorKey: (row: any) => row.holder
+        ? `${row.holder.lastName || ''} ${row.holder.firstName || ''}`
+        : "Склад"
+    },
+    {
+      header: "Результат",
+      accessorKey: (row: any) => {
+        const result = resultLabels[row.result];
+
+        return (
+          <div>
+            {result
+              ? <span className={`px-2 py-1 text-xs rounded-full ${result.class}`}>{result.name}</span>
+              : <span className="text-xs text-muted-foreground">Не проверено</span>}
+            {row.checkedAt && (
+              <div className="text-xs text-muted-foreground mt-1">{new Date(row.checkedAt).toLocaleString('ru-RU')}</div>
+            )}
+            {row.photoFileId && (
+              <a
+                href={getStocktakingPhotoUrl(row.stocktakingId, row.id)}
+                target="_blank"
+                rel="noreferrer"
+                className="text-xs text-primary underline"
+              >
+                Фото
+              </a>
+            )}
+          </div>
+        );
+      }
+    },
+    {
+      header: "",
+      accessorKey: (row: any) => isSelectedActive && (
+        <Select value={row.result || ""} onValueChange={(value) => handleCheckItem(row.id, value)}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder="Отметить" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(resultLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    }
+  ];
+
+  const selectedItems = (selected?.items || []).filter((item: any) =>
+    !showDiscrepanciesOnly || item.result !== STOCKTAKING_RESULT.PRESENT
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Новая инвентаризация</CardTitle>
+          <CardDescription>
+            Каждый сотрудник получит в боте список закрепленного за ним имущества и отметит, на месте ли оно.
+            Имущество на складе отмечается здесь.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="flex-1 min-w-[200px]">
+              <Input
+                placeholder="Например: Годовая инвентаризация 2026"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Отдел" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Все отделы</SelectItem>
+                {departments.map(item => (
+                  <SelectItem key={item.id} value={String(item.id)}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={equipmentType} onValueChange={setEquipmentType}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Тип имущества" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Все типы</SelectItem>
+                {equipmentTypes.map(value => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleStart} disabled={!title.trim() || isStarting}>
+              <LucideClipboardCheck className="h-4 w-4 mr-2" />
+              {isStarting ? "Запуск..." : "Начать"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Инвентаризации</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <DataTable
+            data={stocktakings}
+            columns={stocktakingColumns}
+            isLoading={isLoading}
+            pageSize={10}
+            noDataMessage="Инвентаризаций еще не было"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedId !== null} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{selected?.title || "Инвентаризация"}</DialogTitle>
+          </DialogHeader>
+
+          {selected && (
+            <div className="flex flex-wrap gap-4 text-sm">
+              <div>Проверено: {selected.progress.checked} из {selected.progress.total}</div>
+              <div className="text-green-700">На месте: {selected.progress.present}</div>
+              <div className="text-red-700">Отсутствует: {selected.progress.missing}</div>
+              <div className="text-yellow-700">Неисправно: {selected.progress.damaged}</div>
+              <label className="flex items-center gap-2 ml-auto cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showDiscrepanciesOnly}
+                  onChange={(e) => setShowDiscrepanciesOnly(e.target.checked)}
+                />
+                Только расхождения и непроверенное
+              </label>
+            </div>
+          )}
+
+          <div className="max-h-[500px] overflow-y-auto">
+            <DataTable
+              data={selectedItems}
+              columns={itemColumns}
+              isLoading={!selected}
+              pageSize={20}
+              noDataMessage="Нет предметов"
+            />
+          </div>
+
+          <DialogFooter>
+            {selected && (
+              <Button variant="outline" onClick={() => window.location.href = getStocktakingReportUrl(selected.id)}>
+                <LucideDownload className="h-4 w-4 mr-2" />
+                Отчет в Excel
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setSelectedId(null)}>
+              Закрыть
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
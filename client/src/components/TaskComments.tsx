@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { getTaskComments, addTaskComment } from "@/lib/api";
+import { LucideSend } from "lucide-react";
+
+interface TaskCommentsProps {
+  taskId: number;
+}
+
+export default function TaskComments({ taskId }: TaskCommentsProps) {
+  const [comments, setComments] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newComment, setNewComment] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchComments();
+  }, [taskId]);
+
+  async function fetchComments() {
+    try {
+      setIsLoading(true);
+      const data = await getTaskComments(taskId);
+      setComments(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch task comments:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить комментарии"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function sendComment() {
+    if (!newComment.trim()) {
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      const comment = await addTaskComment(taskId, newComment.trim());
+      setComments(prev => [...prev, comment]);
+      setNewComment("");
+    } catch (error) {
+      console.error("Failed to add task comment:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось добавить комментарий"
+      });
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium">Комментарии</h3>
+
+      <div className="max-h-60 overflow-y-auto space-y-2">
+        {isLoading ? (
+          <div className="h-12 bg-muted animate-pulse rounded-md"></div>
+        ) : comments.length > 0 ? (
+          comments.map(comment => (
+            <div key={comment.id} className="p-2 bg-muted rounded-md">
+              <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                <span>
+                  {comment.user?.lastName
+                    ? `${comment.user.lastName} ${comment.user.firstName}`
+                    : comment.user?.username || "Неизвестно"}
+                </span>
+                <span>{new Date(comment.createdAt).toLocaleString('ru-RU')}</span>
+              </div>
+              <div className="text-sm whitespace-pre-wrap">{comment.comment}</div>
+            </div>
+          ))
+        ) : (
+          <div className="text-sm text-muted-foreground">Комментариев пока нет</div>
+        )}
+      </div>
+
+      <div className="flex items-end space-x-2">
+        <Textarea
+          placeholder="Написать комментарий..."
+          rows={2}
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+        />
+        <Button type="button" size="icon" onClick={sendComment} disabled={isSending || !newComment.trim()}>
+          <LucideSend className="h-4 w-4" />
+          <span className="sr-only">Отправить</span>
+        </Button>
+      </div>
+    </div>
+  );
+}
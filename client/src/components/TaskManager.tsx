@@ -41,25 +41,70 @@ import { Badge } from "@/components/ui/badge";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { getUsers, getTasks, createTask, updateTaskStatus, assignTask } from "@/lib/api";
+import { getTaskAssignees, getTasks, getDepartments, createTask, updateTaskStatus, updateTaskPriority, assignTask } from "@/lib/api";
 import { LucidePencil, LucideCheckCircle, LucideAlertCircle, LucideClock, LucidePlus } from "lucide-react";
 import { queryClient } from "@/lib/queryClient";
-import { TASK_STATUS } from "@shared/schema";
+import TaskComments from "@/components/TaskComments";
+import { TASK_STATUS, TASK_PRIORITY } from "@shared/schema";
 
 const taskFormSchema = z.object({
   title: z.string().min(1, "Введите название задачи"),
   description: z.string().min(1, "Введите описание задачи"),
   assignedToUserId: z.string().min(1, "Выберите исполнителя").optional(),
-  status: z.string().min(1, "Выберите статус")
+  status: z.string().min(1, "Выберите статус"),
+  priority: z.string().min(1, "Выберите приоритет"),
+  dueAt: z.string().optional()
 });
 
 const statusLabels = {
   [TASK_STATUS.NEW]: { name: "Новая", icon: <LucideClock className="h-4 w-4" />, class: "bg-blue-100 text-blue-800" },
   [TASK_STATUS.IN_PROGRESS]: { name: "В процессе", icon: <LucideClock className="h-4 w-4" />, class: "bg-yellow-100 text-yellow-800" },
-  [TASK_STATUS.COMPLETED]: { name: "Выполнено", icon: <LucideCheckCircle className="h-4 w-4" />, class: "bg-green-100 text-green-800" },
-  [TASK_STATUS.URGENT]: { name: "Срочно", icon: <LucideAlertCircle className="h-4 w-4" />, class: "bg-red-100 text-red-800" }
+  [TASK_STATUS.COMPLETED]: { name: "Выполнено", icon: <LucideCheckCircle className="h-4 w-4" />, class: "bg-green-100 text-green-800" }
 };
 
+const priorityLabels = {
+  [TASK_PRIORITY.LOW]: { name: "Низкий", rank: 0, class: "bg-gray-100 text-gray-800" },
+  [TASK_PRIORITY.NORMAL]: { name: "Обычный", rank: 1, class: "bg-blue-100 text-blue-800" },
+  [TASK_PRIORITY.HIGH]: { name: "Высокий", rank: 2, class: "bg-orange-100 text-orange-800" },
+  [TASK_PRIORITY.URGENT]: { name: "Срочный", rank: 3, class: "bg-red-100 text-red-800" }
+};
+
+// Tab with tasks that missed a deadline of their SLA
+const OVERDUE_TAB = "overdue";
+
+// Select value for "no department filter"
+const ALL_DEPARTMENTS = "all";
+
+function isTaskOverdue(task: any): boolean {
+  return !!task.sla && (task.sla.isOverdue || task.sla.isResponseOverdue);
+}
+
+/**
+ * Most urgent first: overdue, then by priority, then by the nearest deadline; completed tasks go last
+ */
+function compareTaskUrgency(a: any, b: any): number {
+  const completedDiff = Number(a.status === TASK_STATUS.COMPLETED) - Number(b.status === TASK_STATUS.COMPLETED);
+  if (completedDiff !== 0) return completedDiff;
+
+  const overdueDiff = Number(isTaskOverdue(b)) - Number(isTaskOverdue(a));
+  if (overdueDiff !== 0) return overdueDiff;
+
+  const rankA = priorityLabels[a.priority as keyof typeof priorityLabels]?.rank ?? 1;
+  const rankB = priorityLabels[b.priority as keyof typeof priorityLabels]?.rank ?? 1;
+  if (rankA !== rankB) return rankB - rankA;
+
+  const deadlineA = a.sla ? new Date(a.sla.resolveDueAt).getTime() : Infinity;
+  const deadlineB = b.sla ? new Date(b.sla.resolveDueAt).getTime() : Infinity;
+  return deadlineA - deadlineB;
+}
+
+// Value for a datetime-local input in the browser's time zone
+function toDateTimeInput(value: string | null | undefined): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
 export default function TaskManager() {
   const [users, setUsers] = useState<any[]>([]);
   const [tasks, setTasks] = useState<any[]>([]);
@@ -68,6 +113,9 @@ export default function TaskManager() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<string>("all");
   const [selectedTask, setSelectedTask] = useState<any | null>(null);
+  const [departments, setDepartments] = useState<any[]>([]);
+  // Department of the task author
+  const [filterDepartment, setFilterDepartment] = useState(ALL_DEPARTMENTS);
   const { toast } = useToast();
 
   const form = useForm<z.infer<typeof taskFormSchema>>({
@@ -76,22 +124,30 @@ export default function TaskManager() {
       title: "",
       description: "",
       assignedToUserId: "",
-      status: TASK_STATUS.NEW
+      status: TASK_STATUS.NEW,
+      priority: TASK_PRIORITY.NORMAL,
+      dueAt: ""
     }
   });
 
   useEffect(() => {
     fetchUsers();
-    fetchTasks();
+    fetchDepartments();
   }, []);
 
+  useEffect(() => {
+    fetchTasks();
+  }, [filterDepartment]);
+
   useEffect(() => {
     // Filter tasks based on active tab
-    if (activeTab === "all") {
-      setFilteredTasks(tasks);
-    } else {
-      setFilteredTasks(tasks.filter(task => task.status === activeTab));
+    let visible = tasks;
+    if (activeTab === OVERDUE_TAB) {
+      visible = tasks.filter(isTaskOverdue);
+    } else if (activeTab !== "all") {
+      visible = tasks.filter(task => task.status === activeTab);
     }
+    setFilteredTasks([...visible].sort(compareTaskUrgency));
   }, [activeTab, tasks]);
 
   useEffect(() => {
@@ -100,37 +156,46 @@ export default function TaskManager() {
         title: selectedTask.title,
         description: selectedTask.description || "",
         assignedToUserId: selectedTask.assignedToUserId?.toString() || "",
-        status: selectedTask.status
+        status: selectedTask.status,
+        priority: selectedTask.priority || TASK_PRIORITY.NORMAL,
+        dueAt: toDateTimeInput(selectedTask.dueAt)
       });
     } else {
       form.reset({
         title: "",
         description: "",
         assignedToUserId: undefined,
-        status: TASK_STATUS.NEW
+        status: TASK_STATUS.NEW,
+        priority: TASK_PRIORITY.NORMAL,
+        dueAt: ""
       });
     }
   }, [selectedTask, form]);
 
   async function fetchUsers() {
     try {
-      const data = await getUsers();
-      // Filter only SysAdmins for task assignees
-      const sysAdmins = Array.isArray(data) 
-        ? data.filter(user => user.role === "sysadmin")
-        : [];
-      setUsers(sysAdmins);
+      // Only sysadmins are offered as task assignees
+      const data = await getTaskAssignees();
+      setUsers(Array.isArray(data) ? data : []);
     } catch (error) {
       console.error("Failed to fetch users:", error);
     }
   }
 
+  async function fetchDepartments() {
+    try {
+      const data = await getDepartments();
+      setDepartments(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch departments:", error);
+    }
+  }
+
   async function fetchTasks() {
     try {
       setIsLoading(true);
-      const data = await getTasks();
+      const data = await getTasks(undefined, filterDepartment === ALL_DEPARTMENTS ? undefined : Number(filterDepartment));
       setTasks(Array.isArray(data) ? data : []);
-      setFilteredTasks(Array.isArray(data) ? data : []);
     } catch (error) {
       console.error("Failed to fetch tasks:", error);
       toast({
@@ -173,10 +238,17 @@ export default function TaskManager() {
   }
 
   async function onSubmit(values: z.infer<typeof taskFormSchema>) {
+    const dueAt = values.dueAt ? new Date(values.dueAt).toISOString() : null;
+
     try {
       if (selectedTask) {
         // Update task status
         await updateTaskStatus(selectedTask.id, values.status);
+
+        // Priority and due date are saved only when changed, so SLA warnings are not re-sent
+        if (values.priority !== selectedTask.priority || values.dueAt !== toDateTimeInput(selectedTask.dueAt)) {
+          await updateTaskPriority(selectedTask.id, values.priority, dueAt);
+        }
         
         // Assign task to user if specified
         if (values.assignedToUserId) {
@@ -187,7 +259,8 @@ export default function TaskManager() {
         await createTask({
           title: values.title,
           description: values.description,
-          status: values.status,
+          priority: values.priority,
+          dueAt,
           assignedToUserId: values.assignedToUserId ? parseInt(values.assignedToUserId, 10) : null
         });
       }
@@ -218,6 +291,7 @@ export default function TaskManager() {
   const TaskItem = ({ task }: { task: any }) => {
     const statusInfo = statusLabels[task.status as keyof typeof statusLabels] || 
       { name: task.status, icon: <LucideClock className="h-4 w-4" />, class: "bg-gray-100 text-gray-800" };
+    const priorityInfo = priorityLabels[task.priority as keyof typeof priorityLabels] || priorityLabels[TASK_PRIORITY.NORMAL];
     
     const assignedTo = users.find(u => u.id === task.assignedToUserId);
     const createdBy = task.createdByUser?.lastName 
@@ -229,12 +303,25 @@ export default function TaskManager() {
         <CardContent className="p-4">
           <div className="flex justify-between items-start mb-2">
             <div className="font-medium">{task.title}</div>
-            <Badge variant="outline" className={statusInfo.class}>
-              <span className="flex items-center">
-                {statusInfo.icon}
-                <span className="ml-1">{statusInfo.name}</span>
-              </span>
-            </Badge>
+            <div className="flex flex-wrap justify-end gap-1">
+              {isTaskOverdue(task) && (
+                <Badge variant="outline" className="bg-red-600 text-white">
+                  <span className="flex items-center">
+                    <LucideAlertCircle className="h-4 w-4" />
+                    <span className="ml-1">Просрочено</span>
+                  </span>
+                </Badge>
+              )}
+              <Badge variant="outline" className={priorityInfo.class}>
+                {priorityInfo.name}
+              </Badge>
+              <Badge variant="outline" className={statusInfo.class}>
+                <span className="flex items-center">
+                  {statusInfo.icon}
+                  <span className="ml-1">{statusInfo.name}</span>
+                </span>
+              </Badge>
+            </div>
           </div>
           
           <div className="text-sm text-muted-foreground mb-3">
@@ -255,9 +342,20 @@ export default function TaskManager() {
           <div className="mt-3 pt-3 border-t flex justify-between">
             <div className="text-xs text-muted-foreground">
               {new Date(task.createdAt).toLocaleString('ru-RU')}
+              {task.sla && task.status !== TASK_STATUS.COMPLETED && (
+                <div>Срок: {new Date(task.sla.resolveDueAt).toLocaleString('ru-RU')}</div>
+              )}
             </div>
             
             <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleOpenEditDialog(task)}
+              >
+                <LucidePencil className="h-4 w-4 mr-1" />
+                Подробнее
+              </Button>
               {task.status !== TASK_STATUS.COMPLETED && (
                 <Button 
                   variant="outline" 
@@ -289,10 +387,21 @@ export default function TaskManager() {
             <TabsTrigger value="all">Все</TabsTrigger>
             <TabsTrigger value={TASK_STATUS.NEW}>Новые</TabsTrigger>
             <TabsTrigger value={TASK_STATUS.IN_PROGRESS}>В процессе</TabsTrigger>
-            <TabsTrigger value={TASK_STATUS.URGENT}>Срочные</TabsTrigger>
+            <TabsTrigger value={OVERDUE_TAB}>Просроченные</TabsTrigger>
             <TabsTrigger value={TASK_STATUS.COMPLETED}>Выполненные</TabsTrigger>
           </TabsList>
         </Tabs>
+        <Select value={filterDepartment} onValueChange={setFilterDepartment}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_DEPARTMENTS}>Все отделы</SelectItem>
+            {departments.map(department => (
+              <SelectItem key={department.id} value={String(department.id)}>{department.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </div>
       
       <div>
@@ -331,7 +440,7 @@ export default function TaskManager() {
       
       {/* Add/Edit Task Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {selectedTask ? "Редактировать задачу" : "Создать задачу"}
@@ -409,33 +518,75 @@ export default function TaskManager() {
                 )}
               />
               
+              {/* A new task starts in work once it has an assignee */}
+              {selectedTask && (
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Статус</FormLabel>
+                      <Select
+                        value={field.value}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Выберите статус" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={TASK_STATUS.NEW}>Новая</SelectItem>
+                          <SelectItem value={TASK_STATUS.IN_PROGRESS}>В процессе</SelectItem>
+                          <SelectItem value={TASK_STATUS.COMPLETED}>Выполнено</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              
               <FormField
                 control={form.control}
-                name="status"
+                name="priority"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Статус</FormLabel>
+                    <FormLabel>Приоритет</FormLabel>
                     <Select
                       value={field.value}
                       onValueChange={field.onChange}
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Выберите статус" />
+                          <SelectValue placeholder="Выберите приоритет" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value={TASK_STATUS.NEW}>Новая</SelectItem>
-                        <SelectItem value={TASK_STATUS.IN_PROGRESS}>В процессе</SelectItem>
-                        <SelectItem value={TASK_STATUS.URGENT}>Срочно</SelectItem>
-                        <SelectItem value={TASK_STATUS.COMPLETED}>Выполнено</SelectItem>
+                        {Object.entries(priorityLabels).map(([value, info]) => (
+                          <SelectItem key={value} value={value}>{info.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
                   </FormItem>
                 )}
               />
-              
+
+              <FormField
+                control={form.control}
+                name="dueAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Срок выполнения</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <DialogFooter>
                 <Button type="submit" className="w-full">
                   {selectedTask ? "Обновить задачу" : "Создать задачу"}
@@ -443,6 +594,12 @@ export default function TaskManager() {
               </DialogFooter>
             </form>
           </Form>
+
+          {selectedTask && (
+            <div className="pt-4 border-t">
+              <TaskComments taskId={selectedTask.id} />
+            </div>
+          )}
         </DialogContent>
       </Dialog>
     </>
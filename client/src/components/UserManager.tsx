@@ -21,19 +21,33 @@ import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { getUsers, updateUserRole, updateUserPermissions, deleteUser } from "@/lib/api";
-import { LucideEdit, LucideTrash2, LucidePlus } from "lucide-react";
+import {
+  getUsers,
+  updateUserRole,
+  updateUserPermissions,
+  updateUserDepartment,
+  getDepartments,
+  deleteUser,
+  issueUserPassword,
+  getPendingRegistrations,
+  approveRegistration,
+  rejectRegistration
+} from "@/lib/api";
+import { LucideEdit, LucideTrash2, LucidePlus, LucideKeyRound, LucideCheck, LucideX } from "lucide-react";
 import { queryClient } from "@/lib/queryClient";
-import { ROLES, CHAT_TYPES } from "@shared/schema";
+import { ROLES, CHAT_TYPES, REGISTRATION_STATUS } from "@shared/schema";
 
 interface UserManagerProps {
   limit?: number;
   showAsCard?: boolean;
+  // Role, access and panel password actions are only available to admins
+  canManage?: boolean;
 }
 
 const userFormSchema = z.object({
   userId: z.number(),
   role: z.string(),
+  departmentId: z.number().nullable(),
   permissions: z.object({
     [CHAT_TYPES.EQUIPMENT]: z.boolean().default(false),
     [CHAT_TYPES.PASSWORDS]: z.boolean().default(false),
@@ -53,17 +67,27 @@ const roleLabels: RoleLabel = {
   [ROLES.ADMIN]: { name: "Администратор", class: "bg-red-100 text-red-800" }
 };
 
+// Select value for "no filter" and for users without a department
+const ALL_DEPARTMENTS = "all";
+const NO_DEPARTMENT = "none";
+
 const chatLabels = {
   [CHAT_TYPES.EQUIPMENT]: { name: "Мат.отв.", description: "Доступ к информации о технике и имуществе" },
   [CHAT_TYPES.PASSWORDS]: { name: "Пароли", description: "Обмен защищенной информацией" },
   [CHAT_TYPES.TASKS]: { name: "Задачи", description: "Постановка задач системным администраторам" }
 };
 
-export default function UserManager({ limit, showAsCard = false }: UserManagerProps) {
+export default function UserManager({ limit, showAsCard = false, canManage = true }: UserManagerProps) {
   const [users, setUsers] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedUser, setSelectedUser] = useState<any | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [issuedPassword, setIssuedPassword] = useState<string | null>(null);
+  const [registrations, setRegistrations] = useState<any[]>([]);
+  // Role picked for each pending registration, defaults to the requested one
+  const [registrationRoles, setRegistrationRoles] = useState<Record<number, string>>({});
+  const [departments, setDepartments] = useState<any[]>([]);
+  const [filterDepartment, setFilterDepartment] = useState(ALL_DEPARTMENTS);
   const { toast } = useToast();
 
   const form = useForm<z.infer<typeof userFormSchema>>({
@@ -71,6 +95,7 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
     defaultValues: {
       userId: 0,
       role: ROLES.EMPLOYEE,
+      departmentId: null,
       permissions: {
         [CHAT_TYPES.EQUIPMENT]: false,
         [CHAT_TYPES.PASSWORDS]: false,
@@ -81,13 +106,21 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
 
   useEffect(() => {
     fetchUsers();
+    fetchDepartments();
   }, []);
 
+  useEffect(() => {
+    if (canManage && !limit) {
+      fetchRegistrations();
+    }
+  }, [canManage, limit]);
+
   useEffect(() => {
     if (selectedUser) {
       form.reset({
         userId: selectedUser.id,
         role: selectedUser.role || ROLES.EMPLOYEE,
+        departmentId: selectedUser.departmentId || null,
         permissions: {
           [CHAT_TYPES.EQUIPMENT]: selectedUser.permissions?.[CHAT_TYPES.EQUIPMENT] || false,
           [CHAT_TYPES.PASSWORDS]: selectedUser.permissions?.[CHAT_TYPES.PASSWORDS] || false,
@@ -114,6 +147,52 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
     }
   }
 
+  async function fetchDepartments() {
+    try {
+      const data = await getDepartments();
+      setDepartments(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch departments:", error);
+    }
+  }
+
+  async function fetchRegistrations() {
+    try {
+      const data = await getPendingRegistrations();
+      setRegistrations(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error("Failed to fetch registrations:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось загрузить заявки на регистрацию"
+      });
+    }
+  }
+
+  async function handleReviewRegistration(registration: any, approve: boolean) {
+    try {
+      if (approve) {
+        await approveRegistration(registration.id, registrationRoles[registration.id] || registration.role);
+      } else {
+        await rejectRegistration(registration.id);
+      }
+
+      await Promise.all([fetchRegistrations(), fetchUsers()]);
+      toast({
+        title: "Успешно",
+        description: approve ? "Регистрация подтверждена" : "Заявка отклонена"
+      });
+    } catch (error) {
+      console.error("Failed to review registration:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось обработать заявку"
+      });
+    }
+  }
+
   async function handleDeleteUser(userId: number) {
     if (!confirm("Вы уверены, что хотите удалить этого пользователя?")) {
       return;
@@ -131,7 +210,25 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
       toast({
         variant: "destructive",
         title: "Ошибка",
-        description: "Не удалось удалить пользователя"
+        description: "Не удалось удалить пользователя. Открытые задачи и имущество сначала передаются в обходном листе."
+      });
+    }
+  }
+
+  async function handleIssuePassword(userId: number) {
+    if (!confirm("Выдать пользователю новый одноразовый пароль для входа в панель?")) {
+      return;
+    }
+
+    try {
+      const { password } = await issueUserPassword(userId);
+      setIssuedPassword(password);
+    } catch (error) {
+      console.error("Failed to issue user password:", error);
+      toast({
+        variant: "destructive",
+        title: "Ошибка",
+        description: "Не удалось выдать пароль"
       });
     }
   }
@@ -143,6 +240,10 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
       
       // Update permissions
       await updateUserPermissions(values.userId, values.permissions);
+
+      if ((selectedUser?.departmentId || null) !== values.departmentId) {
+        await updateUserDepartment(values.userId, values.departmentId);
+      }
       
       // Close dialog and refresh data
       setIsDialogOpen(false);
@@ -165,6 +266,10 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
     }
   }
 
+  function departmentName(departmentId: number | null): string | undefined {
+    return departments.find(department => department.id === departmentId)?.name;
+  }
+
   const columns = [
     {
       header: "Пользователь",
@@ -182,6 +287,9 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
             <div className="text-xs text-muted-foreground">
               @{row.username || row.telegramId}
             </div>
+            {row.botBlockedAt && (
+              <div className="text-xs text-red-600">Заблокировал бота</div>
+            )}
           </div>
         </div>
       )
@@ -192,12 +300,24 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
         const roleName = roleLabels[row.role]?.name || "Неизвестно";
         const roleClass = roleLabels[row.role]?.class || "bg-gray-100 text-gray-800";
         return (
-          <span className={`px-2 py-1 text-xs rounded-full ${roleClass}`}>
-            {roleName}
-          </span>
+          <div className="flex items-center space-x-1">
+            <span className={`px-2 py-1 text-xs rounded-full ${roleClass}`}>
+              {roleName}
+            </span>
+            {row.registrationStatus === REGISTRATION_STATUS.REJECTED &&
+              <span className="px-2 py-1 text-xs rounded-full bg-red-100 text-red-800">Заявка отклонена</span>
+            }
+            {row.registrationStatus === REGISTRATION_STATUS.BLOCKED &&
+              <span className="px-2 py-1 text-xs rounded-full bg-gray-200 text-gray-800">Уволен</span>
+            }
+          </div>
         );
       }
     },
+    {
+      header: "Отдел",
+      accessorKey: (row: any) => departmentName(row.departmentId) || <span className="text-xs text-muted-foreground">Не указан</span>
+    },
     {
       header: "Доступ к чатам",
       accessorKey: (row: any) => (
@@ -219,7 +339,7 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
         </div>
       )
     },
-    {
+    ...(canManage ? [{
       header: "Действия",
       accessorKey: (row: any) => (
         <div className="flex justify-end space-x-2">
@@ -235,6 +355,15 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
             <LucideEdit className="h-4 w-4" />
             <span className="sr-only">Редактировать</span>
           </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => handleIssuePassword(row.id)}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <LucideKeyRound className="h-4 w-4" />
+            <span className="sr-only">Пароль панели</span>
+          </Button>
           <Button
             variant="ghost"
             size="icon"
@@ -246,14 +375,37 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
           </Button>
         </div>
       )
-    }
+    }] : [])
   ];
 
+  // Pending registrations are listed in their own queue
+  const reviewedUsers = users
+    .filter(user => user.registrationStatus !== REGISTRATION_STATUS.PENDING)
+    .filter(user => filterDepartment === ALL_DEPARTMENTS ||
+      (filterDepartment === NO_DEPARTMENT ? !user.departmentId : String(user.departmentId) === filterDepartment));
+
   // Get limited data if requested
-  const displayData = limit ? users.slice(0, limit) : users;
+  const displayData = limit ? reviewedUsers.slice(0, limit) : reviewedUsers;
 
   const Table = (
     <>
+      {!limit && (
+        <div className="flex justify-end mb-4">
+          <Select value={filterDepartment} onValueChange={setFilterDepartment}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_DEPARTMENTS}>Все отделы</SelectItem>
+              <SelectItem value={NO_DEPARTMENT}>Без отдела</SelectItem>
+              {departments.map(department => (
+                <SelectItem key={department.id} value={String(department.id)}>{department.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <DataTable
         data={displayData}
         columns={columns}
@@ -262,7 +414,7 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
         noDataMessage="Пользователи не найдены"
       />
       
-      {limit && users.length > limit && (
+      {limit && reviewedUsers.length > limit && (
         <div className="flex justify-center mt-4">
           <Button variant="outline">Показать все пользователи</Button>
         </div>
@@ -270,8 +422,55 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
     </>
   );
 
+  const RegistrationQueue = registrations.length > 0 && (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Заявки на регистрацию ({registrations.length})</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {registrations.map(registration => (
+          <div key={registration.id} className="flex flex-wrap items-center gap-2 p-2 border rounded-md">
+            <div className="flex-1 min-w-[200px]">
+              <div className="text-sm font-medium">
+                {[registration.lastName, registration.firstName].filter(Boolean).join(" ") || "Без имени"}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                @{registration.username || registration.telegramId}
+                {registration.departmentId && <>, {departmentName(registration.departmentId)}</>}
+              </div>
+            </div>
+            <Select
+              value={registrationRoles[registration.id] || registration.role}
+              onValueChange={role => setRegistrationRoles(prev => ({ ...prev, [registration.id]: role }))}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Выберите роль" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ROLES.SYSADMIN}>СисАдмин</SelectItem>
+                <SelectItem value={ROLES.ACCOUNTANT}>Бухгалтер</SelectItem>
+                <SelectItem value={ROLES.MANAGER}>Руководитель</SelectItem>
+                <SelectItem value={ROLES.EMPLOYEE}>Сотрудник</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={() => handleReviewRegistration(registration, true)}>
+              <LucideCheck className="h-4 w-4 mr-1" />
+              Одобрить
+            </Button>
+            <Button size="sm" variant="outline" className="text-destructive" onClick={() => handleReviewRegistration(registration, false)}>
+              <LucideX className="h-4 w-4 mr-1" />
+              Отклонить
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+
   return (
     <>
+      {RegistrationQueue}
+
       {showAsCard ? (
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
@@ -328,6 +527,30 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
                 )}
               />
               
+              <FormField
+                control={form.control}
+                name="departmentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Отдел</FormLabel>
+                    <Select
+                      value={field.value ? String(field.value) : NO_DEPARTMENT}
+                      onValueChange={(value) => field.onChange(value === NO_DEPARTMENT ? null : Number(value))}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue placeholder="Выберите отдел" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_DEPARTMENT}>Не указан</SelectItem>
+                        {departments.map(department => (
+                          <SelectItem key={department.id} value={String(department.id)}>{department.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+
               <div className="space-y-4">
                 <FormLabel className="block text-sm font-medium">Доступ к чатам</FormLabel>
                 <div className="space-y-2">
@@ -364,6 +587,23 @@ export default function UserManager({ limit, showAsCard = false }: UserManagerPr
           </Form>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={issuedPassword !== null} onOpenChange={(open) => !open && setIssuedPassword(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Пароль панели</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Передайте пароль пользователю. Он показывается один раз и должен быть сменен при первом входе.
+          </p>
+          <div className="p-3 bg-muted rounded-md font-mono text-center select-all">{issuedPassword}</div>
+          <DialogFooter>
+            <Button className="w-full" onClick={() => setIssuedPassword(null)}>
+              Готово
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
@@ -15,16 +15,86 @@ export const updateUserPermissions = async (userId: number, permissions: Record<
   return apiRequest('PATCH', `/api/users/${userId}/permissions`, { permissions });
 };
 
+export const getPendingRegistrations = async () => {
+  const res = await fetch('/api/registrations');
+  if (!res.ok) throw new Error('Failed to fetch registrations');
+  return res.json();
+};
+
+export const approveRegistration = async (userId: number, role?: string) => {
+  return apiRequest('POST', `/api/registrations/${userId}/approve`, { role });
+};
+
+export const rejectRegistration = async (userId: number) => {
+  return apiRequest('POST', `/api/registrations/${userId}/reject`, {});
+};
+
+export const issueUserPassword = async (userId: number): Promise<{ password: string }> => {
+  const res = await apiRequest('POST', `/api/users/${userId}/password`, {});
+  return res.json();
+};
+
 export const deleteUser = async (userId: number) => {
   return apiRequest('DELETE', `/api/users/${userId}`);
 };
 
+export const updateUserDepartment = async (userId: number, departmentId: number | null) => {
+  return apiRequest('PATCH', `/api/users/${userId}/department`, { departmentId });
+};
+
+// Department API functions
+export const getDepartments = async () => {
+  const res = await fetch('/api/departments');
+  if (!res.ok) throw new Error('Failed to fetch departments');
+  return res.json();
+};
+
+export const createDepartment = async (data: { name: string, headUserId?: number | null }) => {
+  const res = await apiRequest('POST', '/api/departments', data);
+  return res.json();
+};
+
+export const updateDepartment = async (id: number, data: { name?: string, headUserId?: number | null }) => {
+  return apiRequest('PATCH', `/api/departments/${id}`, data);
+};
+
+export const deleteDepartment = async (id: number) => {
+  return apiRequest('DELETE', `/api/departments/${id}`);
+};
+
+// Moves users, equipment and stocktakings of the department into the target one
+export const mergeDepartments = async (id: number, targetId: number) => {
+  return apiRequest('POST', `/api/departments/${id}/merge`, { targetId });
+};
+
 // Equipment API functions
-export const getEquipment = async (searchParams?: { inventoryNumber?: string, employeeName?: string }) => {
-  const queryString = searchParams ? 
-    '?' + new URLSearchParams(searchParams as Record<string, string>).toString() : '';
-  
-  const res = await fetch(`/api/equipment${queryString}`);
+
+// Filters of the equipment list, also applied to its export
+export type EquipmentFilters = {
+  inventoryNumber?: string;
+  employeeName?: string;
+  status?: string;
+  type?: string;
+  departmentId?: string;
+  // Also finds equipment in the locations inside this one
+  locationId?: string;
+};
+
+function equipmentQuery(filters: EquipmentFilters = {}, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams(extra);
+
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) {
+      params.set(key, value);
+    }
+  }
+
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+export const getEquipment = async (filters?: EquipmentFilters) => {
+  const res = await fetch(`/api/equipment${equipmentQuery(filters)}`);
   if (!res.ok) throw new Error('Failed to fetch equipment');
   return res.json();
 };
@@ -43,14 +113,363 @@ export const getEquipmentHistory = async (equipmentId: number) => {
   return res.json();
 };
 
+// Location API functions. Locations come as a flat list with parentId and the full path
+export const getLocations = async () => {
+  const res = await fetch('/api/locations');
+  if (!res.ok) throw new Error('Failed to fetch locations');
+  return res.json();
+};
+
+export const createLocation = async (data: { name: string, kind: string, parentId: number | null }) => {
+  const res = await apiRequest('POST', '/api/locations', data);
+  return res.json();
+};
+
+export const updateLocation = async (id: number, data: { name?: string, parentId?: number | null }) => {
+  return apiRequest('PATCH', `/api/locations/${id}`, data);
+};
+
+export const deleteLocation = async (id: number) => {
+  return apiRequest('DELETE', `/api/locations/${id}`);
+};
+
+export const getLocationReportUrl = (locationId?: number) =>
+  `/api/locations/report${locationId ? `?locationId=${locationId}` : ''}`;
+
+// Transfer act API functions
+export const getTransferActs = async (equipmentId?: number) => {
+  const queryString = equipmentId ? `?equipmentId=${equipmentId}` : '';
+  const res = await fetch(`/api/transfer-acts${queryString}`);
+  if (!res.ok) throw new Error('Failed to fetch transfer acts');
+  return res.json();
+};
+
+export const transferEquipment = async (equipmentIds: number[], toUserId: number | null) => {
+  const res = await apiRequest('POST', '/api/transfer-acts', { equipmentIds, toUserId });
+  return res.json();
+};
+
+export const getTransferActDocumentUrl = (actId: number) => `/api/transfer-acts/${actId}/document`;
+
+export const getEquipmentExportUrl = (filters: EquipmentFilters, format: 'xlsx' | 'csv', withHistory = false) =>
+  `/api/equipment/export${equipmentQuery(filters, { format, ...(withHistory ? { history: 'true' } : {}) })}`;
+
+export const getEquipmentLabelsUrl = (equipmentIds: number[], perPage: number) =>
+  `/api/equipment/labels?ids=${equipmentIds.join(',')}&perPage=${perPage}`;
+
+// Equipment import API functions. The file is sent with every step, holders picked
+// in the preview go as { "<row number>": userId | null }
+export type EquipmentImportOptions = {
+  file: File;
+  mode: string;
+  employees: Record<number, number | null>;
+};
+
+async function postEquipmentImport(url: string, options: EquipmentImportOptions) {
+  const formData = new FormData();
+  formData.append('file', options.file);
+  formData.append('mode', options.mode);
+  formData.append('employees', JSON.stringify(options.employees));
+
+  const res = await fetch(url, { method: 'POST', body: formData });
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || 'Import failed');
+  }
+
+  return res;
+}
+
+export const previewEquipmentImport = async (options: EquipmentImportOptions) => {
+  const res = await postEquipmentImport('/api/equipment/import/preview', options);
+  return res.json();
+};
+
+export const importEquipment = async (options: EquipmentImportOptions) => {
+  const res = await postEquipmentImport('/api/equipment/import', options);
+  return res.json();
+};
+
+export const downloadEquipmentImportErrors = async (options: EquipmentImportOptions) => {
+  const res = await postEquipmentImport('/api/equipment/import/errors', options);
+  const url = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'equipment_import_errors.xlsx';
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Depreciation API functions. asOf is "YYYY-MM-DD"
+export type DepreciationParams = {
+  asOf?: string;
+  departmentId?: number;
+};
+
+function depreciationQuery(params: DepreciationParams) {
+  const query = new URLSearchParams();
+
+  if (params.asOf) query.set('asOf', params.asOf);
+  if (params.departmentId) query.set('departmentId', String(params.departmentId));
+
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+export const getDepreciation = async (params: DepreciationParams = {}) => {
+  const res = await fetch(`/api/depreciation${depreciationQuery(params)}`);
+  if (!res.ok) throw new Error('Failed to fetch depreciation');
+  return res.json();
+};
+
+export const getDepreciationReportUrl = (params: DepreciationParams = {}) =>
+  `/api/depreciation/report${depreciationQuery(params)}`;
+
+// Repair API functions. Dates are "YYYY-MM-DD"
+export type RepairParams = {
+  from?: string;
+  to?: string;
+  groupBy?: string;
+};
+
+function repairQuery(params: RepairParams) {
+  const query = new URLSearchParams();
+
+  if (params.from) query.set('from', params.from);
+  if (params.to) query.set('to', params.to);
+  if (params.groupBy) query.set('groupBy', params.groupBy);
+
+  const queryString = query.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+export const getRepairOrders = async (filters: { equipmentId?: number, open?: boolean } = {}) => {
+  const query = new URLSearchParams();
+
+  if (filters.equipmentId) query.set('equipmentId', String(filters.equipmentId));
+  if (filters.open) query.set('open', 'true');
+
+  const res = await fetch(`/api/repairs?${query.toString()}`);
+  if (!res.ok) throw new Error('Failed to fetch repair orders');
+  return res.json();
+};
+
+export interface RepairOrderData {
+  vendor?: string;
+  issue?: string | null;
+  sentAt?: string;
+  isWarranty?: boolean;
+  taskId?: number | null;
+  cost?: string | null;
+}
+
+export const createRepairOrder = async (equipmentId: number, data: RepairOrderData) => {
+  const res = await apiRequest('POST', `/api/equipment/${equipmentId}/repairs`, data);
+  return res.json();
+};
+
+export const updateRepairOrder = async (id: number, data: RepairOrderData) => {
+  return apiRequest('PATCH', `/api/repairs/${id}`, data);
+};
+
+export const completeRepairOrder = async (id: number, data: { returnedAt: string, cost?: string | null }) => {
+  return apiRequest('POST', `/api/repairs/${id}/complete`, data);
+};
+
+export const getRepairSummary = async (params: RepairParams = {}) => {
+  const res = await fetch(`/api/repairs/summary${repairQuery(params)}`);
+  if (!res.ok) throw new Error('Failed to fetch repair summary');
+  return res.json();
+};
+
+export const getRepairReportUrl = (params: RepairParams = {}) => `/api/repairs/report${repairQuery(params)}`;
+
+// Stocktaking API functions
+export const getStocktakings = async () => {
+  const res = await fetch('/api/stocktakings');
+  if (!res.ok) throw new Error('Failed to fetch stocktakings');
+  return res.json();
+};
+
+export const getStocktaking = async (id: number) => {
+  const res = await fetch(`/api/stocktakings/${id}`);
+  if (!res.ok) throw new Error('Failed to fetch stocktaking');
+  return res.json();
+};
+
+export const startStocktaking = async (data: { title: string, departmentId?: number | null, equipmentType?: string | null }) => {
+  const res = await apiRequest('POST', '/api/stocktakings', data);
+  return res.json();
+};
+
+export const checkStocktakingItem = async (stocktakingId: number, itemId: number, result: string) => {
+  return apiRequest('PATCH', `/api/stocktakings/${stocktakingId}/items/${itemId}`, { result });
+};
+
+export const completeStocktaking = async (id: number) => {
+  return apiRequest('POST', `/api/stocktakings/${id}/complete`, {});
+};
+
+export const getStocktakingReportUrl = (id: number) => `/api/stocktakings/${id}/report`;
+
+export const getStocktakingPhotoUrl = (stocktakingId: number, itemId: number) =>
+  `/api/stocktakings/${stocktakingId}/items/${itemId}/photo`;
+
+// Consumables stock API functions
+export const getStockItems = async () => {
+  const res = await fetch('/api/stock');
+  if (!res.ok) throw new Error('Failed to fetch stock items');
+  return res.json();
+};
+
+export const createStockItem = async (data: { name: string, unit: string, minQuantity: number }) => {
+  const res = await apiRequest('POST', '/api/stock', data);
+  return res.json();
+};
+
+export const updateStockItem = async (id: number, data: { name?: string, unit?: string, minQuantity?: number }) => {
+  return apiRequest('PATCH', `/api/stock/${id}`, data);
+};
+
+export interface StockMovementData {
+  kind: string;
+  quantity: number;
+  issuedToUserId?: number | null;
+  taskId?: number | null;
+  comment?: string | null;
+}
+
+export const recordStockMovement = async (stockItemId: number, data: StockMovementData) => {
+  const res = await apiRequest('POST', `/api/stock/${stockItemId}/movements`, data);
+  return res.json();
+};
+
+export const getStockMovements = async (stockItemId?: number) => {
+  const res = await fetch(stockItemId ? `/api/stock/movements?stockItemId=${stockItemId}` : '/api/stock/movements');
+  if (!res.ok) throw new Error('Failed to fetch stock movements');
+  return res.json();
+};
+
+// License API functions
+export interface LicenseData {
+  product?: string;
+  seats?: number;
+  expiresAt?: string | null;
+  notes?: string | null;
+  // Omitted to keep the stored key, null or "" to remove it
+  key?: string | null;
+}
+
+export const getLicenses = async () => {
+  const res = await fetch('/api/licenses');
+  if (!res.ok) throw new Error('Failed to fetch licenses');
+  return res.json();
+};
+
+export const createLicense = async (data: LicenseData) => {
+  const res = await apiRequest('POST', '/api/licenses', data);
+  return res.json();
+};
+
+export const updateLicense = async (id: number, data: LicenseData) => {
+  return apiRequest('PATCH', `/api/licenses/${id}`, data);
+};
+
+export const deleteLicense = async (id: number) => {
+  return apiRequest('DELETE', `/api/licenses/${id}`);
+};
+
+export const getLicenseKey = async (id: number): Promise<{ key: string | null }> => {
+  const res = await fetch(`/api/licenses/${id}/key`);
+  if (!res.ok) throw new Error('Failed to fetch license key');
+  return res.json();
+};
+
+export const assignLicenseSeat = async (licenseId: number, target: { userId: number } | { equipmentId: number }) => {
+  const res = await apiRequest('POST', `/api/licenses/${licenseId}/seats`, target);
+  return res.json();
+};
+
+export const removeLicenseSeat = async (seatId: number) => {
+  return apiRequest('DELETE', `/api/licenses/seats/${seatId}`);
+};
+
+// Offboarding and onboarding checklist API functions
+export const getStaffChecklists = async () => {
+  const res = await fetch('/api/checklists');
+  if (!res.ok) throw new Error('Failed to fetch checklists');
+  return res.json();
+};
+
+export const getStaffChecklist = async (id: number) => {
+  const res = await fetch(`/api/checklists/${id}`);
+  if (!res.ok) throw new Error('Failed to fetch checklist');
+  return res.json();
+};
+
+// The server explains why a step cannot be done, e.g. there is nothing left for it
+async function postChecklist(url: string, data: unknown = {}) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    credentials: "include"
+  });
+
+  if (!res.ok) {
+    const error = await res.json().catch(() => ({}));
+    throw new Error(error.message || 'Checklist action failed');
+  }
+
+  return res.json();
+}
+
+export const startStaffChecklist = async (userId: number, kind: string) =>
+  postChecklist(`/api/users/${userId}/checklists`, { kind });
+
+// toUserId null returns the items to the warehouse
+export const returnChecklistEquipment = async (id: number, equipmentIds: number[], toUserId: number | null) =>
+  postChecklist(`/api/checklists/${id}/equipment`, { equipmentIds, toUserId });
+
+export const issueChecklistKit = async (id: number): Promise<{ missingTypes: string[] }> =>
+  postChecklist(`/api/checklists/${id}/kit`);
+
+export const reassignChecklistTasks = async (id: number, toUserId: number) =>
+  postChecklist(`/api/checklists/${id}/reassign-tasks`, { toUserId });
+
+export const createChecklistSetupTasks = async (id: number, assignedToUserId: number | null) =>
+  postChecklist(`/api/checklists/${id}/setup-tasks`, { assignedToUserId });
+
+export const changeChecklistAccess = async (id: number) => postChecklist(`/api/checklists/${id}/access`);
+
+export const flagChecklistPasswords = async (id: number) => postChecklist(`/api/checklists/${id}/passwords`);
+
+export const blockChecklistUser = async (id: number) => postChecklist(`/api/checklists/${id}/block`);
+
+export const signOffStaffChecklist = async (id: number) => postChecklist(`/api/checklists/${id}/sign-off`);
+
+export const getStaffChecklistReportUrl = (id: number) => `/api/checklists/${id}/report`;
+
 // Task API functions
-export const getTasks = async (status?: string) => {
-  const queryString = status ? `?status=${status}` : '';
+export const getTasks = async (status?: string, departmentId?: number) => {
+  const params = new URLSearchParams();
+
+  if (status) params.set('status', status);
+  if (departmentId) params.set('departmentId', String(departmentId));
+
+  const queryString = params.toString() ? `?${params.toString()}` : '';
   const res = await fetch(`/api/tasks${queryString}`);
   if (!res.ok) throw new Error('Failed to fetch tasks');
   return res.json();
 };
 
+export const getTaskAssignees = async () => {
+  const res = await fetch('/api/tasks/assignees');
+  if (!res.ok) throw new Error('Failed to fetch task assignees');
+  return res.json();
+};
+
 export const createTask = async (data: any) => {
   return apiRequest('POST', '/api/tasks', data);
 };
@@ -59,10 +478,25 @@ export const updateTaskStatus = async (taskId: number, status: string) => {
   return apiRequest('PATCH', `/api/tasks/${taskId}`, { status });
 };
 
+export const updateTaskPriority = async (taskId: number, priority: string, dueAt: string | null) => {
+  return apiRequest('PATCH', `/api/tasks/${taskId}/priority`, { priority, dueAt });
+};
+
 export const assignTask = async (taskId: number, userId: number) => {
   return apiRequest('PATCH', `/api/tasks/${taskId}/assign`, { userId });
 };
 
+export const getTaskComments = async (taskId: number) => {
+  const res = await fetch(`/api/tasks/${taskId}/comments`);
+  if (!res.ok) throw new Error('Failed to fetch task comments');
+  return res.json();
+};
+
+export const addTaskComment = async (taskId: number, comment: string) => {
+  const res = await apiRequest('POST', `/api/tasks/${taskId}/comments`, { comment });
+  return res.json();
+};
+
 // Secure password API functions
 export const getSecurePasswords = async () => {
   const res = await fetch('/api/secure-passwords');
@@ -70,6 +504,13 @@ export const getSecurePasswords = async () => {
   return res.json();
 };
 
+export const getSecurePassword = async (passwordId: number) => {
+  const res = await fetch(`/api/secure-passwords/${passwordId}`);
+  if (res.status === 403) throw new Error('Forbidden');
+  if (!res.ok) throw new Error('Failed to fetch secure password');
+  return res.json();
+};
+
 export const createSecurePassword = async (data: any) => {
   return apiRequest('POST', '/api/secure-passwords', data);
 };
@@ -78,6 +519,11 @@ export const markPasswordAsRead = async (passwordId: number) => {
   return apiRequest('PATCH', `/api/secure-passwords/${passwordId}/read`, {});
 };
 
+export const reencryptSecurePasswords = async () => {
+  const res = await apiRequest('POST', '/api/admin/secure-passwords/reencrypt', {});
+  return res.json();
+};
+
 // Bot settings API functions
 export const getBotSettings = async () => {
   const res = await fetch('/api/bot-settings');
@@ -89,6 +535,30 @@ export const updateBotSettings = async (settings: Record<string, any>) => {
   return apiRequest('PATCH', '/api/bot-settings', settings);
 };
 
+// Notification outbox API functions
+export const getNotifications = async (status?: string) => {
+  const url = status ? `/api/notifications?status=${status}` : '/api/notifications';
+  const res = await fetch(url);
+  if (!res.ok) throw new Error('Failed to fetch notifications');
+  return res.json();
+};
+
+export const resendNotification = async (notificationId: number) => {
+  return apiRequest('POST', `/api/notifications/${notificationId}/resend`, {});
+};
+
+// Scheduled jobs API functions
+export const getScheduledJobs = async () => {
+  const res = await fetch('/api/scheduled-jobs');
+  if (!res.ok) throw new Error('Failed to fetch scheduled jobs');
+  return res.json();
+};
+
+export const runScheduledJob = async (name: string): Promise<{ sentCount: number, error: string | null }> => {
+  const res = await apiRequest('POST', `/api/scheduled-jobs/${name}/run`, {});
+  return res.json();
+};
+
 // Auth
 export const login = async (username: string, password: string) => {
   return apiRequest('POST', '/api/auth/login', { username, password });
@@ -98,7 +568,23 @@ export const logout = async () => {
   return apiRequest('POST', '/api/auth/logout', {});
 };
 
-export const getCurrentUser = async () => {
+export const changePassword = async (currentPassword: string, newPassword: string) => {
+  return apiRequest('POST', '/api/auth/change-password', { currentPassword, newPassword });
+};
+
+export interface CurrentUser {
+  userId: string;
+  isAdmin: boolean;
+  role: string;
+  permissions: Record<string, boolean>;
+  username: string | null;
+  firstName: string;
+  lastName: string;
+  departmentId: number | null;
+  mustChangePassword: boolean;
+}
+
+export const getCurrentUser = async (): Promise<CurrentUser | null> => {
   const res = await fetch('/api/auth/me');
   if (res.status === 401) return null;
   if (!res.ok) throw new Error('Failed to fetch current user');
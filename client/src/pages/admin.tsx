@@ -1,12 +1,15 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { useToast } from "@/hooks/use-toast";
-import { getCurrentUser, logout } from "@/lib/api";
+import { getCurrentUser, logout, type CurrentUser } from "@/lib/api";
 import AdminPanel from "@/components/AdminPanel";
+import ChangePassword from "@/components/ChangePassword";
 import { Button } from "@/components/ui/button";
 
 export default function AdminPage() {
   const [isLoading, setIsLoading] = useState(true);
+  const [mustChangePassword, setMustChangePassword] = useState(false);
+  const [currentUser, setCurrentUser] = useState<CurrentUser | null>(null);
   const [, navigate] = useLocation();
   const { toast } = useToast();
 
@@ -18,17 +21,9 @@ export default function AdminPage() {
           navigate("/");
           return;
         }
-        
-        if (!user.isAdmin) {
-          toast({
-            variant: "destructive",
-            title: "Доступ запрещен",
-            description: "У вас нет прав администратора",
-          });
-          navigate("/");
-          return;
-        }
-        
+
+        setCurrentUser(user);
+        setMustChangePassword(!!user.mustChangePassword);
         setIsLoading(false);
       } catch (error) {
         console.error("Authentication check failed:", error);
@@ -48,7 +43,7 @@ export default function AdminPage() {
     }
   };
 
-  if (isLoading) {
+  if (isLoading || !currentUser) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -59,5 +54,16 @@ export default function AdminPage() {
     );
   }
 
-  return <AdminPanel onLogout={handleLogout} />;
+  if (mustChangePassword) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-background px-4">
+        <ChangePassword forced onChanged={() => setMustChangePassword(false)} />
+        <Button variant="link" className="mt-4" onClick={handleLogout}>
+          Выйти
+        </Button>
+      </div>
+    );
+  }
+
+  return <AdminPanel user={currentUser} onLogout={handleLogout} />;
 }
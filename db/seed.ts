@@ -1,6 +1,6 @@
 import { db } from "./index";
 import * as schema from "@shared/schema";
-import * as crypto from "crypto";
+import { hashPassword, generatePassword } from "../server/credentials";
 
 async function seed() {
   try {
@@ -17,8 +17,6 @@ async function seed() {
     }
 
     // Create initial admin user
-    const adminPassword = crypto.createHash('sha256').update('admin123').digest('hex');
-    
     const [admin] = await db.insert(schema.users).values({
       telegramId: "admin",
       username: "admin",
@@ -29,7 +27,17 @@ async function seed() {
       isRegistered: true
     }).returning();
 
+    // One-time password, has to be changed on first login
+    const adminPassword = generatePassword();
+
+    await db.insert(schema.userCredentials).values({
+      userId: admin.id,
+      passwordHash: await hashPassword(adminPassword),
+      mustChangePassword: true
+    });
+
     console.log("Created admin user:", admin.username);
+    console.log("One-time password:", adminPassword);
 
     // Create sample users
     const sampleUsers = [
@@ -204,7 +212,8 @@ async function seed() {
         title: "Проблема с принтером",
         description: "Не печатает принтер в бухгалтерии. Ошибка подключения.",
         createdByUserId: insertedUsers[1].id,
-        status: schema.TASK_STATUS.URGENT
+        status: schema.TASK_STATUS.NEW,
+        priority: schema.TASK_PRIORITY.URGENT
       }
     ];
 
@@ -1,10 +1,10 @@
 #!/usr/bin/env node
 
 import { db } from '../db/index.js';
-import { users, permissions, ROLES, CHAT_TYPES } from '../shared/schema.js';
+import { users, permissions, userCredentials, ROLES, CHAT_TYPES } from '../shared/schema.js';
+import { hashPassword } from '../server/credentials.js';
 import { eq } from 'drizzle-orm';
 import readline from 'readline';
-import crypto from 'crypto';
 
 // Настройка интерфейса командной строки
 const args = process.argv.slice(2);
@@ -81,18 +81,15 @@ async function createAdminUser() {
         throw new Error('Ошибка при обновлении пользователя');
       }
 
-      // Обновляем права доступа
+      // Обновляем права доступа и пароль
       await updatePermissions(updatedUser.id);
+      await savePassword(updatedUser.id);
       
       console.log(`Пользователь ${username} обновлен до статуса администратора.`);
       console.log(`Домен для административной панели: ${domain}`);
       return;
     }
 
-    // Хешируем пароль
-    const salt = crypto.randomBytes(16).toString('hex');
-    const hash = crypto.pbkdf2Sync(password, salt, 1000, 64, 'sha512').toString('hex');
-    
     // Создаем нового пользователя
     const [newUser] = await db.insert(users).values({
       telegramId: username,
@@ -104,8 +101,9 @@ async function createAdminUser() {
       isRegistered: true
     }).returning();
 
-    // Добавляем права доступа
+    // Добавляем права доступа и сохраняем хеш пароля
     await updatePermissions(newUser.id);
+    await savePassword(newUser.id);
 
     console.log(`Администратор ${username} успешно создан.`);
     console.log(`Домен для административной панели: ${domain}`);
@@ -116,6 +114,17 @@ async function createAdminUser() {
   }
 }
 
+async function savePassword(userId: number) {
+  const passwordHash = await hashPassword(password);
+
+  await db.insert(userCredentials)
+    .values({ userId, passwordHash, mustChangePassword: false })
+    .onConflictDoUpdate({
+      target: userCredentials.userId,
+      set: { passwordHash, mustChangePassword: false, updatedAt: new Date() }
+    });
+}
+
 async function updatePermissions(userId: number) {
   // Даем пользователю все права доступа
   for (const chatType of Object.values(CHAT_TYPES)) {
@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+import { readFile } from 'fs/promises';
+import { storage } from '../server/storage.js';
+
+// Отправляет записанные обновления Telegram на webhook-маршрут запущенного сервера,
+// чтобы проверить режим webhook без Telegram.
+//
+//   tsx scripts/replay-webhook-updates.ts [файл.json ...]
+//
+// Файл содержит одно обновление или массив обновлений в формате Bot API
+// (по умолчанию scripts/fixtures/telegram-updates.json).
+// WEBHOOK_URL — адрес маршрута (по умолчанию http://127.0.0.1:3000/api/telegram/webhook),
+// WEBHOOK_SECRET — секретный токен (по умолчанию берется из настроек бота в базе данных).
+// Ответы бота уходят в Telegram, поэтому в обновлениях должны быть реальные ID чатов.
+
+const DEFAULT_WEBHOOK_URL = 'http://127.0.0.1:3000/api/telegram/webhook';
+const DEFAULT_FIXTURE = 'scripts/fixtures/telegram-updates.json';
+
+async function loadUpdates(files: string[]): Promise<any[]> {
+  const updates: any[] = [];
+
+  for (const file of files) {
+    const parsed = JSON.parse(await readFile(file, 'utf8'));
+    updates.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+  }
+
+  return updates;
+}
+
+async function replayWebhookUpdates() {
+  const url = process.env.WEBHOOK_URL || DEFAULT_WEBHOOK_URL;
+  const secret = process.env.WEBHOOK_SECRET || (await storage.getBotSettings())?.webhookSecret;
+
+  if (!secret) {
+    throw new Error('Секретный токен не найден. Включите режим webhook в настройках бота или задайте WEBHOOK_SECRET.');
+  }
+
+  const files = process.argv.slice(2);
+  const updates = await loadUpdates(files.length > 0 ? files : [DEFAULT_FIXTURE]);
+  let failed = 0;
+
+  console.log(`Отправка обновлений на ${url}: ${updates.length}`);
+
+  for (const update of updates) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Telegram-Bot-Api-Secret-Token': secret
+      },
+      body: JSON.stringify(update)
+    });
+
+    if (!response.ok) {
+      failed++;
+    }
+
+    console.log(`update_id ${update.update_id}: ${response.status} ${response.statusText}`);
+  }
+
+  if (failed > 0) {
+    throw new Error(`Не принято обновлений: ${failed}`);
+  }
+
+  console.log('Все обновления приняты');
+}
+
+replayWebhookUpdates().then(() => {
+  process.exit(0);
+}).catch((error) => {
+  console.error('Ошибка при отправке обновлений:', error);
+  process.exit(1);
+});
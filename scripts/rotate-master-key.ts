@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+
+import { storage } from '../server/storage.js';
+
+// Перешифровывает все безопасные пароли и ключи лицензий актуальной версией мастер-ключа.
+// Порядок ротации:
+//   1. Добавьте новый ключ в SECURE_CONTENT_MASTER_KEYS, например "1:<старый>,2:<новый>"
+//   2. Запустите этот скрипт
+//   3. Удалите старый ключ из SECURE_CONTENT_MASTER_KEYS
+async function rotateMasterKey() {
+  try {
+    console.log('Перешифрование безопасных паролей...');
+
+    const result = await storage.reencryptSecurePasswords();
+
+    console.log(`Перешифровано записей: ${result.updated} из ${result.total}`);
+
+    console.log('Перешифрование ключей лицензий...');
+
+    const licenses = await storage.reencryptLicenseKeys();
+
+    console.log(`Перешифровано ключей: ${licenses.updated} из ${licenses.total}`);
+    console.log(`Текущая версия мастер-ключа: ${result.keyVersion}`);
+  } catch (error) {
+    console.error('Ошибка при перешифровании:', error);
+    process.exit(1);
+  }
+}
+
+rotateMasterKey().then(() => {
+  process.exit(0);
+}).catch((error) => {
+  console.error('Неожиданная ошибка:', error);
+  process.exit(1);
+});
@@ -1,43 +1,209 @@
-import { Telegraf, Scenes, session } from "telegraf";
+import { Telegraf, Scenes, session, Context } from "telegraf";
 import { message } from 'telegraf/filters';
-import { storage } from "./storage";
+import { storage, type NewAttachment } from "./storage";
 import * as schema from "@shared/schema";
 import { db } from "../db";
-import { eq, and, or } from "drizzle-orm";
+import { eq, and, or, inArray } from "drizzle-orm";
+import * as crypto from "crypto";
+import { decodeEquipmentQr } from "./labels";
+import { summarizeDepreciation, formatRubles } from "./depreciation";
+import { repairDays, repairLine, vendorName } from "./repairs";
+import { findLocations, locationPaths, locationSubtreeIds, LOCATION_PATH_SEPARATOR } from "./locations";
+
+// Default lifetime of a bot message that reveals secure password content
+const DEFAULT_REVEAL_MESSAGE_TTL_MINUTES = 5;
+
+// Tasks shown per page of /tasks
+const TASKS_PAGE_SIZE = 5;
+
+// Warranties ending within this many days are counted in the accountant summary
+const WARRANTY_SOON_DAYS = 30;
+
+// Employees per page when choosing a new holder for equipment
+const EQUIPMENT_HOLDERS_PAGE_SIZE = 8;
+
+// Items listed by /inventory_room, so the reply fits into one message
+const LOCATION_ITEMS_LIMIT = 50;
+
+// Locations offered when /inventory_room matches several
+const LOCATION_CHOICES_LIMIT = 10;
+
+// Stock items and employees offered when /stock or the issue wizard match several
+const STOCK_CHOICES_LIMIT = 10;
+
+// Commands available while a registration is waiting for approval
+const PENDING_ALLOWED_COMMANDS = ['start', 'help'];
+
+// Roles that can be requested in the bot, with their button labels
+const REGISTRATION_ROLES: Record<string, schema.Role> = {
+  'СисАдмин': schema.ROLES.SYSADMIN,
+  'Бухгалтер': schema.ROLES.ACCOUNTANT,
+  'Руководитель': schema.ROLES.MANAGER,
+  'Сотрудник': schema.ROLES.EMPLOYEE
+};
+
+// Step-by-step flows started by /new_task and /send_password without arguments
+const NEW_TASK_WIZARD = 'new_task_wizard';
+const SEND_PASSWORD_WIZARD = 'send_password_wizard';
+
+// Issue of consumables started from a /stock card
+const STOCK_ISSUE_WIZARD = 'stock_issue_wizard';
+
+const WIZARD_CANCEL_BUTTON = { text: '❌ Отмена', callback_data: 'wizard:cancel' };
+
+// Secure content types offered by the /send_password wizard
+const SECURE_PASSWORD_TYPES = ['credentials', 'password', 'api_key', 'other'];
+
+// Lifetimes offered by the /send_password wizard, with their button labels
+const SECURE_PASSWORD_LIFETIME_OPTIONS: [schema.SecurePasswordLifetime, string][] = [
+  [schema.SECURE_PASSWORD_LIFETIME.FOREVER, '♾ Бессрочно'],
+  [schema.SECURE_PASSWORD_LIFETIME.BURN_AFTER_READING, '🔥 После прочтения'],
+  [schema.SECURE_PASSWORD_LIFETIME.ONE_HOUR, '1 час'],
+  [schema.SECURE_PASSWORD_LIFETIME.ONE_DAY, '24 часа'],
+  [schema.SECURE_PASSWORD_LIFETIME.ONE_WEEK, '7 дней']
+];
+
+// Conversation state kept between updates of a chat
+interface BotSession extends Scenes.WizardSession {
+  // Task the next text message is a comment for
+  commentTaskId?: number;
+  // Stocktaking item the next photo belongs to
+  stocktakingPhotoItemId?: number;
+}
+
+export interface BotContext extends Context {
+  session: BotSession;
+  scene: Scenes.SceneContextScene<BotContext, Scenes.WizardSessionData>;
+  wizard: Scenes.WizardContextWizard<BotContext>;
+}
+
+interface NewTaskWizardState {
+  title?: string;
+  description?: string;
+  assigneeId?: number | null;
+  attachments: NewAttachment[];
+}
+
+interface SendPasswordWizardState {
+  title?: string;
+  type?: string;
+  content?: string;
+  receiverId?: number;
+  lifetime?: schema.SecurePasswordLifetime;
+  attachments: NewAttachment[];
+}
+
+interface StockIssueWizardState {
+  stockItemId: number;
+  quantity?: number;
+  issuedToUserId?: number | null;
+  taskId?: number | null;
+}
+
+// Route that receives updates in webhook mode
+export const TELEGRAM_WEBHOOK_PATH = '/api/telegram/webhook';
+
+// How the bot receives updates, from bot settings
+export interface BotLaunchOptions {
+  mode: schema.BotUpdateMode;
+  // Public base URL of the panel, e.g. https://your-domain.com
+  webhookUrl?: string;
+  // Sent back by Telegram in the X-Telegram-Bot-Api-Secret-Token header
+  webhookSecret?: string;
+}
 
 // Initialize the bot with null initially
-export let telegramBot: Telegraf | null = null;
+export let telegramBot: Telegraf<BotContext> | null = null;
+
+// Options the current bot was started with
+let launchOptions: BotLaunchOptions = { mode: schema.BOT_UPDATE_MODE.POLLING };
+
+/**
+ * Launch options from bot settings; webhook mode needs a URL and a secret, polling is used otherwise
+ */
+export function getBotLaunchOptions(settings: any): BotLaunchOptions {
+  if (settings?.updateMode === schema.BOT_UPDATE_MODE.WEBHOOK && settings.webhookUrl && settings.webhookSecret) {
+    return {
+      mode: schema.BOT_UPDATE_MODE.WEBHOOK,
+      webhookUrl: settings.webhookUrl,
+      webhookSecret: settings.webhookSecret
+    };
+  }
+
+  return { mode: schema.BOT_UPDATE_MODE.POLLING };
+}
+
+/**
+ * Whether a webhook request carries the secret of the running bot
+ */
+export function isWebhookRequestValid(secretHeader: string | undefined): boolean {
+  if (!telegramBot || launchOptions.mode !== schema.BOT_UPDATE_MODE.WEBHOOK || !launchOptions.webhookSecret || !secretHeader) {
+    return false;
+  }
+
+  const expected = Buffer.from(launchOptions.webhookSecret);
+  const received = Buffer.from(secretHeader);
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Stop the current bot. In webhook mode there is no polling loop, updates simply stop being handled.
+ */
+function stopBot(reason?: string) {
+  if (telegramBot && launchOptions.mode === schema.BOT_UPDATE_MODE.POLLING) {
+    telegramBot.stop(reason);
+  }
+
+  telegramBot = null;
+}
 
 /**
- * Setup the Telegram bot with the given token
+ * Setup the Telegram bot with the given token.
+ * In webhook mode the webhook is registered with Telegram, in polling mode it is removed by launch().
  */
-export function setupBot(token: string) {
+export function setupBot(token: string, options: BotLaunchOptions = { mode: schema.BOT_UPDATE_MODE.POLLING }) {
   try {
-    // Close existing bot if any
-    if (telegramBot) {
-      telegramBot.stop();
+    // A webhook of the previous token would keep pointing here with a secret that is no longer accepted
+    if (telegramBot && launchOptions.mode === schema.BOT_UPDATE_MODE.WEBHOOK && telegramBot.telegram.token !== token) {
+      telegramBot.telegram.deleteWebhook()
+        .catch(err => console.error("Failed to delete Telegram webhook:", err));
     }
 
+    // Close existing bot if any
+    stopBot();
+
     // Create a new bot instance
-    const bot = new Telegraf(token);
+    const bot = new Telegraf<BotContext>(token);
 
-    // Set up middleware
+    // Set up middleware; the access gate goes before the stage so that wizards are closed as well
     bot.use(session());
+    setupAccessGate(bot);
+    bot.use(new Scenes.Stage<BotContext>([createNewTaskWizard(), createSendPasswordWizard(), createStockIssueWizard()]).middleware());
 
     // Bot command handlers
     setupBotHandlers(bot);
 
     // Start the bot
-    bot.launch();
+    if (options.mode === schema.BOT_UPDATE_MODE.WEBHOOK) {
+      const url = `${options.webhookUrl!.replace(/\/+$/, '')}${TELEGRAM_WEBHOOK_PATH}`;
+
+      bot.telegram.setWebhook(url, { secret_token: options.webhookSecret })
+        .then(() => console.log(`Telegram webhook set to ${url}`))
+        .catch(err => console.error("Failed to set Telegram webhook:", err));
+    } else {
+      bot.launch().catch(err => console.error("Telegram bot polling stopped:", err));
+    }
 
     // Store the bot globally
     telegramBot = bot;
+    launchOptions = options;
 
-    console.log("Telegram bot started successfully");
+    console.log(`Telegram bot started successfully (${options.mode})`);
 
     // Enable graceful stop
-    process.once('SIGINT', () => bot.stop('SIGINT'));
-    process.once('SIGTERM', () => bot.stop('SIGTERM'));
+    process.once('SIGINT', () => stopBot('SIGINT'));
+    process.once('SIGTERM', () => stopBot('SIGTERM'));
 
     return bot;
   } catch (error) {
@@ -46,10 +212,77 @@ export function setupBot(token: string) {
   }
 }
 
+/**
+ * Whether an update is part of the registration: /start, /help, a role button or a department button
+ */
+function isRegistrationUpdate(ctx: BotContext): boolean {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text : undefined;
+  const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : undefined;
+
+  if (text?.startsWith('/')) {
+    return PENDING_ALLOWED_COMMANDS.includes(text.slice(1).split(/[\s@]/)[0]);
+  }
+
+  return (!!text && Object.keys(REGISTRATION_ROLES).includes(text)) || !!data?.startsWith('regdep:');
+}
+
+/**
+ * Refuse an update with a message, or with a popup for a button; other updates are dropped silently
+ */
+async function refuseUpdate(ctx: BotContext, text: string, popup: string) {
+  if (ctx.callbackQuery) {
+    await ctx.answerCbQuery(popup);
+  } else if (ctx.message) {
+    await ctx.reply(text);
+  }
+}
+
+/**
+ * Gate for blocked users and registrations that are not approved yet.
+ * It applies to every update, so commands, buttons, photos and wizards are closed alike.
+ */
+function setupAccessGate(bot: Telegraf<BotContext>) {
+  bot.use(async (ctx, next) => {
+    if (!ctx.from) {
+      return next();
+    }
+
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    // Employees who left get no further answers from the bot
+    if (user?.registrationStatus === schema.REGISTRATION_STATUS.BLOCKED) {
+      return refuseUpdate(ctx, 'Доступ к боту закрыт. Если это ошибка, обратитесь к администратору.', 'Доступ к боту закрыт');
+    }
+
+    // Until a registration is approved only the registration itself, /start and /help are available
+    if (!user || !user.isRegistered || isRegistrationUpdate(ctx)) {
+      return next();
+    }
+
+    if (user.registrationStatus === schema.REGISTRATION_STATUS.PENDING) {
+      return refuseUpdate(
+        ctx,
+        'Ваша заявка на регистрацию ожидает подтверждения администратором. Пока доступна только команда /help.',
+        'Заявка ожидает подтверждения'
+      );
+    }
+
+    if (user.registrationStatus === schema.REGISTRATION_STATUS.REJECTED) {
+      return refuseUpdate(
+        ctx,
+        'Ваша заявка на регистрацию отклонена. Используйте /start, чтобы подать новую заявку.',
+        'Заявка отклонена'
+      );
+    }
+
+    return next();
+  });
+}
+
 /**
  * Setup all bot command handlers
  */
-function setupBotHandlers(bot: Telegraf) {
+function setupBotHandlers(bot: Telegraf<BotContext>) {
   // Start command - begins registration
   bot.start(async (ctx) => {
     const telegramId = ctx.from.id.toString();
@@ -57,7 +290,14 @@ function setupBotHandlers(bot: Telegraf) {
     // Check if user already exists
     const existingUser = await storage.getUserByTelegramId(telegramId);
 
-    if (existingUser && existingUser.isRegistered) {
+    if (existingUser && existingUser.isRegistered && existingUser.registrationStatus === schema.REGISTRATION_STATUS.PENDING) {
+      await ctx.reply(`Ваша заявка на регистрацию в роли "${roleToRussian(existingUser.role)}" ожидает подтверждения администратором.`);
+    } else if (existingUser && existingUser.isRegistered && existingUser.registrationStatus === schema.REGISTRATION_STATUS.APPROVED) {
+      // Writing to the bot again means it is no longer blocked
+      if (existingUser.botBlockedAt) {
+        await storage.setUserBotBlocked(existingUser.id, false);
+      }
+
       // Welcome back message
       await ctx.reply(`Добро пожаловать назад, ${existingUser.firstName || existingUser.username}!`);
       sendMainMenu(ctx, existingUser);
@@ -76,19 +316,11 @@ function setupBotHandlers(bot: Telegraf) {
   });
 
   // Role selection handler
-  bot.hears(['СисАдмин', 'Бухгалтер', 'Руководитель', 'Сотрудник'], async (ctx) => {
+  bot.hears(Object.keys(REGISTRATION_ROLES), async (ctx) => {
     const telegramId = ctx.from.id.toString();
     const roleText = ctx.message.text;
 
-    // Map role text to enum
-    const roleMap: Record<string, schema.Role> = {
-      'СисАдмин': schema.ROLES.SYSADMIN,
-      'Бухгалтер': schema.ROLES.ACCOUNTANT,
-      'Руководитель': schema.ROLES.MANAGER,
-      'Сотрудник': schema.ROLES.EMPLOYEE
-    };
-
-    const role = roleMap[roleText];
+    const role = REGISTRATION_ROLES[roleText];
 
     if (!role) {
       return ctx.reply('Пожалуйста, выберите роль из предложенных вариантов.');
@@ -97,38 +329,132 @@ function setupBotHandlers(bot: Telegraf) {
     // Check if user exists
     let user = await storage.getUserByTelegramId(telegramId);
 
-    if (user && user.isRegistered) {
+    if (user && user.isRegistered && user.registrationStatus === schema.REGISTRATION_STATUS.APPROVED) {
       // Prevent changing role after registration
       return ctx.reply('Вы уже зарегистрированы. Нельзя менять роль после регистрации. Используйте /start чтобы вернуться в меню.');
-    } else if (user) {
-      // Update existing user
-      user = await storage.updateUserRole(user.id, role);
-    } else {
+    }
+
+    if (user && user.isRegistered && user.registrationStatus === schema.REGISTRATION_STATUS.PENDING) {
+      return ctx.reply('Ваша заявка на регистрацию уже отправлена и ожидает подтверждения администратором.');
+    }
+
+    if (!user) {
       // Create new user
       const userData: schema.InsertUser = {
         telegramId,
         username: ctx.from.username || undefined,
         firstName: ctx.from.first_name,
         lastName: ctx.from.last_name || undefined,
-        role,
-        isRegistered: true
+        role
       };
 
       user = await storage.createUser(userData);
     }
 
-    // Set default permissions based on role
-    await setDefaultPermissions(user.id, role);
+    // The department is asked next when there are departments to choose from
+    const departments = await storage.getDepartments();
+
+    if (departments.length === 0) {
+      return submitRegistration(ctx, user.id, role, null);
+    }
+
+    await ctx.reply('Выберите ваш отдел:', {
+      reply_markup: {
+        inline_keyboard: [
+          ...departments.map(department => [
+            { text: department.name, callback_data: `regdep:${role}:${department.id}` }
+          ]),
+          [{ text: 'Нет в списке', callback_data: `regdep:${role}:0` }]
+        ]
+      }
+    });
+  });
 
-    await ctx.reply(`Вы зарегистрированы как ${roleText}!`);
+  // Department chosen after the role; 0 leaves the department to the admins
+  bot.action(/^regdep:(\w+):(\d+)$/, async (ctx) => {
+    const [, role, id] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
 
-    // Refresh user data with permissions
-    user = await storage.getUserByTelegramId(telegramId);
+    if (!user || (user.isRegistered && user.registrationStatus !== schema.REGISTRATION_STATUS.REJECTED)) {
+      await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+      return ctx.answerCbQuery('Заявка уже отправлена');
+    }
 
-    // Show main menu
-    if (user) {
-      sendMainMenu(ctx, user);
+    if (!Object.values(REGISTRATION_ROLES).includes(role as schema.Role)) {
+      return ctx.answerCbQuery('Неверная роль');
+    }
+
+    const department = Number(id) ? await storage.getDepartmentById(Number(id)) : undefined;
+
+    if (Number(id) && !department) {
+      return ctx.answerCbQuery('Отдел не найден');
+    }
+
+    await ctx.editMessageText(`Отдел: ${department?.name || 'не указан'}`).catch(() => {});
+    await ctx.answerCbQuery();
+    await submitRegistration(ctx, user.id, role as schema.Role, department?.id ?? null);
+  });
+
+  // Registration review buttons sent to approvers
+  bot.action(/^reg:(approve|reject|role|back):(\d+)$/, async (ctx) => {
+    const [, action, id] = ctx.match;
+    const userId = Number(id);
+
+    if (!(await isRegistrationApprover(ctx.from.id.toString()))) {
+      return ctx.answerCbQuery('У вас нет прав на рассмотрение заявок');
+    }
+
+    if (action === 'role') {
+      await ctx.editMessageReplyMarkup(registrationRoleKeyboard(userId));
+      return ctx.answerCbQuery();
+    }
+
+    if (action === 'back') {
+      await ctx.editMessageReplyMarkup(registrationReviewKeyboard(userId));
+      return ctx.answerCbQuery();
+    }
+
+    const user = action === 'approve'
+      ? await storage.approveRegistration(userId)
+      : await storage.rejectRegistration(userId);
+
+    if (!user) {
+      await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+      return ctx.answerCbQuery('Заявка уже рассмотрена');
+    }
+
+    const approved = action === 'approve';
+    const reviewer = ctx.from.username ? `@${ctx.from.username}` : ctx.from.first_name;
+
+    await ctx.editMessageText(
+      `${await registrationRequestText(user)}\n\n${approved ? '✅ Одобрено' : '❌ Отклонено'} (${reviewer})`
+    );
+    await ctx.answerCbQuery(approved ? 'Заявка одобрена' : 'Заявка отклонена');
+
+    await notifyRegistrationDecision(user, approved);
+  });
+
+  // Role chosen by an approver for a pending registration
+  bot.action(/^reg:setrole:(\d+):(\w+)$/, async (ctx) => {
+    const [, id, role] = ctx.match;
+
+    if (!(await isRegistrationApprover(ctx.from.id.toString()))) {
+      return ctx.answerCbQuery('У вас нет прав на рассмотрение заявок');
+    }
+
+    if (!Object.values(REGISTRATION_ROLES).includes(role as schema.Role)) {
+      return ctx.answerCbQuery('Неверная роль');
+    }
+
+    const user = await storage.changePendingRegistrationRole(Number(id), role as schema.Role);
+
+    if (!user) {
+      await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+      return ctx.answerCbQuery('Заявка уже рассмотрена');
     }
+
+    await ctx.editMessageText(await registrationRequestText(user), { reply_markup: registrationReviewKeyboard(user.id) });
+    await ctx.answerCbQuery(`Роль изменена на "${roleToRussian(user.role)}"`);
   });
 
   // Add a logout command
@@ -175,19 +501,60 @@ function setupBotHandlers(bot: Telegraf) {
 
     if (user) {
       try {
+        // Equipment is handed back with a transfer act during offboarding, deleting the holder would lose it
+        const held = await storage.getEquipmentHeldBy(user.id);
+
+        if (held.length > 0) {
+          await ctx.reply(
+            `За вами числится имущество (${held.length}), поэтому удалить ваши данные нельзя. ` +
+            'Обратитесь к администратору: он оформит возврат имущества и ваш уход из системы.'
+          );
+          return;
+        }
+
         // First delete associated records
+        const userPasswords = or(
+          eq(schema.securePasswords.senderId, user.id),
+          eq(schema.securePasswords.receiverId, user.id)
+        );
+
+        await db.delete(schema.securePasswordAttachments)
+          .where(inArray(
+            schema.securePasswordAttachments.securePasswordId,
+            db.select({ id: schema.securePasswords.id }).from(schema.securePasswords).where(userPasswords)
+          ));
+
         await db.delete(schema.securePasswords)
+          .where(userPasswords);
+
+        const userTasks = or(
+          eq(schema.tasks.createdByUserId, user.id),
+          eq(schema.tasks.assignedToUserId, user.id)
+        );
+
+        await db.delete(schema.taskComments)
           .where(or(
-            eq(schema.securePasswords.senderId, user.id),
-            eq(schema.securePasswords.receiverId, user.id)
+            eq(schema.taskComments.userId, user.id),
+            inArray(schema.taskComments.taskId, db.select({ id: schema.tasks.id }).from(schema.tasks).where(userTasks))
           ));
 
-        await db.delete(schema.tasks)
+        await db.delete(schema.taskAttachments)
           .where(or(
-            eq(schema.tasks.createdByUserId, user.id),
-            eq(schema.tasks.assignedToUserId, user.id)
+            eq(schema.taskAttachments.userId, user.id),
+            inArray(schema.taskAttachments.taskId, db.select({ id: schema.tasks.id }).from(schema.tasks).where(userTasks))
           ));
 
+        await db.update(schema.stockMovements)
+          .set({ taskId: null })
+          .where(inArray(schema.stockMovements.taskId, db.select({ id: schema.tasks.id }).from(schema.tasks).where(userTasks)));
+
+        await db.update(schema.repairOrders)
+          .set({ taskId: null })
+          .where(inArray(schema.repairOrders.taskId, db.select({ id: schema.tasks.id }).from(schema.tasks).where(userTasks)));
+
+        await db.delete(schema.tasks)
+          .where(userTasks);
+
         await db.delete(schema.equipmentHistory)
           .where(eq(schema.equipmentHistory.userId, user.id));
 
@@ -212,9 +579,10 @@ function setupBotHandlers(bot: Telegraf) {
       '/inventory - Поиск информации об имуществе\n' +
       '/tasks - Управление задачами\n' +
       '/passwords - Безопасные пароли\n' +
+      '/cancel - Отменить текущий ввод\n' +
       '/help - Показать эту справку\n' +
       '/logout - Выйти из системы (позволяет заново выбрать роль)\n' +
-      '/exit - Выйти из системы и удалить свои данные';
+      '/exit - Выйти из системы и удалить свои данные, если за вами не числится имущество';
 
     await ctx.reply(helpMessage);
   });
@@ -237,12 +605,21 @@ function setupBotHandlers(bot: Telegraf) {
       return ctx.reply('У вас нет доступа к этому разделу.');
     }
 
+    // Accountants get the book value of the equipment first
+    if (user.role === schema.ROLES.ACCOUNTANT) {
+      await ctx.reply(await depreciationSummaryText());
+    }
+
     await ctx.reply(
       'Управление имуществом\n\n' +
       'Для поиска имущества по инвентарному номеру используйте команду:\n' +
       '/inventory_number <номер>\n\n' +
       'Для поиска имущества по имени сотрудника используйте команду:\n' +
-      '/inventory_user <имя_или_фамилия>'
+      '/inventory_user <имя_или_фамилия>\n\n' +
+      'Для просмотра имущества в помещении используйте команду:\n' +
+      '/inventory_room <помещение>\n\n' +
+      'Чтобы найти имущество по этикетке, отправьте фото ее QR-кода.' +
+      (canManageEquipment(user) ? '\n\nОстатки и выдача расходников: /stock' : '')
     );
   });
 
@@ -270,33 +647,16 @@ function setupBotHandlers(bot: Telegraf) {
     }
 
     const inventoryNumber = args.slice(1).join(' ');
-    const equipment = await storage.getEquipment(inventoryNumber, undefined);
+    const equipment = await storage.getEquipment({ inventoryNumber });
 
     if (!equipment || equipment.length === 0) {
       return ctx.reply(`Упс, походу такого нет. Имущество с инвентарным номером "${inventoryNumber}" не найдено.`);
     }
 
-    // Display results in a tabular format
-    let response = `Найдено имущество по номеру "${inventoryNumber}":\n\n`;
-    response += `Дата установки | ФИО | Наименование имущества | Инвентарный номер\n`;
-    response += `----------------------------------------------------------\n`;
-
-    for (const item of equipment) {
-      const assignedTo = item.assignedUser 
-        ? `${item.assignedUser.lastName} ${item.assignedUser.firstName}` 
-        : 'Не назначено';
-
-      // Use item.createdAt as installation date (or updatedAt if it changed owner)
-      const installDate = new Date(item.updatedAt || item.createdAt).toLocaleDateString('ru-RU');
-
-      response += `${installDate} | ${assignedTo} | ${item.name} | ${item.inventoryNumber}\n`;
-    }
-
-    // Add a note about status
-    response += `\n\nСтатус: ${equipmentStatusToRussian(equipment[0].status)}`;
-
-
-    await ctx.reply(response);
+    // Actions are offered when the number points to a single item
+    await ctx.reply(equipmentCardText(inventoryNumber, equipment), equipment.length === 1 && canManageEquipment(user)
+      ? { reply_markup: equipmentCardKeyboard(equipment[0].id) }
+      : undefined);
   });
 
   // Inventory search by user
@@ -323,38 +683,46 @@ function setupBotHandlers(bot: Telegraf) {
     }
 
     const employeeName = args.slice(1).join(' ');
-    const equipment = await storage.getEquipment(undefined, employeeName);
+    const equipment = await storage.getEquipment({ employeeName });
+    const licenseSeats = await storage.getEmployeeLicenseSeats(employeeName);
 
-    if (!equipment || equipment.length === 0) {
+    if (equipment.length === 0 && licenseSeats.length === 0) {
       return ctx.reply(`Упс, походу такого нет. Имущество, закрепленное за сотрудником "${employeeName}", не найдено.`);
     }
 
-    // Display results in a tabular format
-    let response = `Найдено имущество, закрепленное за сотрудником "${employeeName}":\n\n`;
-    response += `Дата установки | ФИО | Наименование имущества | Инвентарный номер\n`;
-    response += `----------------------------------------------------------\n`;
+    let response = `Имущество, закрепленное за сотрудником "${employeeName}", не найдено.`;
 
-    for (const item of equipment) {
-      const assignedTo = item.assignedUser 
-        ? `${item.assignedUser.lastName} ${item.assignedUser.firstName}` 
-        : 'Не назначено';
+    if (equipment.length > 0) {
+      // Display results in a tabular format
+      response = `Найдено имущество, закрепленное за сотрудником "${employeeName}":\n\n`;
+      response += `Дата установки | ФИО | Наименование имущества | Инвентарный номер\n`;
+      response += `----------------------------------------------------------\n`;
 
-      // Use item.createdAt as installation date (or updatedAt if it changed owner)
-      const installDate = new Date(item.updatedAt || item.createdAt).toLocaleDateString('ru-RU');
+      for (const item of equipment) {
+        const assignedTo = item.assignedUser
+          ? `${item.assignedUser.lastName} ${item.assignedUser.firstName}`
+          : 'Не назначено';
 
-      response += `${installDate} | ${assignedTo} | ${item.name} | ${item.inventoryNumber}\n`;
-    }
+        // Use item.createdAt as installation date (or updatedAt if it changed owner)
+        const installDate = new Date(item.updatedAt || item.createdAt).toLocaleDateString('ru-RU');
 
-    // Add a note about status if all items have the same status
-    if (equipment.length > 0) {
+        response += `${installDate} | ${assignedTo} | ${item.name} | ${item.inventoryNumber}\n`;
+      }
+
+      // Add a note about status if all items have the same status
       response += `\n\nСтатус: ${equipmentStatusToRussian(equipment[0].status)}`;
     }
 
+    // Keys are not shown in the bot, only in the panel
+    if (licenseSeats.length > 0) {
+      response += `\n\n🔑 Лицензии:\n${licenseSeats.map(licenseSeatLine).join('\n')}`;
+    }
+
     await ctx.reply(response);
   });
 
-  // Tasks command
-  bot.command('tasks', async (ctx) => {
+  // Inventory of a room, a floor or a building
+  bot.command('inventory_room', async (ctx) => {
     const telegramId = ctx.from.id.toString();
     const user = await storage.getUserByTelegramId(telegramId);
 
@@ -363,408 +731,2174 @@ function setupBotHandlers(bot: Telegraf) {
     }
 
     // Check permissions
-    const hasAccess = user.permissions.some(p => 
-      p.chatType === schema.CHAT_TYPES.TASKS && p.hasAccess
+    const hasAccess = user.permissions.some(p =>
+      p.chatType === schema.CHAT_TYPES.EQUIPMENT && p.hasAccess
     );
 
     if (!hasAccess) {
       return ctx.reply('У вас нет доступа к этому разделу.');
     }
 
-    // For SysAdmin, show assigned tasks
-    if (user.role === schema.ROLES.SYSADMIN) {
-      const tasks = await storage.getTasks();
-      const assignedTasks = tasks.filter(t => t.assignedToUserId === user.id);
-
-      if (assignedTasks.length === 0) {
-        return ctx.reply('У вас нет назначенных задач.');
-      }
+    const args = ctx.message.text.split(' ');
+    if (args.length < 2) {
+      return ctx.reply('Пожалуйста, укажите помещение. Например: /inventory_room 305 или /inventory_room Главный корпус / 3 этаж / 305');
+    }
 
-      let response = 'Ваши задачи:\n\n';
+    const query = args.slice(1).join(' ');
+    const locations = await storage.getLocations();
+    const found = findLocations(locations, query);
 
-      for (const task of assignedTasks) {
-        const creator = task.createdBy 
-          ? `${task.createdBy.lastName} ${task.createdBy.firstName}` 
-          : 'Неизвестно';
+    if (found.length === 0) {
+      return ctx.reply(`Упс, походу такого нет. Помещение "${query}" не найдено.`);
+    }
 
-        response += `🔤 Заголовок: ${task.title}\n` +
-                    `📝 Описание: ${task.description || 'Нет описания'}\n` +
-                    `👤 От: ${creator}\n` +
-                    `🔄 Статус: ${taskStatusToRussian(task.status)}\n` +
-                    `⏰ Создано: ${new Date(task.createdAt).toLocaleString('ru-RU')}\n\n`;
-      }
+    if (found.length > 1) {
+      const paths = locationPaths(locations);
 
-      await ctx.reply(response);
-    } else {
-      // For other users, show info about creating tasks
-      await ctx.reply(
-        'Управление задачами\n\n' +
-        'Для создания новой задачи используйте команду:\n' +
-        '/new_task <название> | <описание> | <сисадмин>?\n\n' +
-        'Например:\n' +
-        '/new_task Настройка VPN | Настроить VPN на новом ноутбуке | @ivanov_p'
-      );
+      return ctx.reply(`По запросу "${query}" найдено несколько мест, выберите нужное:`, {
+        reply_markup: {
+          inline_keyboard: found.slice(0, LOCATION_CHOICES_LIMIT).map(location => [
+            { text: paths.get(location.id)!, callback_data: `loc:${location.id}` }
+          ])
+        }
+      });
     }
+
+    await ctx.reply(await locationInventoryText(found[0].id));
   });
 
-  // New task command
-  bot.command('new_task', async (ctx) => {
-    const telegramId = ctx.from.id.toString();
-    const user = await storage.getUserByTelegramId(telegramId);
+  // A location picked from several found by /inventory_room
+  bot.action(/^loc:(\d+)$/, async (ctx) => {
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
 
-    if (!user) {
-      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    if (!user || !user.permissions.some(p => p.chatType === schema.CHAT_TYPES.EQUIPMENT && p.hasAccess)) {
+      return ctx.answerCbQuery('У вас нет доступа к этому разделу');
     }
 
-    // Check permissions
-    const hasAccess = user.permissions.some(p => 
-      p.chatType === schema.CHAT_TYPES.TASKS && p.hasAccess
-    );
+    await ctx.editMessageText(await locationInventoryText(Number(ctx.match[1]))).catch(() => {});
+    await ctx.answerCbQuery();
+  });
 
-    if (!hasAccess) {
-      return ctx.reply('У вас нет доступа к этому разделу.');
+  // Receipt buttons under an equipment assignment. Only the holder can answer, access to the section is not needed.
+  bot.action(/^receipt:(confirm|reject):(\d+)$/, async (ctx) => {
+    const [, answer, id] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    if (!user) {
+      return ctx.answerCbQuery('Вы не зарегистрированы');
     }
 
-    const text = ctx.message.text.substring('/new_task'.length).trim();
-    const parts = text.split('|').map(part => part.trim());
+    const confirmed = answer === 'confirm';
+    const items = await storage.answerEquipmentReceipt(Number(id), user.id, confirmed);
 
-    if (parts.length < 2) {
-      return ctx.reply('Неверный формат команды. Используйте: /new_task <название> | <описание> | <сисадмин>?');
+    if (items.length === 0) {
+      await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+      return ctx.answerCbQuery('Ответ уже получен или имущество передано другому сотруднику');
     }
 
-    const title = parts[0];
-    const description = parts[1];
-    const assigneeName = parts[2] || null;
+    const result = confirmed ? '✅ Получение подтверждено' : '❌ Отмечено: не получал';
+    const callbackMessage = ctx.callbackQuery.message;
+    const originalText = callbackMessage && 'text' in callbackMessage ? callbackMessage.text : '';
 
-    // Find assignee if specified
-    let assigneeId = null;
+    await ctx.editMessageText(`${originalText}\n\n${result} ${new Date().toLocaleString('ru-RU')}`).catch(() => {});
+    await ctx.answerCbQuery(result);
 
-    if (assigneeName) {
-      // Remove @ if present
-      const username = assigneeName.startsWith('@') ? assigneeName.substring(1) : assigneeName;
+    if (!confirmed) {
+      await notifyEquipmentReceiptRejected(Number(id), user, items);
+    }
+  });
 
-      // Find sysadmin with this username
-      const sysadmins = await db.query.users.findMany({
-        where: and(
-          eq(schema.users.role, schema.ROLES.SYSADMIN),
-          eq(schema.users.username, username)
-        )
-      });
+  // Stocktaking checklist buttons: the result of checking an item, or a request to attach a photo
+  bot.action(/^stock:(present|missing|damaged|photo):(\d+)$/, async (ctx) => {
+    const [, action, id] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+    const existing = await storage.getStocktakingItemById(Number(id));
 
-      if (sysadmins.length > 0) {
-        assigneeId = sysadmins[0].id;
-      } else {
-        await ctx.reply(`Системный администратор с именем ${assigneeName} не найден. Задача будет создана без назначения.`);
-      }
+    if (!user || !existing || existing.holderUserId !== user.id) {
+      return ctx.answerCbQuery('Предмет не найден');
     }
 
-    // Create task
-    const task = await storage.createTask({
-      title,
-      description,
-      createdByUserId: user.id,
-      assignedToUserId: assigneeId,
-      status: assigneeId ? schema.TASK_STATUS.IN_PROGRESS : schema.TASK_STATUS.NEW
-    });
+    if (existing.stocktaking.status !== schema.STOCKTAKING_STATUS.ACTIVE) {
+      await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+      return ctx.answerCbQuery('Инвентаризация уже завершена');
+    }
 
-    await ctx.reply(`Задача "${title}" успешно создана!`);
+    if (action === 'photo') {
+      if (ctx.session) {
+        ctx.session.stocktakingPhotoItemId = existing.id;
+      }
 
-    // Notify assignee if applicable
-    if (task.assignedToUserId && telegramBot) {
-      const assignee = await storage.getUserById(task.assignedToUserId);
+      await ctx.answerCbQuery();
+      return ctx.reply(`📷 Отправьте фото предмета "${existing.name}" (инв. № ${existing.inventoryNumber}).\nДля отмены используйте /cancel`);
+    }
 
-      if (assignee && assignee.telegramId) {
-        const message = `📝 Вам назначена новая задача!\n\nЗаголовок: ${task.title}\nОписание: ${task.description}\nСтатус: ${taskStatusToRussian(task.status)}\nОт: ${user.lastName} ${user.firstName}`;
+    const item = await storage.checkStocktakingItem(existing.id, action as schema.StocktakingResult, user.id, user.id);
 
-        telegramBot.telegram.sendMessage(assignee.telegramId, message)
-          .catch(err => console.error("Failed to send task notification:", err));
-      }
+    if (!item) {
+      return ctx.answerCbQuery('Инвентаризация уже завершена');
     }
+
+    await ctx.editMessageText(stocktakingItemText(item), { reply_markup: stocktakingItemKeyboard(item.id) }).catch(() => {});
+    await ctx.answerCbQuery(`Отмечено: ${stocktakingResultToRussian(item.result || '')}`);
   });
 
-  // Passwords command
-  bot.command('passwords', async (ctx) => {
-    const telegramId = ctx.from.id.toString();
-    const user = await storage.getUserByTelegramId(telegramId);
+  // Action buttons under an equipment card
+  bot.action(/^eq:(repair|history|back):(\d+)$/, async (ctx) => {
+    const [, action, id] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
 
-    if (!user) {
-      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    if (!user || !canManageEquipment(user)) {
+      return ctx.answerCbQuery('Управлять имуществом могут только системные администраторы');
     }
 
-    // Check permissions
-    const hasAccess = user.permissions.some(p => 
-      p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
-    );
+    const item = await storage.getEquipmentById(Number(id));
 
-    if (!hasAccess) {
-      return ctx.reply('У вас нет доступа к этому разделу.');
+    if (!item) {
+      return ctx.answerCbQuery('Имущество не найдено');
     }
 
-    // Show user's passwords
-    const passwords = await storage.getUserSecurePasswords(user.id);
-
-    if (passwords.length === 0) {
-      return ctx.reply(
-        'У вас нет безопасных паролей.\n\n' +
-        'Для отправки защищенной информации используйте команду:\n' +
-        '/send_password <получатель> | <название> | <тип> | <содержимое>\n\n' +
-        'Например:\n' +
-        '/send_password @ivanov_p | Доступ к админке | credentials | Логин: admin, Пароль: 12345'
-      );
+    if (action === 'back') {
+      await ctx.editMessageReplyMarkup(equipmentCardKeyboard(item.id));
+      return ctx.answerCbQuery();
     }
 
-    let response = 'Ваши безопасные пароли:\n\n';
+    if (action === 'history') {
+      const history = (await storage.getEquipmentHistory(item.id)).slice(0, 10);
+      const repairs = (await storage.getRepairOrders({ equipmentId: item.id })).slice(0, 5);
+      const lines = history.map(entry =>
+        `${new Date(entry.timestamp).toLocaleString('ru-RU')} — ${entry.action}${entry.details ? `: ${entry.details}` : ''}`
+      );
+      const repairsText = repairs.length > 0 ? `\n\n🔧 Ремонты:\n${repairs.map(repairLine).join('\n')}` : '';
 
-    for (const password of passwords) {
-      const sender = password.sender.id === user.id ? 'Вы' : `${password.sender.lastName} ${password.sender.firstName}`;
-      const receiver = password.receiver.id === user.id ? 'Вам' : `${password.receiver.lastName} ${password.receiver.firstName}`;
+      await ctx.answerCbQuery();
+      return ctx.reply(lines.length > 0
+        ? `📜 История "${item.name}" (${item.inventoryNumber}), последние записи:\n\n${lines.join('\n')}${repairsText}`
+        : 'История пуста.');
+    }
 
-      response += `🔒 ${password.title}\n` +
-                  `📋 Тип: ${securePasswordTypeToRussian(password.type)}\n` +
-                  `👤 От: ${sender}\n` +
-                  `👥 Кому: ${receiver}\n` +
-                  `⏰ Создано: ${new Date(password.createdAt).toLocaleString('ru-RU')}\n` +
-                  `🔍 Для просмотра используйте команду: /password ${password.id}\n\n`;
+    if (item.status === schema.EQUIPMENT_STATUS.REPAIR) {
+      return ctx.answerCbQuery('Имущество уже на ремонте');
     }
 
-    await ctx.reply(response);
+    await storage.updateEquipment(item.id, { status: schema.EQUIPMENT_STATUS.REPAIR }, user.id);
+    await editEquipmentCard(ctx, item.id);
+    await ctx.answerCbQuery('Отправлено в ремонт');
   });
 
-  // View password command
-  bot.command('password', async (ctx) => {
-    const telegramId = ctx.from.id.toString();
-    const user = await storage.getUserByTelegramId(telegramId);
+  // Reassign button under an equipment card: a page of employees to choose from
+  bot.action(/^eq:reassign:(\d+):(\d+)$/, async (ctx) => {
+    const [, id, pageText] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
 
-    if (!user) {
-      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    if (!user || !canManageEquipment(user)) {
+      return ctx.answerCbQuery('Управлять имуществом могут только системные администраторы');
     }
 
-    // Check permissions
-    const hasAccess = user.permissions.some(p => 
-      p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
-    );
+    const item = await storage.getEquipmentById(Number(id));
 
-    if (!hasAccess) {
-      return ctx.reply('У вас нет доступа к этому разделу.');
+    if (!item) {
+      return ctx.answerCbQuery('Имущество не найдено');
     }
 
-    const args = ctx.message.text.split(' ');
-    if (args.length < 2) {
-      return ctx.reply('Пожалуйста, укажите ID пароля. Например: /password 123');
-    }
+    const employees = (await storage.getAllUsers())
+      .filter(employee => employee.registrationStatus === schema.REGISTRATION_STATUS.APPROVED && employee.id !== item.assignedToUserId);
+    const pageCount = Math.max(1, Math.ceil(employees.length / EQUIPMENT_HOLDERS_PAGE_SIZE));
+    const page = Math.min(Number(pageText), pageCount - 1);
+    const pageEmployees = employees.slice(page * EQUIPMENT_HOLDERS_PAGE_SIZE, (page + 1) * EQUIPMENT_HOLDERS_PAGE_SIZE);
+
+    const navigation = [];
+
+    if (page > 0) {
+      navigation.push({ text: '⬅️', callback_data: `eq:reassign:${item.id}:${page - 1}` });
+    }
+
+    if (page < pageCount - 1) {
+      navigation.push({ text: '➡️', callback_data: `eq:reassign:${item.id}:${page + 1}` });
+    }
+
+    await ctx.editMessageReplyMarkup({
+      inline_keyboard: [
+        ...pageEmployees.map(employee => [{
+          text: `${employee.lastName || ''} ${employee.firstName || ''}`.trim() || `@${employee.username}`,
+          callback_data: `eq:assign:${item.id}:${employee.id}`
+        }]),
+        ...(item.assignedToUserId ? [[{ text: '🏬 Вернуть на склад', callback_data: `eq:assign:${item.id}:0` }]] : []),
+        ...(navigation.length > 0 ? [navigation] : []),
+        [{ text: '⬅️ Назад', callback_data: `eq:back:${item.id}` }]
+      ]
+    });
+    await ctx.answerCbQuery();
+  });
+
+  // New holder chosen for equipment; 0 returns it to the warehouse
+  bot.action(/^eq:assign:(\d+):(\d+)$/, async (ctx) => {
+    const [, id, holderId] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    if (!user || !canManageEquipment(user)) {
+      return ctx.answerCbQuery('Управлять имуществом могут только системные администраторы');
+    }
+
+    const item = await storage.getEquipmentById(Number(id));
+    const holder = Number(holderId) ? await storage.getUserById(Number(holderId)) : null;
+
+    if (!item || (Number(holderId) && !holder)) {
+      return ctx.answerCbQuery('Имущество или сотрудник не найдены');
+    }
+
+    const updated = await storage.updateEquipment(item.id, { assignedToUserId: holder?.id ?? null }, user.id);
+
+    if (updated?.transferAct) {
+      await notifyEquipmentReceiptRequested(updated.transferAct);
+    }
+
+    await editEquipmentCard(ctx, item.id);
+    await ctx.answerCbQuery(holder
+      ? `Закреплено за: ${holder.lastName} ${holder.firstName}`
+      : 'Возвращено на склад');
+  });
+
+  // Consumables stock: the list of items, or the items matching a name with an issue button
+  bot.command('stock', async (ctx) => {
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    if (!user) {
+      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    }
+
+    if (!canManageEquipment(user)) {
+      return ctx.reply('Склад расходников доступен только системным администраторам.');
+    }
+
+    const query = ctx.message.text.substring('/stock'.length).trim();
+
+    if (!query) {
+      const items = await storage.getStockItems();
+
+      if (items.length === 0) {
+        return ctx.reply('На складе пока нет позиций. Добавьте их в панели управления.');
+      }
+
+      return ctx.reply(
+        `📦 Склад расходников\n\n${items.map(item => stockItemLine(item)).join('\n')}\n\n` +
+        'Чтобы выдать, используйте /stock <название>'
+      );
+    }
+
+    const items = await storage.searchStockItems(query);
+
+    if (items.length === 0) {
+      return ctx.reply(`Упс, походу такого нет. Позиция "${query}" на складе не найдена.`);
+    }
+
+    if (items.length > 1) {
+      return ctx.reply(`По запросу "${query}" найдено несколько позиций, выберите нужную:`, {
+        reply_markup: {
+          inline_keyboard: items.slice(0, STOCK_CHOICES_LIMIT).map(item => [
+            { text: stockItemLine(item), callback_data: `stockitem:show:${item.id}` }
+          ])
+        }
+      });
+    }
+
+    await ctx.reply(stockItemText(items[0]), { reply_markup: stockItemKeyboard(items[0].id) });
+  });
+
+  // A stock item picked from several found by /stock, or the issue button under its card
+  bot.action(/^stockitem:(show|issue):(\d+)$/, async (ctx) => {
+    const [, action, id] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    if (!user || !canManageEquipment(user)) {
+      return ctx.answerCbQuery('Склад расходников доступен только системным администраторам');
+    }
+
+    const item = await storage.getStockItemById(Number(id));
+
+    if (!item) {
+      return ctx.answerCbQuery('Позиция не найдена');
+    }
+
+    await ctx.answerCbQuery();
+
+    if (action === 'show') {
+      return ctx.editMessageText(stockItemText(item), { reply_markup: stockItemKeyboard(item.id) }).catch(() => {});
+    }
+
+    if (item.quantity === 0) {
+      return ctx.reply(`"${item.name}" закончились, выдавать нечего.`);
+    }
+
+    return ctx.scene.enter(STOCK_ISSUE_WIZARD, { stockItemId: item.id });
+  });
+
+  // Tasks command
+  bot.command('tasks', async (ctx) => {
+    const telegramId = ctx.from.id.toString();
+    const user = await storage.getUserByTelegramId(telegramId);
+
+    if (!user) {
+      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    }
+
+    // Check permissions
+    const hasAccess = user.permissions.some(p => 
+      p.chatType === schema.CHAT_TYPES.TASKS && p.hasAccess
+    );
+
+    if (!hasAccess) {
+      return ctx.reply('У вас нет доступа к этому разделу.');
+    }
+
+    if (!canExecuteTasks(user)) {
+      await ctx.reply(
+        'Управление задачами\n\n' +
+        'Для пошагового создания задачи отправьте /new_task\n\n' +
+        'Или одной строкой:\n' +
+        '/new_task <название> | <описание> | <сисадмин>?\n\n' +
+        'Например:\n' +
+        '/new_task Настройка VPN | Настроить VPN на новом ноутбуке | @ivanov_p'
+      );
+    }
+
+    await sendTasksPage(ctx, user, 0);
+  });
+
+  // Next page of /tasks
+  bot.action(/^tasks:page:(\d+)$/, async (ctx) => {
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    if (!user) {
+      return ctx.answerCbQuery('Вы не зарегистрированы');
+    }
+
+    // The old navigation message is replaced by the one under the new page
+    await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+    await ctx.answerCbQuery();
+    await sendTasksPage(ctx, user, Number(ctx.match[1]));
+  });
+
+  // Status buttons under a task
+  bot.action(/^task:(take|complete|urgent):(\d+)$/, async (ctx) => {
+    const [, action, id] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    if (!user || !canExecuteTasks(user)) {
+      return ctx.answerCbQuery('Изменять задачи могут только системные администраторы');
+    }
+
+    const existing = await storage.getTaskById(Number(id));
+
+    if (!existing) {
+      return ctx.answerCbQuery('Задача не найдена');
+    }
+
+    // Taking a task also assigns it to whoever took it
+    if (action === 'take' && existing.assignedToUserId !== user.id) {
+      await storage.assignTask(existing.id, user.id);
+    }
+
+    // Urgency is a priority, not a status: the deadline is kept and nobody is notified
+    if (action === 'urgent') {
+      await storage.updateTaskPriority(existing.id, schema.TASK_PRIORITY.URGENT, existing.dueAt);
+    } else {
+      const status = action === 'take' ? schema.TASK_STATUS.IN_PROGRESS : schema.TASK_STATUS.COMPLETED;
+      await storage.updateTaskStatus(existing.id, status);
+      await notifyTaskStatusChanged(existing.id, user.id);
+    }
+
+    const task = await storage.getTaskById(existing.id);
+
+    if (task) {
+      await ctx.editMessageText(taskText(task), { reply_markup: taskKeyboard(task, user) }).catch(() => {});
+    }
+
+    await ctx.answerCbQuery(action === 'urgent'
+      ? `Приоритет: ${taskPriorityToRussian(schema.TASK_PRIORITY.URGENT)}`
+      : `Статус: ${taskStatusToRussian(task?.status || '')}`);
+  });
+
+  // Reassign button: choose another sysadmin
+  bot.action(/^task:(reassign|back):(\d+)$/, async (ctx) => {
+    const [, action, id] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    if (!user || !canExecuteTasks(user)) {
+      return ctx.answerCbQuery('Изменять задачи могут только системные администраторы');
+    }
+
+    const task = await storage.getTaskById(Number(id));
+
+    if (!task) {
+      return ctx.answerCbQuery('Задача не найдена');
+    }
+
+    if (action === 'back') {
+      await ctx.editMessageReplyMarkup(taskKeyboard(task, user));
+      return ctx.answerCbQuery();
+    }
+
+    const sysadmins = (await getTaskAssignees()).filter(sysadmin => sysadmin.id !== task.assignedToUserId);
+
+    if (sysadmins.length === 0) {
+      return ctx.answerCbQuery('Нет других системных администраторов');
+    }
+
+    await ctx.editMessageReplyMarkup({
+      inline_keyboard: [
+        ...sysadmins.map(sysadmin => [{
+          text: `${sysadmin.lastName || ''} ${sysadmin.firstName || ''}`.trim() || `@${sysadmin.username}`,
+          callback_data: `task:assign:${task.id}:${sysadmin.id}`
+        }]),
+        [{ text: '⬅️ Назад', callback_data: `task:back:${task.id}` }]
+      ]
+    });
+    await ctx.answerCbQuery();
+  });
+
+  // Sysadmin chosen for reassignment
+  bot.action(/^task:assign:(\d+):(\d+)$/, async (ctx) => {
+    const [, taskId, assigneeId] = ctx.match;
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+
+    if (!user || !canExecuteTasks(user)) {
+      return ctx.answerCbQuery('Изменять задачи могут только системные администраторы');
+    }
+
+    // The list under the task may be outdated: the sysadmin could have been blocked since
+    const assignee = (await getTaskAssignees()).find(sysadmin => sysadmin.id === Number(assigneeId));
+
+    if (!assignee) {
+      return ctx.answerCbQuery('Системный администратор не найден');
+    }
+
+    await storage.assignTask(Number(taskId), assignee.id);
+    await notifyTaskAssigned(Number(taskId));
+
+    const task = await storage.getTaskById(Number(taskId));
+
+    if (task) {
+      await ctx.editMessageText(taskText(task), { reply_markup: taskKeyboard(task, user) }).catch(() => {});
+    }
+
+    await ctx.answerCbQuery(`Задача передана: ${assignee.lastName} ${assignee.firstName}`);
+  });
+
+  // Comment button under a task: the next text message becomes a comment
+  bot.action(/^task:comment:(\d+)$/, async (ctx) => {
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+    const task = await storage.getTaskById(Number(ctx.match[1]));
+
+    if (!user || !task) {
+      return ctx.answerCbQuery('Задача не найдена');
+    }
+
+    if (task.createdByUserId !== user.id && task.assignedToUserId !== user.id && !canExecuteTasks(user)) {
+      return ctx.answerCbQuery('Комментировать могут только автор и исполнитель задачи');
+    }
+
+    if (ctx.session) {
+      ctx.session.commentTaskId = task.id;
+    }
+
+    await ctx.answerCbQuery();
+    await ctx.reply(`💬 Напишите комментарий к задаче "${task.title}".\nДля отмены используйте /cancel`, {
+      reply_markup: { force_reply: true }
+    });
+  });
+
+  // Cancel the current input
+  bot.command('cancel', async (ctx) => {
+    if (ctx.session?.commentTaskId) {
+      delete ctx.session.commentTaskId;
+      return ctx.reply('Комментарий отменен.');
+    }
+
+    if (ctx.session?.stocktakingPhotoItemId) {
+      delete ctx.session.stocktakingPhotoItemId;
+      return ctx.reply('Отправка фото отменена.');
+    }
+
+    await ctx.reply('Нечего отменять.');
+  });
+
+  // New task command
+  bot.command('new_task', async (ctx) => {
+    const telegramId = ctx.from.id.toString();
+    const user = await storage.getUserByTelegramId(telegramId);
+
+    if (!user) {
+      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    }
+
+    // Check permissions
+    const hasAccess = user.permissions.some(p => 
+      p.chatType === schema.CHAT_TYPES.TASKS && p.hasAccess
+    );
+
+    if (!hasAccess) {
+      return ctx.reply('У вас нет доступа к этому разделу.');
+    }
+
+    const text = ctx.message.text.substring('/new_task'.length).trim();
+
+    // Without arguments the task is created step by step
+    if (!text) {
+      return ctx.scene.enter(NEW_TASK_WIZARD);
+    }
+
+    const parts = text.split('|').map(part => part.trim());
+
+    if (parts.length < 2) {
+      return ctx.reply('Неверный формат команды. Используйте: /new_task <название> | <описание> | <сисадмин>?');
+    }
+
+    const title = parts[0];
+    const description = parts[1];
+    const assigneeName = parts[2] || null;
+
+    // Find assignee if specified
+    let assigneeId = null;
+
+    if (assigneeName) {
+      // Remove @ if present
+      const username = assigneeName.startsWith('@') ? assigneeName.substring(1) : assigneeName;
+
+      // Find sysadmin with this username
+      const assignee = (await getTaskAssignees()).find(sysadmin => sysadmin.username === username);
+
+      if (assignee) {
+        assigneeId = assignee.id;
+      } else {
+        await ctx.reply(`Системный администратор с именем ${assigneeName} не найден. Задача будет создана без назначения.`);
+      }
+    }
+
+    await createTaskFromBot(ctx, user, { title, description, assigneeId }, []);
+  });
+
+  // Passwords command
+  bot.command('passwords', async (ctx) => {
+    const telegramId = ctx.from.id.toString();
+    const user = await storage.getUserByTelegramId(telegramId);
+
+    if (!user) {
+      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    }
+
+    // Check permissions
+    const hasAccess = user.permissions.some(p => 
+      p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
+    );
+
+    if (!hasAccess) {
+      return ctx.reply('У вас нет доступа к этому разделу.');
+    }
+
+    // Show user's passwords
+    const passwords = await storage.getUserSecurePasswords(user.id);
+
+    if (passwords.length === 0) {
+      return ctx.reply(
+        'У вас нет безопасных паролей.\n\n' +
+        'Для пошаговой отправки защищенной информации отправьте /send_password\n\n' +
+        'Или одной строкой:\n' +
+        '/send_password <получатель> | <название> | <тип> | <содержимое> | <срок>?\n\n' +
+        'Срок хранения (необязательно): once - сжечь после прочтения, 1h, 24h или 7d\n\n' +
+        'Например:\n' +
+        '/send_password @ivanov_p | Доступ к админке | credentials | Логин: admin, Пароль: 12345 | once'
+      );
+    }
+
+    let response = 'Ваши безопасные пароли:\n\n';
+
+    for (const password of passwords) {
+      const sender = password.sender.id === user.id ? 'Вы' : `${password.sender.lastName} ${password.sender.firstName}`;
+      const receiver = password.receiver.id === user.id ? 'Вам' : `${password.receiver.lastName} ${password.receiver.firstName}`;
+
+      response += `🔒 ${password.title}\n` +
+                  `📋 Тип: ${securePasswordTypeToRussian(password.type)}\n` +
+                  `👤 От: ${sender}\n` +
+                  `👥 Кому: ${receiver}\n` +
+                  `⏰ Создано: ${new Date(password.createdAt).toLocaleString('ru-RU')}` +
+                  `${securePasswordLifetimeToRussian(password)}\n` +
+                  (password.destroyedAt
+                    ? `🗑 Содержимое уничтожено\n\n`
+                    : `🔍 Для просмотра используйте команду: /password ${password.id}\n\n`);
+    }
+
+    await ctx.reply(response);
+  });
+
+  // View password command
+  bot.command('password', async (ctx) => {
+    const telegramId = ctx.from.id.toString();
+    const user = await storage.getUserByTelegramId(telegramId);
+
+    if (!user) {
+      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    }
+
+    // Check permissions
+    const hasAccess = user.permissions.some(p => 
+      p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
+    );
+
+    if (!hasAccess) {
+      return ctx.reply('У вас нет доступа к этому разделу.');
+    }
+
+    const args = ctx.message.text.split(' ');
+    if (args.length < 2) {
+      return ctx.reply('Пожалуйста, укажите ID пароля. Например: /password 123');
+    }
 
     const passwordId = parseInt(args[1], 10);
 
-    if (isNaN(passwordId)) {
-      return ctx.reply('Неверный формат ID пароля.');
-    }
+    if (isNaN(passwordId)) {
+      return ctx.reply('Неверный формат ID пароля.');
+    }
+
+    const password = await storage.getSecurePasswordById(passwordId);
+
+    if (!password) {
+      return ctx.reply('Пароль не найден.');
+    }
+
+    // Check if user is sender or receiver
+    if (password.senderId !== user.id && password.receiverId !== user.id) {
+      return ctx.reply('У вас нет доступа к этому паролю.');
+    }
+
+    if (password.isDestroyed) {
+      return ctx.reply(`🔒 ${password.title}\n\nСодержимое уничтожено: ${password.burnAfterReading ? 'оно уже было просмотрено' : 'истек срок хранения'}.`);
+    }
+
+    // Attachments are read before burning, which removes them together with the content
+    const attachments = await storage.getSecurePasswordAttachments(password.id);
+
+    // Mark as read and burn if the receiver is viewing it; a concurrent view may have burnt it meanwhile
+    const revealed = await storage.revealSecurePassword(password.id, user.id);
+
+    if (!revealed || revealed.isDestroyed) {
+      return ctx.reply(`🔒 ${password.title}\n\nСодержимое уничтожено: оно уже было просмотрено.`);
+    }
+
+    // Display password
+    const sender = password.sender.id === user.id ? 'Вы' : `${password.sender.lastName} ${password.sender.firstName}`;
+    const receiver = password.receiver.id === user.id ? 'Вам' : `${password.receiver.lastName} ${password.receiver.firstName}`;
+
+    const settings = await storage.getBotSettings();
+    const revealTtlMinutes = Number(settings?.revealMessageTtlMinutes) || DEFAULT_REVEAL_MESSAGE_TTL_MINUTES;
+
+    const response = `🔒 ${password.title}\n` +
+                    `📋 Тип: ${securePasswordTypeToRussian(password.type)}\n` +
+                    `👤 От: ${sender}\n` +
+                    `👥 Кому: ${receiver}\n` +
+                    `⏰ Создано: ${new Date(password.createdAt).toLocaleString('ru-RU')}\n` +
+                    `📝 Содержимое:\n\n${revealed.content}\n\n` +
+                    `🗑 Это сообщение будет удалено через ${revealTtlMinutes} мин.`;
+
+    const sent = await ctx.reply(response);
+
+    // Attached files cannot be forwarded or saved from the chat
+    const sentAttachments = await sendAttachments(ctx.chat.id, attachments, { protect_content: true });
+
+    // Remove the revealed content and files from chat history after a while
+    await storage.addRevealMessages(
+      password.id,
+      ctx.chat.id.toString(),
+      [sent.message_id, ...sentAttachments],
+      new Date(Date.now() + revealTtlMinutes * 60 * 1000)
+    );
+  });
+
+  // Send password command
+  bot.command('send_password', async (ctx) => {
+    const telegramId = ctx.from.id.toString();
+    const user = await storage.getUserByTelegramId(telegramId);
+
+    if (!user) {
+      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+    }
+
+    // Check permissions
+    const hasAccess = user.permissions.some(p => 
+      p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
+    );
+
+    if (!hasAccess) {
+      return ctx.reply('У вас нет доступа к этому разделу.');
+    }
+
+    const text = ctx.message.text.substring('/send_password'.length).trim();
+
+    // Without arguments the password is sent step by step
+    if (!text) {
+      return ctx.scene.enter(SEND_PASSWORD_WIZARD);
+    }
+
+    const parts = text.split('|').map(part => part.trim());
+
+    if (parts.length < 4) {
+      return ctx.reply('Неверный формат команды. Используйте: /send_password <получатель> | <название> | <тип> | <содержимое> | <срок>?');
+    }
+
+    const receiverName = parts[0];
+    const title = parts[1];
+    const type = parts[2];
+    const content = parts[3];
+    const lifetime = parts[4] ? securePasswordLifetimeFromText(parts[4]) : schema.SECURE_PASSWORD_LIFETIME.FOREVER;
+
+    if (!lifetime) {
+      return ctx.reply('Неверный срок хранения. Укажите один из вариантов: once (сжечь после прочтения), 1h, 24h, 7d.');
+    }
+
+    // Find receiver
+    const username = receiverName.startsWith('@') ? receiverName.substring(1) : receiverName;
+
+    const receivers = await db.query.users.findMany({
+      where: eq(schema.users.username, username),
+      with: {
+        permissions: true
+      }
+    });
+
+    if (receivers.length === 0) {
+      return ctx.reply(`Пользователь ${receiverName} не найден.`);
+    }
+
+    const receiver = receivers[0];
+
+    // Check if receiver has passwords permission
+    const receiverHasAccess = receiver.permissions.some(p => 
+      p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
+    );
+
+    if (!receiverHasAccess) {
+      return ctx.reply(`Пользователь ${receiverName} не имеет доступа к разделу паролей.`);
+    }
+
+    // Delete the command itself so the secret does not stay in the sender's chat
+    ctx.deleteMessage().catch(err => console.error("Failed to delete /send_password message:", err));
+
+    await sendSecurePasswordFromBot(ctx, user, receiver, { title, type, content, lifetime }, []);
+  });
+
+  // Photo of a stocktaking item, after the photo button was pressed.
+  // Otherwise the photo is taken for an equipment label and its QR code is looked up
+  bot.on(message('photo'), async (ctx) => {
+    const itemId = ctx.session?.stocktakingPhotoItemId;
+    // The last size is the largest one
+    const photo = ctx.message.photo[ctx.message.photo.length - 1];
+
+    if (!itemId) {
+      return scanEquipmentLabel(ctx, photo.file_id);
+    }
+
+    delete ctx.session!.stocktakingPhotoItemId;
+
+    const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+    const item = user ? await storage.setStocktakingItemPhoto(itemId, user.id, photo.file_id) : null;
+
+    await ctx.reply(item
+      ? `📷 Фото предмета "${item.name}" сохранено.`
+      : 'Не удалось сохранить фото: инвентаризация уже завершена.');
+  });
+
+  // Handle comments and unknown commands
+  bot.on(message('text'), async (ctx) => {
+    const commentTaskId = ctx.session?.commentTaskId;
+
+    if (commentTaskId && !ctx.message.text.startsWith('/')) {
+      delete ctx.session!.commentTaskId;
+
+      const user = await storage.getUserByTelegramId(ctx.from.id.toString());
+      const task = await storage.getTaskById(commentTaskId);
+
+      if (!user || !task) {
+        return ctx.reply('Задача не найдена.');
+      }
+
+      const comment = await storage.addTaskComment(task.id, user.id, ctx.message.text);
+      await ctx.reply('Комментарий добавлен.');
+
+      await notifyTaskComment(task, user, comment.comment);
+      return;
+    }
+
+    if (ctx.message.text.startsWith('/')) {
+      await ctx.reply('Неизвестная команда. Используйте /help для получения списка доступных команд.');
+    }
+  });
+}
+
+/**
+ * Send main menu based on user permissions
+ */
+async function sendMainMenu(ctx: any, user: any) {
+  if (!user || !user.permissions) {
+    return ctx.reply('Ошибка при получении данных пользователя. Пожалуйста, свяжитесь с администратором.');
+  }
+
+  const buttons = [];
+
+  // Check permissions for each chat type
+  const equipmentAccess = user.permissions.some(p => 
+    p.chatType === schema.CHAT_TYPES.EQUIPMENT && p.hasAccess
+  );
+
+  const passwordsAccess = user.permissions.some(p => 
+    p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
+  );
+
+  const tasksAccess = user.permissions.some(p => 
+    p.chatType === schema.CHAT_TYPES.TASKS && p.hasAccess
+  );
+
+  let message = `Главное меню\n\nВаша роль: ${roleToRussian(user.role)}\n\nДоступные разделы:\n`;
+
+  if (equipmentAccess) {
+    message += '\n📦 Мат.ответственность и склад - /inventory';
+  }
+
+  if (passwordsAccess) {
+    message += '\n🔑 Безопасные пароли - /passwords';
+  }
+
+  if (tasksAccess) {
+    message += '\n📝 Управление задачами - /tasks';
+  }
+
+  message += '\n\nДругие команды:\n/help - Показать справку\n/exit - Выйти из системы';
+
+  await ctx.reply(message);
+}
+
+/**
+ * Ask user to select a role
+ */
+async function askForRole(ctx: any) {
+  await ctx.reply('Пожалуйста, выберите вашу роль:', {
+    reply_markup: {
+      keyboard: [
+        ['СисАдмин', 'Бухгалтер'],
+        ['Руководитель', 'Сотрудник']
+      ],
+      one_time_keyboard: true,
+      resize_keyboard: true
+    }
+  });
+}
+
+type TaskWithParticipants = schema.Task & {
+  createdBy: schema.User | null;
+  assignedTo: schema.User | null;
+};
+
+/**
+ * Text of a task as shown in the bot
+ */
+function taskText(task: TaskWithParticipants): string {
+  const creator = task.createdBy ? `${task.createdBy.lastName} ${task.createdBy.firstName}` : 'Неизвестно';
+  const assignee = task.assignedTo ? `${task.assignedTo.lastName} ${task.assignedTo.firstName}` : 'Не назначен';
+
+  return `🔤 Заголовок: ${task.title}\n` +
+         `📝 Описание: ${task.description || 'Нет описания'}\n` +
+         `👤 От: ${creator}\n` +
+         `🛠 Исполнитель: ${assignee}\n` +
+         `🔄 Статус: ${taskStatusToRussian(task.status)}\n` +
+         `⚡ Приоритет: ${taskPriorityToRussian(task.priority)}\n` +
+         (task.dueAt ? `📅 Срок: ${new Date(task.dueAt).toLocaleString('ru-RU')}\n` : '') +
+         `⏰ Создано: ${new Date(task.createdAt).toLocaleString('ru-RU')}`;
+}
+
+function taskCommentKeyboard(taskId: number) {
+  return {
+    inline_keyboard: [[{ text: '💬 Комментировать', callback_data: `task:comment:${taskId}` }]]
+  };
+}
+
+/**
+ * Whether the user may change status and assignee of tasks in the bot
+ */
+function canExecuteTasks(user: { role: string, isAdmin: boolean | null, permissions: schema.Permission[] }): boolean {
+  const hasAccess = user.permissions.some(p => p.chatType === schema.CHAT_TYPES.TASKS && p.hasAccess);
+  return hasAccess && (user.role === schema.ROLES.SYSADMIN || user.role === schema.ROLES.ADMIN || !!user.isAdmin);
+}
+
+/**
+ * Sysadmins tasks can be assigned to: approved registrations with access to the tasks section
+ */
+export async function getTaskAssignees() {
+  return (await storage.getUsersWithChatAccess(schema.CHAT_TYPES.TASKS))
+    .filter(user => user.role === schema.ROLES.SYSADMIN);
+}
+
+/**
+ * Buttons under a task; requesters can only comment
+ */
+function taskKeyboard(task: schema.Task, user: Parameters<typeof canExecuteTasks>[0]) {
+  if (!canExecuteTasks(user)) {
+    return taskCommentKeyboard(task.id);
+  }
+
+  const statusButtons = [];
+
+  if (task.status !== schema.TASK_STATUS.IN_PROGRESS && task.status !== schema.TASK_STATUS.COMPLETED) {
+    statusButtons.push({ text: '▶️ Взять в работу', callback_data: `task:take:${task.id}` });
+  }
+
+  if (task.status !== schema.TASK_STATUS.COMPLETED) {
+    statusButtons.push({ text: '✅ Выполнено', callback_data: `task:complete:${task.id}` });
+  }
+
+  if (task.priority !== schema.TASK_PRIORITY.URGENT && task.status !== schema.TASK_STATUS.COMPLETED) {
+    statusButtons.push({ text: '🔥 Срочно', callback_data: `task:urgent:${task.id}` });
+  }
+
+  return {
+    inline_keyboard: [
+      ...(statusButtons.length > 0 ? [statusButtons] : []),
+      [
+        { text: '🔄 Переназначить', callback_data: `task:reassign:${task.id}` },
+        { text: '💬 Комментировать', callback_data: `task:comment:${task.id}` }
+      ]
+    ]
+  };
+}
+
+/**
+ * Send one page of /tasks: each task as its own message, then page navigation.
+ * Sysadmins see open tasks assigned to them or to nobody, everyone else the tasks they created.
+ */
+async function sendTasksPage(ctx: BotContext, user: NonNullable<Awaited<ReturnType<typeof storage.getUserByTelegramId>>>, page: number) {
+  const isExecutor = canExecuteTasks(user);
+  const tasks = (await storage.getTasks()).filter(task => isExecutor
+    ? task.status !== schema.TASK_STATUS.COMPLETED && (!task.assignedToUserId || task.assignedToUserId === user.id)
+    : task.createdByUserId === user.id);
+
+  if (tasks.length === 0) {
+    return ctx.reply(isExecutor ? 'У вас нет открытых задач.' : 'Вы еще не создавали задач.');
+  }
+
+  const pageCount = Math.ceil(tasks.length / TASKS_PAGE_SIZE);
+  const currentPage = Math.min(page, pageCount - 1);
+
+  if (currentPage === 0) {
+    await ctx.reply(isExecutor ? `Ваши и свободные задачи (${tasks.length}):` : `Созданные вами задачи (${tasks.length}):`);
+  }
+
+  for (const task of tasks.slice(currentPage * TASKS_PAGE_SIZE, (currentPage + 1) * TASKS_PAGE_SIZE)) {
+    await ctx.reply(taskText(task), { reply_markup: taskKeyboard(task, user) });
+  }
+
+  if (pageCount > 1) {
+    const navigation = [];
+
+    if (currentPage > 0) {
+      navigation.push({ text: '⬅️ Назад', callback_data: `tasks:page:${currentPage - 1}` });
+    }
+
+    if (currentPage < pageCount - 1) {
+      navigation.push({ text: 'Далее ➡️', callback_data: `tasks:page:${currentPage + 1}` });
+    }
+
+    await ctx.reply(`Страница ${currentPage + 1} из ${pageCount}`, { reply_markup: { inline_keyboard: [navigation] } });
+  }
+}
+
+/**
+ * Queue a message to a user in the notification outbox
+ */
+async function queueNotification(
+  recipient: { id: number, telegramId: string },
+  category: schema.NotificationCategory,
+  text: string,
+  extra?: Record<string, unknown>
+) {
+  await storage.enqueueNotification({
+    userId: recipient.id,
+    chatId: recipient.telegramId,
+    category,
+    text,
+    extra
+  });
+}
+
+/**
+ * Queue stored bot attachments to a user after the message they belong to
+ */
+async function queueAttachments(
+  recipient: { id: number, telegramId: string },
+  category: schema.NotificationCategory,
+  attachments: { kind: string, telegramFileId: string }[]
+) {
+  for (const attachment of attachments) {
+    await storage.enqueueNotification({
+      userId: recipient.id,
+      chatId: recipient.telegramId,
+      category,
+      kind: attachment.kind === schema.ATTACHMENT_KIND.PHOTO ? schema.NOTIFICATION_KIND.PHOTO : schema.NOTIFICATION_KIND.DOCUMENT,
+      telegramFileId: attachment.telegramFileId
+    });
+  }
+}
+
+/**
+ * Send a newly assigned task to its assignee together with the task buttons
+ */
+export async function notifyTaskAssigned(taskId: number) {
+  const task = await storage.getTaskById(taskId);
+
+  if (!task || !task.assignedToUserId) {
+    return;
+  }
+
+  const assignee = await storage.getUserWithPermissions(task.assignedToUserId);
+
+  if (!assignee) {
+    return;
+  }
+
+  await queueNotification(assignee, schema.NOTIFICATION_CATEGORY.TASK_ASSIGNED, `📋 Вам назначена задача!\n\n${taskText(task)}`, {
+    reply_markup: taskKeyboard(task, assignee)
+  });
+
+  await queueAttachments(assignee, schema.NOTIFICATION_CATEGORY.TASK_ASSIGNED, await storage.getTaskAttachments(task.id));
+}
+
+/**
+ * Tell the creator and the assignee about a status change, except whoever made it
+ */
+export async function notifyTaskStatusChanged(taskId: number, changedByUserId?: number) {
+  const task = await storage.getTaskById(taskId);
+
+  if (!task) {
+    return;
+  }
+
+  const message = `🔄 Изменение статуса задачи!\n\nЗаголовок: ${task.title}\nНовый статус: ${taskStatusToRussian(task.status)}`;
+  const recipients = [task.createdBy, task.assignedTo]
+    .filter((recipient): recipient is schema.User => !!recipient && recipient.id !== changedByUserId)
+    .filter((recipient, index, list) => list.findIndex(other => other.id === recipient.id) === index);
+
+  for (const recipient of recipients) {
+    await queueNotification(recipient, schema.NOTIFICATION_CATEGORY.TASK_STATUS, message);
+  }
+}
+
+/**
+ * Relay a task comment to the other participant (creator or assignee)
+ */
+export async function notifyTaskComment(task: TaskWithParticipants, author: schema.User, comment: string) {
+  const recipients = [task.createdBy, task.assignedTo]
+    .filter((recipient): recipient is schema.User => !!recipient && recipient.id !== author.id)
+    .filter((recipient, index, list) => list.findIndex(other => other.id === recipient.id) === index);
+
+  const message = `💬 Новый комментарий к задаче "${task.title}"\n\nОт: ${author.lastName} ${author.firstName}\n\n${comment}`;
+
+  for (const recipient of recipients) {
+    await queueNotification(recipient, schema.NOTIFICATION_CATEGORY.TASK_COMMENT, message, {
+      reply_markup: taskCommentKeyboard(task.id)
+    });
+  }
+}
+
+/**
+ * Warn the assignee and admins that a task missed its SLA deadline
+ */
+export async function notifyTaskSlaBreach(task: TaskWithParticipants, kind: 'response' | 'resolve', deadline: Date) {
+  const admins = await storage.getAdminUsers();
+  const recipients = [task.assignedTo, ...admins]
+    .filter((recipient): recipient is schema.User => !!recipient)
+    .filter((recipient, index, list) => list.findIndex(other => other.id === recipient.id) === index);
+
+  const reason = kind === 'response' ? 'Задача не взята в работу' : 'Задача не выполнена';
+  const message = `⏰ Нарушен срок по задаче!\n\n${reason} до ${deadline.toLocaleString('ru-RU')}\n\n${taskText(task)}`;
+
+  for (const recipient of recipients) {
+    await queueNotification(recipient, schema.NOTIFICATION_CATEGORY.TASK_SLA, message);
+  }
+}
+
+/**
+ * Morning digest with the open tasks of a sysadmin
+ */
+export async function notifyTaskDigest(user: schema.User, tasks: schema.Task[]) {
+  const lines = tasks.map((task, index) =>
+    `${index + 1}. ${task.title} — ${taskStatusToRussian(task.status)}, ${taskPriorityToRussian(task.priority).toLowerCase()}` +
+    (task.dueAt ? `, срок ${new Date(task.dueAt).toLocaleString('ru-RU')}` : '')
+  );
+
+  const message = `☀️ Доброе утро! Открытые задачи (${tasks.length}):\n\n${lines.join('\n')}\n\nПодробнее: /tasks`;
+
+  await queueNotification(user, schema.NOTIFICATION_CATEGORY.TASK_DIGEST, message);
+}
+
+/**
+ * Remind the creator that a task is still waiting to be taken into work
+ */
+export async function notifyStaleTask(task: TaskWithParticipants & { createdBy: schema.User }) {
+  const message = `⏳ Задача всё ещё не взята в работу\n\n${taskText(task)}`;
+
+  await queueNotification(task.createdBy, schema.NOTIFICATION_CATEGORY.TASK_STALE, message, {
+    reply_markup: taskCommentKeyboard(task.id)
+  });
+}
+
+/**
+ * Remind a receiver about secure passwords they have not opened
+ */
+export async function notifyUnreadSecurePasswords(
+  receiver: schema.User,
+  passwords: { id: number, title: string, sender: schema.User | null }[]
+) {
+  const lines = passwords.map(password => {
+    const sender = password.sender ? `${password.sender.lastName} ${password.sender.firstName}` : 'Неизвестно';
+    return `🔒 ${password.title} (от ${sender}) — /password ${password.id}`;
+  });
+
+  const message = `🔑 У вас есть непрочитанные пароли (${passwords.length}):\n\n${lines.join('\n')}`;
+
+  await queueNotification(receiver, schema.NOTIFICATION_CATEGORY.PASSWORD_REMINDER, message);
+}
+
+/**
+ * Tell the receiver that secure content was sent to them
+ */
+export async function notifySecurePasswordReceived(
+  password: { id: number, title: string, type: string, burnAfterReading: boolean | null, expiresAt: Date | null },
+  sender: schema.User,
+  receiver: schema.User,
+  attachmentsCount: number = 0
+) {
+  const attachmentsNote = attachmentsCount > 0 ? `\n📎 Вложений: ${attachmentsCount}` : '';
+  const message = `🔐 Новая защищенная информация!\n\nОт: ${sender.lastName} ${sender.firstName}\nНазвание: ${password.title}\nТип: ${securePasswordTypeToRussian(password.type)}${securePasswordLifetimeToRussian(password)}${attachmentsNote}\n\nДля просмотра содержимого используйте команду /password ${password.id}`;
+
+  await queueNotification(receiver, schema.NOTIFICATION_CATEGORY.SECURE_PASSWORD, message);
+}
+
+/**
+ * Ask a sender to change the credentials they sent to an employee who has left
+ */
+export async function notifyPasswordRotation(sender: schema.User, employeeName: string, passwords: { title: string, type: string }[]) {
+  const lines = passwords.map(password => `• ${password.title} (${securePasswordTypeToRussian(password.type)})`);
+
+  const message = `🔁 Сотрудник ${employeeName} уволился. Смените, пожалуйста, данные, которые вы ему отправляли (${passwords.length}):\n\n${lines.join('\n')}`;
+
+  await queueNotification(sender, schema.NOTIFICATION_CATEGORY.PASSWORD_ROTATION, message);
+}
+
+/**
+ * List of the items asked to be confirmed, with the act they were handed over by
+ */
+function equipmentReceiptText(act: { number: number, fromName: string }, items: { name: string, inventoryNumber: string }[]): string {
+  const lines = items.map((item, index) => `${index + 1}. ${item.name} (инв. № ${item.inventoryNumber})`);
+
+  return `Акт приема-передачи № ${act.number}\nПередал: ${act.fromName}\n\n${lines.join('\n')}`;
+}
+
+function equipmentReceiptKeyboard(actId: number) {
+  return {
+    inline_keyboard: [[
+      { text: '✅ Подтверждаю получение', callback_data: `receipt:confirm:${actId}` },
+      { text: '❌ Не получал', callback_data: `receipt:reject:${actId}` }
+    ]]
+  };
+}
+
+/**
+ * Ask the new holder to confirm receipt of the equipment from a transfer act
+ */
+export async function notifyEquipmentReceiptRequested(act: schema.TransferAct & { items: { name: string, inventoryNumber: string }[] }) {
+  const holder = act.toUserId ? await storage.getUserById(act.toUserId) : null;
+
+  if (!holder) {
+    return;
+  }
+
+  const message = `📦 За вами закреплено имущество\n\n${equipmentReceiptText(act, act.items)}\n\nПодтвердите, пожалуйста, получение.`;
+
+  await queueNotification(holder, schema.NOTIFICATION_CATEGORY.EQUIPMENT_RECEIPT, message, {
+    reply_markup: equipmentReceiptKeyboard(act.id)
+  });
+}
+
+/**
+ * Remind a holder about equipment from a transfer act they have not confirmed yet
+ */
+export async function notifyEquipmentReceiptReminder(
+  holder: schema.User,
+  act: { id: number, number: number, fromName: string },
+  items: { name: string, inventoryNumber: string }[]
+) {
+  const message = `⏳ Получение имущества всё ещё не подтверждено\n\n${equipmentReceiptText(act, items)}`;
+
+  await queueNotification(holder, schema.NOTIFICATION_CATEGORY.EQUIPMENT_RECEIPT_REMINDER, message, {
+    reply_markup: equipmentReceiptKeyboard(act.id)
+  });
+}
+
+/**
+ * Warn a sysadmin that the warranty of some equipment ends soon
+ */
+export async function notifyWarrantyExpiring(
+  sysadmin: schema.User,
+  items: (schema.Equipment & { assignedUser: schema.User | null })[]
+) {
+  const lines = items.map(item => {
+    const holder = item.assignedUser ? `${item.assignedUser.lastName} ${item.assignedUser.firstName}` : 'на складе';
+    return `• ${item.name} (${item.inventoryNumber}) — до ${new Date(item.warrantyEndDate!).toLocaleDateString('ru-RU')}, ${holder}`;
+  });
+
+  const message = `🛡 Скоро заканчивается гарантия (${items.length}):\n\n${lines.join('\n')}`;
+
+  await queueNotification(sysadmin, schema.NOTIFICATION_CATEGORY.WARRANTY_EXPIRY, message);
+}
+
+/**
+ * Remind a sysadmin about equipment that has been in repair for too long
+ */
+export async function notifyRepairOverdue(
+  sysadmin: schema.User,
+  orders: (schema.RepairOrder & { equipment: schema.Equipment })[]
+) {
+  const lines = orders.map(order =>
+    `• ${order.equipment.name} (${order.equipment.inventoryNumber}) — ${vendorName(order)}, ${repairDays(order)} дн. с ${new Date(order.sentAt).toLocaleDateString('ru-RU')}`
+  );
+
+  const message = `🔧 Долго в ремонте (${orders.length}):\n\n${lines.join('\n')}`;
+
+  await queueNotification(sysadmin, schema.NOTIFICATION_CATEGORY.REPAIR_OVERDUE, message);
+}
+
+/**
+ * Warn a sysadmin that some licenses and subscriptions expire soon
+ */
+export async function notifyLicenseExpiring(
+  sysadmin: schema.User,
+  licenses: (Pick<schema.License, "product" | "seats" | "expiresAt"> & { assignments: schema.LicenseAssignment[] })[]
+) {
+  const lines = licenses.map(license => {
+    const overAllocated = license.assignments.length > license.seats ? ' ⚠️' : '';
+    return `• ${license.product} — до ${new Date(license.expiresAt!).toLocaleDateString('ru-RU')}, занято мест: ${license.assignments.length} из ${license.seats}${overAllocated}`;
+  });
+
+  const message = `🔑 Скоро заканчиваются лицензии (${licenses.length}):\n\n${lines.join('\n')}`;
+
+  await queueNotification(sysadmin, schema.NOTIFICATION_CATEGORY.LICENSE_EXPIRY, message);
+}
+
+/**
+ * Warn sysadmins once that a stock item has run low. The warning is repeated after the item is replenished.
+ */
+export async function notifyLowStock(item: schema.StockItem) {
+  if (item.quantity > item.minQuantity || item.lowStockNotifiedAt) {
+    return;
+  }
+
+  const sysadmins = (await storage.getUsersWithChatAccess(schema.CHAT_TYPES.EQUIPMENT))
+    .filter(user => user.role === schema.ROLES.SYSADMIN);
+
+  const message = `📉 Заканчивается на складе: ${item.name}\n` +
+    `Осталось: ${item.quantity} ${item.unit}, минимум: ${item.minQuantity} ${item.unit}`;
+
+  for (const sysadmin of sysadmins) {
+    await queueNotification(sysadmin, schema.NOTIFICATION_CATEGORY.LOW_STOCK, message);
+  }
+
+  await storage.markLowStockNotified(item.id);
+}
+
+/**
+ * Tell whoever made the transfer, and admins, that the holder says the equipment never arrived
+ */
+async function notifyEquipmentReceiptRejected(actId: number, holder: schema.User, items: schema.Equipment[]) {
+  const act = await storage.getTransferActById(actId);
+
+  if (!act) {
+    return;
+  }
+
+  const creator = act.createdByUserId ? await storage.getUserById(act.createdByUserId) : null;
+  const admins = await storage.getAdminUsers();
+  const recipients = [creator, ...admins]
+    .filter((recipient): recipient is schema.User => !!recipient && recipient.id !== holder.id)
+    .filter((recipient, index, list) => list.findIndex(other => other.id === recipient.id) === index);
+
+  const message = `⚠️ ${holder.lastName} ${holder.firstName} сообщает, что не получал имущество\n\n${equipmentReceiptText(act, items)}`;
+
+  for (const recipient of recipients) {
+    await queueNotification(recipient, schema.NOTIFICATION_CATEGORY.EQUIPMENT_RECEIPT_REJECTED, message);
+  }
+}
+
+/**
+ * Book value of the equipment by department, and the warranties ending soon, for /inventory
+ */
+async function depreciationSummaryText(): Promise<string> {
+  const items = await storage.getEquipmentOnBooks();
+  const { departments, total } = summarizeDepreciation(items);
+  const today = new Date().toISOString().slice(0, 10);
+  const warrantyLimit = new Date(Date.now() + WARRANTY_SOON_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const warrantyEnding = items.filter(item =>
+    item.warrantyEndDate && item.warrantyEndDate >= today && item.warrantyEndDate <= warrantyLimit
+  );
+
+  const lines = departments.map(department =>
+    `${department.department}: ${department.count} шт., стоимость ${formatRubles(department.cost)}, ` +
+    `остаточная ${formatRubles(department.residualValue)}`
+  );
+
+  let text = `📊 Амортизация на ${new Date().toLocaleDateString('ru-RU')}\n\n`;
+  text += lines.length > 0 ? lines.join('\n') : 'Нет имущества с указанной стоимостью.';
+  text += `\n\nИтого: ${total.count} шт., стоимость ${formatRubles(total.cost)}, ` +
+    `начислено ${formatRubles(total.accumulated)}, остаточная ${formatRubles(total.residualValue)}`;
+
+  if (warrantyEnding.length > 0) {
+    text += `\n\n🛡 Гарантия заканчивается в ближайшие ${WARRANTY_SOON_DAYS} дней: ${warrantyEnding.length}`;
+  }
+
+  return text + '\n\nОтчет по каждому предмету — в панели администратора, раздел "Амортизация".';
+}
+
+/**
+ * Equipment card shown by /inventory_number and by scanning a label
+ */
+function equipmentCardText(
+  query: string,
+  equipment: (schema.Equipment & { assignedUser: schema.User | null })[]
+): string {
+  // Display results in a tabular format
+  let response = `Найдено имущество по номеру "${query}":\n\n`;
+  response += `Дата установки | ФИО | Наименование имущества | Инвентарный номер\n`;
+  response += `----------------------------------------------------------\n`;
+
+  for (const item of equipment) {
+    const assignedTo = item.assignedUser
+      ? `${item.assignedUser.lastName} ${item.assignedUser.firstName}`
+      : 'Не назначено';
+
+    // Use item.createdAt as installation date (or updatedAt if it changed owner)
+    const installDate = new Date(item.updatedAt || item.createdAt).toLocaleDateString('ru-RU');
+
+    response += `${installDate} | ${assignedTo} | ${item.name} | ${item.inventoryNumber}\n`;
+  }
+
+  // Add a note about status
+  response += `\n\nСтатус: ${equipmentStatusToRussian(equipment[0].status)}`;
+
+  return response;
+}
+
+/**
+ * Equipment in a location and the locations inside it, with the holders
+ */
+async function locationInventoryText(locationId: number): Promise<string> {
+  const locations = await storage.getLocations();
+  const paths = locationPaths(locations);
+  const path = paths.get(locationId);
+
+  if (!path) {
+    return 'Местоположение не найдено.';
+  }
+
+  const equipment = await storage.getEquipment({ locationIds: locationSubtreeIds(locations, locationId) });
+
+  if (equipment.length === 0) {
+    return `${path}\n\nИмущества здесь не числится.`;
+  }
+
+  equipment.sort((a, b) =>
+    paths.get(a.locationId!)!.localeCompare(paths.get(b.locationId!)!, 'ru') || a.inventoryNumber.localeCompare(b.inventoryNumber, 'ru')
+  );
+
+  let response = `${path}\nПредметов: ${equipment.length}\n\n`;
+  response += `Инвентарный номер | Наименование | ФИО | Статус\n`;
+  response += `----------------------------------------------------------\n`;
+
+  for (const item of equipment.slice(0, LOCATION_ITEMS_LIMIT)) {
+    const assignedTo = item.assignedUser
+      ? `${item.assignedUser.lastName} ${item.assignedUser.firstName}`
+      : 'Не назначено';
+    // Items on lower levels are shown with the rest of their path
+    const place = item.locationId !== locationId ? ` (${paths.get(item.locationId!)!.slice(path.length + LOCATION_PATH_SEPARATOR.length)})` : '';
+
+    response += `${item.inventoryNumber} | ${item.name}${place} | ${assignedTo} | ${equipmentStatusToRussian(item.status)}\n`;
+  }
+
+  if (equipment.length > LOCATION_ITEMS_LIMIT) {
+    response += `\n...и еще ${equipment.length - LOCATION_ITEMS_LIMIT}. Полный список — в отчете по местоположениям в панели управления.`;
+  }
+
+  return response;
+}
+
+function canManageEquipment(user: { role: string, isAdmin: boolean | null, permissions: schema.Permission[] }): boolean {
+  const isSysadmin = !!user.isAdmin || user.role === schema.ROLES.ADMIN || user.role === schema.ROLES.SYSADMIN;
+  return isSysadmin && user.permissions.some(p => p.chatType === schema.CHAT_TYPES.EQUIPMENT && p.hasAccess);
+}
+
+function equipmentCardKeyboard(equipmentId: number) {
+  return {
+    inline_keyboard: [
+      [
+        { text: '👤 Переназначить', callback_data: `eq:reassign:${equipmentId}:0` },
+        { text: '🔧 В ремонт', callback_data: `eq:repair:${equipmentId}` }
+      ],
+      [{ text: '📜 История', callback_data: `eq:history:${equipmentId}` }]
+    ]
+  };
+}
+
+/**
+ * Redraw an equipment card after an action changed the item
+ */
+async function editEquipmentCard(ctx: BotContext, equipmentId: number) {
+  const item = await storage.getEquipmentById(equipmentId);
+
+  if (item) {
+    await ctx.editMessageText(equipmentCardText(item.inventoryNumber, [item]), {
+      reply_markup: equipmentCardKeyboard(item.id)
+    }).catch(() => {});
+  }
+}
+
+/**
+ * Decode the QR code of an equipment label on a photo and reply with the equipment card
+ */
+async function scanEquipmentLabel(ctx: BotContext, fileId: string) {
+  const user = await storage.getUserByTelegramId(ctx.from!.id.toString());
+
+  if (!user) {
+    return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+  }
+
+  if (!user.permissions.some(p => p.chatType === schema.CHAT_TYPES.EQUIPMENT && p.hasAccess)) {
+    return ctx.reply('У вас нет доступа к этому разделу.');
+  }
+
+  let inventoryNumber: string | null = null;
+
+  try {
+    const link = await ctx.telegram.getFileLink(fileId);
+    const response = await fetch(link.toString());
+    inventoryNumber = await decodeEquipmentQr(Buffer.from(await response.arrayBuffer()));
+  } catch (error) {
+    console.error('Failed to decode equipment label:', error);
+  }
+
+  if (!inventoryNumber) {
+    return ctx.reply(
+      'QR-код на фото не распознан. Сфотографируйте этикетку ближе и при хорошем освещении ' +
+      'или используйте /inventory_number <номер>'
+    );
+  }
+
+  const item = await storage.getEquipmentByInventoryNumber(inventoryNumber);
+
+  if (!item) {
+    return ctx.reply(`Упс, походу такого нет. Имущество с инвентарным номером "${inventoryNumber}" не найдено.`);
+  }
+
+  await ctx.reply(equipmentCardText(inventoryNumber, [item]), canManageEquipment(user)
+    ? { reply_markup: equipmentCardKeyboard(item.id) }
+    : undefined);
+}
+
+/**
+ * A license seat of an employee, e.g. "• Microsoft Office — на Ноутбук Lenovo (T-2022-001), Иванов Иван, до 31.12.2026"
+ */
+function licenseSeatLine(seat: Awaited<ReturnType<typeof storage.getEmployeeLicenseSeats>>[number]): string {
+  const holder = seat.user
+    ? `${seat.user.lastName} ${seat.user.firstName}`
+    : `на ${seat.equipment!.name} (${seat.equipment!.inventoryNumber})${seat.equipment!.assignedUser ? `, ${seat.equipment!.assignedUser.lastName} ${seat.equipment!.assignedUser.firstName}` : ''}`;
+  const expiresAt = seat.license.expiresAt;
+  const expiry = !expiresAt
+    ? 'бессрочно'
+    : `${expiresAt < new Date().toISOString().slice(0, 10) ? 'истекла' : 'до'} ${new Date(expiresAt).toLocaleDateString('ru-RU')}`;
+
+  return `• ${seat.license.product} — ${holder}, ${expiry}`;
+}
+
+function stockItemLine(item: schema.StockItem): string {
+  return `${item.quantity <= item.minQuantity ? '⚠️' : '•'} ${item.name} — ${item.quantity} ${item.unit}`;
+}
+
+function stockItemText(item: schema.StockItem): string {
+  const low = item.quantity <= item.minQuantity ? '\n⚠️ Остаток на минимуме, пора пополнить' : '';
+  return `📦 ${item.name}\nВ наличии: ${item.quantity} ${item.unit}\nМинимальный остаток: ${item.minQuantity} ${item.unit}${low}`;
+}
+
+function stockItemKeyboard(stockItemId: number) {
+  return {
+    inline_keyboard: [[{ text: '📤 Выдать', callback_data: `stockitem:issue:${stockItemId}` }]]
+  };
+}
+
+function stocktakingItemText(item: schema.StocktakingItem): string {
+  const result = item.result ? `\n\nОтмечено: ${stocktakingResultToRussian(item.result)}` : '';
+  const photo = item.photoFileId ? '\n📷 Фото приложено' : '';
+
+  return `🔹 ${item.name}\nИнв. №: ${item.inventoryNumber}\nТип: ${item.type}${result}${photo}`;
+}
+
+function stocktakingItemKeyboard(itemId: number) {
+  return {
+    inline_keyboard: [
+      [
+        { text: '✅ На месте', callback_data: `stock:${schema.STOCKTAKING_RESULT.PRESENT}:${itemId}` },
+        { text: '❌ Отсутствует', callback_data: `stock:${schema.STOCKTAKING_RESULT.MISSING}:${itemId}` },
+        { text: '⚠️ Неисправно', callback_data: `stock:${schema.STOCKTAKING_RESULT.DAMAGED}:${itemId}` }
+      ],
+      [{ text: '📷 Приложить фото', callback_data: `stock:photo:${itemId}` }]
+    ]
+  };
+}
+
+/**
+ * Send every holder the checklist of their items in a new stocktaking, one message per item
+ */
+export async function notifyStocktakingStarted(stocktaking: schema.Stocktaking & { items: schema.StocktakingItem[] }) {
+  const byHolder = new Map<number, schema.StocktakingItem[]>();
+
+  for (const item of stocktaking.items) {
+    if (item.holderUserId) {
+      byHolder.set(item.holderUserId, [...(byHolder.get(item.holderUserId) || []), item]);
+    }
+  }
+
+  for (const [holderId, items] of Array.from(byHolder.entries())) {
+    const holder = await storage.getUserById(holderId);
+
+    if (!holder) {
+      continue;
+    }
+
+    await queueNotification(holder, schema.NOTIFICATION_CATEGORY.STOCKTAKING,
+      `📋 Инвентаризация "${stocktaking.title}"\n\n` +
+      `За вами закреплено предметов: ${items.length}. Отметьте под каждым из них, на месте ли он и исправен ли. ` +
+      `При желании приложите фото.`);
+
+    for (const item of items) {
+      await queueNotification(holder, schema.NOTIFICATION_CATEGORY.STOCKTAKING, stocktakingItemText(item), {
+        reply_markup: stocktakingItemKeyboard(item.id)
+      });
+    }
+  }
+}
+
+type BotUser = NonNullable<Awaited<ReturnType<typeof storage.getUserByTelegramId>>>;
+
+/**
+ * Create a task from the bot and notify its assignee
+ */
+async function createTaskFromBot(
+  ctx: BotContext,
+  user: BotUser,
+  data: { title: string, description: string, assigneeId: number | null },
+  attachments: NewAttachment[]
+) {
+  const task = await storage.createTask({
+    title: data.title,
+    description: data.description,
+    createdByUserId: user.id,
+    assignedToUserId: data.assigneeId,
+    status: data.assigneeId ? schema.TASK_STATUS.IN_PROGRESS : schema.TASK_STATUS.NEW
+  });
+
+  await storage.addTaskAttachments(task.id, user.id, attachments);
+
+  await ctx.reply(`Задача "${data.title}" успешно создана!`);
+
+  // Notify assignee if applicable
+  await notifyTaskAssigned(task.id);
+}
+
+/**
+ * Send a secure password from the bot and notify its receiver
+ */
+async function sendSecurePasswordFromBot(
+  ctx: BotContext,
+  user: BotUser,
+  receiver: schema.User,
+  data: { title: string, type: string, content: string, lifetime: schema.SecurePasswordLifetime },
+  attachments: NewAttachment[]
+) {
+  const password = await storage.createSecurePassword({
+    senderId: user.id,
+    receiverId: receiver.id,
+    ...data
+  });
+
+  await storage.addSecurePasswordAttachments(password.id, attachments);
+
+  await ctx.reply(`Защищенная информация "${data.title}" успешно отправлена пользователю ${receiver.firstName} ${receiver.lastName}!`);
+
+  // Notify receiver
+  await notifySecurePasswordReceived(password, user, receiver, attachments.length);
+}
+
+/**
+ * Send stored bot attachments to a chat. Returns ids of the messages that were sent.
+ */
+async function sendAttachments(
+  chatId: string | number,
+  attachments: { kind: string, telegramFileId: string }[],
+  extra: { protect_content?: boolean } = {}
+): Promise<number[]> {
+  if (!telegramBot) {
+    return [];
+  }
 
-    const password = await storage.getSecurePasswordById(passwordId);
+  const messageIds: number[] = [];
 
-    if (!password) {
-      return ctx.reply('Пароль не найден.');
-    }
+  for (const attachment of attachments) {
+    const sent = attachment.kind === schema.ATTACHMENT_KIND.PHOTO
+      ? telegramBot.telegram.sendPhoto(chatId, attachment.telegramFileId, extra)
+      : telegramBot.telegram.sendDocument(chatId, attachment.telegramFileId, extra);
 
-    // Check if user is sender or receiver
-    if (password.senderId !== user.id && password.receiverId !== user.id) {
-      return ctx.reply('У вас нет доступа к этому паролю.');
-    }
+    const message = await sent.catch(err => console.error("Failed to send attachment:", err));
 
-    // Mark as read if user is receiver
-    if (password.receiverId === user.id && !password.isRead) {
-      await storage.markPasswordAsRead(password.id);
+    if (message) {
+      messageIds.push(message.message_id);
     }
+  }
 
-    // Display password
-    const sender = password.sender.id === user.id ? 'Вы' : `${password.sender.lastName} ${password.sender.firstName}`;
-    const receiver = password.receiver.id === user.id ? 'Вам' : `${password.receiver.lastName} ${password.receiver.firstName}`;
+  return messageIds;
+}
 
-    const response = `🔒 ${password.title}\n` +
-                    `📋 Тип: ${securePasswordTypeToRussian(password.type)}\n` +
-                    `👤 От: ${sender}\n` +
-                    `👥 Кому: ${receiver}\n` +
-                    `⏰ Создано: ${new Date(password.createdAt).toLocaleString('ru-RU')}\n` +
-                    `📝 Содержимое:\n\n${password.encryptedContent}`;
+/**
+ * Text of the current wizard message, or null for anything else (commands included)
+ */
+function wizardText(ctx: BotContext): string | null {
+  const text = ctx.message && 'text' in ctx.message ? ctx.message.text.trim() : '';
+  return text && !text.startsWith('/') ? text : null;
+}
 
-    await ctx.reply(response);
+/**
+ * Match a pressed wizard button; the buttons of the pressed message are removed
+ */
+async function wizardButton(ctx: BotContext, pattern: RegExp): Promise<RegExpMatchArray | null> {
+  const data = ctx.callbackQuery && 'data' in ctx.callbackQuery ? ctx.callbackQuery.data : undefined;
+  const match = data?.match(pattern);
+
+  if (!match) {
+    return null;
+  }
+
+  await ctx.answerCbQuery();
+  await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+  return match;
+}
+
+function wizardKeyboard(rows: { text: string, callback_data: string }[][] = []) {
+  return { reply_markup: { inline_keyboard: [...rows, [WIZARD_CANCEL_BUTTON]] } };
+}
+
+/**
+ * Cancel and attachment handlers shared by all wizards.
+ * With deleteInputs the files are removed from the chat once stored.
+ */
+function setupWizardCommon(wizard: Scenes.WizardScene<BotContext>, deleteInputs: boolean) {
+  wizard.command('cancel', async (ctx) => {
+    await ctx.reply('Действие отменено.');
+    return ctx.scene.leave();
   });
 
-  // Send password command
-  bot.command('send_password', async (ctx) => {
-    const telegramId = ctx.from.id.toString();
-    const user = await storage.getUserByTelegramId(telegramId);
+  wizard.action('wizard:cancel', async (ctx) => {
+    await ctx.answerCbQuery();
+    await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+    await ctx.reply('Действие отменено.');
+    return ctx.scene.leave();
+  });
 
-    if (!user) {
-      return ctx.reply('Вы не зарегистрированы. Используйте /start для регистрации.');
+  wizard.on([message('photo'), message('document')], async (ctx) => {
+    const state = ctx.wizard.state as { attachments?: NewAttachment[] };
+
+    // Only wizards that start with an attachments list accept files
+    if (!state.attachments) {
+      return ctx.reply('Вложения здесь не нужны.');
     }
 
-    // Check permissions
-    const hasAccess = user.permissions.some(p => 
-      p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
-    );
+    if ('photo' in ctx.message) {
+      // The last size is the largest one
+      const photo = ctx.message.photo[ctx.message.photo.length - 1];
+      state.attachments.push({ kind: schema.ATTACHMENT_KIND.PHOTO, telegramFileId: photo.file_id });
+    } else {
+      const document = ctx.message.document;
+      state.attachments.push({
+        kind: schema.ATTACHMENT_KIND.DOCUMENT,
+        telegramFileId: document.file_id,
+        fileName: document.file_name
+      });
+    }
 
-    if (!hasAccess) {
-      return ctx.reply('У вас нет доступа к этому разделу.');
+    if (deleteInputs) {
+      ctx.deleteMessage().catch(err => console.error("Failed to delete attachment message:", err));
     }
 
-    const text = ctx.message.text.substring('/send_password'.length).trim();
-    const parts = text.split('|').map(part => part.trim());
+    await ctx.reply(`📎 Вложение добавлено (всего: ${state.attachments.length}).`);
+  });
+}
 
-    if (parts.length < 4) {
-      return ctx.reply('Неверный формат команды. Используйте: /send_password <получатель> | <название> | <тип> | <содержимое>');
-    }
+/**
+ * /new_task wizard: title, description, assignee, confirmation
+ */
+function createNewTaskWizard() {
+  const wizard = new Scenes.WizardScene<BotContext>(
+    NEW_TASK_WIZARD,
+    async (ctx) => {
+      Object.assign(ctx.wizard.state, { attachments: [] });
+
+      await ctx.reply('📝 Новая задача\n\nШаг 1 из 3. Введите название задачи:', wizardKeyboard());
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const title = wizardText(ctx);
+
+      if (!title) {
+        return ctx.reply('Введите название задачи текстом или нажмите "Отмена".');
+      }
 
-    const receiverName = parts[0];
-    const title = parts[1];
-    const type = parts[2];
-    const content = parts[3];
+      (ctx.wizard.state as NewTaskWizardState).title = title;
 
-    // Find receiver
-    const username = receiverName.startsWith('@') ? receiverName.substring(1) : receiverName;
+      await ctx.reply(
+        'Шаг 2 из 3. Опишите задачу.\nФото и документы, отправленные до подтверждения, будут приложены к задаче.',
+        wizardKeyboard()
+      );
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const description = wizardText(ctx);
 
-    const receivers = await db.query.users.findMany({
-      where: eq(schema.users.username, username),
-      with: {
-        permissions: true
+      if (!description) {
+        return ctx.reply('Введите описание задачи текстом или нажмите "Отмена".');
       }
-    });
 
-    if (receivers.length === 0) {
-      return ctx.reply(`Пользователь ${receiverName} не найден.`);
-    }
+      (ctx.wizard.state as NewTaskWizardState).description = description;
 
-    const receiver = receivers[0];
+      const sysadmins = await getTaskAssignees();
 
-    // Check if receiver has passwords permission
-    const receiverHasAccess = receiver.permissions.some(p => 
-      p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
-    );
+      await ctx.reply('Шаг 3 из 3. Выберите исполнителя:', wizardKeyboard([
+        ...sysadmins.map(sysadmin => [{
+          text: `${sysadmin.lastName || ''} ${sysadmin.firstName || ''}`.trim() || `@${sysadmin.username}`,
+          callback_data: `wizard:assignee:${sysadmin.id}`
+        }]),
+        [{ text: 'Без исполнителя', callback_data: 'wizard:assignee:0' }]
+      ]));
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const match = await wizardButton(ctx, /^wizard:assignee:(\d+)$/);
 
-    if (!receiverHasAccess) {
-      return ctx.reply(`Пользователь ${receiverName} не имеет доступа к разделу паролей.`);
-    }
+      if (!match) {
+        return ctx.reply('Выберите исполнителя кнопкой выше или нажмите "Отмена".');
+      }
 
-    // Create password
-    const password = await storage.createSecurePassword({
-      senderId: user.id,
-      receiverId: receiver.id,
-      title,
-      type,
-      encryptedContent: content
-    });
+      const assigneeId = Number(match[1]) || null;
+      const assignee = assigneeId ? (await getTaskAssignees()).find(sysadmin => sysadmin.id === assigneeId) : null;
 
-    await ctx.reply(`Защищенная информация "${title}" успешно отправлена пользователю ${receiver.firstName} ${receiver.lastName}!`);
+      if (assignee === undefined) {
+        return ctx.reply('Системный администратор не найден, выберите другого исполнителя или нажмите "Отмена".');
+      }
 
-    // Notify receiver
-    if (telegramBot && receiver.telegramId) {
-      const message = `🔐 Новая защищенная информация!\n\nОт: ${user.lastName} ${user.firstName}\nНазвание: ${title}\nТип: ${securePasswordTypeToRussian(type)}\n\nДля просмотра содержимого используйте команду /password ${password.id}`;
+      const state = ctx.wizard.state as NewTaskWizardState;
+      state.assigneeId = assigneeId;
 
-      telegramBot.telegram.sendMessage(receiver.telegramId, message)
-        .catch(err => console.error("Failed to send secure password notification:", err));
-    }
-  });
+      await ctx.reply(
+        'Проверьте задачу:\n\n' +
+        `🔤 Заголовок: ${state.title}\n` +
+        `📝 Описание: ${state.description}\n` +
+        `🛠 Исполнитель: ${assignee ? `${assignee.lastName} ${assignee.firstName}` : 'Не назначен'}\n` +
+        `📎 Вложений: ${state.attachments.length}`,
+        wizardKeyboard([[{ text: '✅ Создать', callback_data: 'wizard:confirm' }]])
+      );
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      if (!(await wizardButton(ctx, /^wizard:confirm$/))) {
+        return ctx.reply('Нажмите "Создать" или "Отмена".');
+      }
 
-  // Handle unknown commands
-  bot.on(message('text'), async (ctx) => {
-    if (ctx.message.text.startsWith('/')) {
-      await ctx.reply('Неизвестная команда. Используйте /help для получения списка доступных команд.');
+      const state = ctx.wizard.state as NewTaskWizardState;
+      const user = await storage.getUserByTelegramId(ctx.from!.id.toString());
+
+      if (user) {
+        await createTaskFromBot(ctx, user, {
+          title: state.title!,
+          description: state.description!,
+          assigneeId: state.assigneeId ?? null
+        }, state.attachments);
+      }
+
+      return ctx.scene.leave();
     }
-  });
+  );
+
+  setupWizardCommon(wizard, false);
+  return wizard;
 }
 
 /**
- * Send main menu based on user permissions
+ * /send_password wizard: title, type, content, receiver, lifetime, confirmation.
+ * Messages with the content and attached files are deleted from the chat right away.
  */
-async function sendMainMenu(ctx: any, user: any) {
-  if (!user || !user.permissions) {
-    return ctx.reply('Ошибка при получении данных пользователя. Пожалуйста, свяжитесь с администратором.');
-  }
+function createSendPasswordWizard() {
+  const wizard = new Scenes.WizardScene<BotContext>(
+    SEND_PASSWORD_WIZARD,
+    async (ctx) => {
+      Object.assign(ctx.wizard.state, { attachments: [] });
+
+      await ctx.reply('🔐 Отправка защищенной информации\n\nШаг 1 из 5. Введите название:', wizardKeyboard());
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const title = wizardText(ctx);
+
+      if (!title) {
+        return ctx.reply('Введите название текстом или нажмите "Отмена".');
+      }
 
-  const buttons = [];
+      (ctx.wizard.state as SendPasswordWizardState).title = title;
 
-  // Check permissions for each chat type
-  const equipmentAccess = user.permissions.some(p => 
-    p.chatType === schema.CHAT_TYPES.EQUIPMENT && p.hasAccess
-  );
+      await ctx.reply('Шаг 2 из 5. Выберите тип:', wizardKeyboard(
+        SECURE_PASSWORD_TYPES.map(type => [{ text: securePasswordTypeToRussian(type), callback_data: `wizard:type:${type}` }])
+      ));
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const match = await wizardButton(ctx, /^wizard:type:(\w+)$/);
 
-  const passwordsAccess = user.permissions.some(p => 
-    p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess
-  );
+      if (!match) {
+        return ctx.reply('Выберите тип кнопкой выше или нажмите "Отмена".');
+      }
 
-  const tasksAccess = user.permissions.some(p => 
-    p.chatType === schema.CHAT_TYPES.TASKS && p.hasAccess
-  );
+      (ctx.wizard.state as SendPasswordWizardState).type = match[1];
 
-  let message = `Главное меню\n\nВаша роль: ${roleToRussian(user.role)}\n\nДоступные разделы:\n`;
+      await ctx.reply(
+        'Шаг 3 из 5. Отправьте содержимое.\nСообщение будет сразу удалено из чата. Фото и документы, отправленные до подтверждения, будут приложены.',
+        wizardKeyboard()
+      );
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const content = wizardText(ctx);
 
-  if (equipmentAccess) {
-    message += '\n📦 Мат.ответственность и склад - /inventory';
-  }
+      if (!content) {
+        return ctx.reply('Отправьте содержимое текстом или нажмите "Отмена".');
+      }
 
-  if (passwordsAccess) {
-    message += '\n🔑 Безопасные пароли - /passwords';
-  }
+      (ctx.wizard.state as SendPasswordWizardState).content = content;
+      ctx.deleteMessage().catch(err => console.error("Failed to delete secure content message:", err));
 
-  if (tasksAccess) {
-    message += '\n📝 Управление задачами - /tasks';
-  }
+      const receivers = (await storage.getUsersWithChatAccess(schema.CHAT_TYPES.PASSWORDS))
+        .filter(receiver => receiver.telegramId !== ctx.from!.id.toString());
 
-  message += '\n\nДругие команды:\n/help - Показать справку\n/exit - Выйти из системы';
+      if (receivers.length === 0) {
+        await ctx.reply('Нет пользователей с доступом к разделу паролей.');
+        return ctx.scene.leave();
+      }
 
-  await ctx.reply(message);
+      await ctx.reply('Шаг 4 из 5. Выберите получателя:', wizardKeyboard(
+        receivers.map(receiver => [{
+          text: `${receiver.lastName || ''} ${receiver.firstName || ''}`.trim() || `@${receiver.username}`,
+          callback_data: `wizard:receiver:${receiver.id}`
+        }])
+      ));
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const match = await wizardButton(ctx, /^wizard:receiver:(\d+)$/);
+
+      if (!match) {
+        return ctx.reply('Выберите получателя кнопкой выше или нажмите "Отмена".');
+      }
+
+      (ctx.wizard.state as SendPasswordWizardState).receiverId = Number(match[1]);
+
+      await ctx.reply('Шаг 5 из 5. Выберите срок хранения:', wizardKeyboard(
+        SECURE_PASSWORD_LIFETIME_OPTIONS.map(([lifetime, label]) => [{ text: label, callback_data: `wizard:lifetime:${lifetime}` }])
+      ));
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const match = await wizardButton(ctx, /^wizard:lifetime:(\w+)$/);
+      const option = match && SECURE_PASSWORD_LIFETIME_OPTIONS.find(([lifetime]) => lifetime === match[1]);
+
+      if (!option) {
+        return ctx.reply('Выберите срок хранения кнопкой выше или нажмите "Отмена".');
+      }
+
+      const state = ctx.wizard.state as SendPasswordWizardState;
+      state.lifetime = option[0];
+
+      const receiver = await storage.getUserById(state.receiverId!);
+
+      await ctx.reply(
+        'Проверьте данные:\n\n' +
+        `🔒 Название: ${state.title}\n` +
+        `📋 Тип: ${securePasswordTypeToRussian(state.type!)}\n` +
+        `👥 Кому: ${receiver ? `${receiver.lastName} ${receiver.firstName}` : 'Неизвестно'}\n` +
+        `⏳ Срок хранения: ${option[1]}\n` +
+        `📎 Вложений: ${state.attachments.length}`,
+        wizardKeyboard([[{ text: '✅ Отправить', callback_data: 'wizard:confirm' }]])
+      );
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      if (!(await wizardButton(ctx, /^wizard:confirm$/))) {
+        return ctx.reply('Нажмите "Отправить" или "Отмена".');
+      }
+
+      const state = ctx.wizard.state as SendPasswordWizardState;
+      const user = await storage.getUserByTelegramId(ctx.from!.id.toString());
+      const receiver = await storage.getUserWithPermissions(state.receiverId!);
+
+      // Access may have been revoked while the wizard was open
+      if (!receiver || !receiver.permissions.some(p => p.chatType === schema.CHAT_TYPES.PASSWORDS && p.hasAccess)) {
+        await ctx.reply('Получатель больше не имеет доступа к разделу паролей.');
+        return ctx.scene.leave();
+      }
+
+      if (user) {
+        await sendSecurePasswordFromBot(ctx, user, receiver, {
+          title: state.title!,
+          type: state.type!,
+          content: state.content!,
+          lifetime: state.lifetime!
+        }, state.attachments);
+      }
+
+      return ctx.scene.leave();
+    }
+  );
+
+  setupWizardCommon(wizard, true);
+  return wizard;
 }
 
 /**
- * Ask user to select a role
+ * /stock issue wizard: quantity, recipient (an employee, or the author of a task), confirmation
  */
-async function askForRole(ctx: any) {
-  await ctx.reply('Пожалуйста, выберите вашу роль:', {
-    reply_markup: {
-      keyboard: [
-        ['СисАдмин', 'Бухгалтер'],
-        ['Руководитель', 'Сотрудник']
-      ],
-      one_time_keyboard: true,
-      resize_keyboard: true
+function createStockIssueWizard() {
+  const wizard = new Scenes.WizardScene<BotContext>(
+    STOCK_ISSUE_WIZARD,
+    async (ctx) => {
+      const item = await storage.getStockItemById((ctx.wizard.state as StockIssueWizardState).stockItemId);
+
+      if (!item) {
+        await ctx.reply('Позиция не найдена.');
+        return ctx.scene.leave();
+      }
+
+      await ctx.reply(
+        `📤 Выдача: ${item.name}\nВ наличии: ${item.quantity} ${item.unit}\n\nШаг 1 из 3. Сколько выдать?`,
+        wizardKeyboard()
+      );
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const text = wizardText(ctx);
+      const quantity = text && /^\d+$/.test(text) ? Number(text) : 0;
+
+      if (!quantity) {
+        return ctx.reply('Введите количество целым числом или нажмите "Отмена".');
+      }
+
+      const state = ctx.wizard.state as StockIssueWizardState;
+      const item = await storage.getStockItemById(state.stockItemId);
+
+      if (!item || quantity > item.quantity) {
+        return ctx.reply(`В наличии только ${item?.quantity ?? 0} ${item?.unit ?? ''}. Введите количество не больше остатка.`);
+      }
+
+      state.quantity = quantity;
+
+      // Tasks the sysadmin is working on are offered, the items usually go to whoever asked for them
+      const user = await storage.getUserByTelegramId(ctx.from!.id.toString());
+      const tasks = user
+        ? (await storage.getTasks(schema.TASK_STATUS.IN_PROGRESS, user.id)).filter(task => task.assignedToUserId === user.id)
+        : [];
+
+      await ctx.reply(
+        'Шаг 2 из 3. Кому выдать? Выберите задачу, по которой выдаете, или введите фамилию сотрудника.',
+        wizardKeyboard([
+          ...tasks.slice(0, STOCK_CHOICES_LIMIT).map(task => [{ text: `📝 ${task.title}`, callback_data: `wizard:task:${task.id}` }]),
+          [{ text: 'Без получателя', callback_data: 'wizard:recipient:0' }]
+        ])
+      );
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      const state = ctx.wizard.state as StockIssueWizardState;
+      const match = await wizardButton(ctx, /^wizard:(recipient|task):(\d+)$/);
+      const text = match ? null : wizardText(ctx);
+
+      if (match?.[1] === 'task') {
+        const task = await storage.getTaskById(Number(match[2]));
+
+        if (!task) {
+          return ctx.reply('Задача не найдена. Введите фамилию сотрудника.');
+        }
+
+        state.issuedToUserId = task.createdByUserId;
+        state.taskId = task.id;
+      } else if (match) {
+        state.issuedToUserId = Number(match[2]) || null;
+        state.taskId = null;
+      } else if (text) {
+        const name = text.toLowerCase();
+        const employees = (await storage.getAllUsers()).filter(employee =>
+          employee.registrationStatus === schema.REGISTRATION_STATUS.APPROVED &&
+          `${employee.lastName || ''} ${employee.firstName || ''}`.toLowerCase().includes(name)
+        );
+
+        if (employees.length === 0) {
+          return ctx.reply(`Сотрудник "${text}" не найден. Введите другую фамилию.`);
+        }
+
+        // The step is repeated with the chosen employee's button
+        if (employees.length > 1) {
+          return ctx.reply('Найдено несколько сотрудников, выберите нужного:', wizardKeyboard(
+            employees.slice(0, STOCK_CHOICES_LIMIT).map(employee => [{
+              text: `${employee.lastName || ''} ${employee.firstName || ''}`.trim() || `@${employee.username}`,
+              callback_data: `wizard:recipient:${employee.id}`
+            }])
+          ));
+        }
+
+        state.issuedToUserId = employees[0].id;
+        state.taskId = null;
+      } else {
+        return ctx.reply('Введите фамилию сотрудника или нажмите кнопку выше.');
+      }
+
+      const item = await storage.getStockItemById(state.stockItemId);
+      const recipient = state.issuedToUserId ? await storage.getUserById(state.issuedToUserId) : null;
+      const task = state.taskId ? await storage.getTaskById(state.taskId) : null;
+
+      await ctx.reply(
+        'Проверьте выдачу:\n\n' +
+        `📦 ${item?.name}: ${state.quantity} ${item?.unit}\n` +
+        `👤 Кому: ${recipient ? `${recipient.lastName} ${recipient.firstName}` : 'Без получателя'}` +
+        (task ? `\n📝 По задаче: ${task.title}` : ''),
+        wizardKeyboard([[{ text: '✅ Выдать', callback_data: 'wizard:confirm' }]])
+      );
+      return ctx.wizard.next();
+    },
+    async (ctx) => {
+      if (!(await wizardButton(ctx, /^wizard:confirm$/))) {
+        return ctx.reply('Нажмите "Выдать" или "Отмена".');
+      }
+
+      const state = ctx.wizard.state as StockIssueWizardState;
+      const user = await storage.getUserByTelegramId(ctx.from!.id.toString());
+
+      const result = await storage.recordStockMovement(state.stockItemId, {
+        kind: schema.STOCK_MOVEMENT_KIND.ISSUE,
+        quantity: state.quantity!,
+        issuedToUserId: state.issuedToUserId ?? null,
+        taskId: state.taskId ?? null
+      }, user?.id ?? null);
+
+      // Someone else may have issued the same items while the wizard was open
+      if (!result) {
+        await ctx.reply('Недостаточно на складе, выдача не записана.');
+        return ctx.scene.leave();
+      }
+
+      await ctx.reply(`✅ Выдано. Остаток: ${result.item.quantity} ${result.item.unit}`);
+      await notifyLowStock(result.item);
+      return ctx.scene.leave();
     }
-  });
+  );
+
+  setupWizardCommon(wizard, false);
+  return wizard;
+}
+
+/**
+ * Whether a Telegram user may review registrations
+ */
+async function isRegistrationApprover(telegramId: string): Promise<boolean> {
+  const approvers = await storage.getRegistrationApprovers();
+  return approvers.some(approver => approver.telegramId === telegramId);
+}
+
+/**
+ * Put the chosen role and department up for approval and tell the approvers
+ */
+async function submitRegistration(ctx: any, userId: number, role: schema.Role, departmentId: number | null) {
+  // The chosen role only takes effect once an approver confirms it
+  const pendingUser = await storage.submitRegistration(userId, role, departmentId);
+
+  await ctx.reply(
+    `Заявка на регистрацию в роли "${roleToRussian(role)}" отправлена администраторам. До подтверждения доступна только команда /help.`,
+    { reply_markup: { remove_keyboard: true } }
+  );
+
+  await notifyRegistrationApprovers(pendingUser);
 }
 
 /**
- * Set default permissions based on role
+ * Text of a registration request as shown to approvers
  */
-async function setDefaultPermissions(userId: number, role: schema.Role) {
-  const permissionsToSet: Record<string, boolean> = {
-    [schema.CHAT_TYPES.EQUIPMENT]: false,
-    [schema.CHAT_TYPES.PASSWORDS]: false,
-    [schema.CHAT_TYPES.TASKS]: false
+async function registrationRequestText(user: schema.User): Promise<string> {
+  const name = [user.lastName, user.firstName].filter(Boolean).join(' ') || 'Без имени';
+  const username = user.username ? ` (@${user.username})` : '';
+  const department = user.departmentId ? await storage.getDepartmentById(user.departmentId) : undefined;
+
+  return `📋 Заявка на регистрацию\n\nПользователь: ${name}${username}\nTelegram ID: ${user.telegramId}\n` +
+    `Роль: ${roleToRussian(user.role)}\nОтдел: ${department?.name || 'не указан'}`;
+}
+
+function registrationReviewKeyboard(userId: number) {
+  return {
+    inline_keyboard: [
+      [
+        { text: '✅ Одобрить', callback_data: `reg:approve:${userId}` },
+        { text: '❌ Отклонить', callback_data: `reg:reject:${userId}` }
+      ],
+      [{ text: '🔄 Изменить роль', callback_data: `reg:role:${userId}` }]
+    ]
+  };
+}
+
+function registrationRoleKeyboard(userId: number) {
+  return {
+    inline_keyboard: [
+      ...Object.entries(REGISTRATION_ROLES).map(([label, role]) => [
+        { text: label, callback_data: `reg:setrole:${userId}:${role}` }
+      ]),
+      [{ text: '⬅️ Назад', callback_data: `reg:back:${userId}` }]
+    ]
   };
+}
+
+/**
+ * Send a new registration request to every approver
+ */
+export async function notifyRegistrationApprovers(user: schema.User) {
+  const approvers = await storage.getRegistrationApprovers();
+
+  for (const approver of approvers) {
+    await queueNotification(approver, schema.NOTIFICATION_CATEGORY.REGISTRATION_REQUEST, await registrationRequestText(user), {
+      reply_markup: registrationReviewKeyboard(user.id)
+    });
+  }
+}
+
+/**
+ * Tell the user whether their registration was approved
+ */
+export async function notifyRegistrationDecision(user: schema.User, approved: boolean) {
+  const message = approved
+    ? `✅ Ваша регистрация подтверждена. Роль: ${roleToRussian(user.role)}.\n\nИспользуйте /start, чтобы открыть главное меню.`
+    : '❌ Ваша заявка на регистрацию отклонена. Используйте /start, чтобы подать новую заявку.';
 
-  // Set permissions based on role
-  switch (role) {
-    case schema.ROLES.SYSADMIN:
-      // SysAdmin has access to all
-      permissionsToSet[schema.CHAT_TYPES.EQUIPMENT] = true;
-      permissionsToSet[schema.CHAT_TYPES.PASSWORDS] = true;
-      permissionsToSet[schema.CHAT_TYPES.TASKS] = true;
-      break;
-    case schema.ROLES.ACCOUNTANT:
-      // Accountant has access to equipment only
-      permissionsToSet[schema.CHAT_TYPES.EQUIPMENT] = true;
-      break;
-    case schema.ROLES.MANAGER:
-      // Manager has access to passwords and tasks
-      permissionsToSet[schema.CHAT_TYPES.PASSWORDS] = true;
-      permissionsToSet[schema.CHAT_TYPES.TASKS] = true;
-      break;
-    case schema.ROLES.EMPLOYEE:
-      // Employee has access to tasks only
-      permissionsToSet[schema.CHAT_TYPES.TASKS] = true;
-      break;
-  }
-
-  // Update permissions
-  await storage.updateUserPermissions(userId, permissionsToSet);
+  await queueNotification(user, schema.NOTIFICATION_CATEGORY.REGISTRATION_DECISION, message);
 }
 
 /**
@@ -786,13 +2920,23 @@ function taskStatusToRussian(status: string): string {
   const translations: Record<string, string> = {
     [schema.TASK_STATUS.NEW]: "Новая",
     [schema.TASK_STATUS.IN_PROGRESS]: "В процессе",
-    [schema.TASK_STATUS.COMPLETED]: "Выполнено",
-    [schema.TASK_STATUS.URGENT]: "Срочно"
+    [schema.TASK_STATUS.COMPLETED]: "Выполнено"
   };
 
   return translations[status] || status;
 }
 
+function taskPriorityToRussian(priority: string): string {
+  const translations: Record<string, string> = {
+    [schema.TASK_PRIORITY.LOW]: "Низкий",
+    [schema.TASK_PRIORITY.NORMAL]: "Обычный",
+    [schema.TASK_PRIORITY.HIGH]: "Высокий",
+    [schema.TASK_PRIORITY.URGENT]: "Срочный"
+  };
+
+  return translations[priority] || priority;
+}
+
 function equipmentStatusToRussian(status: string): string {
   const translations: Record<string, string> = {
     [schema.EQUIPMENT_STATUS.ACTIVE]: "Активно",
@@ -804,6 +2948,41 @@ function equipmentStatusToRussian(status: string): string {
   return translations[status] || status;
 }
 
+function stocktakingResultToRussian(result: string): string {
+  const translations: Record<string, string> = {
+    [schema.STOCKTAKING_RESULT.PRESENT]: "На месте",
+    [schema.STOCKTAKING_RESULT.MISSING]: "Отсутствует",
+    [schema.STOCKTAKING_RESULT.DAMAGED]: "Неисправно"
+  };
+
+  return translations[result] || result;
+}
+
+function securePasswordLifetimeToRussian(password: { burnAfterReading: boolean | null, expiresAt: Date | null }): string {
+  if (password.burnAfterReading) {
+    return "\n🔥 Будет удалено после прочтения";
+  }
+
+  if (password.expiresAt) {
+    return `\n⏳ Доступно до: ${new Date(password.expiresAt).toLocaleString('ru-RU')}`;
+  }
+
+  return "";
+}
+
+function securePasswordLifetimeFromText(text: string): schema.SecurePasswordLifetime | null {
+  const lifetimes: Record<string, schema.SecurePasswordLifetime> = {
+    "once": schema.SECURE_PASSWORD_LIFETIME.BURN_AFTER_READING,
+    "burn": schema.SECURE_PASSWORD_LIFETIME.BURN_AFTER_READING,
+    "1h": schema.SECURE_PASSWORD_LIFETIME.ONE_HOUR,
+    "24h": schema.SECURE_PASSWORD_LIFETIME.ONE_DAY,
+    "7d": schema.SECURE_PASSWORD_LIFETIME.ONE_WEEK,
+    "forever": schema.SECURE_PASSWORD_LIFETIME.FOREVER
+  };
+
+  return lifetimes[text.toLowerCase()] || null;
+}
+
 function securePasswordTypeToRussian(type: string): string {
   const translations: Record<string, string> = {
     "credentials": "Учетные данные",
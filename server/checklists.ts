@@ -0,0 +1,239 @@
+import { AlignmentType, Document, Packer, Table, TableRow, WidthType } from "docx";
+import * as schema from "@shared/schema";
+import { paragraph, cell } from "./transfer-acts";
+
+export const CHECKLIST_REPORT_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Used when settings.onboardingKit and settings.onboardingTasks are empty
+export const DEFAULT_ONBOARDING_KIT = ["Ноутбук", "Монитор"];
+export const DEFAULT_ONBOARDING_TASKS = [
+  "Создать учетную запись и почту",
+  "Подготовить рабочее место",
+  "Выдать доступ к общим папкам и принтерам"
+];
+
+const KIND_TITLES: Record<schema.ChecklistKind, string> = {
+  [schema.CHECKLIST_KIND.OFFBOARDING]: "Обходной лист",
+  [schema.CHECKLIST_KIND.ONBOARDING]: "Лист приема на работу"
+};
+
+// Steps in the order they are listed, with their titles
+const STEPS: Record<schema.ChecklistKind, [schema.ChecklistStep, string][]> = {
+  [schema.CHECKLIST_KIND.OFFBOARDING]: [
+    [schema.CHECKLIST_STEP.EQUIPMENT, "Имущество сдано на склад или передано"],
+    [schema.CHECKLIST_STEP.TASKS, "Открытые задачи переназначены"],
+    [schema.CHECKLIST_STEP.ACCESS, "Доступ к панели и разделам отозван"],
+    [schema.CHECKLIST_STEP.PASSWORDS, "Полученные пароли отмечены для смены"],
+    [schema.CHECKLIST_STEP.BOT, "Аккаунт в боте заблокирован"]
+  ],
+  [schema.CHECKLIST_KIND.ONBOARDING]: [
+    [schema.CHECKLIST_STEP.ACCESS, "Регистрация в боте подтверждена"],
+    [schema.CHECKLIST_STEP.EQUIPMENT, "Выдан стандартный комплект имущества"],
+    [schema.CHECKLIST_STEP.TASKS, "Созданы задачи на подготовку рабочего места"]
+  ]
+};
+
+const STEP_COLUMNS = [
+  { title: "№ п/п", width: 8 },
+  { title: "Пункт", width: 62 },
+  { title: "Отметка", width: 30 }
+];
+
+const ENTRY_COLUMNS = [
+  { title: "Дата", width: 18 },
+  { title: "Выполнено", width: 56 },
+  { title: "Исполнитель", width: 26 }
+];
+
+export interface ChecklistItem {
+  step: schema.ChecklistStep;
+  title: string;
+  done: boolean;
+  // What is still left, e.g. the items the employee holds
+  details: string[];
+}
+
+// What storage.getOffboardingState and storage.getOnboardingState report
+export interface OffboardingState {
+  equipment: schema.Equipment[];
+  tasks: schema.Task[];
+  hasAccess: boolean;
+  passwords: (Omit<schema.SecurePassword, "encryptedContent" | "encryptedDataKey"> & { sender: schema.User })[];
+  isBlocked: boolean;
+}
+
+export interface OnboardingState {
+  equipment: schema.Equipment[];
+  isApproved: boolean;
+}
+
+export interface OnboardingSettings {
+  kit: string[];
+  setupTasks: string[];
+}
+
+type ChecklistWithEntries = schema.StaffChecklist & { entries: schema.StaffChecklistEntry[] };
+
+function listSetting(value: unknown, defaults: string[]): string[] {
+  const list = Array.isArray(value)
+    ? value.map(item => String(item).trim()).filter(item => item.length > 0)
+    : [];
+
+  return list.length > 0 ? list : defaults;
+}
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString('ru-RU');
+}
+
+/**
+ * Standard equipment kit and setup tasks of new employees from bot settings, falling back to the defaults
+ */
+export function getOnboardingSettings(settings: any): OnboardingSettings {
+  return {
+    kit: listSetting(settings?.onboardingKit, DEFAULT_ONBOARDING_KIT),
+    setupTasks: listSetting(settings?.onboardingTasks, DEFAULT_ONBOARDING_TASKS)
+  };
+}
+
+/**
+ * Name of the employee as it is copied into checklists and their entries
+ */
+export function employeeName(user: Pick<schema.User, "lastName" | "firstName" | "username">): string {
+  return `${user.lastName || ''} ${user.firstName || ''}`.trim() || (user.username ? `@${user.username}` : "Без имени");
+}
+
+/**
+ * Steps of an offboarding checklist; each is done once nothing is left for it
+ */
+export function offboardingItems(state: OffboardingState): ChecklistItem[] {
+  const done: Record<schema.ChecklistStep, boolean> = {
+    [schema.CHECKLIST_STEP.EQUIPMENT]: state.equipment.length === 0,
+    [schema.CHECKLIST_STEP.TASKS]: state.tasks.length === 0,
+    [schema.CHECKLIST_STEP.ACCESS]: !state.hasAccess,
+    [schema.CHECKLIST_STEP.PASSWORDS]: state.passwords.length === 0,
+    [schema.CHECKLIST_STEP.BOT]: state.isBlocked
+  };
+
+  const details: Partial<Record<schema.ChecklistStep, string[]>> = {
+    [schema.CHECKLIST_STEP.EQUIPMENT]: state.equipment.map(item => `${item.inventoryNumber} — ${item.name}`),
+    [schema.CHECKLIST_STEP.TASKS]: state.tasks.map(task => `#${task.id} ${task.title}`),
+    [schema.CHECKLIST_STEP.PASSWORDS]: state.passwords.map(password => `${password.title} (отправитель: ${employeeName(password.sender)})`)
+  };
+
+  return STEPS[schema.CHECKLIST_KIND.OFFBOARDING].map(([step, title]) => ({
+    step,
+    title,
+    done: done[step],
+    details: details[step] || []
+  }));
+}
+
+/**
+ * Steps of an onboarding checklist. Setup tasks count as created once they were created from the checklist.
+ */
+export function onboardingItems(state: OnboardingState, kit: string[], entries: schema.StaffChecklistEntry[]): ChecklistItem[] {
+  const heldTypes = new Set(state.equipment.map(item => item.type.toLowerCase()));
+  const missingTypes = kit.filter(type => !heldTypes.has(type.toLowerCase()));
+
+  const done: Partial<Record<schema.ChecklistStep, boolean>> = {
+    [schema.CHECKLIST_STEP.ACCESS]: state.isApproved,
+    [schema.CHECKLIST_STEP.EQUIPMENT]: missingTypes.length === 0,
+    [schema.CHECKLIST_STEP.TASKS]: entries.some(entry => entry.step === schema.CHECKLIST_STEP.TASKS)
+  };
+
+  return STEPS[schema.CHECKLIST_KIND.ONBOARDING].map(([step, title]) => ({
+    step,
+    title,
+    done: !!done[step],
+    details: step === schema.CHECKLIST_STEP.EQUIPMENT ? missingTypes.map(type => `Не выдано: ${type}`) : []
+  }));
+}
+
+/**
+ * Steps of a checklist that is signed off or whose employee has been deleted.
+ * Only a signed-off checklist counts as done; there is nothing left to compute the steps from.
+ */
+export function closedChecklistItems(checklist: schema.StaffChecklist): ChecklistItem[] {
+  return STEPS[checklist.kind as schema.ChecklistKind].map(([step, title]) => ({
+    step,
+    title,
+    done: checklist.signedOffAt !== null,
+    details: []
+  }));
+}
+
+function stepsTable(items: ChecklistItem[]): Table {
+  const header = new TableRow({
+    tableHeader: true,
+    children: STEP_COLUMNS.map(column => cell(column.title, column.width, true))
+  });
+
+  const rows = items.map((item, index) => new TableRow({
+    children: [String(index + 1), item.title, item.done ? "Выполнено" : "Не выполнено"]
+      .map((value, column) => cell(value, STEP_COLUMNS[column].width))
+  }));
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [header, ...rows]
+  });
+}
+
+function entriesTable(entries: schema.StaffChecklistEntry[]): Table {
+  const header = new TableRow({
+    tableHeader: true,
+    children: ENTRY_COLUMNS.map(column => cell(column.title, column.width, true))
+  });
+
+  const rows = entries.map(entry => new TableRow({
+    children: [formatDate(entry.createdAt), entry.text, entry.actorName]
+      .map((value, column) => cell(value, ENTRY_COLUMNS[column].width))
+  }));
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [header, ...rows]
+  });
+}
+
+/**
+ * File name of the downloaded report
+ */
+export function checklistReportFileName(checklist: schema.StaffChecklist): string {
+  return `${checklist.kind}_checklist_${checklist.id}.docx`;
+}
+
+/**
+ * Build the checklist report as a DOCX document: the steps, what was done for them and the sign-off
+ */
+export async function buildChecklistReport(checklist: ChecklistWithEntries, items: ChecklistItem[]): Promise<Buffer> {
+  const title = KIND_TITLES[checklist.kind as schema.ChecklistKind];
+
+  const signOff = checklist.signedOffAt
+    ? [
+      paragraph(`Подписан: ${checklist.signedOffByName} (${formatDate(checklist.signedOffAt)})`),
+      paragraph("________________ / подпись /", { spacingAfter: 0 })
+    ]
+    : [paragraph("Лист не подписан: выполнены не все пункты.")];
+
+  const document = new Document({
+    creator: "Inventory bot",
+    title: `${title} № ${checklist.id}`,
+    sections: [{
+      children: [
+        paragraph(`${title.toUpperCase()} № ${checklist.id}`, { bold: true, alignment: AlignmentType.CENTER }),
+        paragraph(`Дата начала: ${formatDate(checklist.createdAt)}`, { alignment: AlignmentType.RIGHT, spacingAfter: 240 }),
+        paragraph(`Сотрудник: ${checklist.employeeName}`, { spacingAfter: 240 }),
+        stepsTable(items),
+        paragraph("", { spacingAfter: 0 }),
+        paragraph("Выполненные действия:", { bold: true }),
+        entriesTable(checklist.entries),
+        paragraph("", { spacingAfter: 480 }),
+        ...signOff
+      ]
+    }]
+  });
+
+  return Packer.toBuffer(document);
+}
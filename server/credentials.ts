@@ -0,0 +1,55 @@
+import * as crypto from "crypto";
+import { promisify } from "util";
+
+const pbkdf2 = promisify(crypto.pbkdf2);
+
+// Current hashing parameters. Stored hashes carry their own algorithm and
+// iteration count, so these can be raised later: older hashes keep verifying
+// and are upgraded on the next successful login (see needsRehash).
+const HASH_ALGORITHM = "pbkdf2_sha512";
+const HASH_ITERATIONS = 210000;
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/**
+ * Hash a password into the "algorithm$iterations$salt$hash" format
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES).toString("hex");
+  const hash = await pbkdf2(password, salt, HASH_ITERATIONS, KEY_LENGTH, "sha512");
+
+  return `${HASH_ALGORITHM}$${HASH_ITERATIONS}$${salt}$${hash.toString("hex")}`;
+}
+
+/**
+ * Check a password against a stored hash
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [algorithm, iterations, salt, hash] = storedHash.split("$");
+
+  if (algorithm !== HASH_ALGORITHM || !iterations || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await pbkdf2(password, salt, Number(iterations), expected.length, "sha512");
+
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether a stored hash was created with weaker parameters than the current ones
+ */
+export function needsRehash(storedHash: string): boolean {
+  const [algorithm, iterations] = storedHash.split("$");
+  return algorithm !== HASH_ALGORITHM || Number(iterations) < HASH_ITERATIONS;
+}
+
+/**
+ * Generate a random one-time password
+ */
+export function generatePassword(length = 16): string {
+  return crypto.randomBytes(length).toString("base64url").slice(0, length);
+}
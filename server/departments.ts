@@ -0,0 +1,57 @@
+import * as schema from "@shared/schema";
+
+// Latin letters as they are read in Russian department names, so "IT" and "ИТ" are the same
+const LATIN_TO_CYRILLIC: Record<string, string> = {
+  a: "а", b: "б", c: "к", d: "д", e: "е", f: "ф", g: "г", h: "х", i: "и", j: "дж", k: "к", l: "л", m: "м",
+  n: "н", o: "о", p: "п", q: "к", r: "р", s: "с", t: "т", u: "у", v: "в", w: "в", x: "кс", y: "й", z: "з"
+};
+
+// Words that do not tell departments apart: "IT отдел" is "IT"
+const GENERIC_WORDS = new Set(["отдел", "отд", "департамент", "служба", "подразделение"]);
+
+/**
+ * Key under which spellings of the same department meet: lower case, Latin read as Cyrillic,
+ * without punctuation and generic words. "IT", "IT отдел" and "ИТ" all give "ит".
+ */
+export function departmentKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[a-z]/g, letter => LATIN_TO_CYRILLIC[letter])
+    .replace(/[^а-я0-9]+/g, " ")
+    .split(" ")
+    .filter(word => word && !GENERIC_WORDS.has(word))
+    .join(" ");
+}
+
+/**
+ * Department with the same key as the given name
+ */
+export function findDepartment<T extends Pick<schema.Department, "name">>(departments: T[], name: string): T | undefined {
+  const key = departmentKey(name);
+  return key ? departments.find(department => departmentKey(department.name) === key) : undefined;
+}
+
+/**
+ * Free-text department values grouped by key, each group under its most used spelling.
+ * Used to turn the old text column into departments.
+ */
+export function groupDepartmentNames(values: string[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+
+  for (const value of values.map(value => value.trim()).filter(Boolean)) {
+    const key = departmentKey(value) || value.toLowerCase();
+    groups.set(key, [...(groups.get(key) || []), value]);
+  }
+
+  return new Map(Array.from(groups.values()).map(spellings => {
+    const counts = new Map<string, number>();
+    spellings.forEach(spelling => counts.set(spelling, (counts.get(spelling) || 0) + 1));
+
+    // The most used spelling wins, the longer one on a tie: "IT отдел" over "IT"
+    const [name] = Array.from(counts.entries())
+      .sort(([a, countA], [b, countB]) => countB - countA || b.length - a.length)[0];
+
+    return [name, Array.from(counts.keys())];
+  }));
+}
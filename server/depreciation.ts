@@ -0,0 +1,170 @@
+import * as XLSX from 'xlsx';
+import * as schema from "@shared/schema";
+
+export const DEPRECIATION_REPORT_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Department of equipment without one in reports
+const NO_DEPARTMENT = "Без отдела";
+
+export interface Depreciation {
+  cost: number;
+  // Months depreciated so far, capped by the useful life
+  monthsDepreciated: number;
+  monthlyAmount: number;
+  accumulated: number;
+  residualValue: number;
+  fullyDepreciated: boolean;
+}
+
+export interface DepreciationTotals {
+  department: string;
+  count: number;
+  cost: number;
+  accumulated: number;
+  residualValue: number;
+}
+
+type FinancialFields = Pick<schema.Equipment, "purchaseDate" | "purchaseCost" | "usefulLifeMonths">;
+
+type AccountedEquipment = schema.Equipment & { department: schema.Department | null };
+
+function departmentName(item: { department: Pick<schema.Department, "name"> | null }): string {
+  return item.department?.name || NO_DEPARTMENT;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Amount in rubles as it is written in Russian documents: "1 234,50 ₽"
+ */
+export function formatRubles(value: number): string {
+  return `${value.toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ₽`;
+}
+
+/**
+ * Straight-line depreciation on a date. As in accounting, it is charged monthly
+ * starting with the month after the purchase. Items without a cost are not depreciated;
+ * items without a purchase date or useful life keep their full cost.
+ */
+export function computeDepreciation(item: FinancialFields, asOf: Date = new Date()): Depreciation | null {
+  if (!item.purchaseCost) {
+    return null;
+  }
+
+  const cost = Number(item.purchaseCost);
+
+  if (!item.purchaseDate || !item.usefulLifeMonths) {
+    return { cost, monthsDepreciated: 0, monthlyAmount: 0, accumulated: 0, residualValue: cost, fullyDepreciated: false };
+  }
+
+  const purchased = new Date(item.purchaseDate);
+  const monthsElapsed = (asOf.getFullYear() - purchased.getFullYear()) * 12 + asOf.getMonth() - purchased.getMonth();
+  const monthsDepreciated = Math.min(Math.max(monthsElapsed, 0), item.usefulLifeMonths);
+  const monthlyAmount = roundMoney(cost / item.usefulLifeMonths);
+  // The last month takes the rounding remainder, so a fully depreciated item ends at zero
+  const accumulated = monthsDepreciated === item.usefulLifeMonths ? cost : roundMoney(monthlyAmount * monthsDepreciated);
+
+  return {
+    cost,
+    monthsDepreciated,
+    monthlyAmount,
+    accumulated,
+    residualValue: roundMoney(cost - accumulated),
+    fullyDepreciated: monthsDepreciated === item.usefulLifeMonths
+  };
+}
+
+/**
+ * Cost, depreciation and residual value per department and in total, for items with a cost
+ */
+export function summarizeDepreciation(
+  items: (FinancialFields & { department: Pick<schema.Department, "name"> | null })[],
+  asOf: Date = new Date()
+): { departments: DepreciationTotals[], total: DepreciationTotals } {
+  const byDepartment = new Map<string, DepreciationTotals>();
+  const total: DepreciationTotals = { department: "Итого", count: 0, cost: 0, accumulated: 0, residualValue: 0 };
+
+  for (const item of items) {
+    const depreciation = computeDepreciation(item, asOf);
+
+    if (!depreciation) {
+      continue;
+    }
+
+    const department = departmentName(item);
+    const totals = byDepartment.get(department) || { department, count: 0, cost: 0, accumulated: 0, residualValue: 0 };
+
+    for (const target of [totals, total]) {
+      target.count++;
+      target.cost = roundMoney(target.cost + depreciation.cost);
+      target.accumulated = roundMoney(target.accumulated + depreciation.accumulated);
+      target.residualValue = roundMoney(target.residualValue + depreciation.residualValue);
+    }
+
+    byDepartment.set(department, totals);
+  }
+
+  return {
+    departments: Array.from(byDepartment.values()).sort((a, b) => a.department.localeCompare(b.department, 'ru')),
+    total
+  };
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString('ru-RU') : "";
+}
+
+/**
+ * Depreciation report: every item with its accounting data, and totals by department
+ */
+export function buildDepreciationReport(items: AccountedEquipment[], asOf: Date = new Date()): Buffer {
+  const wb = XLSX.utils.book_new();
+
+  const sorted = [...items].sort((a, b) =>
+    departmentName(a).localeCompare(departmentName(b), 'ru') ||
+    a.inventoryNumber.localeCompare(b.inventoryNumber, 'ru')
+  );
+
+  const rows = sorted.map(item => {
+    const depreciation = computeDepreciation(item, asOf);
+
+    return [
+      item.inventoryNumber,
+      item.name,
+      item.type,
+      departmentName(item),
+      formatDate(item.purchaseDate),
+      item.supplier || "",
+      item.invoiceNumber || "",
+      depreciation?.cost ?? "",
+      item.usefulLifeMonths ?? "",
+      depreciation?.monthlyAmount ?? "",
+      depreciation?.accumulated ?? "",
+      depreciation?.residualValue ?? "",
+      formatDate(item.warrantyEndDate)
+    ];
+  });
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    [`Амортизация на ${asOf.toLocaleDateString('ru-RU')}`],
+    [
+      'Инвентарный номер', 'Наименование', 'Тип', 'Отдел', 'Дата покупки', 'Поставщик', 'Номер счета',
+      'Стоимость', 'Срок использования (мес.)', 'Амортизация в месяц', 'Начислено', 'Остаточная стоимость', 'Гарантия до'
+    ],
+    ...rows
+  ]), "По предметам");
+
+  const { departments, total } = summarizeDepreciation(items, asOf);
+  const totalsRow = (totals: DepreciationTotals) =>
+    [totals.department, totals.count, totals.cost, totals.accumulated, totals.residualValue];
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    ['Отдел', 'Предметов', 'Стоимость', 'Начислено', 'Остаточная стоимость'],
+    ...departments.map(totalsRow),
+    totalsRow(total)
+  ]), "По отделам");
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -0,0 +1,143 @@
+import * as crypto from "crypto";
+
+// Envelope encryption for secure password content.
+//
+// Every record is encrypted with its own random data key (AES-256-GCM).
+// The data key is in turn encrypted ("wrapped") with a master key taken from
+// SECURE_CONTENT_MASTER_KEYS, a comma-separated list of "version:base64key"
+// entries. The highest version is used for new records; older versions are
+// kept only to decrypt rows until they are re-wrapped by a key rotation.
+
+const CIPHER = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export interface EncryptedContent {
+  encryptedContent: string;
+  encryptedDataKey: string | null;
+  keyVersion: number | null;
+}
+
+let masterKeys: Map<number, Buffer> | null = null;
+
+function loadMasterKeys(): Map<number, Buffer> {
+  if (masterKeys) {
+    return masterKeys;
+  }
+
+  const raw = process.env.SECURE_CONTENT_MASTER_KEYS;
+
+  if (!raw) {
+    throw new Error("SECURE_CONTENT_MASTER_KEYS must be set to store secure passwords");
+  }
+
+  const keys = new Map<number, Buffer>();
+
+  for (const entry of raw.split(",").map(part => part.trim()).filter(Boolean)) {
+    // A single key without a version prefix is treated as version 1
+    const separator = entry.indexOf(":");
+    const version = separator === -1 ? 1 : Number(entry.slice(0, separator));
+    const key = Buffer.from(separator === -1 ? entry : entry.slice(separator + 1), "base64");
+
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid master key version "${entry.slice(0, separator)}"`);
+    }
+
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Master key version ${version} must be ${KEY_BYTES} bytes encoded as base64`);
+    }
+
+    keys.set(version, key);
+  }
+
+  if (keys.size === 0) {
+    throw new Error("SECURE_CONTENT_MASTER_KEYS does not contain any keys");
+  }
+
+  masterKeys = keys;
+  return keys;
+}
+
+function getMasterKey(version: number): Buffer {
+  const key = loadMasterKeys().get(version);
+
+  if (!key) {
+    throw new Error(`Master key version ${version} is not configured`);
+  }
+
+  return key;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, ciphertext].map(part => part.toString("base64")).join(":");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, authTag, ciphertext] = sealed.split(":").map(part => Buffer.from(part, "base64"));
+
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error("Malformed encrypted value");
+  }
+
+  const decipher = crypto.createDecipheriv(CIPHER, key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Version of the master key used for new records
+ */
+export function getCurrentKeyVersion(): number {
+  return Math.max(...Array.from(loadMasterKeys().keys()));
+}
+
+/**
+ * Encrypt content with a fresh data key wrapped by the current master key
+ */
+export function encryptContent(plaintext: string): EncryptedContent {
+  const keyVersion = getCurrentKeyVersion();
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+
+  return {
+    encryptedContent: seal(dataKey, Buffer.from(plaintext, "utf8")),
+    encryptedDataKey: seal(getMasterKey(keyVersion), dataKey),
+    keyVersion
+  };
+}
+
+/**
+ * Decrypt content. Rows without a key version predate encryption and are returned as is.
+ */
+export function decryptContent(record: EncryptedContent): string {
+  if (record.keyVersion === null || !record.encryptedDataKey) {
+    return record.encryptedContent;
+  }
+
+  const dataKey = open(getMasterKey(record.keyVersion), record.encryptedDataKey);
+  return open(dataKey, record.encryptedContent).toString("utf8");
+}
+
+/**
+ * Re-encrypt a record under the current master key.
+ * Encrypted rows only get their data key re-wrapped, legacy plaintext rows are encrypted.
+ */
+export function reencryptContent(record: EncryptedContent): EncryptedContent {
+  if (record.keyVersion === null || !record.encryptedDataKey) {
+    return encryptContent(record.encryptedContent);
+  }
+
+  const keyVersion = getCurrentKeyVersion();
+  const dataKey = open(getMasterKey(record.keyVersion), record.encryptedDataKey);
+
+  return {
+    encryptedContent: record.encryptedContent,
+    encryptedDataKey: seal(getMasterKey(keyVersion), dataKey),
+    keyVersion
+  };
+}
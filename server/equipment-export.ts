@@ -0,0 +1,92 @@
+import * as XLSX from 'xlsx';
+import * as schema from "@shared/schema";
+import { IMPORT_COLUMNS } from "./equipment-import";
+import { locationPaths } from "./locations";
+
+export const EXPORT_FORMAT = {
+  XLSX: "xlsx",
+  CSV: "csv"
+} as const;
+
+export type ExportFormat = typeof EXPORT_FORMAT[keyof typeof EXPORT_FORMAT];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  [EXPORT_FORMAT.XLSX]: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  [EXPORT_FORMAT.CSV]: "text/csv; charset=utf-8"
+};
+
+// Excel opens UTF-8 CSV with Cyrillic correctly only when it starts with a byte order mark
+const UTF8_BOM = "﻿";
+
+type ExportedEquipment = schema.Equipment & { assignedUser: schema.User | null, department: schema.Department | null };
+type ExportedHistory = schema.EquipmentHistory & { user: schema.User | null };
+
+function userName(user: schema.User | null): string {
+  return user ? `${user.lastName || ''} ${user.firstName || ''}`.trim() : "";
+}
+
+/**
+ * A row in the column order of the import template, so an export can be edited and imported back
+ */
+function equipmentRow(item: ExportedEquipment, paths: Map<number, string>): string[] {
+  const values: Record<typeof IMPORT_COLUMNS[number]["key"], string> = {
+    inventoryNumber: item.inventoryNumber,
+    name: item.name,
+    type: item.type,
+    status: item.status,
+    employee: userName(item.assignedUser),
+    department: item.department?.name || "",
+    description: item.description || "",
+    location: item.locationId ? paths.get(item.locationId) || "" : ""
+  };
+
+  return IMPORT_COLUMNS.map(column => values[column.key]);
+}
+
+/**
+ * File name of an export made today
+ */
+export function equipmentExportFileName(format: ExportFormat): string {
+  return `equipment_${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+/**
+ * Equipment as XLSX or CSV in the layout of the import template. A history sheet
+ * can be added to XLSX; CSV holds a single table, so history is left out there.
+ */
+export function buildEquipmentExport(
+  items: ExportedEquipment[],
+  format: ExportFormat,
+  locations: schema.Location[],
+  history?: ExportedHistory[]
+): Buffer {
+  const paths = locationPaths(locations);
+  const equipmentSheet = XLSX.utils.aoa_to_sheet([
+    IMPORT_COLUMNS.map(column => column.title),
+    ...items.map(item => equipmentRow(item, paths))
+  ]);
+
+  if (format === EXPORT_FORMAT.CSV) {
+    return Buffer.from(UTF8_BOM + XLSX.utils.sheet_to_csv(equipmentSheet), "utf8");
+  }
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, equipmentSheet, "Оборудование");
+
+  if (history) {
+    const inventoryNumbers = new Map(items.map(item => [item.id, item.inventoryNumber]));
+
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+      ['Инвентарный номер', 'Дата', 'Действие', 'Подробности', 'Сотрудник'],
+      ...history.map(entry => [
+        inventoryNumbers.get(entry.equipmentId) || "",
+        new Date(entry.timestamp).toLocaleString('ru-RU'),
+        entry.action,
+        entry.details || "",
+        userName(entry.user)
+      ])
+    ]), "История");
+  }
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -0,0 +1,466 @@
+import * as XLSX from 'xlsx';
+import * as schema from "@shared/schema";
+import { findLocations, LOCATION_PATH_SEPARATOR } from "./locations";
+import { findDepartment } from "./departments";
+
+export const IMPORT_REPORT_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const IMPORT_MODE = {
+  // New inventory numbers only, rows for existing ones are skipped
+  INSERT: "insert",
+  // Existing inventory numbers are updated from the file
+  UPSERT: "upsert"
+} as const;
+
+export type ImportMode = typeof IMPORT_MODE[keyof typeof IMPORT_MODE];
+
+export const IMPORT_ACTION = {
+  CREATE: "create",
+  UPDATE: "update",
+  SKIP: "skip",
+  ERROR: "error"
+} as const;
+
+export type ImportAction = typeof IMPORT_ACTION[keyof typeof IMPORT_ACTION];
+
+// Columns of the import template. Columns are found by their header, so their order
+// in an uploaded file does not matter; files without a known header use this order.
+export const IMPORT_COLUMNS = [
+  { key: "inventoryNumber", title: "Инвентарный номер", example: "T-2023-001" },
+  { key: "name", title: "Наименование", example: "HP EliteBook" },
+  { key: "type", title: "Тип", example: "Ноутбук" },
+  { key: "status", title: "Статус", example: "active" },
+  { key: "employee", title: "Сотрудник (ФИО)", example: "Иванов Иван" },
+  { key: "department", title: "Отдел", example: "IT отдел" },
+  { key: "description", title: "Описание", example: "Пример записи" },
+  // Last, so files made before locations existed keep their column order
+  { key: "location", title: "Местоположение", example: ["Главный корпус", "3 этаж", "305"].join(LOCATION_PATH_SEPARATOR) }
+] as const;
+
+type ImportColumn = typeof IMPORT_COLUMNS[number]["key"];
+
+// Status cells may hold the code or the name shown in the panel. Written-off equipment
+// is not imported, write-offs go through their own flow.
+const STATUS_NAMES: Record<string, schema.EquipmentStatus> = {
+  "активно": schema.EQUIPMENT_STATUS.ACTIVE,
+  "на складе": schema.EQUIPMENT_STATUS.STORAGE,
+  "на ремонте": schema.EQUIPMENT_STATUS.REPAIR,
+  "не используется": schema.EQUIPMENT_STATUS.DECOMMISSIONED
+};
+
+// Employees at least this similar to the name in the file are offered as suggestions
+const SUGGESTION_THRESHOLD = 0.7;
+const MAX_SUGGESTIONS = 3;
+
+const FIELD_NAMES: Record<string, string> = {
+  name: "наименование",
+  type: "тип",
+  status: "статус",
+  departmentId: "отдел",
+  description: "описание",
+  assignedToUserId: "сотрудник",
+  locationId: "местоположение"
+};
+
+export interface EmployeeMatch {
+  userId: number;
+  name: string;
+  // 1 for an exact match
+  score: number;
+}
+
+export interface ImportRowPreview {
+  // Row number as shown in Excel
+  rowNumber: number;
+  action: ImportAction;
+  // Why a row is skipped or rejected, or what will change
+  reasons: string[];
+  inventoryNumber: string;
+  name: string;
+  employeeName: string;
+  // Holder the row will be assigned to
+  employee: EmployeeMatch | null;
+  suggestions: EmployeeMatch[];
+  equipmentId?: number;
+  data?: schema.InsertEquipment;
+}
+
+export interface ImportPreview {
+  mode: ImportMode;
+  rows: ImportRowPreview[];
+  summary: Record<ImportAction, number>;
+}
+
+type ImportUser = Pick<schema.User, "id" | "firstName" | "lastName">;
+
+/**
+ * Cells of the first sheet as trimmed strings, the header row included
+ */
+export function readImportSheet(file: Buffer): string[][] {
+  const workbook = XLSX.read(file);
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+
+  if (!worksheet) {
+    return [];
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: "", raw: false, blankrows: true });
+  return rows.map(row => row.map(cell => String(cell ?? "").trim()));
+}
+
+/**
+ * Lower case without "ё", punctuation and repeated spaces
+ */
+function normalize(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[^a-zа-я0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+/**
+ * How close "Фамилия Имя" from the file is to an employee. Either order is accepted,
+ * as are a patronymic after the first name and an initial instead of the first name.
+ */
+function employeeScore(query: string[], user: ImportUser): number {
+  const lastName = normalize(user.lastName || "");
+  const firstName = normalize(user.firstName || "");
+
+  if (!lastName || query.length === 0) {
+    return 0;
+  }
+
+  const [first, second = ""] = query;
+  const orders: [string, string][] = [[first, second], [second, first]];
+
+  return Math.max(...orders.map(([last, name]) => {
+    // "Иванов И." matches by the initial
+    if (name.length === 1) {
+      return firstName.startsWith(name) ? similarity(last, lastName) : 0;
+    }
+
+    return similarity(`${last} ${name}`, `${lastName} ${firstName}`);
+  }));
+}
+
+/**
+ * Employee named in a row: an exact match when there is exactly one, otherwise suggestions
+ */
+function matchEmployee(employeeName: string, users: ImportUser[]): { match: EmployeeMatch | null, suggestions: EmployeeMatch[] } {
+  const query = normalize(employeeName).split(" ").filter(Boolean);
+  const scored = users
+    .map(user => ({
+      userId: user.id,
+      name: `${user.lastName || ""} ${user.firstName || ""}`.trim(),
+      score: Math.round(employeeScore(query, user) * 100) / 100
+    }))
+    .filter(candidate => candidate.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const exact = scored.filter(candidate => candidate.score === 1);
+
+  if (exact.length === 1) {
+    return { match: exact[0], suggestions: [] };
+  }
+
+  return { match: null, suggestions: (exact.length > 1 ? exact : scored).slice(0, MAX_SUGGESTIONS) };
+}
+
+function parseStatus(value: string): string | null {
+  const status = value.toLowerCase();
+
+  if ((Object.values(STATUS_NAMES) as string[]).includes(status)) {
+    return status;
+  }
+
+  return STATUS_NAMES[normalize(value)] || null;
+}
+
+/**
+ * Index of every template column in the uploaded sheet
+ */
+function columnIndexes(header: string[]): Record<ImportColumn, number> {
+  const titles = header.map(normalize);
+  const hasHeader = IMPORT_COLUMNS.some(column => titles.includes(normalize(column.title)));
+
+  return Object.fromEntries(IMPORT_COLUMNS.map((column, position) => {
+    const title = normalize(column.title);
+    // "Сотрудник (ФИО)" is also found as "Сотрудник"
+    const index = titles.findIndex(cell => cell === title || (cell.length > 0 && title.startsWith(cell)));
+    return [column.key, hasHeader ? index : position];
+  })) as Record<ImportColumn, number>;
+}
+
+/**
+ * Inventory numbers mentioned in an uploaded sheet
+ */
+export function importInventoryNumbers(sheet: string[][]): string[] {
+  const column = columnIndexes(sheet[0] || []).inventoryNumber;
+  return column < 0 ? [] : sheet.slice(1).map(row => row[column]).filter(Boolean);
+}
+
+/**
+ * Decide what happens to every row of an uploaded sheet without writing anything.
+ * employeeChoices overrides the holder of a row by its number, null leaves it unassigned.
+ */
+export function analyzeEquipmentImport(
+  sheet: string[][],
+  options: {
+    mode: ImportMode,
+    users: ImportUser[],
+    existing: schema.Equipment[],
+    locations: schema.Location[],
+    departments: schema.Department[],
+    employeeChoices?: Record<number, number | null>
+  }
+): ImportPreview {
+  const columns = columnIndexes(sheet[0] || []);
+  const existing = new Map(options.existing.map(item => [item.inventoryNumber, item]));
+  const seen = new Map<string, number>();
+  const rows: ImportRowPreview[] = [];
+
+  for (let index = 1; index < sheet.length; index++) {
+    const cells = sheet[index];
+
+    if (cells.every(cell => !cell)) {
+      continue;
+    }
+
+    const cell = (key: ImportColumn) => columns[key] >= 0 ? cells[columns[key]] || "" : "";
+    const rowNumber = index + 1;
+    const inventoryNumber = cell("inventoryNumber");
+    const employeeName = cell("employee");
+    const current = existing.get(inventoryNumber);
+    // Errors reject the row, warnings are shown next to a row that is still imported
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const row: ImportRowPreview = {
+      rowNumber,
+      action: IMPORT_ACTION.ERROR,
+      reasons: errors,
+      inventoryNumber,
+      name: cell("name"),
+      employeeName,
+      employee: null,
+      suggestions: []
+    };
+    rows.push(row);
+
+    if (inventoryNumber && seen.has(inventoryNumber)) {
+      errors.push(`Инвентарный номер уже встречается в строке ${seen.get(inventoryNumber)}`);
+      continue;
+    }
+
+    if (inventoryNumber) {
+      seen.set(inventoryNumber, rowNumber);
+    }
+
+    if (current && options.mode === IMPORT_MODE.INSERT) {
+      row.action = IMPORT_ACTION.SKIP;
+      row.equipmentId = current.id;
+      row.reasons = ["Имущество с таким инвентарным номером уже есть"];
+      continue;
+    }
+
+    if (current?.status === schema.EQUIPMENT_STATUS.WRITTEN_OFF) {
+      errors.push("Имущество списано, изменить его импортом нельзя");
+      continue;
+    }
+
+    // Empty cells keep the current values of existing equipment
+    const statusCell = cell("status");
+    const status = statusCell ? parseStatus(statusCell) : (current?.status || schema.EQUIPMENT_STATUS.STORAGE);
+
+    if (!status) {
+      errors.push(`Неизвестный статус "${statusCell}"`);
+    }
+
+    // Holder: the choice made in the preview, else the employee found by name
+    let assignedToUserId: number | null = current?.assignedToUserId ?? null;
+    const choice = options.employeeChoices?.[rowNumber];
+
+    if (choice !== undefined) {
+      const chosen = choice === null ? null : options.users.find(user => user.id === choice);
+
+      // Keep offering the other candidates so the choice can be changed
+      row.suggestions = employeeName ? matchEmployee(employeeName, options.users).suggestions : [];
+
+      if (choice !== null && !chosen) {
+        errors.push("Выбранный сотрудник не найден");
+      } else {
+        assignedToUserId = chosen?.id ?? null;
+        row.employee = chosen
+          ? { userId: chosen.id, name: `${chosen.lastName || ""} ${chosen.firstName || ""}`.trim(), score: 1 }
+          : null;
+      }
+    } else if (employeeName) {
+      const { match, suggestions } = matchEmployee(employeeName, options.users);
+      row.employee = match;
+      row.suggestions = suggestions;
+
+      if (match) {
+        assignedToUserId = match.userId;
+      } else {
+        warnings.push(current
+          ? `Сотрудник "${employeeName}" не найден, владелец не изменится`
+          : `Сотрудник "${employeeName}" не найден, имущество останется на складе`);
+      }
+    }
+
+    // Location by its full path or an exact name; a part of a name could point to a wrong room
+    const locationCell = cell("location");
+    let locationId: number | null = current?.locationId ?? null;
+
+    if (locationCell) {
+      const found = findLocations(options.locations, locationCell, false);
+
+      if (found.length === 1) {
+        locationId = found[0].id;
+      } else {
+        errors.push(found.length === 0
+          ? `Местоположение "${locationCell}" не найдено`
+          : `Местоположений "${locationCell}" несколько, укажите полный путь через "${LOCATION_PATH_SEPARATOR.trim()}"`);
+      }
+    }
+
+    // Department by any of its spellings: "IT", "IT отдел" and "ИТ" are the same department
+    const departmentCell = cell("department");
+    let departmentId: number | null = current?.departmentId ?? null;
+
+    if (departmentCell) {
+      const department = findDepartment(options.departments, departmentCell);
+
+      if (department) {
+        departmentId = department.id;
+      } else {
+        errors.push(`Отдел "${departmentCell}" не найден`);
+      }
+    }
+
+    const parsed = schema.equipmentInsertSchema.safeParse({
+      inventoryNumber,
+      name: cell("name") || current?.name || "",
+      type: cell("type") || current?.type || "",
+      status: status || schema.EQUIPMENT_STATUS.STORAGE,
+      assignedToUserId,
+      departmentId,
+      description: cell("description") || current?.description || null,
+      locationId
+    });
+
+    if (!parsed.success) {
+      errors.push(...parsed.error.issues.map(issue => issue.message));
+    }
+
+    if (!parsed.success || errors.length > 0) {
+      continue;
+    }
+
+    row.data = parsed.data;
+    row.reasons = warnings;
+
+    if (!current) {
+      row.action = IMPORT_ACTION.CREATE;
+      continue;
+    }
+
+    row.equipmentId = current.id;
+
+    const changed = Object.keys(FIELD_NAMES).filter(field =>
+      (parsed.data[field as keyof schema.InsertEquipment] ?? null) !== (current[field as keyof schema.Equipment] ?? null)
+    );
+
+    if (changed.length === 0) {
+      row.action = IMPORT_ACTION.SKIP;
+      warnings.push("Без изменений");
+      continue;
+    }
+
+    row.action = IMPORT_ACTION.UPDATE;
+    warnings.push(`Изменится: ${changed.map(field => FIELD_NAMES[field]).join(", ")}`);
+  }
+
+  const summary = {
+    [IMPORT_ACTION.CREATE]: 0,
+    [IMPORT_ACTION.UPDATE]: 0,
+    [IMPORT_ACTION.SKIP]: 0,
+    [IMPORT_ACTION.ERROR]: 0
+  };
+
+  for (const row of rows) {
+    summary[row.action]++;
+  }
+
+  return { mode: options.mode, rows, summary };
+}
+
+/**
+ * Rows that cannot be imported, as in the uploaded file with the reasons in an extra column.
+ * After fixing, the workbook can be uploaded again as is.
+ */
+export function buildImportErrorReport(sheet: string[][], preview: ImportPreview): Buffer {
+  const header = sheet[0] || IMPORT_COLUMNS.map(column => column.title);
+  const width = Math.max(header.length, ...sheet.map(row => row.length));
+  const pad = (row: string[]) => [...row, ...Array(width - row.length).fill("")];
+
+  const rows = preview.rows
+    .filter(row => row.action === IMPORT_ACTION.ERROR)
+    .map(row => [
+      ...pad(sheet[row.rowNumber - 1]),
+      row.rowNumber,
+      [
+        ...row.reasons,
+        ...row.suggestions.length > 0 ? [`Возможно: ${row.suggestions.map(suggestion => suggestion.name).join(", ")}`] : []
+      ].join("; ")
+    ]);
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    [...pad(header), "Строка в исходном файле", "Ошибки"],
+    ...rows
+  ]), "Ошибки импорта");
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
+
+/**
+ * Empty import template with an example row
+ */
+export function buildImportTemplate(): Buffer {
+  const wb = XLSX.utils.book_new();
+  const ws = XLSX.utils.aoa_to_sheet([
+    IMPORT_COLUMNS.map(column => column.title),
+    IMPORT_COLUMNS.map(column => column.example)
+  ]);
+  XLSX.utils.book_append_sheet(wb, ws, "Оборудование");
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -2,10 +2,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { setupBot } from "./bot";
+import { setupBot, getBotLaunchOptions } from "./bot";
 import * as dotenv from "dotenv";
 import session from "express-session";
-import { createDefaultAdmin } from "./storage";
+import { storage, createDefaultAdmin, migrateLegacyUrgentTasks, migrateEquipmentDepartments } from "./storage";
+import { startSecurePasswordSweeper } from "./sweeper";
+import { startTaskSlaMonitor } from "./sla";
+import { startScheduler } from "./scheduler";
+import { startNotificationWorker } from "./notifications";
 
 // Загружаем переменные окружения
 dotenv.config();
@@ -64,8 +68,23 @@ app.use((req, res, next) => {
     console.error("Failed to create default admin:", error);
   }
 
+  await migrateLegacyUrgentTasks();
+  await migrateEquipmentDepartments();
+
   const server = await registerRoutes(app);
 
+  // Wipe expired secure passwords and revealed bot messages in the background
+  startSecurePasswordSweeper();
+
+  // Warn assignees and admins about tasks that miss their deadlines
+  startTaskSlaMonitor();
+
+  // Digests and reminders on the schedule from bot settings
+  startScheduler();
+
+  // Deliver queued bot notifications with retries
+  startNotificationWorker();
+
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
@@ -97,12 +116,13 @@ app.use((req, res, next) => {
     // Запуск Telegram бота
     const telegramBotToken = process.env.TELEGRAM_BOT_TOKEN;
     if (telegramBotToken) {
-      try {
-        setupBot(telegramBotToken);
-        log(`Telegram bot started with token: ${telegramBotToken.substring(0, 8)}...`);
-      } catch (error) {
-        log(`Failed to start Telegram bot: ${error}`);
-      }
+      // Polling or webhook mode comes from bot settings
+      storage.getBotSettings()
+        .then(settings => {
+          setupBot(telegramBotToken, getBotLaunchOptions(settings));
+          log(`Telegram bot started with token: ${telegramBotToken.substring(0, 8)}...`);
+        })
+        .catch(error => log(`Failed to start Telegram bot: ${error}`));
     } else {
       log(`WARNING: No TELEGRAM_BOT_TOKEN provided, bot is not started`);
     }
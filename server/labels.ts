@@ -0,0 +1,117 @@
+import { existsSync } from "fs";
+import PDFDocument from "pdfkit";
+import QRCode from "qrcode";
+import jsQR from "jsqr";
+import { Jimp } from "jimp";
+
+export const LABELS_CONTENT_TYPE = "application/pdf";
+
+// Text in a label QR code; bare inventory numbers are accepted too, for labels printed elsewhere
+const EQUIPMENT_QR_PREFIX = "inventory:";
+
+// Label grids on an A4 sheet, by the number of labels per sheet
+export const LABEL_LAYOUTS: Record<number, { columns: number, rows: number }> = {
+  8: { columns: 2, rows: 4 },
+  21: { columns: 3, rows: 7 },
+  24: { columns: 3, rows: 8 },
+  40: { columns: 4, rows: 10 }
+};
+
+export const DEFAULT_LABELS_PER_PAGE = 24;
+
+// A4 in points and the unprintable margin around the grid
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const PAGE_MARGIN = 28;
+const LABEL_PADDING = 6;
+
+// The standard PDF fonts have no Cyrillic, so a TrueType font is used when one is available
+const FALLBACK_FONT = "Helvetica";
+const SYSTEM_FONT_PATHS = [
+  "/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf",
+  "/usr/share/fonts/dejavu/DejaVuSans.ttf",
+  "/usr/share/fonts/TTF/DejaVuSans.ttf"
+];
+
+function labelFont(): string {
+  const candidates = process.env.LABEL_FONT_PATH ? [process.env.LABEL_FONT_PATH, ...SYSTEM_FONT_PATHS] : SYSTEM_FONT_PATHS;
+  return candidates.find(path => existsSync(path)) || FALLBACK_FONT;
+}
+
+/**
+ * Text encoded in the QR code of an equipment label
+ */
+export function equipmentQrPayload(inventoryNumber: string): string {
+  return `${EQUIPMENT_QR_PREFIX}${inventoryNumber}`;
+}
+
+/**
+ * Printable A4 sheets of labels with a QR code, the inventory number and the name of each item
+ */
+export async function buildEquipmentLabels(
+  items: { inventoryNumber: string, name: string }[],
+  perPage: number = DEFAULT_LABELS_PER_PAGE
+): Promise<Buffer> {
+  const layout = LABEL_LAYOUTS[perPage] || LABEL_LAYOUTS[DEFAULT_LABELS_PER_PAGE];
+  const labelWidth = (PAGE_WIDTH - PAGE_MARGIN * 2) / layout.columns;
+  const labelHeight = (PAGE_HEIGHT - PAGE_MARGIN * 2) / layout.rows;
+  const qrSize = Math.min(labelHeight - LABEL_PADDING * 2, labelWidth * 0.45);
+  const textWidth = labelWidth - qrSize - LABEL_PADDING * 3;
+  const numberSize = Math.max(7, Math.min(14, labelHeight / 7));
+
+  const doc = new PDFDocument({ size: "A4", margin: 0, autoFirstPage: false });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  doc.font(labelFont());
+
+  for (let index = 0; index < items.length; index++) {
+    const position = index % (layout.columns * layout.rows);
+
+    if (position === 0) {
+      doc.addPage();
+    }
+
+    const item = items[index];
+    const x = PAGE_MARGIN + (position % layout.columns) * labelWidth;
+    const y = PAGE_MARGIN + Math.floor(position / layout.columns) * labelHeight;
+
+    // Cutting guide
+    doc.rect(x, y, labelWidth, labelHeight).dash(2, { space: 2 }).lineWidth(0.5).strokeColor("#bbbbbb").stroke().undash();
+
+    const qr = await QRCode.toBuffer(equipmentQrPayload(item.inventoryNumber), { margin: 1, width: 300 });
+    doc.image(qr, x + LABEL_PADDING, y + (labelHeight - qrSize) / 2, { width: qrSize, height: qrSize });
+
+    const textX = x + qrSize + LABEL_PADDING * 2;
+    const textY = y + LABEL_PADDING;
+    const textHeight = labelHeight - LABEL_PADDING * 2;
+
+    doc.fillColor("#000000").fontSize(numberSize)
+      .text(item.inventoryNumber, textX, textY, { width: textWidth, height: numberSize * 2.5, ellipsis: true });
+    doc.fillColor("#444444").fontSize(numberSize * 0.75)
+      .text(item.name, textX, doc.y + 2, { width: textWidth, height: textY + textHeight - doc.y - 2, ellipsis: true });
+  }
+
+  doc.end();
+  return done;
+}
+
+/**
+ * Find an equipment label QR code in a photo and return the inventory number from it
+ */
+export async function decodeEquipmentQr(photo: Buffer): Promise<string | null> {
+  const image = await Jimp.read(photo);
+  const { data, width, height } = image.bitmap;
+  const code = jsQR(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), width, height);
+  const text = code?.data.trim();
+
+  if (!text) {
+    return null;
+  }
+
+  return text.startsWith(EQUIPMENT_QR_PREFIX) ? text.slice(EQUIPMENT_QR_PREFIX.length) : text;
+}
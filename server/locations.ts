@@ -0,0 +1,148 @@
+import * as XLSX from 'xlsx';
+import * as schema from "@shared/schema";
+
+export const LOCATION_REPORT_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Separator of levels in a location path: "Главный корпус / 3 этаж / 305"
+export const LOCATION_PATH_SEPARATOR = " / ";
+
+// Group of equipment without a location in reports
+const NO_LOCATION = "Без местоположения";
+
+// Where each level has to be placed, see LOCATION_PARENT_KIND
+const PLACEMENT_ERRORS: Record<schema.LocationKind, string> = {
+  [schema.LOCATION_KIND.BUILDING]: "Здание не может находиться внутри другого места",
+  [schema.LOCATION_KIND.FLOOR]: "Этаж должен находиться в здании",
+  [schema.LOCATION_KIND.ROOM]: "Помещение должно находиться на этаже"
+};
+
+type TreeLocation = Pick<schema.Location, "id" | "name" | "kind" | "parentId">;
+
+type ReportedEquipment = schema.Equipment & { assignedUser: schema.User | null };
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Full path of every location, from the building down
+ */
+export function locationPaths(locations: TreeLocation[]): Map<number, string> {
+  const byId = new Map(locations.map(location => [location.id, location]));
+  const paths = new Map<number, string>();
+
+  const pathOf = (location: TreeLocation): string => {
+    const known = paths.get(location.id);
+
+    if (known !== undefined) {
+      return known;
+    }
+
+    const parent = location.parentId ? byId.get(location.parentId) : undefined;
+    const path = parent ? `${pathOf(parent)}${LOCATION_PATH_SEPARATOR}${location.name}` : location.name;
+    paths.set(location.id, path);
+    return path;
+  };
+
+  locations.forEach(pathOf);
+  return paths;
+}
+
+/**
+ * A location and everything inside it
+ */
+export function locationSubtreeIds(locations: TreeLocation[], rootId: number): number[] {
+  const ids = [rootId];
+
+  for (let index = 0; index < ids.length; index++) {
+    ids.push(...locations.filter(location => location.parentId === ids[index]).map(location => location.id));
+  }
+
+  return ids;
+}
+
+/**
+ * Locations named by a user: the full path, else the exact name, else a part of the name
+ * when allowPartial is set. "305" finds the room 305 on any floor, "Корпус А / 3 этаж / 305" only that one.
+ */
+export function findLocations<T extends TreeLocation>(locations: T[], query: string, allowPartial = true): T[] {
+  const wanted = normalize(query.split("/").map(part => part.trim()).join(LOCATION_PATH_SEPARATOR));
+
+  if (!wanted) {
+    return [];
+  }
+
+  const paths = locationPaths(locations);
+  const byPath = locations.filter(location => normalize(paths.get(location.id)!) === wanted);
+
+  if (byPath.length > 0) {
+    return byPath;
+  }
+
+  const byName = locations.filter(location => normalize(location.name) === wanted);
+
+  if (byName.length > 0 || !allowPartial) {
+    return byName;
+  }
+
+  return locations.filter(location => normalize(location.name).includes(wanted));
+}
+
+/**
+ * Why a location of this kind cannot be placed in the given parent, or null when it can
+ */
+export function locationPlacementError(locations: TreeLocation[], kind: schema.LocationKind, parentId: number | null): string | null {
+  const parentKind = schema.LOCATION_PARENT_KIND[kind];
+  const parent = parentId ? locations.find(location => location.id === parentId) : undefined;
+
+  if (parentKind ? parent?.kind === parentKind : !parentId) {
+    return null;
+  }
+
+  return PLACEMENT_ERRORS[kind];
+}
+
+function userName(user: schema.User | null): string {
+  return user ? `${user.lastName || ''} ${user.firstName || ''}`.trim() : "";
+}
+
+/**
+ * Inventory by location: every item under its location path, and the number of items
+ * in each location together with the locations inside it
+ */
+export function buildLocationReport(locations: TreeLocation[], items: ReportedEquipment[]): Buffer {
+  const paths = locationPaths(locations);
+  const pathOf = (item: ReportedEquipment) => item.locationId ? paths.get(item.locationId) || NO_LOCATION : NO_LOCATION;
+
+  // Items without a location go last
+  const sorted = [...items].sort((a, b) =>
+    Number(!a.locationId) - Number(!b.locationId) ||
+    pathOf(a).localeCompare(pathOf(b), 'ru') ||
+    a.inventoryNumber.localeCompare(b.inventoryNumber, 'ru')
+  );
+
+  const wb = XLSX.utils.book_new();
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    ['Местоположение', 'Инвентарный номер', 'Наименование', 'Тип', 'Статус', 'Сотрудник'],
+    ...sorted.map(item => [pathOf(item), item.inventoryNumber, item.name, item.type, item.status, userName(item.assignedUser)])
+  ]), "Имущество по местам");
+
+  const counts = locations
+    .map(location => {
+      const ids = new Set(locationSubtreeIds(locations, location.id));
+      return [paths.get(location.id)!, items.filter(item => item.locationId && ids.has(item.locationId)).length] as [string, number];
+    })
+    .filter(([, count]) => count > 0)
+    .sort(([a], [b]) => a.localeCompare(b, 'ru'));
+
+  const unplaced = items.filter(item => !item.locationId).length;
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    ['Местоположение', 'Предметов'],
+    ...counts,
+    ...unplaced > 0 ? [[NO_LOCATION, unplaced]] : []
+  ]), "Сводка");
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
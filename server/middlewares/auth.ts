@@ -1,17 +1,26 @@
 import { Request, Response, NextFunction } from "express";
 
+declare module "express-session" {
+  interface SessionData {
+    userId: string;
+    isAdmin: boolean;
+    mustChangePassword: boolean;
+  }
+}
+
 // Simple session-based authentication middleware
 export function authMiddleware(req: Request, res: Response, next: NextFunction) {
   // Check if user is authenticated
   if (!req.session || !req.session.userId) {
     return res.status(401).json({ message: "Пользователь не авторизован" });
   }
-  
-  // Check if admin for admin-only routes
-  if (req.originalUrl.startsWith('/api/admin') && !req.session.isAdmin) {
-    return res.status(403).json({ message: "Доступ запрещен" });
+
+  // Until the one-time password is replaced only the change-password route is available
+  if (req.session.mustChangePassword && req.originalUrl !== '/api/auth/change-password') {
+    return res.status(403).json({ message: "Необходимо сменить пароль", mustChangePassword: true });
   }
-  
+
   // User is authenticated
   next();
 }
+
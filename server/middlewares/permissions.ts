@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+import * as schema from "@shared/schema";
+
+export type CurrentUser = NonNullable<Awaited<ReturnType<typeof storage.getUserWithPermissions>>>;
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: CurrentUser;
+    }
+  }
+}
+
+/**
+ * What a route requires from the logged-in user.
+ * Admins pass every requirement; everyone else has to match all of the given fields.
+ */
+export interface RouteRequirement {
+  // Only admins may call the route
+  adminOnly?: boolean;
+  // Role the user must have
+  roles?: schema.Role[];
+  // Section the user must have access to in the permissions table
+  chatType?: schema.ChatType;
+}
+
+/**
+ * Whether the user has full access to the panel
+ */
+export function isAdminUser(user: { isAdmin: boolean | null, role: string }): boolean {
+  return !!user.isAdmin || user.role === schema.ROLES.ADMIN;
+}
+
+/**
+ * Whether the user has access to a section according to the permissions table
+ */
+export function hasChatAccess(user: CurrentUser, chatType: schema.ChatType): boolean {
+  return isAdminUser(user) || user.permissions.some(p => p.chatType === chatType && p.hasAccess);
+}
+
+/**
+ * Check whether a user satisfies a route requirement
+ */
+export function satisfiesRequirement(user: CurrentUser, requirement: RouteRequirement): boolean {
+  if (isAdminUser(user)) {
+    return true;
+  }
+
+  if (requirement.adminOnly) {
+    return false;
+  }
+
+  if (requirement.roles && !requirement.roles.includes(user.role as schema.Role)) {
+    return false;
+  }
+
+  if (requirement.chatType && !hasChatAccess(user, requirement.chatType)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Permission middleware, used after authMiddleware.
+ * Loads the session user into req.currentUser and rejects requests that do not satisfy the requirement.
+ */
+export function requirePermission(requirement: RouteRequirement = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const user = await storage.getUserWithPermissions(Number(req.session.userId));
+
+      if (!user) {
+        return res.status(401).json({ message: "Пользователь не авторизован" });
+      }
+
+      if (user.registrationStatus !== schema.REGISTRATION_STATUS.APPROVED) {
+        return res.status(403).json({ message: "Регистрация пользователя не подтверждена" });
+      }
+
+      if (!satisfiesRequirement(user, requirement)) {
+        return res.status(403).json({ message: "Доступ запрещен" });
+      }
+
+      req.currentUser = user;
+      next();
+    } catch (error) {
+      console.error("Error checking permissions:", error);
+      res.status(500).json({ message: "Ошибка сервера" });
+    }
+  };
+}
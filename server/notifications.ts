@@ -0,0 +1,138 @@
+import { storage } from "./storage";
+import { telegramBot } from "./bot";
+import * as schema from "@shared/schema";
+
+const WORKER_INTERVAL_MS = 5 * 1000;
+const BATCH_SIZE = 20;
+
+// Retries of a failing notification: 30 s, 1 min, 2 min ... up to an hour between attempts
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+let workerTimer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+
+// Telegram asked to slow down (429); nothing is sent until then
+let pausedUntil = 0;
+
+// Error returned by the Bot API, as thrown by Telegraf
+interface TelegramApiError {
+  message?: string;
+  response?: {
+    error_code?: number;
+    description?: string;
+    parameters?: { retry_after?: number };
+  };
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Send a single notification through the running bot
+ */
+async function deliver(notification: schema.Notification) {
+  const extra = (notification.extra || {}) as Record<string, any>;
+
+  switch (notification.kind) {
+    case schema.NOTIFICATION_KIND.PHOTO:
+      await telegramBot!.telegram.sendPhoto(notification.chatId, notification.telegramFileId!, {
+        ...extra,
+        caption: notification.text || undefined
+      });
+      break;
+    case schema.NOTIFICATION_KIND.DOCUMENT:
+      await telegramBot!.telegram.sendDocument(notification.chatId, notification.telegramFileId!, {
+        ...extra,
+        caption: notification.text || undefined
+      });
+      break;
+    default:
+      await telegramBot!.telegram.sendMessage(notification.chatId, notification.text || "", extra);
+  }
+}
+
+/**
+ * Decide what happens after a failed attempt
+ */
+async function handleFailure(notification: schema.Notification, attempts: number, error: unknown) {
+  const apiError = error as TelegramApiError;
+  const code = apiError.response?.error_code;
+  const description = apiError.response?.description || apiError.message || String(error);
+
+  // Rate limited: wait as long as Telegram says, this does not count as an attempt
+  if (code === 429) {
+    const retryAfterMs = (apiError.response?.parameters?.retry_after || 1) * 1000;
+    pausedUntil = Date.now() + retryAfterMs;
+    await storage.markNotificationAttemptFailed(notification.id, attempts - 1, description, new Date(pausedUntil));
+    return;
+  }
+
+  // The user blocked the bot or deleted the chat; retrying will not help
+  if (code === 403) {
+    if (notification.userId) {
+      await storage.setUserBotBlocked(notification.userId, true);
+    }
+
+    await storage.markNotificationAttemptFailed(notification.id, attempts, description, null);
+    return;
+  }
+
+  // Other client errors (bad chat id, message too long) fail the same way every time
+  const isPermanent = code !== undefined && code >= 400 && code < 500;
+  const nextAttemptAt = isPermanent || attempts >= MAX_ATTEMPTS
+    ? null
+    : new Date(Date.now() + retryDelay(attempts));
+
+  await storage.markNotificationAttemptFailed(notification.id, attempts, description, nextAttemptAt);
+}
+
+/**
+ * Deliver due notifications from the outbox
+ */
+async function processOutbox() {
+  // Notifications stay queued until the bot is running
+  if (isProcessing || !telegramBot || Date.now() < pausedUntil) {
+    return;
+  }
+
+  isProcessing = true;
+
+  try {
+    const due = await storage.getDueNotifications(BATCH_SIZE);
+
+    for (const notification of due) {
+      if (!telegramBot || Date.now() < pausedUntil) {
+        break;
+      }
+
+      const attempts = notification.attempts + 1;
+
+      try {
+        await deliver(notification);
+        await storage.markNotificationSent(notification.id, attempts);
+      } catch (error) {
+        console.error(`Failed to deliver notification ${notification.id}:`, error);
+        await handleFailure(notification, attempts, error);
+      }
+    }
+  } catch (error) {
+    console.error("Notification outbox processing failed:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Start the background worker that delivers the notification outbox
+ */
+export function startNotificationWorker() {
+  if (workerTimer) {
+    return;
+  }
+
+  workerTimer = setInterval(processOutbox, WORKER_INTERVAL_MS);
+  processOutbox();
+}
@@ -0,0 +1,147 @@
+import * as XLSX from 'xlsx';
+import * as schema from "@shared/schema";
+import { formatRubles } from "./depreciation";
+
+export const REPAIR_REPORT_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// What repair totals are grouped by
+export const REPAIR_GROUP_BY = {
+  TYPE: "type",
+  VENDOR: "vendor"
+} as const;
+
+export type RepairGroupBy = (typeof REPAIR_GROUP_BY)[keyof typeof REPAIR_GROUP_BY];
+
+// Vendor of repairs sent without one, e.g. from the bot
+const NO_VENDOR = "Не указан";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RepairTotals {
+  group: string;
+  count: number;
+  // Returned from repair; only they count towards the average turnaround
+  completed: number;
+  averageDays: number | null;
+  cost: number;
+  warrantyCount: number;
+}
+
+type RepairWithEquipment = schema.RepairOrder & { equipment: Pick<schema.Equipment, "inventoryNumber" | "name" | "type"> };
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function vendorName(order: Pick<schema.RepairOrder, "vendor">): string {
+  return order.vendor || NO_VENDOR;
+}
+
+/**
+ * Days the equipment spent in repair, up to today for repairs still in progress
+ */
+export function repairDays(order: Pick<schema.RepairOrder, "sentAt" | "returnedAt">, asOf: Date = new Date()): number {
+  const end = order.returnedAt ? Date.parse(order.returnedAt) : Date.UTC(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+  return Math.max(0, Math.round((end - Date.parse(order.sentAt)) / DAY_MS));
+}
+
+/**
+ * Number of repairs, average turnaround and spend per equipment type or vendor, and in total
+ */
+export function summarizeRepairs(
+  orders: RepairWithEquipment[],
+  groupBy: RepairGroupBy
+): { groups: RepairTotals[], total: RepairTotals } {
+  const byGroup = new Map<string, RepairTotals & { days: number }>();
+  const total: RepairTotals & { days: number } = { group: "Итого", count: 0, completed: 0, averageDays: null, cost: 0, warrantyCount: 0, days: 0 };
+
+  for (const order of orders) {
+    const group = groupBy === REPAIR_GROUP_BY.VENDOR ? vendorName(order) : order.equipment.type;
+    const totals = byGroup.get(group) || { group, count: 0, completed: 0, averageDays: null, cost: 0, warrantyCount: 0, days: 0 };
+
+    for (const target of [totals, total]) {
+      target.count++;
+      target.cost = roundMoney(target.cost + Number(order.cost || 0));
+
+      if (order.isWarranty) {
+        target.warrantyCount++;
+      }
+
+      if (order.returnedAt) {
+        target.completed++;
+        target.days += repairDays(order);
+      }
+    }
+
+    byGroup.set(group, totals);
+  }
+
+  const withAverage = ({ days, ...totals }: RepairTotals & { days: number }): RepairTotals => ({
+    ...totals,
+    averageDays: totals.completed > 0 ? Math.round(days / totals.completed * 10) / 10 : null
+  });
+
+  return {
+    groups: Array.from(byGroup.values()).map(withAverage).sort((a, b) => a.group.localeCompare(b.group, 'ru')),
+    total: withAverage(total)
+  };
+}
+
+/**
+ * One line per repair for the bot, e.g. "• 01.03.2026–05.03.2026, Сервис-Центр: не включается (4 дн., 1 500,00 ₽)"
+ */
+export function repairLine(order: schema.RepairOrder): string {
+  const period = `${new Date(order.sentAt).toLocaleDateString('ru-RU')}–${order.returnedAt ? new Date(order.returnedAt).toLocaleDateString('ru-RU') : 'в ремонте'}`;
+  const details = [
+    `${repairDays(order)} дн.`,
+    order.isWarranty ? 'гарантийный' : null,
+    order.cost ? formatRubles(Number(order.cost)) : null
+  ].filter(Boolean).join(', ');
+
+  return `• ${period}, ${vendorName(order)}${order.issue ? `: ${order.issue}` : ''} (${details})`;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString('ru-RU') : "";
+}
+
+/**
+ * Repairs report: every repair of the period, and totals by equipment type or vendor
+ */
+export function buildRepairReport(orders: RepairWithEquipment[], groupBy: RepairGroupBy, title: string): Buffer {
+  const wb = XLSX.utils.book_new();
+
+  const rows = orders.map(order => [
+    order.equipment.inventoryNumber,
+    order.equipment.name,
+    order.equipment.type,
+    vendorName(order),
+    order.issue || "",
+    formatDate(order.sentAt),
+    formatDate(order.returnedAt),
+    repairDays(order),
+    order.isWarranty ? "Да" : "Нет",
+    order.cost ? Number(order.cost) : ""
+  ]);
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    [title],
+    [
+      'Инвентарный номер', 'Наименование', 'Тип', 'Сервисный центр', 'Неисправность',
+      'Отправлено', 'Возвращено', 'Дней в ремонте', 'Гарантийный', 'Стоимость'
+    ],
+    ...rows
+  ]), "Ремонты");
+
+  const { groups, total } = summarizeRepairs(orders, groupBy);
+  const totalsRow = (totals: RepairTotals) =>
+    [totals.group, totals.count, totals.completed, totals.averageDays ?? "", totals.warrantyCount, totals.cost];
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    [groupBy === REPAIR_GROUP_BY.VENDOR ? 'Сервисный центр' : 'Тип', 'Ремонтов', 'Завершено', 'Средний срок (дн.)', 'Гарантийных', 'Затраты'],
+    ...groups.map(totalsRow),
+    totalsRow(total)
+  ]), groupBy === REPAIR_GROUP_BY.VENDOR ? "По сервисам" : "По типам");
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -0,0 +1,382 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from "vitest";
+import express, { type Express } from "express";
+import type { Session, SessionData } from "express-session";
+import request from "supertest";
+import * as schema from "@shared/schema";
+import type { CurrentUser } from "./middlewares/permissions";
+import { setupBot } from "./bot";
+import { rescheduleJobs } from "./scheduler";
+
+const storage = vi.hoisted(() => ({
+  getUserWithPermissions: vi.fn(),
+  getBotSettings: vi.fn(),
+  updateBotSettings: vi.fn(),
+  getAllUsers: vi.fn(),
+  getUserDirectory: vi.fn(),
+  getUsersWithChatAccess: vi.fn(),
+  getSecurePasswords: vi.fn(),
+  getUserSecurePasswords: vi.fn(),
+  getSecurePasswordById: vi.fn(),
+  revealSecurePassword: vi.fn(),
+  getTasks: vi.fn(),
+  getTaskById: vi.fn(),
+  getTaskComments: vi.fn(),
+  createTask: vi.fn(),
+  assignTask: vi.fn(),
+  getEquipment: vi.fn(),
+  updateEquipment: vi.fn(),
+  getDepartmentsHeadedBy: vi.fn(),
+  getLocations: vi.fn()
+}));
+
+vi.mock("@db", () => ({ db: {} }));
+vi.mock("./storage", () => ({ storage }));
+
+// Notifications are not what is tested here
+vi.mock("./bot", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./bot")>(),
+  notifyTaskAssigned: vi.fn(),
+  notifyTaskStatusChanged: vi.fn(),
+  setupBot: vi.fn()
+}));
+
+vi.mock("./scheduler", () => ({
+  rescheduleJobs: vi.fn(),
+  runScheduledJobNow: vi.fn()
+}));
+
+function testUser(
+  id: number,
+  role: schema.Role,
+  chatTypes: schema.ChatType[],
+  departmentId: number | null = null
+): CurrentUser {
+  return {
+    id,
+    role,
+    departmentId,
+    firstName: `User ${id}`,
+    lastName: null,
+    username: `user${id}`,
+    registrationStatus: schema.REGISTRATION_STATUS.APPROVED,
+    isAdmin: role === schema.ROLES.ADMIN,
+    permissions: chatTypes.map((chatType, index) => ({ id: index + 1, userId: id, chatType, hasAccess: true }))
+  } as CurrentUser;
+}
+
+const ADMIN = testUser(1, schema.ROLES.ADMIN, []);
+const SYSADMIN = testUser(2, schema.ROLES.SYSADMIN, Object.values(schema.CHAT_TYPES));
+const EMPLOYEE = testUser(3, schema.ROLES.EMPLOYEE, [schema.CHAT_TYPES.TASKS, schema.CHAT_TYPES.PASSWORDS], 10);
+const MANAGER = testUser(4, schema.ROLES.MANAGER, [schema.CHAT_TYPES.TASKS], 10);
+const USERS = [ADMIN, SYSADMIN, EMPLOYEE, MANAGER];
+
+function task(id: number, createdByUserId: number, assignedToUserId: number | null): schema.Task {
+  return {
+    id,
+    title: `Task ${id}`,
+    description: null,
+    createdByUserId,
+    assignedToUserId,
+    status: schema.TASK_STATUS.NEW,
+    priority: schema.TASK_PRIORITY.NORMAL,
+    dueAt: null,
+    startedAt: null,
+    completedAt: null,
+    responseBreachNotifiedAt: null,
+    resolveBreachNotifiedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  } as schema.Task;
+}
+
+let app: Express;
+
+function as(user: CurrentUser) {
+  const agent = request(app);
+  const withUser = <T extends { set(name: string, value: string): T }>(call: T) => call.set("X-Test-User-Id", String(user.id));
+
+  return {
+    get: (path: string) => withUser(agent.get(path)),
+    post: (path: string) => withUser(agent.post(path)),
+    patch: (path: string) => withUser(agent.patch(path))
+  };
+}
+
+beforeAll(async () => {
+  const { registerRoutes } = await import("./routes");
+
+  app = express();
+  app.use(express.json());
+
+  // Stands in for express-session: the caller is picked with a header
+  app.use((req, _res, next) => {
+    const userId = req.get("X-Test-User-Id");
+    req.session = (userId ? { userId } : {}) as Session & Partial<SessionData>;
+    next();
+  });
+
+  await registerRoutes(app);
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  storage.getUserWithPermissions.mockImplementation(async (id: number) => USERS.find(user => user.id === id));
+  storage.getBotSettings.mockResolvedValue(undefined);
+  storage.getLocations.mockResolvedValue([]);
+  storage.getUsersWithChatAccess.mockResolvedValue([SYSADMIN, EMPLOYEE]);
+});
+
+describe("GET /api/users", () => {
+  it("gives admins the full users with roles and permissions", async () => {
+    storage.getAllUsers.mockResolvedValue([{ id: 3, role: schema.ROLES.EMPLOYEE, permissions: {} }]);
+
+    const res = await as(ADMIN).get("/api/users");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([{ id: 3, role: schema.ROLES.EMPLOYEE, permissions: {} }]);
+    expect(storage.getUserDirectory).not.toHaveBeenCalled();
+  });
+
+  it("gives everyone else names only", async () => {
+    storage.getUserDirectory.mockResolvedValue([{ id: 1, username: "admin", firstName: null, lastName: null }]);
+
+    const res = await as(EMPLOYEE).get("/api/users");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([{ id: 1, username: "admin", firstName: null, lastName: null }]);
+    expect(storage.getAllUsers).not.toHaveBeenCalled();
+  });
+});
+
+describe("secure passwords", () => {
+  const password = { id: 5, senderId: SYSADMIN.id, receiverId: EMPLOYEE.id, title: "VPN" };
+
+  it("lists every password for admins", async () => {
+    storage.getSecurePasswords.mockResolvedValue([password]);
+
+    const res = await as(ADMIN).get("/api/secure-passwords");
+
+    expect(res.body).toEqual([password]);
+    expect(storage.getUserSecurePasswords).not.toHaveBeenCalled();
+  });
+
+  it("lists only their own passwords for others", async () => {
+    storage.getUserSecurePasswords.mockResolvedValue([password]);
+
+    const res = await as(EMPLOYEE).get("/api/secure-passwords");
+
+    expect(res.body).toEqual([password]);
+    expect(storage.getUserSecurePasswords).toHaveBeenCalledWith(EMPLOYEE.id);
+    expect(storage.getSecurePasswords).not.toHaveBeenCalled();
+  });
+
+  it("reveals the content to the receiver", async () => {
+    storage.getSecurePasswordById.mockResolvedValue(password);
+    storage.revealSecurePassword.mockResolvedValue({ ...password, content: "secret" });
+
+    const res = await as(EMPLOYEE).get("/api/secure-passwords/5");
+
+    expect(res.status).toBe(200);
+    expect(res.body.content).toBe("secret");
+    expect(storage.revealSecurePassword).toHaveBeenCalledWith(5, EMPLOYEE.id);
+  });
+
+  it("does not reveal the content to anyone else, admins included", async () => {
+    storage.getSecurePasswordById.mockResolvedValue(password);
+
+    const res = await as(ADMIN).get("/api/secure-passwords/5");
+
+    expect(res.status).toBe(403);
+    expect(storage.revealSecurePassword).not.toHaveBeenCalled();
+  });
+});
+
+describe("task visibility", () => {
+  it("lists every task for sysadmins", async () => {
+    storage.getTasks.mockResolvedValue([task(1, EMPLOYEE.id, null)]);
+
+    const res = await as(SYSADMIN).get("/api/tasks");
+
+    expect(res.status).toBe(200);
+    expect(res.body.map((item: schema.Task) => item.id)).toEqual([1]);
+    expect(storage.getTasks).toHaveBeenCalledWith(undefined, undefined, undefined);
+  });
+
+  it("lists only the tasks an employee takes part in", async () => {
+    storage.getTasks.mockResolvedValue([]);
+
+    await as(EMPLOYEE).get("/api/tasks");
+
+    expect(storage.getTasks).toHaveBeenCalledWith(undefined, EMPLOYEE.id, undefined);
+  });
+
+  it("shows comments to the author of the task", async () => {
+    storage.getTaskById.mockResolvedValue(task(1, EMPLOYEE.id, SYSADMIN.id));
+    storage.getTaskComments.mockResolvedValue([{ id: 1, comment: "Done" }]);
+
+    const res = await as(EMPLOYEE).get("/api/tasks/1/comments");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual([{ id: 1, comment: "Done" }]);
+  });
+
+  it("hides comments of other people's tasks", async () => {
+    storage.getTaskById.mockResolvedValue(task(1, MANAGER.id, SYSADMIN.id));
+
+    const res = await as(EMPLOYEE).get("/api/tasks/1/comments");
+
+    expect(res.status).toBe(403);
+    expect(storage.getTaskComments).not.toHaveBeenCalled();
+  });
+
+  it("shows comments of any task to sysadmins", async () => {
+    storage.getTaskById.mockResolvedValue(task(1, MANAGER.id, null));
+    storage.getTaskComments.mockResolvedValue([]);
+
+    const res = await as(SYSADMIN).get("/api/tasks/1/comments");
+
+    expect(res.status).toBe(200);
+  });
+});
+
+describe("task creation", () => {
+  it("ignores status and work dates sent with the task", async () => {
+    storage.createTask.mockImplementation(async (data: schema.Task) => ({ ...data, id: 9 }));
+
+    const res = await as(EMPLOYEE).post("/api/tasks").send({
+      title: "Printer",
+      status: schema.TASK_STATUS.COMPLETED,
+      completedAt: new Date().toISOString(),
+      createdByUserId: SYSADMIN.id
+    });
+
+    expect(res.status).toBe(201);
+    expect(storage.createTask).toHaveBeenCalledWith({
+      title: "Printer",
+      priority: schema.TASK_PRIORITY.NORMAL,
+      dueAt: null,
+      assignedToUserId: null,
+      status: schema.TASK_STATUS.NEW,
+      createdByUserId: EMPLOYEE.id
+    });
+  });
+
+  it("rejects an assignee who is not a sysadmin", async () => {
+    const res = await as(EMPLOYEE).post("/api/tasks").send({ title: "Printer", assignedToUserId: EMPLOYEE.id });
+
+    expect(res.status).toBe(400);
+    expect(storage.createTask).not.toHaveBeenCalled();
+  });
+});
+
+describe("task assignment", () => {
+  it("assigns a sysadmin", async () => {
+    storage.assignTask.mockResolvedValue(task(1, EMPLOYEE.id, SYSADMIN.id));
+
+    const res = await as(SYSADMIN).patch("/api/tasks/1/assign").send({ userId: SYSADMIN.id });
+
+    expect(res.status).toBe(200);
+    expect(storage.assignTask).toHaveBeenCalledWith(1, SYSADMIN.id);
+  });
+
+  it("requires the assignee", async () => {
+    for (const body of [{}, { userId: "abc" }]) {
+      const res = await as(SYSADMIN).patch("/api/tasks/1/assign").send(body);
+
+      expect(res.status).toBe(400);
+    }
+
+    expect(storage.assignTask).not.toHaveBeenCalled();
+  });
+
+  it("rejects an assignee who is not a sysadmin", async () => {
+    const res = await as(SYSADMIN).patch("/api/tasks/1/assign").send({ userId: MANAGER.id });
+
+    expect(res.status).toBe(400);
+    expect(storage.assignTask).not.toHaveBeenCalled();
+  });
+});
+
+describe("equipment department scope", () => {
+  it("lists all equipment for users with the equipment section", async () => {
+    storage.getEquipment.mockResolvedValue([]);
+
+    const res = await as(SYSADMIN).get("/api/equipment");
+
+    expect(res.status).toBe(200);
+    expect(storage.getEquipment).toHaveBeenCalledWith(expect.objectContaining({ departmentIds: undefined }));
+  });
+
+  it("limits managers to their own and headed departments", async () => {
+    storage.getDepartmentsHeadedBy.mockResolvedValue([{ id: 20 }]);
+    storage.getEquipment.mockResolvedValue([]);
+
+    await as(MANAGER).get("/api/equipment");
+
+    expect(storage.getEquipment).toHaveBeenCalledWith(expect.objectContaining({ departmentIds: [10, 20] }));
+  });
+
+  it("does not widen the scope of managers with a department filter", async () => {
+    storage.getDepartmentsHeadedBy.mockResolvedValue([]);
+    storage.getEquipment.mockResolvedValue([]);
+
+    await as(MANAGER).get("/api/equipment?departmentId=30");
+
+    expect(storage.getEquipment).toHaveBeenCalledWith(expect.objectContaining({ departmentIds: [] }));
+  });
+
+  it("refuses employees without the equipment section", async () => {
+    const res = await as(EMPLOYEE).get("/api/equipment");
+
+    expect(res.status).toBe(403);
+    expect(storage.getEquipment).not.toHaveBeenCalled();
+  });
+});
+
+describe("equipment import", () => {
+  it("rejects holders that are not valid JSON", async () => {
+    const res = await as(SYSADMIN).post("/api/equipment/import/preview")
+      .attach("file", Buffer.from("not a sheet"), "equipment.xlsx")
+      .field("employees", "{\"2\": ");
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Неверный выбор сотрудников для строк импорта");
+  });
+});
+
+describe("equipment edits", () => {
+  it("keeps the receipt confirmation out of the edited fields", async () => {
+    storage.updateEquipment.mockResolvedValue({ id: 7 });
+
+    const res = await as(SYSADMIN).patch("/api/equipment/7").send({
+      name: "Laptop",
+      receiptStatus: schema.RECEIPT_STATUS.CONFIRMED,
+      receiptActId: 3
+    });
+
+    expect(res.status).toBe(200);
+    expect(storage.updateEquipment).toHaveBeenCalledWith(7, { name: "Laptop" }, SYSADMIN.id);
+  });
+
+  it("rejects invalid fields", async () => {
+    const res = await as(SYSADMIN).patch("/api/equipment/7").send({ purchaseCost: "a lot" });
+
+    expect(res.status).toBe(400);
+    expect(storage.updateEquipment).not.toHaveBeenCalled();
+  });
+});
+
+describe("bot settings", () => {
+  it("applies the settings as saved, not only the fields sent", async () => {
+    const saved = { botToken: "123:token", schedule: { digestTime: "10:00" } };
+    storage.updateBotSettings.mockResolvedValue(saved);
+
+    const res = await as(ADMIN).patch("/api/bot-settings").send({ schedule: { digestTime: "10:00" } });
+
+    expect(res.status).toBe(200);
+    expect(rescheduleJobs).toHaveBeenCalledWith(saved);
+    expect(setupBot).toHaveBeenCalledWith("123:token", { mode: schema.BOT_UPDATE_MODE.POLLING });
+  });
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import express, { type Express, type RequestHandler } from "express";
+import type { Session, SessionData } from "express-session";
+import request from "supertest";
+import * as schema from "@shared/schema";
+import type { CurrentUser } from "./middlewares/permissions";
+
+vi.mock("@db", () => ({ db: {} }));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getUserWithPermissions: vi.fn(async (id: number) => TEST_USERS.find(user => user.id === id)),
+    getBotSettings: vi.fn(async () => undefined)
+  }
+}));
+
+type Caller = "anonymous" | "admin" | "sysadmin" | "accountant" | "employee" | "pending" | "blocked";
+
+function testUser(
+  id: number,
+  role: schema.Role,
+  registrationStatus: schema.RegistrationStatus,
+  chatTypes: schema.ChatType[]
+): CurrentUser {
+  return {
+    id,
+    role,
+    registrationStatus,
+    isAdmin: role === schema.ROLES.ADMIN,
+    permissions: chatTypes.map((chatType, index) => ({ id: index + 1, userId: id, chatType, hasAccess: true }))
+  } as CurrentUser;
+}
+
+const ALL_SECTIONS = Object.values(schema.CHAT_TYPES);
+
+// Pending and blocked users are sysadmins with every section, so only their registration keeps them out.
+// The employee has the equipment section too, so routes that require a role are told apart from those that require a section.
+const TEST_USERS = [
+  testUser(1, schema.ROLES.ADMIN, schema.REGISTRATION_STATUS.APPROVED, []),
+  testUser(2, schema.ROLES.SYSADMIN, schema.REGISTRATION_STATUS.APPROVED, ALL_SECTIONS),
+  testUser(3, schema.ROLES.ACCOUNTANT, schema.REGISTRATION_STATUS.APPROVED, [schema.CHAT_TYPES.EQUIPMENT]),
+  testUser(4, schema.ROLES.EMPLOYEE, schema.REGISTRATION_STATUS.APPROVED, [schema.CHAT_TYPES.EQUIPMENT, schema.CHAT_TYPES.TASKS]),
+  testUser(5, schema.ROLES.SYSADMIN, schema.REGISTRATION_STATUS.PENDING, ALL_SECTIONS),
+  testUser(6, schema.ROLES.SYSADMIN, schema.REGISTRATION_STATUS.BLOCKED, ALL_SECTIONS)
+];
+
+const SESSION_USER_IDS: Record<Caller, number | null> = {
+  anonymous: null,
+  admin: 1,
+  sysadmin: 2,
+  accountant: 3,
+  employee: 4,
+  pending: 5,
+  blocked: 6
+};
+
+const CALLERS = Object.keys(SESSION_USER_IDS) as Caller[];
+
+type Access =
+  | "public" | "loggedIn" | "approved" | "adminOnly"
+  | "equipment" | "equipmentEditors" | "accounting"
+  | "tasks" | "taskExecutors" | "passwords";
+
+// Who gets through to the route handler, by the access a route requires
+const ACCESS: Record<Access, Caller[]> = {
+  public: CALLERS,
+  loggedIn: ["admin", "sysadmin", "accountant", "employee", "pending", "blocked"],
+  approved: ["admin", "sysadmin", "accountant", "employee"],
+  adminOnly: ["admin"],
+  equipment: ["admin", "sysadmin", "accountant", "employee"],
+  equipmentEditors: ["admin", "sysadmin", "accountant"],
+  accounting: ["admin", "accountant"],
+  tasks: ["admin", "sysadmin", "employee"],
+  taskExecutors: ["admin", "sysadmin"],
+  passwords: ["admin", "sysadmin"]
+};
+
+const ROUTES: Record<string, Access> = {
+  "POST /api/telegram/webhook": "public",
+  "POST /api/auth/login": "public",
+  "POST /api/auth/change-password": "loggedIn",
+  "POST /api/auth/logout": "public",
+  "GET /api/auth/me": "public",
+  "GET /api/equipment": "approved",
+  "GET /api/equipment/export": "approved",
+  "GET /api/equipment/template": "equipment",
+  "GET /api/equipment/labels": "equipment",
+  "POST /api/equipment/import/preview": "equipmentEditors",
+  "POST /api/equipment/import/errors": "equipmentEditors",
+  "POST /api/equipment/import": "equipmentEditors",
+  "POST /api/equipment": "equipmentEditors",
+  "PATCH /api/equipment/:id": "equipmentEditors",
+  "GET /api/equipment/:id/history": "equipment",
+  "GET /api/depreciation": "accounting",
+  "GET /api/depreciation/report": "accounting",
+  "GET /api/repairs": "equipment",
+  "GET /api/repairs/summary": "equipment",
+  "GET /api/repairs/report": "equipment",
+  "POST /api/equipment/:id/repairs": "equipmentEditors",
+  "PATCH /api/repairs/:id": "equipmentEditors",
+  "POST /api/repairs/:id/complete": "equipmentEditors",
+  "GET /api/locations": "equipment",
+  "GET /api/locations/report": "equipment",
+  "POST /api/locations": "equipmentEditors",
+  "PATCH /api/locations/:id": "equipmentEditors",
+  "DELETE /api/locations/:id": "equipmentEditors",
+  "GET /api/departments": "approved",
+  "POST /api/departments": "adminOnly",
+  "PATCH /api/departments/:id": "adminOnly",
+  "DELETE /api/departments/:id": "adminOnly",
+  "POST /api/departments/:id/merge": "adminOnly",
+  "GET /api/transfer-acts": "equipment",
+  "POST /api/transfer-acts": "equipmentEditors",
+  "GET /api/transfer-acts/:id/document": "equipment",
+  "GET /api/stocktakings": "adminOnly",
+  "POST /api/stocktakings": "adminOnly",
+  "GET /api/stocktakings/:id": "adminOnly",
+  "PATCH /api/stocktakings/:id/items/:itemId": "adminOnly",
+  "POST /api/stocktakings/:id/complete": "adminOnly",
+  "GET /api/stocktakings/:id/report": "adminOnly",
+  "GET /api/stocktakings/:id/items/:itemId/photo": "adminOnly",
+  "GET /api/stock": "equipment",
+  "GET /api/stock/movements": "equipment",
+  "POST /api/stock": "equipmentEditors",
+  "PATCH /api/stock/:id": "equipmentEditors",
+  "POST /api/stock/:id/movements": "equipmentEditors",
+  "GET /api/licenses": "equipment",
+  "POST /api/licenses": "equipmentEditors",
+  "PATCH /api/licenses/:id": "equipmentEditors",
+  "DELETE /api/licenses/:id": "equipmentEditors",
+  "GET /api/licenses/:id/key": "equipmentEditors",
+  "POST /api/licenses/:id/seats": "equipmentEditors",
+  "DELETE /api/licenses/seats/:id": "equipmentEditors",
+  "GET /api/users": "approved",
+  "PATCH /api/users/:id/role": "adminOnly",
+  "PATCH /api/users/:id/permissions": "adminOnly",
+  "PATCH /api/users/:id/department": "adminOnly",
+  "GET /api/registrations": "adminOnly",
+  "POST /api/registrations/:id/approve": "adminOnly",
+  "POST /api/registrations/:id/reject": "adminOnly",
+  "POST /api/users/:id/password": "adminOnly",
+  "DELETE /api/users/:id": "adminOnly",
+  "GET /api/checklists": "adminOnly",
+  "GET /api/checklists/:id": "adminOnly",
+  "GET /api/checklists/:id/report": "adminOnly",
+  "POST /api/users/:id/checklists": "adminOnly",
+  "POST /api/checklists/:id/equipment": "adminOnly",
+  "POST /api/checklists/:id/kit": "adminOnly",
+  "POST /api/checklists/:id/reassign-tasks": "adminOnly",
+  "POST /api/checklists/:id/setup-tasks": "adminOnly",
+  "POST /api/checklists/:id/access": "adminOnly",
+  "POST /api/checklists/:id/passwords": "adminOnly",
+  "POST /api/checklists/:id/block": "adminOnly",
+  "POST /api/checklists/:id/sign-off": "adminOnly",
+  "GET /api/tasks": "tasks",
+  "GET /api/tasks/assignees": "tasks",
+  "POST /api/tasks": "tasks",
+  "PATCH /api/tasks/:id": "taskExecutors",
+  "PATCH /api/tasks/:id/priority": "taskExecutors",
+  "PATCH /api/tasks/:id/assign": "taskExecutors",
+  "GET /api/tasks/:id/comments": "tasks",
+  "POST /api/tasks/:id/comments": "tasks",
+  "GET /api/secure-passwords": "passwords",
+  "POST /api/secure-passwords": "passwords",
+  "GET /api/secure-passwords/:id": "passwords",
+  "POST /api/admin/secure-passwords/reencrypt": "adminOnly",
+  "PATCH /api/secure-passwords/:id/read": "passwords",
+  "GET /api/bot-settings": "adminOnly",
+  "PATCH /api/bot-settings": "adminOnly",
+  "GET /api/notifications": "adminOnly",
+  "POST /api/notifications/:id/resend": "adminOnly",
+  "GET /api/scheduled-jobs": "adminOnly",
+  "POST /api/scheduled-jobs/:name/run": "adminOnly"
+};
+
+interface RouterLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: { handle: RequestHandler }[];
+  };
+}
+
+let app: Express;
+let registeredRoutes: string[];
+
+beforeAll(async () => {
+  const { registerRoutes } = await import("./routes");
+
+  app = express();
+  app.use(express.json());
+
+  // Stands in for express-session: the caller is picked with a header
+  app.use((req, _res, next) => {
+    const userId = req.get("X-Test-User-Id");
+    req.session = (userId ? { userId } : {}) as Session & Partial<SessionData>;
+    next();
+  });
+
+  await registerRoutes(app);
+
+  // Handlers are replaced with a stub, so only the auth and permission middlewares in front of them are tested
+  const layers = (app as unknown as { _router: { stack: RouterLayer[] } })._router.stack;
+  registeredRoutes = [];
+
+  for (const { route } of layers) {
+    if (!route) {
+      continue;
+    }
+
+    const name = `${Object.keys(route.methods)[0].toUpperCase()} ${route.path}`;
+    registeredRoutes.push(name);
+    route.stack[route.stack.length - 1].handle = (_req, res) => res.json({ route: name });
+  }
+});
+
+function send(route: string, caller: Caller) {
+  const [method, path] = route.split(" ");
+  const userId = SESSION_USER_IDS[caller];
+  const call = request(app)[method.toLowerCase() as "get" | "post" | "patch" | "delete"](path.replace(/:\w+/g, "1"));
+
+  return userId ? call.set("X-Test-User-Id", String(userId)) : call;
+}
+
+describe("route permissions", () => {
+  it("covers every registered route", () => {
+    expect([...registeredRoutes].sort()).toEqual(Object.keys(ROUTES).sort());
+  });
+
+  describe.each(CALLERS)("%s", (caller) => {
+    it.each(Object.entries(ROUTES))("%s (%s)", async (route, access) => {
+      const res = await send(route, caller);
+
+      if (ACCESS[access].includes(caller)) {
+        expect(res.status).toBe(200);
+        expect(res.body.route).toBe(route);
+      } else {
+        expect(res.status).toBe(caller === "anonymous" ? 401 : 403);
+      }
+    });
+  });
+
+  it("tells pending and blocked users that their registration is not approved", async () => {
+    for (const caller of ["pending", "blocked"] as const) {
+      const res = await send("GET /api/users", caller);
+
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe("Регистрация пользователя не подтверждена");
+    }
+  });
+
+  it("rejects a session whose user no longer exists", async () => {
+    const res = await request(app).get("/api/users").set("X-Test-User-Id", "999");
+
+    expect(res.status).toBe(401);
+  });
+});
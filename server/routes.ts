@@ -1,15 +1,272 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { telegramBot, setupBot } from "./bot";
+import { storage, type EquipmentFilters } from "./storage";
+import {
+  telegramBot,
+  setupBot,
+  notifyRegistrationDecision,
+  notifyTaskComment,
+  notifyTaskAssigned,
+  notifyTaskStatusChanged,
+  notifySecurePasswordReceived,
+  notifyEquipmentReceiptRequested,
+  notifyStocktakingStarted,
+  notifyLowStock,
+  notifyPasswordRotation,
+  getTaskAssignees,
+  getBotLaunchOptions,
+  isWebhookRequestValid,
+  TELEGRAM_WEBHOOK_PATH
+} from "./bot";
 import { authMiddleware } from "./middlewares/auth";
-import { eq, desc, and, isNull } from "drizzle-orm";
+import { requirePermission, isAdminUser, hasChatAccess, type RouteRequirement, type CurrentUser } from "./middlewares/permissions";
+import { eq, ne, or, desc, and, isNull } from "drizzle-orm";
 import * as schema from "@shared/schema";
 import { db } from "@db";
 import * as crypto from "crypto";
+import { verifyPassword, needsRehash, generatePassword, MIN_PASSWORD_LENGTH } from "./credentials";
+import { getSlaTargets, computeTaskSla } from "./sla";
+import { runScheduledJobNow, rescheduleJobs } from "./scheduler";
+import { summarizeStocktaking, buildStocktakingReport, STOCKTAKING_REPORT_CONTENT_TYPE } from "./stocktaking";
+import { buildTransferActDocument, transferActFileName, TRANSFER_ACT_CONTENT_TYPE } from "./transfer-acts";
+import {
+  readImportSheet,
+  analyzeEquipmentImport,
+  buildImportErrorReport,
+  buildImportTemplate,
+  importInventoryNumbers,
+  IMPORT_MODE,
+  IMPORT_ACTION,
+  IMPORT_REPORT_CONTENT_TYPE,
+  type ImportMode
+} from "./equipment-import";
+import { buildEquipmentExport, equipmentExportFileName, EXPORT_FORMAT, EXPORT_CONTENT_TYPES } from "./equipment-export";
+import { computeDepreciation, summarizeDepreciation, buildDepreciationReport, DEPRECIATION_REPORT_CONTENT_TYPE } from "./depreciation";
+import { findDepartment } from "./departments";
+import { summarizeRepairs, buildRepairReport, repairDays, REPAIR_GROUP_BY, REPAIR_REPORT_CONTENT_TYPE, type RepairGroupBy } from "./repairs";
+import { buildLocationReport, locationPaths, locationSubtreeIds, locationPlacementError, LOCATION_REPORT_CONTENT_TYPE } from "./locations";
+import {
+  buildChecklistReport,
+  checklistReportFileName,
+  closedChecklistItems,
+  employeeName,
+  getOnboardingSettings,
+  offboardingItems,
+  onboardingItems,
+  CHECKLIST_REPORT_CONTENT_TYPE
+} from "./checklists";
+import { buildEquipmentLabels, LABEL_LAYOUTS, DEFAULT_LABELS_PER_PAGE, LABELS_CONTENT_TYPE } from "./labels";
 import * as XLSX from 'xlsx';
 import fileUpload from 'express-fileupload';
 
+// Who may change the equipment registry
+const EQUIPMENT_EDITORS: RouteRequirement = {
+  roles: [schema.ROLES.SYSADMIN, schema.ROLES.ACCOUNTANT],
+  chatType: schema.CHAT_TYPES.EQUIPMENT
+};
+
+// Who may see the accounting data of equipment
+const ACCOUNTING_VIEWERS: RouteRequirement = {
+  roles: [schema.ROLES.ACCOUNTANT],
+  chatType: schema.CHAT_TYPES.EQUIPMENT
+};
+
+// Who may change task status and assignment
+const TASK_EXECUTORS: RouteRequirement = {
+  roles: [schema.ROLES.SYSADMIN],
+  chatType: schema.CHAT_TYPES.TASKS
+};
+
+/**
+ * Sysadmins work with every task, others only with tasks they take part in
+ */
+function canSeeTask(user: CurrentUser, task: schema.Task): boolean {
+  return isAdminUser(user) ||
+    user.role === schema.ROLES.SYSADMIN ||
+    task.createdByUserId === user.id ||
+    task.assignedToUserId === user.id;
+}
+
+/**
+ * Departments whose equipment the user may list: every department (undefined) with access
+ * to the equipment section, the own and headed departments for managers, none (null) for the rest
+ */
+async function equipmentDepartmentScope(user: CurrentUser): Promise<number[] | null | undefined> {
+  if (hasChatAccess(user, schema.CHAT_TYPES.EQUIPMENT)) {
+    return undefined;
+  }
+
+  if (user.role !== schema.ROLES.MANAGER) {
+    return null;
+  }
+
+  const headed = await storage.getDepartmentsHeadedBy(user.id);
+  return Array.from(new Set([user.departmentId, ...headed.map(department => department.id)]))
+    .filter((id): id is number => !!id);
+}
+
+/**
+ * Equipment list filters from the query string of the list and the export.
+ * A location also finds the equipment in the locations inside it; departments
+ * are narrowed down to the scope of the user.
+ */
+async function equipmentFiltersFromQuery(query: Request["query"], scope?: number[]): Promise<EquipmentFilters> {
+  const value = (name: string) => typeof query[name] === "string" && query[name] ? query[name] as string : undefined;
+  const locationId = Number(value("locationId"));
+  const departmentId = Number(value("departmentId"));
+  const departmentIds = departmentId ? [departmentId] : scope;
+
+  return {
+    inventoryNumber: value("inventoryNumber"),
+    employeeName: value("employeeName"),
+    status: value("status"),
+    type: value("type"),
+    departmentIds: scope ? departmentIds!.filter(id => scope.includes(id)) : departmentIds,
+    locationIds: locationId ? locationSubtreeIds(await storage.getLocations(), locationId) : undefined
+  };
+}
+
+/**
+ * Period of the repairs report from ?from=&to= ("YYYY-MM-DD"), either end may be open.
+ * Returns null when a date is invalid.
+ */
+function repairPeriodFromQuery(query: Request["query"]): { from?: string, to?: string } | null {
+  const period: { from?: string, to?: string } = {};
+
+  for (const name of ["from", "to"] as const) {
+    const value = typeof query[name] === "string" ? query[name] as string : "";
+
+    if (value && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value)))) {
+      return null;
+    }
+
+    period[name] = value || undefined;
+  }
+
+  return period;
+}
+
+/**
+ * Holders picked in the import preview, sent as JSON: { "<row number>": userId | null }.
+ * Returns null when the value is not such an object.
+ */
+function parseEmployeeChoices(value: string): Record<number, number | null> | null {
+  let choices: unknown;
+
+  try {
+    choices = JSON.parse(value);
+  } catch {
+    return null;
+  }
+
+  if (!choices || typeof choices !== "object" || Array.isArray(choices) ||
+    !Object.values(choices).every(userId => userId === null || Number.isInteger(userId))) {
+    return null;
+  }
+
+  return choices as Record<number, number | null>;
+}
+
+/**
+ * Check an uploaded import file against the registry. The file is sent again with every step,
+ * so nothing is kept on the server between the preview and the import itself.
+ * Returns the reason when there is no file or the request is invalid.
+ */
+async function analyzeImportUpload(req: Request) {
+  const upload = req.files?.file;
+  const file = Array.isArray(upload) ? upload[0] : upload;
+
+  if (!file) {
+    return { error: "Файл не найден" };
+  }
+
+  const mode: ImportMode = req.body?.mode === IMPORT_MODE.UPSERT ? IMPORT_MODE.UPSERT : IMPORT_MODE.INSERT;
+  const employeeChoices = req.body?.employees ? parseEmployeeChoices(req.body.employees) : undefined;
+
+  if (employeeChoices === null) {
+    return { error: "Неверный выбор сотрудников для строк импорта" };
+  }
+
+  const sheet = readImportSheet(file.data);
+  const [users, existing, locations, departments] = await Promise.all([
+    storage.getAllUsers(),
+    storage.getEquipmentByInventoryNumbers(importInventoryNumbers(sheet)),
+    storage.getLocations(),
+    storage.getDepartments()
+  ]);
+
+  return { sheet, preview: analyzeEquipmentImport(sheet, { mode, users, existing, locations, departments, employeeChoices }) };
+}
+
+/**
+ * Whether a database error is a unique constraint violation (Postgres code 23505)
+ */
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && "code" in error && error.code === "23505";
+}
+
+type StaffChecklistWithEntries = NonNullable<Awaited<ReturnType<typeof storage.getStaffChecklistById>>>;
+
+/**
+ * Checklist with the state of its steps, computed from the current data. Signed-off checklists and those
+ * whose employee has been deleted are not recomputed. Returns null when there is no such checklist.
+ */
+async function loadStaffChecklist(id: number) {
+  const checklist = await storage.getStaffChecklistById(id);
+
+  if (!checklist) {
+    return null;
+  }
+
+  if (checklist.userId && !checklist.signedOffAt) {
+    if (checklist.kind === schema.CHECKLIST_KIND.OFFBOARDING) {
+      const state = await storage.getOffboardingState(checklist.userId);
+
+      if (state) {
+        return { checklist, items: offboardingItems(state), equipment: state.equipment };
+      }
+    } else {
+      const [state, settings] = await Promise.all([
+        storage.getOnboardingState(checklist.userId),
+        storage.getBotSettings()
+      ]);
+
+      if (state) {
+        return { checklist, items: onboardingItems(state, getOnboardingSettings(settings).kit, checklist.entries), equipment: state.equipment };
+      }
+    }
+  }
+
+  return { checklist, items: closedChecklistItems(checklist), equipment: [] };
+}
+
+/**
+ * Open checklist a step is done for, with its employee, optionally only of the given kind.
+ * Returns the response status and message otherwise.
+ */
+async function checklistForStep(
+  id: number,
+  kind?: schema.ChecklistKind
+): Promise<{ error: { status: number, message: string } } | { checklist: StaffChecklistWithEntries, employee: schema.User }> {
+  const checklist = await storage.getStaffChecklistById(id);
+
+  if (!checklist || (kind && checklist.kind !== kind)) {
+    return { error: { status: 404, message: "Лист не найден" } };
+  }
+
+  if (checklist.signedOffAt) {
+    return { error: { status: 409, message: "Лист уже подписан" } };
+  }
+
+  const employee = checklist.userId ? await storage.getUserById(checklist.userId) : undefined;
+
+  if (!employee) {
+    return { error: { status: 409, message: "Сотрудник уже удален" } };
+  }
+
+  return { checklist, employee };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
@@ -20,12 +277,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   try {
     const settings = await storage.getBotSettings();
     if (settings?.botToken) {
-      setupBot(settings.botToken);
+      setupBot(settings.botToken, getBotLaunchOptions(settings));
     }
   } catch (error) {
     console.error("Failed to initialize Telegram bot:", error);
   }
 
+  // Telegram updates in webhook mode. Telegram authenticates with the secret given to setWebhook.
+  app.post(TELEGRAM_WEBHOOK_PATH, async (req, res) => {
+    if (!isWebhookRequestValid(req.get("X-Telegram-Bot-Api-Secret-Token"))) {
+      return res.status(401).json({ message: "Неверный секретный токен" });
+    }
+
+    try {
+      await telegramBot!.handleUpdate(req.body);
+    } catch (error) {
+      // Answered with 200 anyway, otherwise Telegram keeps redelivering an update that fails every time
+      console.error("Error handling Telegram update:", error);
+    }
+
+    res.sendStatus(200);
+  });
+
   // Auth routes
   app.post("/api/auth/login", async (req, res) => {
     try {
@@ -35,33 +308,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Имя пользователя и пароль обязательны" });
       }
 
-      // Check for default admin credentials
-      if (username === "admin" && password === "admin123") {
-        // Find the admin user in database
-        const adminUser = await db.query.users.findFirst({
-          where: and(
-              eq(schema.users.username, "admin"),
-              eq(schema.users.isAdmin, true)
-          )
-        });
+      const user = await storage.getUserByUsername(username);
 
-        if (adminUser) {
-          if (req.session) {
-            req.session.userId = adminUser.id.toString();
-            req.session.isAdmin = true;
-          }
+      if (!user || !user.credentials) {
+        return res.status(401).json({ message: "Неверные учетные данные" });
+      }
 
-          return res.status(200).json({ success: true });
-        }
+      const isValid = await verifyPassword(password, user.credentials.passwordHash);
+
+      if (!isValid) {
+        return res.status(401).json({ message: "Неверные учетные данные" });
+      }
+
+      const mustChangePassword = !!user.credentials.mustChangePassword;
+
+      // Upgrade hashes created with outdated parameters
+      if (needsRehash(user.credentials.passwordHash)) {
+        await storage.setUserPassword(user.id, password, mustChangePassword);
       }
 
-      return res.status(401).json({ message: "Неверные учетные данные" });
+      if (req.session) {
+        req.session.userId = user.id.toString();
+        req.session.isAdmin = isAdminUser(user);
+        req.session.mustChangePassword = mustChangePassword;
+      }
+
+      return res.status(200).json({ success: true, mustChangePassword });
     } catch (error) {
       console.error("Login error:", error);
       res.status(500).json({ message: "Ошибка сервера" });
     }
   });
 
+  app.post("/api/auth/change-password", authMiddleware, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Текущий и новый пароль обязательны" });
+      }
+
+      if (newPassword.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Пароль должен содержать не менее ${MIN_PASSWORD_LENGTH} символов` });
+      }
+
+      if (newPassword === currentPassword) {
+        return res.status(400).json({ message: "Новый пароль должен отличаться от текущего" });
+      }
+
+      const userId = Number(req.session.userId);
+      const credentials = await storage.getUserCredentials(userId);
+
+      if (!credentials || !(await verifyPassword(currentPassword, credentials.passwordHash))) {
+        return res.status(400).json({ message: "Текущий пароль указан неверно" });
+      }
+
+      await storage.setUserPassword(userId, newPassword, false);
+      req.session.mustChangePassword = false;
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error changing password:", error);
+      res.status(500).json({ message: "Не удалось сменить пароль" });
+    }
+  });
+
   app.post("/api/auth/logout", (req, res) => {
     if (req.session) {
       req.session.destroy(err => {
@@ -82,38 +393,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Пользователь не авторизован" });
       }
 
-      // If it's the admin session, get admin user info
-      if (req.session.isAdmin) {
-        const adminUser = await db.query.users.findFirst({
-          where: and(
-              eq(schema.users.username, "admin"),
-              eq(schema.users.isAdmin, true)
-          )
-        });
-
-        if (adminUser) {
-          return res.json({
-            userId: adminUser.id.toString(),
-            isAdmin: true,
-            username: adminUser.username,
-            firstName: adminUser.firstName,
-            lastName: adminUser.lastName
-          });
-        }
-      }
-
-      // For regular users, get user info by ID
-      const user = await db.query.users.findFirst({
-        where: eq(schema.users.id, Number(req.session.userId))
-      });
+      const user = await storage.getUserWithPermissions(Number(req.session.userId));
 
       if (user) {
         return res.json({
           userId: user.id.toString(),
-          isAdmin: user.isAdmin,
+          isAdmin: isAdminUser(user),
+          role: user.role,
+          permissions: Object.fromEntries(
+            Object.values(schema.CHAT_TYPES).map(chatType => [chatType, hasChatAccess(user, chatType)])
+          ),
           username: user.username,
           firstName: user.firstName,
-          lastName: user.lastName
+          lastName: user.lastName,
+          departmentId: user.departmentId,
+          mustChangePassword: !!req.session.mustChangePassword
         });
       }
 
@@ -125,13 +419,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Equipment routes
-  app.get("/api/equipment", authMiddleware, async (req, res) => {
+  // Managers without access to the equipment section see the equipment of their departments
+  app.get("/api/equipment", authMiddleware, requirePermission(), async (req, res) => {
     try {
-      const { inventoryNumber, employeeName } = req.query;
-      const equipment = await storage.getEquipment(
-          inventoryNumber as string | undefined,
-          employeeName as string | undefined
-      );
+      const scope = await equipmentDepartmentScope(req.currentUser!);
+
+      if (scope === null) {
+        return res.status(403).json({ message: "Доступ запрещен" });
+      }
+
+      const equipment = await storage.getEquipment(await equipmentFiltersFromQuery(req.query, scope));
       res.json(equipment);
     } catch (error) {
       console.error("Error fetching equipment:", error);
@@ -139,79 +436,159 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/equipment/template", authMiddleware, (req, res) => {
-    const wb = XLSX.utils.book_new();
+  // The list with the same filters, in the layout of the import template
+  app.get("/api/equipment/export", authMiddleware, requirePermission(), async (req, res) => {
+    try {
+      const scope = await equipmentDepartmentScope(req.currentUser!);
+
+      if (scope === null) {
+        return res.status(403).json({ message: "Доступ запрещен" });
+      }
+
+      const format = req.query.format === EXPORT_FORMAT.CSV ? EXPORT_FORMAT.CSV : EXPORT_FORMAT.XLSX;
+      const withHistory = req.query.history === "true" && format === EXPORT_FORMAT.XLSX;
 
-    const template = [
-      ['Инвентарный номер', 'Наименование', 'Тип', 'Статус', 'Сотрудник (ФИО)', 'Отдел', 'Описание'],
-      ['T-2023-001', 'HP EliteBook', 'Ноутбук', 'active', 'Иванов Иван', 'IT отдел', 'Пример записи']
-    ];
+      const items = await storage.getEquipment(await equipmentFiltersFromQuery(req.query, scope));
+      const history = withHistory ? await storage.getEquipmentHistoryForItems(items.map(item => item.id)) : undefined;
 
-    const ws = XLSX.utils.aoa_to_sheet(template);
-    XLSX.utils.book_append_sheet(wb, ws, "Оборудование");
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename=${equipmentExportFileName(format)}`);
+      res.send(buildEquipmentExport(items, format, await storage.getLocations(), history));
+    } catch (error) {
+      console.error("Error exporting equipment:", error);
+      res.status(500).json({ message: "Не удалось выгрузить имущество" });
+    }
+  });
 
-    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  app.get("/api/equipment/template", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), (req, res) => {
+    res.setHeader('Content-Type', IMPORT_REPORT_CONTENT_TYPE);
     res.setHeader('Content-Disposition', 'attachment; filename=equipment_template.xlsx');
+    res.send(buildImportTemplate());
+  });
+
+  // Printable QR code labels for the selected equipment
+  app.get("/api/equipment/labels", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
+    try {
+      const ids = String(req.query.ids || "")
+        .split(",")
+        .map(Number)
+        .filter(id => Number.isInteger(id) && id > 0);
+      const perPage = req.query.perPage ? Number(req.query.perPage) : DEFAULT_LABELS_PER_PAGE;
+
+      if (ids.length === 0) {
+        return res.status(400).json({ message: "Не выбрано имущество для печати этикеток" });
+      }
+
+      if (!LABEL_LAYOUTS[perPage]) {
+        return res.status(400).json({
+          message: `Допустимое количество этикеток на листе: ${Object.keys(LABEL_LAYOUTS).join(", ")}`
+        });
+      }
+
+      const items = await storage.getEquipmentByIds(ids);
+
+      if (items.length === 0) {
+        return res.status(404).json({ message: "Имущество не найдено" });
+      }
+
+      const buffer = await buildEquipmentLabels(items, perPage);
+
+      res.setHeader('Content-Type', LABELS_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', 'attachment; filename=equipment_labels.pdf');
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error generating equipment labels:", error);
+      res.status(500).json({ message: "Не удалось сформировать этикетки" });
+    }
+  });
+
+  // Import, step one: what would happen to every row, nothing is written
+  app.post("/api/equipment/import/preview", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const result = await analyzeImportUpload(req);
+
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
 
-    const buffer = XLSX.write(wb, { type: 'buffer' });
-    res.send(buffer);
+      res.json(result.preview);
+    } catch (error) {
+      console.error("Error previewing equipment import:", error);
+      res.status(500).json({ message: "Не удалось прочитать файл импорта" });
+    }
   });
 
-  app.post("/api/equipment/import", authMiddleware, async (req, res) => {
+  // Rows that cannot be imported, with the reasons, for fixing and uploading again
+  app.post("/api/equipment/import/errors", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
     try {
-      if (!req.files || !req.files.file) {
-        return res.status(400).json({ message: "Файл не найден" });
+      const result = await analyzeImportUpload(req);
+
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
       }
 
-      const file = req.files.file;
-      const workbook = XLSX.read(file.data);
-      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-      const data = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
+      res.setHeader('Content-Type', IMPORT_REPORT_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', 'attachment; filename=equipment_import_errors.xlsx');
+      res.send(buildImportErrorReport(result.sheet, result.preview));
+    } catch (error) {
+      console.error("Error building equipment import errors:", error);
+      res.status(500).json({ message: "Не удалось сформировать файл с ошибками" });
+    }
+  });
 
-      // Skip header row
-      for (let i = 1; i < data.length; i++) {
-        const row = data[i];
-        if (row.length < 3) continue;
+  // Import, step two: the file is checked again and the rows to create or update are written together
+  app.post("/api/equipment/import", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const result = await analyzeImportUpload(req);
 
-        const employeeName = row[4] ? row[4].toString().split(' ') : null;
-        let assignedToUserId = null;
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
 
-        if (employeeName && employeeName.length >= 2) {
-          const lastName = employeeName[0];
-          const firstName = employeeName[1];
-          const users = await db.query.users.findMany({
-            where: and(
-                eq(schema.users.lastName, lastName),
-                eq(schema.users.firstName, firstName)
-            )
-          });
-          if (users.length > 0) {
-            assignedToUserId = users[0].id;
-          }
-        }
+      const { rows, summary } = result.preview;
+      const imported = await storage.importEquipment(
+        rows.filter(row => row.action === IMPORT_ACTION.CREATE).map(row => row.data!),
+        rows.filter(row => row.action === IMPORT_ACTION.UPDATE).map(row => ({ id: row.equipmentId!, data: row.data! })),
+        req.currentUser!.id
+      );
 
-        await storage.createEquipment({
-          inventoryNumber: row[0],
-          name: row[1],
-          type: row[2],
-          status: row[3] || 'storage',
-          assignedToUserId,
-          description: row[6],
-          department: row[5]
-        });
+      for (const act of imported.acts) {
+        await notifyEquipmentReceiptRequested(act);
       }
 
-      res.json({ message: "Импорт успешно завершен" });
+      res.json({
+        message: "Импорт успешно завершен",
+        created: imported.created,
+        updated: imported.updated,
+        skipped: summary[IMPORT_ACTION.SKIP],
+        failed: summary[IMPORT_ACTION.ERROR]
+      });
     } catch (error) {
       console.error("Error importing equipment:", error);
+
+      // Someone added the same inventory number while the file was being checked
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "Инвентарный номер из файла уже добавлен в систему, проверьте файл заново" });
+      }
+
       res.status(500).json({ message: "Ошибка при импорте данных" });
     }
   });
 
-  app.post("/api/equipment", authMiddleware, async (req, res) => {
+  app.post("/api/equipment", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
     try {
-      const data = schema.equipmentInsertSchema.parse(req.body);
-      const newEquipment = await storage.createEquipment(data);
+      const result = schema.equipmentFormSchema.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      const newEquipment = await storage.createEquipment(result.data, req.currentUser!.id);
+
+      if (newEquipment.transferAct) {
+        await notifyEquipmentReceiptRequested(newEquipment.transferAct);
+      }
+
       res.status(201).json(newEquipment);
     } catch (error) {
       console.error("Error creating equipment:", error);
@@ -219,11 +596,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/equipment/:id", authMiddleware, async (req, res) => {
+  app.patch("/api/equipment/:id", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
     try {
       const { id } = req.params;
-      const data = req.body;
-      const updated = await storage.updateEquipment(Number(id), data);
+      const result = schema.equipmentUpdateSchema.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      const updated = await storage.updateEquipment(Number(id), result.data, req.currentUser!.id);
+
+      if (updated?.transferAct) {
+        await notifyEquipmentReceiptRequested(updated.transferAct);
+      }
+
       res.json(updated);
     } catch (error) {
       console.error("Error updating equipment:", error);
@@ -231,7 +618,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/equipment/:id/history", authMiddleware, async (req, res) => {
+  app.get("/api/equipment/:id/history", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
     try {
       const { id } = req.params;
       const history = await storage.getEquipmentHistory(Number(id));
@@ -242,235 +629,1648 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Users
-  app.get("/api/users", authMiddleware, async (req, res) => {
-    try {
-      const users = await storage.getAllUsers();
-      res.json(users);
-    } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({ message: "Не удалось загрузить пользователей" });
-    }
-  });
-
-  app.patch("/api/users/:id/role", authMiddleware, async (req, res) => {
+  // Depreciation of equipment on the books, per item and per department; ?asOf=YYYY-MM-DD
+  app.get("/api/depreciation", authMiddleware, requirePermission(ACCOUNTING_VIEWERS), async (req, res) => {
     try {
-      const { id } = req.params;
-      const { role } = req.body;
+      const asOf = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
 
-      if (!Object.values(schema.ROLES).includes(role as schema.Role)) {
-        return res.status(400).json({ message: "Неверная роль" });
+      if (isNaN(asOf.getTime())) {
+        return res.status(400).json({ message: "Неверная дата отчета" });
       }
 
-      const user = await storage.updateUserRole(Number(id), role as schema.Role);
-      res.json(user);
+      const items = await storage.getEquipmentOnBooks(Number(req.query.departmentId) || undefined);
+
+      res.json({
+        asOf,
+        items: items.map(item => ({ ...item, depreciation: computeDepreciation(item, asOf) })),
+        ...summarizeDepreciation(items, asOf)
+      });
     } catch (error) {
-      console.error("Error updating user role:", error);
-      res.status(500).json({ message: "Не удалось обновить роль пользователя" });
+      console.error("Error calculating depreciation:", error);
+      res.status(500).json({ message: "Не удалось рассчитать амортизацию" });
     }
   });
 
-  app.patch("/api/users/:id/permissions", authMiddleware, async (req, res) => {
+  app.get("/api/depreciation/report", authMiddleware, requirePermission(ACCOUNTING_VIEWERS), async (req, res) => {
     try {
-      const { id } = req.params;
-      const { permissions } = req.body;
+      const asOf = req.query.asOf ? new Date(String(req.query.asOf)) : new Date();
 
-      const result = await storage.updateUserPermissions(Number(id), permissions);
-      res.json(result);
+      if (isNaN(asOf.getTime())) {
+        return res.status(400).json({ message: "Неверная дата отчета" });
+      }
+
+      const items = await storage.getEquipmentOnBooks(Number(req.query.departmentId) || undefined);
+
+      res.setHeader('Content-Type', DEPRECIATION_REPORT_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename=depreciation_${asOf.toISOString().slice(0, 10)}.xlsx`);
+      res.send(buildDepreciationReport(items, asOf));
     } catch (error) {
-      console.error("Error updating user permissions:", error);
-      res.status(500).json({ message: "Не удалось обновить разрешения пользователя" });
+      console.error("Error building depreciation report:", error);
+      res.status(500).json({ message: "Не удалось сформировать отчет об амортизации" });
     }
   });
 
-  app.delete("/api/users/:id", authMiddleware, async (req, res) => {
+  // Repair orders, with the days each item spent in repair so far
+  app.get("/api/repairs", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
     try {
-      const { id } = req.params;
-      const userId = Number(id);
-
-      // Проверяем, есть ли у пользователя связанные задачи
-      const userTasks = await db.query.tasks.findMany({
-        where: eq(schema.tasks.createdByUserId, userId)
-      });
+      const period = repairPeriodFromQuery(req.query);
 
-      // Если есть связанные задачи, возвращаем ошибку
-      if (userTasks.length > 0) {
-        return res.status(400).json({
-          message: "Невозможно удалить пользователя, так как у него есть созданные задачи. Сначала удалите или переназначьте задачи."
-        });
+      if (!period) {
+        return res.status(400).json({ message: "Неверный период" });
       }
 
-      // Проверяем, есть ли у пользователя назначенные задачи
-      const assignedTasks = await db.query.tasks.findMany({
-        where: eq(schema.tasks.assignedToUserId, userId)
+      const orders = await storage.getRepairOrders({
+        ...period,
+        equipmentId: Number(req.query.equipmentId) || undefined,
+        open: req.query.open === "true"
       });
 
-      // Если есть назначенные задачи, возвращаем ошибку
-      if (assignedTasks.length > 0) {
-        return res.status(400).json({
-          message: "Невозможно удалить пользователя, так как у него есть назначенные задачи. Сначала переназначьте задачи другому пользователю."
-        });
-      }
+      res.json(orders.map(order => ({ ...order, days: repairDays(order) })));
+    } catch (error) {
+      console.error("Error fetching repair orders:", error);
+      res.status(500).json({ message: "Не удалось загрузить ремонты" });
+    }
+  });
 
-      // Проверяем, есть ли у пользователя привязанное оборудование
-      const userEquipment = await db.query.equipment.findMany({
-        where: eq(schema.equipment.assignedToUserId, userId)
-      });
+  // Number of repairs, average turnaround and spend per equipment type or vendor: ?groupBy=type|vendor&from=&to=
+  app.get("/api/repairs/summary", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
+    try {
+      const period = repairPeriodFromQuery(req.query);
 
-      // Если есть привязанное оборудование, возвращаем ошибку
-      if (userEquipment.length > 0) {
-        return res.status(400).json({
-          message: "Невозможно удалить пользователя, так как за ним закреплено оборудование. Сначала переназначьте оборудование другому пользователю."
-        });
+      if (!period) {
+        return res.status(400).json({ message: "Неверный период" });
       }
 
-      // Если связанных записей нет, удаляем пользователя
-      await storage.deleteUser(userId);
-      res.json({ success: true });
+      const groupBy: RepairGroupBy = req.query.groupBy === REPAIR_GROUP_BY.VENDOR ? REPAIR_GROUP_BY.VENDOR : REPAIR_GROUP_BY.TYPE;
+
+      res.json(summarizeRepairs(await storage.getRepairOrders(period), groupBy));
     } catch (error) {
-      console.error("Error deleting user:", error);
-      res.status(500).json({ message: "Не удалось удалить пользователя" });
+      console.error("Error summarizing repairs:", error);
+      res.status(500).json({ message: "Не удалось рассчитать отчет по ремонтам" });
     }
   });
 
-  // Tasks
-  app.get("/api/tasks", authMiddleware, async (req, res) => {
+  app.get("/api/repairs/report", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
     try {
-      const { status } = req.query;
-      const tasks = await storage.getTasks(status as string | undefined);
-      res.json(tasks);
+      const period = repairPeriodFromQuery(req.query);
+
+      if (!period) {
+        return res.status(400).json({ message: "Неверный период" });
+      }
+
+      const groupBy: RepairGroupBy = req.query.groupBy === REPAIR_GROUP_BY.VENDOR ? REPAIR_GROUP_BY.VENDOR : REPAIR_GROUP_BY.TYPE;
+      const orders = await storage.getRepairOrders(period);
+      const formatPeriod = (value?: string) => value ? new Date(value).toLocaleDateString('ru-RU') : "…";
+      const title = period.from || period.to
+        ? `Ремонты с ${formatPeriod(period.from)} по ${formatPeriod(period.to)}`
+        : "Ремонты за все время";
+
+      res.setHeader('Content-Type', REPAIR_REPORT_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename=repairs_${new Date().toISOString().slice(0, 10)}.xlsx`);
+      res.send(buildRepairReport(orders, groupBy, title));
     } catch (error) {
-      console.error("Error fetching tasks:", error);
-      res.status(500).json({ message: "Не удалось загрузить задачи" });
+      console.error("Error building repairs report:", error);
+      res.status(500).json({ message: "Не удалось сформировать отчет по ремонтам" });
     }
   });
 
-  app.post("/api/tasks", authMiddleware, async (req, res) => {
+  // Send equipment to repair; the equipment gets the "repair" status
+  app.post("/api/equipment/:id/repairs", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
     try {
-      // For admin panel, use the admin user ID for created by
-      const userId = req.session?.userId === "admin"
-          ? (await storage.getAdminUser())?.id
-          : Number(req.session?.userId);
+      const result = schema.repairOrderInsertSchema
+        .pick({ vendor: true, issue: true, sentAt: true, isWarranty: true, taskId: true })
+        .safeParse({ sentAt: new Date().toISOString().slice(0, 10), ...req.body });
 
-      if (!userId) {
-        return res.status(403).json({ message: "Пользователь не найден" });
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
       }
 
-      const data = { ...req.body, createdByUserId: userId };
-      const task = await storage.createTask(data);
-
-      // Notify the assigned user if applicable
-      if (task.assignedToUserId && telegramBot) {
-        const assignedUser = await storage.getUserById(task.assignedToUserId);
-        const creator = await storage.getUserById(task.createdByUserId);
+      if (result.data.taskId && !(await storage.getTaskById(result.data.taskId))) {
+        return res.status(400).json({ message: "Задача не найдена" });
+      }
 
-        if (assignedUser && assignedUser.telegramId && creator) {
-          const message = `📝 Вам назначена новая задача!\n\nЗаголовок: ${task.title}\nОписание: ${task.description}\nСтатус: ${taskStatusToRussian(task.status)}\nОт: ${creator.lastName} ${creator.firstName}`;
+      const order = await storage.createRepairOrder(Number(req.params.id), {
+        ...result.data,
+        vendor: result.data.vendor ?? null
+      }, req.currentUser!.id);
 
-          telegramBot.telegram.sendMessage(assignedUser.telegramId, message)
-              .catch(err => console.error("Failed to send task notification:", err));
-        }
+      if (!order) {
+        return res.status(409).json({ message: "Имущество не найдено или уже в ремонте" });
       }
 
-      res.status(201).json(task);
+      res.status(201).json(order);
     } catch (error) {
-      console.error("Error creating task:", error);
-      res.status(500).json({ message: "Не удалось создать задачу" });
+      console.error("Error creating repair order:", error);
+      res.status(500).json({ message: "Не удалось оформить ремонт" });
     }
   });
 
-  app.patch("/api/tasks/:id", authMiddleware, async (req, res) => {
+  app.patch("/api/repairs/:id", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
     try {
-      const { id } = req.params;
-      const { status } = req.body;
+      const result = schema.repairOrderInsertSchema
+        .pick({ vendor: true, issue: true, sentAt: true, isWarranty: true, taskId: true, cost: true })
+        .partial()
+        .safeParse(req.body);
 
-      if (!Object.values(schema.TASK_STATUS).include(status as schema.TaskStatus)) {
-        return res.status(400).json({ message: "Неверный статус задачи" });
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
       }
 
-      const task = await storage.updateTaskStatus(Number(id), status as schema.TaskStatus);
-
-      // Notify user about status change if task is assigned and we have a bot
-      if (task.assignedToUserId && telegramBot) {
-        const assignedUser = await storage.getUserById(task.assignedToUserId);
+      if (result.data.taskId && !(await storage.getTaskById(result.data.taskId))) {
+        return res.status(400).json({ message: "Задача не найдена" });
+      }
 
-        if (assignedUser && assignedUser.telegramId) {
-          const message = `🔄 Изменение статуса задачи!\n\nЗаголовок: ${task.title}\nНовый статус: ${taskStatusToRussian(task.status)}`;
+      const order = await storage.updateRepairOrder(Number(req.params.id), result.data);
 
-          telegramBot.telegram.sendMessage(assignedUser.telegramId, message)
-              .catch(err => console.error("Failed to send status update notification:", err));
-        }
+      if (!order) {
+        return res.status(404).json({ message: "Ремонт не найден" });
       }
 
-      res.json(task);
+      res.json(order);
     } catch (error) {
-      console.error("Error updating task status:", error);
-      res.status(500).json({ message: "Не удалось обновить статус задачи" });
+      console.error("Error updating repair order:", error);
+      res.status(500).json({ message: "Не удалось изменить ремонт" });
     }
   });
 
-  app.patch("/api/tasks/:id/assign", authMiddleware, async (req, res) => {
+  // Return from repair: { returnedAt?, cost? }; the equipment gets back its status from before the repair
+  app.post("/api/repairs/:id/complete", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
     try {
-      const { id } = req.params;
-      const { userId } = req.body;
+      const result = schema.repairOrderInsertSchema
+        .pick({ returnedAt: true, cost: true })
+        .safeParse({ ...req.body, returnedAt: req.body?.returnedAt || new Date().toISOString().slice(0, 10) });
 
-      const task = await storage.assignTask(Number(id), Number(userId));
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
 
-      // Notify the newly assigned user
-      if (task.assignedToUserId && telegramBot) {
-        const assignedUser = await storage.getUserById(task.assignedToUserId);
+      const existing = await storage.getRepairOrderById(Number(req.params.id));
 
-        if (assignedUser && assignedUser.telegramId) {
-          const message = `📋 Вам назначена задача!\n\nЗаголовок: ${task.title}\nОписание: ${task.description}\nСтатус: ${taskStatusToRussian(task.status)}`;
+      if (!existing) {
+        return res.status(404).json({ message: "Ремонт не найден" });
+      }
 
-          telegramBot.telegram.sendMessage(assignedUser.telegramId, message)
-              .catch(err => console.error("Failed to send assignment notification:", err));
-        }
+      if (result.data.returnedAt! < existing.sentAt) {
+        return res.status(400).json({ message: "Дата возврата раньше даты отправки" });
       }
 
-      res.json(task);
+      const order = await storage.completeRepairOrder(existing.id, {
+        returnedAt: result.data.returnedAt!,
+        cost: result.data.cost
+      }, req.currentUser!.id);
+
+      if (!order) {
+        return res.status(409).json({ message: "Имущество уже возвращено из ремонта" });
+      }
+
+      res.json(order);
     } catch (error) {
-      console.error("Error assigning task:", error);
-      res.status(500).json({ message: "Не удалось назначить задачу" });
+      console.error("Error completing repair order:", error);
+      res.status(500).json({ message: "Не удалось завершить ремонт" });
     }
   });
 
-  // Secure passwords
-  app.get("/api/secure-passwords", authMiddleware, async (req, res) => {
+  // Locations: buildings, floors and rooms, each with its full path
+  app.get("/api/locations", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
     try {
-      const passwords = await storage.getSecurePasswords();
-      res.json(passwords);
+      const locations = await storage.getLocations();
+      const paths = locationPaths(locations);
+
+      res.json(locations.map(location => ({ ...location, path: paths.get(location.id) })));
     } catch (error) {
-      console.error("Error fetching secure passwords:", error);
-      res.status(500).json({ message: "Не удалось загрузить безопасные пароли" });
+      console.error("Error fetching locations:", error);
+      res.status(500).json({ message: "Не удалось загрузить местоположения" });
     }
   });
 
-  app.post("/api/secure-passwords", authMiddleware, async (req, res) => {
+  // Inventory by location, of one location with the locations inside it or of everything; ?locationId=
+  app.get("/api/locations/report", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
     try {
-      // For admin panel, use the admin user ID as sender
-      const senderId = req.session?.userId === "admin"
-          ? (await storage.getAdminUser())?.id
-          : Number(req.session?.userId);
+      const locations = await storage.getLocations();
+      const locationId = Number(req.query.locationId);
+      const items = await storage.getEquipment(locationId ? { locationIds: locationSubtreeIds(locations, locationId) } : {});
 
-      if (!senderId) {
-        return res.status(403).json({ message: "Отправитель не найден" });
+      res.setHeader('Content-Type', LOCATION_REPORT_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename=locations_${new Date().toISOString().slice(0, 10)}.xlsx`);
+      res.send(buildLocationReport(locations, items));
+    } catch (error) {
+      console.error("Error building location report:", error);
+      res.status(500).json({ message: "Не удалось сформировать отчет по местоположениям" });
+    }
+  });
+
+  app.post("/api/locations", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const result = schema.locationInsertSchema.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      const data = result.data;
+      const placementError = locationPlacementError(await storage.getLocations(), data.kind as schema.LocationKind, data.parentId ?? null);
+
+      if (placementError) {
+        return res.status(400).json({ message: placementError });
+      }
+
+      res.status(201).json(await storage.createLocation(data));
+    } catch (error) {
+      console.error("Error creating location:", error);
+      res.status(500).json({ message: "Не удалось добавить местоположение" });
+    }
+  });
+
+  app.patch("/api/locations/:id", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const locations = await storage.getLocations();
+      const location = locations.find(item => item.id === Number(req.params.id));
+
+      if (!location) {
+        return res.status(404).json({ message: "Местоположение не найдено" });
+      }
+
+      const { name, parentId } = req.body;
+
+      if (name !== undefined && !String(name).trim()) {
+        return res.status(400).json({ message: "Название обязательно" });
+      }
+
+      if (parentId !== undefined) {
+        const placementError = locationPlacementError(locations, location.kind as schema.LocationKind, parentId);
+
+        if (placementError) {
+          return res.status(400).json({ message: placementError });
+        }
+      }
+
+      const updated = await storage.updateLocation(location.id, {
+        ...(name !== undefined ? { name: String(name).trim() } : {}),
+        ...(parentId !== undefined ? { parentId } : {})
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating location:", error);
+      res.status(500).json({ message: "Не удалось изменить местоположение" });
+    }
+  });
+
+  app.delete("/api/locations/:id", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const deleted = await storage.deleteLocation(Number(req.params.id));
+
+      if (!deleted) {
+        return res.status(409).json({ message: "Внутри есть другие места или имущество, сначала перенесите их" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting location:", error);
+      res.status(500).json({ message: "Не удалось удалить местоположение" });
+    }
+  });
+
+  // Departments, with their heads; the list is open to every approved user for filters
+  app.get("/api/departments", authMiddleware, requirePermission(), async (req, res) => {
+    try {
+      res.json(await storage.getDepartments());
+    } catch (error) {
+      console.error("Error fetching departments:", error);
+      res.status(500).json({ message: "Не удалось загрузить отделы" });
+    }
+  });
+
+  app.post("/api/departments", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const result = schema.departmentInsertSchema.safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      // Another spelling of an existing department would split it again
+      const existing = findDepartment(await storage.getDepartments(), result.data.name);
+
+      if (existing) {
+        return res.status(409).json({ message: `Такой отдел уже есть: ${existing.name}` });
+      }
+
+      res.status(201).json(await storage.createDepartment(result.data));
+    } catch (error) {
+      console.error("Error creating department:", error);
+      res.status(500).json({ message: "Не удалось добавить отдел" });
+    }
+  });
+
+  app.patch("/api/departments/:id", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const departments = await storage.getDepartments();
+      const department = departments.find(item => item.id === Number(req.params.id));
+
+      if (!department) {
+        return res.status(404).json({ message: "Отдел не найден" });
+      }
+
+      const { name, headUserId } = req.body;
+
+      if (name !== undefined) {
+        if (!String(name).trim()) {
+          return res.status(400).json({ message: "Название отдела обязательно" });
+        }
+
+        const existing = findDepartment(departments.filter(item => item.id !== department.id), String(name));
+
+        if (existing) {
+          return res.status(409).json({ message: `Такой отдел уже есть: ${existing.name}` });
+        }
+      }
+
+      if (headUserId && !(await storage.getUserById(Number(headUserId)))) {
+        return res.status(400).json({ message: "Руководитель не найден" });
+      }
+
+      const updated = await storage.updateDepartment(department.id, {
+        ...(name !== undefined ? { name: String(name).trim() } : {}),
+        ...(headUserId !== undefined ? { headUserId: headUserId ? Number(headUserId) : null } : {})
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating department:", error);
+      res.status(500).json({ message: "Не удалось изменить отдел" });
+    }
+  });
+
+  app.delete("/api/departments/:id", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const deleted = await storage.deleteDepartment(Number(req.params.id));
+
+      if (!deleted) {
+        return res.status(409).json({ message: "В отделе есть сотрудники или имущество, перенесите их или объедините отделы" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting department:", error);
+      res.status(500).json({ message: "Не удалось удалить отдел" });
+    }
+  });
+
+  // Move everything of the department into another one and delete it
+  app.post("/api/departments/:id/merge", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const target = await storage.mergeDepartments(Number(req.params.id), Number(req.body?.targetId));
+
+      if (!target) {
+        return res.status(400).json({ message: "Выберите другой существующий отдел" });
+      }
+
+      res.json(target);
+    } catch (error) {
+      console.error("Error merging departments:", error);
+      res.status(500).json({ message: "Не удалось объединить отделы" });
+    }
+  });
+
+  // Transfer acts
+  app.get("/api/transfer-acts", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
+    try {
+      const equipmentId = req.query.equipmentId ? Number(req.query.equipmentId) : undefined;
+      const acts = await storage.getTransferActs(equipmentId);
+      res.json(acts);
+    } catch (error) {
+      console.error("Error fetching transfer acts:", error);
+      res.status(500).json({ message: "Не удалось загрузить акты приема-передачи" });
+    }
+  });
+
+  app.post("/api/transfer-acts", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const { equipmentIds, toUserId } = req.body;
+
+      if (!Array.isArray(equipmentIds) || equipmentIds.length === 0 || !equipmentIds.every(Number.isInteger)) {
+        return res.status(400).json({ message: "Не выбрано имущество для передачи" });
+      }
+
+      // Null returns the equipment to the warehouse
+      if (toUserId !== null && !(Number.isInteger(toUserId) && await storage.getUserById(toUserId))) {
+        return res.status(400).json({ message: "Получатель не найден" });
+      }
+
+      const acts = await storage.transferEquipment(equipmentIds, toUserId, req.currentUser!.id);
+
+      if (acts.length === 0) {
+        return res.status(400).json({ message: "Выбранное имущество уже закреплено за получателем" });
+      }
+
+      for (const act of acts) {
+        await notifyEquipmentReceiptRequested(act);
+      }
+
+      res.status(201).json(acts);
+    } catch (error) {
+      console.error("Error transferring equipment:", error);
+      res.status(500).json({ message: "Не удалось оформить передачу имущества" });
+    }
+  });
+
+  app.get("/api/transfer-acts/:id/document", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
+    try {
+      const act = await storage.getTransferActById(Number(req.params.id));
+
+      if (!act) {
+        return res.status(404).json({ message: "Акт не найден" });
+      }
+
+      const buffer = await buildTransferActDocument(act);
+
+      res.setHeader('Content-Type', TRANSFER_ACT_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename=${transferActFileName(act)}`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error generating transfer act:", error);
+      res.status(500).json({ message: "Не удалось сформировать акт приема-передачи" });
+    }
+  });
+
+  // Stocktaking
+  app.get("/api/stocktakings", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const stocktakings = await storage.getStocktakings();
+      res.json(stocktakings.map(({ items, ...stocktaking }) => ({
+        ...stocktaking,
+        progress: summarizeStocktaking(items)
+      })));
+    } catch (error) {
+      console.error("Error fetching stocktakings:", error);
+      res.status(500).json({ message: "Не удалось загрузить инвентаризации" });
+    }
+  });
+
+  app.post("/api/stocktakings", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const { title, departmentId, equipmentType } = req.body;
+
+      if (!title || typeof title !== "string" || !title.trim()) {
+        return res.status(400).json({ message: "Укажите название инвентаризации" });
+      }
+
+      const stocktaking = await storage.createStocktaking({
+        title: title.trim(),
+        departmentId: departmentId ? Number(departmentId) : null,
+        equipmentType: equipmentType || null,
+        createdByUserId: req.currentUser!.id
+      });
+
+      if (!stocktaking) {
+        return res.status(400).json({ message: "Нет имущества, подходящего под условия инвентаризации" });
+      }
+
+      await notifyStocktakingStarted(stocktaking);
+
+      const { items, ...created } = stocktaking;
+      res.status(201).json({ ...created, progress: summarizeStocktaking(items) });
+    } catch (error) {
+      console.error("Error starting stocktaking:", error);
+      res.status(500).json({ message: "Не удалось начать инвентаризацию" });
+    }
+  });
+
+  app.get("/api/stocktakings/:id", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const stocktaking = await storage.getStocktakingById(Number(req.params.id));
+
+      if (!stocktaking) {
+        return res.status(404).json({ message: "Инвентаризация не найдена" });
+      }
+
+      res.json({ ...stocktaking, progress: summarizeStocktaking(stocktaking.items) });
+    } catch (error) {
+      console.error("Error fetching stocktaking:", error);
+      res.status(500).json({ message: "Не удалось загрузить инвентаризацию" });
+    }
+  });
+
+  // Result entered in the panel, e.g. for warehouse items that have no holder to ask
+  app.patch("/api/stocktakings/:id/items/:itemId", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const { result } = req.body;
+
+      if (!Object.values(schema.STOCKTAKING_RESULT).includes(result)) {
+        return res.status(400).json({ message: "Неверный результат проверки" });
+      }
+
+      const item = await storage.checkStocktakingItem(Number(req.params.itemId), result, req.currentUser!.id);
+
+      if (!item || item.stocktakingId !== Number(req.params.id)) {
+        return res.status(409).json({ message: "Инвентаризация завершена или предмет не найден" });
+      }
+
+      res.json(item);
+    } catch (error) {
+      console.error("Error checking stocktaking item:", error);
+      res.status(500).json({ message: "Не удалось сохранить результат проверки" });
+    }
+  });
+
+  app.post("/api/stocktakings/:id/complete", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const stocktaking = await storage.completeStocktaking(Number(req.params.id));
+
+      if (!stocktaking) {
+        return res.status(409).json({ message: "Инвентаризация уже завершена или не найдена" });
+      }
+
+      res.json(stocktaking);
+    } catch (error) {
+      console.error("Error completing stocktaking:", error);
+      res.status(500).json({ message: "Не удалось завершить инвентаризацию" });
+    }
+  });
+
+  app.get("/api/stocktakings/:id/report", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const stocktaking = await storage.getStocktakingById(Number(req.params.id));
+
+      if (!stocktaking) {
+        return res.status(404).json({ message: "Инвентаризация не найдена" });
+      }
+
+      res.setHeader('Content-Type', STOCKTAKING_REPORT_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename=stocktaking_${stocktaking.id}.xlsx`);
+      res.send(buildStocktakingReport(stocktaking));
+    } catch (error) {
+      console.error("Error generating stocktaking report:", error);
+      res.status(500).json({ message: "Не удалось сформировать отчет" });
+    }
+  });
+
+  // Photo sent by the holder, fetched from Telegram so the bot token stays on the server
+  app.get("/api/stocktakings/:id/items/:itemId/photo", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const item = await storage.getStocktakingItemById(Number(req.params.itemId));
+
+      if (!item?.photoFileId || item.stocktakingId !== Number(req.params.id)) {
+        return res.status(404).json({ message: "Фото не найдено" });
+      }
+
+      if (!telegramBot) {
+        return res.status(503).json({ message: "Бот не запущен" });
+      }
+
+      const link = await telegramBot.telegram.getFileLink(item.photoFileId);
+      const response = await fetch(link.toString());
+
+      if (!response.ok) {
+        return res.status(502).json({ message: "Не удалось получить фото из Telegram" });
+      }
+
+      res.setHeader('Content-Type', response.headers.get('content-type') || 'image/jpeg');
+      res.send(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      console.error("Error fetching stocktaking photo:", error);
+      res.status(500).json({ message: "Не удалось загрузить фото" });
+    }
+  });
+
+  // Consumables stock
+  app.get("/api/stock", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
+    try {
+      res.json(await storage.getStockItems());
+    } catch (error) {
+      console.error("Error fetching stock items:", error);
+      res.status(500).json({ message: "Не удалось загрузить склад" });
+    }
+  });
+
+  app.get("/api/stock/movements", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
+    try {
+      const stockItemId = req.query.stockItemId ? Number(req.query.stockItemId) : undefined;
+      res.json(await storage.getStockMovements(stockItemId));
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Не удалось загрузить журнал движения" });
+    }
+  });
+
+  app.post("/api/stock", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const result = schema.stockItemInsertSchema.pick({ name: true, unit: true, minQuantity: true }).safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      res.status(201).json(await storage.createStockItem(result.data));
+    } catch (error) {
+      console.error("Error creating stock item:", error);
+
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "Такая позиция уже есть на складе" });
+      }
+
+      res.status(500).json({ message: "Не удалось добавить позицию" });
+    }
+  });
+
+  app.patch("/api/stock/:id", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const result = schema.stockItemInsertSchema.pick({ name: true, unit: true, minQuantity: true }).partial().safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      const item = await storage.updateStockItem(Number(req.params.id), result.data);
+
+      if (!item) {
+        return res.status(404).json({ message: "Позиция не найдена" });
+      }
+
+      // A raised minimum may put the current quantity below it
+      await notifyLowStock(item);
+
+      res.json(item);
+    } catch (error) {
+      console.error("Error updating stock item:", error);
+
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ message: "Такая позиция уже есть на складе" });
+      }
+
+      res.status(500).json({ message: "Не удалось изменить позицию" });
+    }
+  });
+
+  // Receipt or issue of a stock item; an issue goes to an employee, against a task, or both
+  app.post("/api/stock/:id/movements", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const { kind, quantity, issuedToUserId, taskId, comment } = req.body;
+
+      if (kind !== schema.STOCK_MOVEMENT_KIND.RECEIPT && kind !== schema.STOCK_MOVEMENT_KIND.ISSUE) {
+        return res.status(400).json({ message: "Неизвестная операция" });
+      }
+
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return res.status(400).json({ message: "Количество должно быть целым числом больше нуля" });
+      }
+
+      if (issuedToUserId && !(await storage.getUserById(Number(issuedToUserId)))) {
+        return res.status(400).json({ message: "Получатель не найден" });
+      }
+
+      if (taskId && !(await storage.getTaskById(Number(taskId)))) {
+        return res.status(400).json({ message: "Задача не найдена" });
+      }
+
+      if (!(await storage.getStockItemById(Number(req.params.id)))) {
+        return res.status(404).json({ message: "Позиция не найдена" });
+      }
+
+      const result = await storage.recordStockMovement(Number(req.params.id), {
+        kind,
+        quantity,
+        issuedToUserId: issuedToUserId ? Number(issuedToUserId) : null,
+        taskId: taskId ? Number(taskId) : null,
+        comment: comment ? String(comment).trim() : null
+      }, req.currentUser!.id);
+
+      if (!result) {
+        return res.status(409).json({ message: "Недостаточно на складе" });
+      }
+
+      await notifyLowStock(result.item);
+
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error recording stock movement:", error);
+      res.status(500).json({ message: "Не удалось провести операцию" });
+    }
+  });
+
+  // Software licenses and subscriptions
+  app.get("/api/licenses", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.EQUIPMENT }), async (req, res) => {
+    try {
+      res.json(await storage.getLicenses());
+    } catch (error) {
+      console.error("Error fetching licenses:", error);
+      res.status(500).json({ message: "Не удалось загрузить лицензии" });
+    }
+  });
+
+  app.post("/api/licenses", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const result = schema.licenseInsertSchema.pick({ product: true, seats: true, expiresAt: true, notes: true }).safeParse(req.body);
+      const { key } = req.body;
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      if (key !== undefined && key !== null && typeof key !== "string") {
+        return res.status(400).json({ message: "Неверный ключ" });
+      }
+
+      res.status(201).json(await storage.createLicense({ ...result.data, key }));
+    } catch (error) {
+      console.error("Error creating license:", error);
+      res.status(500).json({ message: "Не удалось добавить лицензию" });
+    }
+  });
+
+  // The key is kept unless given; null or an empty string removes it
+  app.patch("/api/licenses/:id", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const result = schema.licenseInsertSchema.pick({ product: true, seats: true, expiresAt: true, notes: true }).partial().safeParse(req.body);
+      const { key } = req.body;
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      if (key !== undefined && key !== null && typeof key !== "string") {
+        return res.status(400).json({ message: "Неверный ключ" });
+      }
+
+      const license = await storage.updateLicense(Number(req.params.id), { ...result.data, key });
+
+      if (!license) {
+        return res.status(404).json({ message: "Лицензия не найдена" });
+      }
+
+      res.json(license);
+    } catch (error) {
+      console.error("Error updating license:", error);
+      res.status(500).json({ message: "Не удалось изменить лицензию" });
+    }
+  });
+
+  app.delete("/api/licenses/:id", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      if (!(await storage.deleteLicense(Number(req.params.id)))) {
+        return res.status(404).json({ message: "Лицензия не найдена" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting license:", error);
+      res.status(500).json({ message: "Не удалось удалить лицензию" });
+    }
+  });
+
+  app.get("/api/licenses/:id/key", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const key = await storage.getLicenseKey(Number(req.params.id));
+
+      if (key === undefined) {
+        return res.status(404).json({ message: "Лицензия не найдена" });
+      }
+
+      res.json({ key });
+    } catch (error) {
+      console.error("Error fetching license key:", error);
+      res.status(500).json({ message: "Не удалось загрузить ключ" });
+    }
+  });
+
+  // Give a seat to a user or an equipment item. Seats beyond the license count are allowed and reported as overAllocated.
+  app.post("/api/licenses/:id/seats", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      const { userId, equipmentId } = req.body;
+
+      if (!userId === !equipmentId) {
+        return res.status(400).json({ message: "Укажите сотрудника или имущество" });
+      }
+
+      if (userId && !(await storage.getUserById(Number(userId)))) {
+        return res.status(400).json({ message: "Сотрудник не найден" });
+      }
+
+      if (equipmentId && !(await storage.getEquipmentById(Number(equipmentId)))) {
+        return res.status(400).json({ message: "Имущество не найдено" });
+      }
+
+      if (!(await storage.getLicenseById(Number(req.params.id)))) {
+        return res.status(404).json({ message: "Лицензия не найдена" });
+      }
+
+      const result = await storage.assignLicenseSeat(
+        Number(req.params.id),
+        userId ? { userId: Number(userId) } : { equipmentId: Number(equipmentId) },
+        req.currentUser!.id
+      );
+
+      if (!result) {
+        return res.status(409).json({ message: "Место уже выделено" });
+      }
+
+      res.status(201).json({ ...result, overAllocated: result.assignedSeats > result.seats });
+    } catch (error) {
+      console.error("Error assigning license seat:", error);
+      res.status(500).json({ message: "Не удалось выделить место" });
+    }
+  });
+
+  app.delete("/api/licenses/seats/:id", authMiddleware, requirePermission(EQUIPMENT_EDITORS), async (req, res) => {
+    try {
+      if (!(await storage.removeLicenseSeat(Number(req.params.id)))) {
+        return res.status(404).json({ message: "Место не найдено" });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing license seat:", error);
+      res.status(500).json({ message: "Не удалось освободить место" });
+    }
+  });
+
+  // Users
+  app.get("/api/users", authMiddleware, requirePermission(), async (req, res) => {
+    try {
+      // Roles and permissions of everyone are for admins; others pick people by name
+      const users = isAdminUser(req.currentUser!) ? await storage.getAllUsers() : await storage.getUserDirectory();
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Не удалось загрузить пользователей" });
+    }
+  });
+
+  app.patch("/api/users/:id/role", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+
+      if (!Object.values(schema.ROLES).includes(role as schema.Role)) {
+        return res.status(400).json({ message: "Неверная роль" });
+      }
+
+      const user = await storage.updateUserRole(Number(id), role as schema.Role);
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Не удалось обновить роль пользователя" });
+    }
+  });
+
+  app.patch("/api/users/:id/permissions", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { permissions } = req.body;
+
+      const result = await storage.updateUserPermissions(Number(id), permissions);
+      res.json(result);
+    } catch (error) {
+      console.error("Error updating user permissions:", error);
+      res.status(500).json({ message: "Не удалось обновить разрешения пользователя" });
+    }
+  });
+
+  app.patch("/api/users/:id/department", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const departmentId = req.body?.departmentId ? Number(req.body.departmentId) : null;
+
+      if (departmentId && !(await storage.getDepartmentById(departmentId))) {
+        return res.status(400).json({ message: "Отдел не найден" });
+      }
+
+      const user = await storage.updateUserDepartment(Number(req.params.id), departmentId);
+      res.json(user);
+    } catch (error) {
+      console.error("Error updating user department:", error);
+      res.status(500).json({ message: "Не удалось изменить отдел пользователя" });
+    }
+  });
+
+  // Registration approval
+  app.get("/api/registrations", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const registrations = await storage.getPendingRegistrations();
+      res.json(registrations);
+    } catch (error) {
+      console.error("Error fetching registrations:", error);
+      res.status(500).json({ message: "Не удалось загрузить заявки на регистрацию" });
+    }
+  });
+
+  app.post("/api/registrations/:id/approve", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const { role } = req.body;
+
+      if (role && !Object.values(schema.ROLES).includes(role as schema.Role)) {
+        return res.status(400).json({ message: "Неверная роль" });
+      }
+
+      const user = await storage.approveRegistration(Number(req.params.id), role as schema.Role | undefined);
+
+      if (!user) {
+        return res.status(409).json({ message: "Заявка уже рассмотрена" });
+      }
+
+      await notifyRegistrationDecision(user, true);
+      res.json(user);
+    } catch (error) {
+      console.error("Error approving registration:", error);
+      res.status(500).json({ message: "Не удалось одобрить заявку" });
+    }
+  });
+
+  app.post("/api/registrations/:id/reject", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const user = await storage.rejectRegistration(Number(req.params.id));
+
+      if (!user) {
+        return res.status(409).json({ message: "Заявка уже рассмотрена" });
+      }
+
+      await notifyRegistrationDecision(user, false);
+      res.json(user);
+    } catch (error) {
+      console.error("Error rejecting registration:", error);
+      res.status(500).json({ message: "Не удалось отклонить заявку" });
+    }
+  });
+
+  // Issue a one-time panel password; the user has to change it on first login
+  app.post("/api/users/:id/password", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const user = await storage.getUserById(Number(req.params.id));
+
+      if (!user) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+
+      const password = generatePassword();
+      await storage.setUserPassword(user.id, password, true);
+
+      res.json({ password });
+    } catch (error) {
+      console.error("Error issuing user password:", error);
+      res.status(500).json({ message: "Не удалось выдать пароль" });
+    }
+  });
+
+  app.delete("/api/users/:id", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = Number(id);
+
+      // Открытые задачи, созданные пользователем или назначенные ему, передаются через обходной лист
+      const openTasks = await db.query.tasks.findMany({
+        where: and(
+          ne(schema.tasks.status, schema.TASK_STATUS.COMPLETED),
+          or(
+            eq(schema.tasks.createdByUserId, userId),
+            eq(schema.tasks.assignedToUserId, userId)
+          )
+        )
+      });
+
+      if (openTasks.length > 0) {
+        return res.status(400).json({
+          message: "Невозможно удалить пользователя, так как у него есть открытые задачи. Переназначьте их в обходном листе."
+        });
+      }
+
+      // Проверяем, есть ли у пользователя привязанное оборудование
+      const userEquipment = await db.query.equipment.findMany({
+        where: eq(schema.equipment.assignedToUserId, userId)
+      });
+
+      // Если есть привязанное оборудование, возвращаем ошибку
+      if (userEquipment.length > 0) {
+        return res.status(400).json({
+          message: "Невозможно удалить пользователя, так как за ним закреплено оборудование. Сдайте или передайте его в обходном листе."
+        });
+      }
+
+      // Если связанных записей нет, удаляем пользователя
+      await storage.deleteUser(userId);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      res.status(500).json({ message: "Не удалось удалить пользователя" });
+    }
+  });
+
+  // Offboarding and onboarding checklists
+  app.get("/api/checklists", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const checklists = await storage.getStaffChecklists();
+      res.json(checklists);
+    } catch (error) {
+      console.error("Error fetching checklists:", error);
+      res.status(500).json({ message: "Не удалось загрузить листы приема и увольнения" });
+    }
+  });
+
+  app.get("/api/checklists/:id", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const result = await loadStaffChecklist(Number(req.params.id));
+
+      if (!result) {
+        return res.status(404).json({ message: "Лист не найден" });
+      }
+
+      res.json({ ...result.checklist, items: result.items, equipment: result.equipment });
+    } catch (error) {
+      console.error("Error fetching checklist:", error);
+      res.status(500).json({ message: "Не удалось загрузить лист" });
+    }
+  });
+
+  app.get("/api/checklists/:id/report", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const result = await loadStaffChecklist(Number(req.params.id));
+
+      if (!result) {
+        return res.status(404).json({ message: "Лист не найден" });
+      }
+
+      const buffer = await buildChecklistReport(result.checklist, result.items);
+
+      res.setHeader('Content-Type', CHECKLIST_REPORT_CONTENT_TYPE);
+      res.setHeader('Content-Disposition', `attachment; filename=${checklistReportFileName(result.checklist)}`);
+      res.send(buffer);
+    } catch (error) {
+      console.error("Error building checklist report:", error);
+      res.status(500).json({ message: "Не удалось сформировать отчет" });
+    }
+  });
+
+  app.post("/api/users/:id/checklists", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const kind = req.body?.kind as schema.ChecklistKind;
+
+      if (!Object.values(schema.CHECKLIST_KIND).includes(kind)) {
+        return res.status(400).json({ message: "Неверный вид листа" });
+      }
+
+      const user = await storage.getUserById(Number(req.params.id));
+
+      if (!user) {
+        return res.status(404).json({ message: "Пользователь не найден" });
+      }
+
+      if (kind === schema.CHECKLIST_KIND.OFFBOARDING && user.id === req.currentUser!.id) {
+        return res.status(400).json({ message: "Нельзя оформить увольнение самого себя" });
+      }
+
+      const checklist = await storage.createStaffChecklist({
+        kind,
+        userId: user.id,
+        employeeName: employeeName(user),
+        createdByUserId: req.currentUser!.id
+      });
+
+      if (!checklist) {
+        return res.status(409).json({ message: "Для сотрудника уже открыт такой лист" });
+      }
+
+      res.status(201).json(checklist);
+    } catch (error) {
+      console.error("Error creating checklist:", error);
+      res.status(500).json({ message: "Не удалось создать лист" });
+    }
+  });
+
+  // Return items of a leaving employee to the warehouse (toUserId null) or hand them to a colleague
+  app.post("/api/checklists/:id/equipment", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const found = await checklistForStep(Number(req.params.id), schema.CHECKLIST_KIND.OFFBOARDING);
+
+      if ('error' in found) {
+        return res.status(found.error.status).json({ message: found.error.message });
+      }
+
+      const { equipmentIds, toUserId } = req.body;
+
+      if (!Array.isArray(equipmentIds) || equipmentIds.length === 0 || !equipmentIds.every(Number.isInteger)) {
+        return res.status(400).json({ message: "Не выбрано имущество для передачи" });
+      }
+
+      const receiver = toUserId === null ? null : Number.isInteger(toUserId) ? await storage.getUserById(toUserId) : undefined;
+
+      if (receiver === undefined || receiver?.id === found.employee.id) {
+        return res.status(400).json({ message: "Получатель не найден" });
+      }
+
+      // Only what the employee still holds
+      const items = (await storage.getEquipmentByIds(equipmentIds))
+        .filter(item => item.assignedToUserId === found.employee.id);
+
+      if (items.length === 0) {
+        return res.status(400).json({ message: "Выбранное имущество не закреплено за сотрудником" });
+      }
+
+      const acts = await storage.transferEquipment(items.map(item => item.id), toUserId, req.currentUser!.id);
+      const actorName = employeeName(req.currentUser!);
+
+      for (const act of acts) {
+        await notifyEquipmentReceiptRequested(act);
+
+        const numbers = act.items.map(item => item.inventoryNumber).join(', ');
+        const text = receiver
+          ? `Передано сотруднику ${act.toName} по акту № ${act.number}: ${numbers}`
+          : `Сдано на склад по акту № ${act.number}: ${numbers}`;
+
+        await storage.addStaffChecklistEntry(found.checklist.id, schema.CHECKLIST_STEP.EQUIPMENT, text, actorName);
+      }
+
+      res.status(201).json(acts);
+    } catch (error) {
+      console.error("Error returning checklist equipment:", error);
+      res.status(500).json({ message: "Не удалось оформить передачу имущества" });
+    }
+  });
+
+  // Hand the standard kit from the warehouse to a new employee
+  app.post("/api/checklists/:id/kit", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const found = await checklistForStep(Number(req.params.id), schema.CHECKLIST_KIND.ONBOARDING);
+
+      if ('error' in found) {
+        return res.status(found.error.status).json({ message: found.error.message });
+      }
+
+      const { kit } = getOnboardingSettings(await storage.getBotSettings());
+      const { items, missingTypes } = await storage.findOnboardingKitItems(found.employee.id, kit);
+
+      if (items.length === 0) {
+        return res.status(409).json({
+          message: missingTypes.length > 0
+            ? `На складе нет свободного имущества: ${missingTypes.join(', ')}`
+            : "Комплект уже выдан"
+        });
+      }
+
+      const acts = await storage.transferEquipment(items.map(item => item.id), found.employee.id, req.currentUser!.id);
+
+      for (const act of acts) {
+        await notifyEquipmentReceiptRequested(act);
+
+        const text = `Выдано по акту № ${act.number}: ${act.items.map(item => `${item.name} (${item.inventoryNumber})`).join(', ')}`;
+        await storage.addStaffChecklistEntry(found.checklist.id, schema.CHECKLIST_STEP.EQUIPMENT, text, employeeName(req.currentUser!));
+      }
+
+      res.status(201).json({ acts, missingTypes });
+    } catch (error) {
+      console.error("Error issuing onboarding kit:", error);
+      res.status(500).json({ message: "Не удалось выдать комплект" });
+    }
+  });
+
+  app.post("/api/checklists/:id/reassign-tasks", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const found = await checklistForStep(Number(req.params.id), schema.CHECKLIST_KIND.OFFBOARDING);
+
+      if ('error' in found) {
+        return res.status(found.error.status).json({ message: found.error.message });
+      }
+
+      const receiver = Number.isInteger(req.body?.toUserId) ? await storage.getUserById(req.body.toUserId) : undefined;
+
+      if (!receiver || receiver.id === found.employee.id) {
+        return res.status(400).json({ message: "Получатель не найден" });
+      }
+
+      const { assigned, created } = await storage.reassignOpenTasks(found.employee.id, receiver.id);
+
+      if (assigned.length === 0 && created.length === 0) {
+        return res.status(409).json({ message: "Открытых задач нет" });
+      }
+
+      await storage.addStaffChecklistEntry(
+        found.checklist.id,
+        schema.CHECKLIST_STEP.TASKS,
+        `Задачи переданы сотруднику ${employeeName(receiver)}: назначенных — ${assigned.length}, созданных — ${created.length}`,
+        employeeName(req.currentUser!)
+      );
+
+      for (const task of assigned) {
+        await notifyTaskAssigned(task.id);
+      }
+
+      res.json({ assigned: assigned.length, created: created.length });
+    } catch (error) {
+      console.error("Error reassigning checklist tasks:", error);
+      res.status(500).json({ message: "Не удалось переназначить задачи" });
+    }
+  });
+
+  // Tasks from settings.onboardingTasks, optionally assigned to a sysadmin right away
+  app.post("/api/checklists/:id/setup-tasks", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const found = await checklistForStep(Number(req.params.id), schema.CHECKLIST_KIND.ONBOARDING);
+
+      if ('error' in found) {
+        return res.status(found.error.status).json({ message: found.error.message });
+      }
+
+      const assignee = req.body?.assignedToUserId ? await storage.getUserById(Number(req.body.assignedToUserId)) : null;
+
+      if (assignee === undefined) {
+        return res.status(400).json({ message: "Исполнитель не найден" });
+      }
+
+      const { setupTasks } = getOnboardingSettings(await storage.getBotSettings());
+      const tasks: schema.Task[] = [];
+
+      for (const title of setupTasks) {
+        tasks.push(await storage.createTask({
+          title: `${title}: ${found.checklist.employeeName}`,
+          description: `Прием на работу сотрудника ${found.checklist.employeeName}`,
+          createdByUserId: req.currentUser!.id,
+          assignedToUserId: assignee?.id ?? null
+        }));
+      }
+
+      await storage.addStaffChecklistEntry(
+        found.checklist.id,
+        schema.CHECKLIST_STEP.TASKS,
+        `Созданы задачи (${tasks.length})${assignee ? `, исполнитель ${employeeName(assignee)}` : ''}: ${setupTasks.join('; ')}`,
+        employeeName(req.currentUser!)
+      );
+
+      for (const task of tasks) {
+        await notifyTaskAssigned(task.id);
       }
 
-      const data = { ...req.body, senderId };
-      const securePassword = await storage.createSecurePassword(data);
+      res.status(201).json(tasks);
+    } catch (error) {
+      console.error("Error creating setup tasks:", error);
+      res.status(500).json({ message: "Не удалось создать задачи" });
+    }
+  });
+
+  // Offboarding revokes access to the panel and sections, onboarding approves the registration from the bot
+  app.post("/api/checklists/:id/access", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const found = await checklistForStep(Number(req.params.id));
+
+      if ('error' in found) {
+        return res.status(found.error.status).json({ message: found.error.message });
+      }
+
+      let text: string;
+      let approved: schema.User | null = null;
 
-      // Notify the receiver if we have a bot
-      if (telegramBot) {
-        const receiver = await storage.getUserById(securePassword.receiverId);
-        const sender = await storage.getUserById(securePassword.senderId);
+      if (found.checklist.kind === schema.CHECKLIST_KIND.OFFBOARDING) {
+        await storage.revokeUserAccess(found.employee.id);
+        text = "Отозваны доступ к разделам, права администратора и пароль панели";
+      } else {
+        if (found.employee.registrationStatus !== schema.REGISTRATION_STATUS.PENDING) {
+          return res.status(409).json({ message: "Заявки на регистрацию нет или она уже рассмотрена" });
+        }
 
-        if (receiver && receiver.telegramId && sender) {
-          const message = `🔐 Новая защищенная информация!\n\nОт: ${sender.lastName} ${sender.firstName}\nНазвание: ${securePassword.title}\nТип: ${securePasswordTypeToRussian(securePassword.type)}\n\nДля просмотра содержимого используйте команду /password ${securePassword.id}`;
+        approved = await storage.approveRegistration(found.employee.id);
 
-          telegramBot.telegram.sendMessage(receiver.telegramId, message)
-              .catch(err => console.error("Failed to send secure password notification:", err));
+        if (!approved) {
+          return res.status(409).json({ message: "Заявка уже рассмотрена" });
         }
+
+        text = "Регистрация в боте подтверждена";
+      }
+
+      await storage.addStaffChecklistEntry(found.checklist.id, schema.CHECKLIST_STEP.ACCESS, text, employeeName(req.currentUser!));
+
+      if (approved) {
+        await notifyRegistrationDecision(approved, true);
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error changing checklist access:", error);
+      res.status(500).json({ message: "Не удалось изменить доступ" });
+    }
+  });
+
+  // Senders are asked in the bot to change what they sent to the leaving employee
+  app.post("/api/checklists/:id/passwords", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const found = await checklistForStep(Number(req.params.id), schema.CHECKLIST_KIND.OFFBOARDING);
+
+      if ('error' in found) {
+        return res.status(found.error.status).json({ message: found.error.message });
+      }
+
+      const passwords = await storage.flagPasswordsForRotation(found.employee.id);
+
+      if (passwords.length === 0) {
+        return res.status(409).json({ message: "Нет паролей, которые нужно сменить" });
+      }
+
+      const bySender = new Map<number, typeof passwords>();
+
+      for (const password of passwords) {
+        bySender.set(password.senderId, [...(bySender.get(password.senderId) || []), password]);
+      }
+
+      for (const senderPasswords of Array.from(bySender.values())) {
+        await notifyPasswordRotation(senderPasswords[0].sender, found.checklist.employeeName, senderPasswords);
+      }
+
+      await storage.addStaffChecklistEntry(
+        found.checklist.id,
+        schema.CHECKLIST_STEP.PASSWORDS,
+        `Отмечены для смены: ${passwords.map(password => `${password.title} (${employeeName(password.sender)})`).join(', ')}`,
+        employeeName(req.currentUser!)
+      );
+
+      res.json({ flagged: passwords.length });
+    } catch (error) {
+      console.error("Error flagging passwords for rotation:", error);
+      res.status(500).json({ message: "Не удалось отметить пароли для смены" });
+    }
+  });
+
+  app.post("/api/checklists/:id/block", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const found = await checklistForStep(Number(req.params.id), schema.CHECKLIST_KIND.OFFBOARDING);
+
+      if ('error' in found) {
+        return res.status(found.error.status).json({ message: found.error.message });
+      }
+
+      await storage.blockUser(found.employee.id);
+      await storage.addStaffChecklistEntry(found.checklist.id, schema.CHECKLIST_STEP.BOT, "Аккаунт в боте заблокирован", employeeName(req.currentUser!));
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error blocking user:", error);
+      res.status(500).json({ message: "Не удалось заблокировать аккаунт" });
+    }
+  });
+
+  app.post("/api/checklists/:id/sign-off", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const result = await loadStaffChecklist(Number(req.params.id));
+
+      if (!result) {
+        return res.status(404).json({ message: "Лист не найден" });
+      }
+
+      if (result.items.some(item => !item.done)) {
+        return res.status(409).json({ message: "Не все пункты выполнены" });
+      }
+
+      const checklist = await storage.signOffStaffChecklist(result.checklist.id, employeeName(req.currentUser!));
+
+      if (!checklist) {
+        return res.status(409).json({ message: "Лист уже подписан" });
+      }
+
+      res.json(checklist);
+    } catch (error) {
+      console.error("Error signing off checklist:", error);
+      res.status(500).json({ message: "Не удалось подписать лист" });
+    }
+  });
+
+  // Tasks
+  app.get("/api/tasks", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.TASKS }), async (req, res) => {
+    try {
+      const { status } = req.query;
+      const user = req.currentUser!;
+      // Tasks created by employees of the department
+      const departmentId = Number(req.query.departmentId) || undefined;
+
+      // Sysadmins work with every task, others only see tasks they take part in
+      const seesAllTasks = isAdminUser(user) || user.role === schema.ROLES.SYSADMIN;
+      const tasks = await storage.getTasks(status as string | undefined, seesAllTasks ? undefined : user.id, departmentId);
+      const slaTargets = getSlaTargets(await storage.getBotSettings());
+
+      res.json(tasks.map(task => ({ ...task, sla: computeTaskSla(task, slaTargets) })));
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+      res.status(500).json({ message: "Не удалось загрузить задачи" });
+    }
+  });
+
+  // Sysadmins a task can be assigned to
+  app.get("/api/tasks/assignees", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.TASKS }), async (req, res) => {
+    try {
+      const assignees = await getTaskAssignees();
+      res.json(assignees.map(({ id, username, firstName, lastName }) => ({ id, username, firstName, lastName })));
+    } catch (error) {
+      console.error("Error fetching task assignees:", error);
+      res.status(500).json({ message: "Не удалось загрузить исполнителей" });
+    }
+  });
+
+  app.post("/api/tasks", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.TASKS }), async (req, res) => {
+    try {
+      // Status and work dates follow from the assignee, they are not taken from the request
+      const result = schema.taskInsertSchema.pick({ title: true, description: true, assignedToUserId: true }).safeParse(req.body);
+
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.issues[0].message });
+      }
+
+      const priority = parseTaskPriority(req.body);
+
+      if (!priority) {
+        return res.status(400).json({ message: "Неверный приоритет или срок задачи" });
+      }
+
+      const assigneeId = result.data.assignedToUserId ?? null;
+
+      if (assigneeId && !(await getTaskAssignees()).some(assignee => assignee.id === assigneeId)) {
+        return res.status(400).json({ message: "Исполнитель не найден" });
+      }
+
+      const task = await storage.createTask({
+        ...result.data,
+        ...priority,
+        assignedToUserId: assigneeId,
+        status: assigneeId ? schema.TASK_STATUS.IN_PROGRESS : schema.TASK_STATUS.NEW,
+        createdByUserId: req.currentUser!.id
+      });
+
+      // Notify the assigned user if applicable
+      await notifyTaskAssigned(task.id);
+
+      res.status(201).json(task);
+    } catch (error) {
+      console.error("Error creating task:", error);
+      res.status(500).json({ message: "Не удалось создать задачу" });
+    }
+  });
+
+  app.patch("/api/tasks/:id", authMiddleware, requirePermission(TASK_EXECUTORS), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { status } = req.body;
+
+      if (!Object.values(schema.TASK_STATUS).includes(status as schema.TaskStatus)) {
+        return res.status(400).json({ message: "Неверный статус задачи" });
+      }
+
+      const task = await storage.updateTaskStatus(Number(id), status as schema.TaskStatus);
+
+      if (!task) {
+        return res.status(404).json({ message: "Задача не найдена" });
+      }
+
+      // Same notifications as the status buttons in the bot
+      await notifyTaskStatusChanged(task.id, req.currentUser!.id);
+
+      res.json(task);
+    } catch (error) {
+      console.error("Error updating task status:", error);
+      res.status(500).json({ message: "Не удалось обновить статус задачи" });
+    }
+  });
+
+  app.patch("/api/tasks/:id/priority", authMiddleware, requirePermission(TASK_EXECUTORS), async (req, res) => {
+    try {
+      const priority = parseTaskPriority(req.body);
+
+      if (!priority) {
+        return res.status(400).json({ message: "Неверный приоритет или срок задачи" });
+      }
+
+      const task = await storage.updateTaskPriority(Number(req.params.id), priority.priority, priority.dueAt);
+
+      if (!task) {
+        return res.status(404).json({ message: "Задача не найдена" });
+      }
+
+      res.json(task);
+    } catch (error) {
+      console.error("Error updating task priority:", error);
+      res.status(500).json({ message: "Не удалось обновить приоритет задачи" });
+    }
+  });
+
+  app.patch("/api/tasks/:id/assign", authMiddleware, requirePermission(TASK_EXECUTORS), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const userId = Number(req.body.userId);
+
+      if (!Number.isInteger(userId) || userId <= 0) {
+        return res.status(400).json({ message: "Не указан исполнитель" });
+      }
+
+      if (!(await getTaskAssignees()).some(assignee => assignee.id === userId)) {
+        return res.status(400).json({ message: "Исполнитель не найден" });
+      }
+
+      const task = await storage.assignTask(Number(id), userId);
+
+      if (!task) {
+        return res.status(404).json({ message: "Задача не найдена" });
+      }
+
+      // Notify the newly assigned user
+      await notifyTaskAssigned(task.id);
+
+      res.json(task);
+    } catch (error) {
+      console.error("Error assigning task:", error);
+      res.status(500).json({ message: "Не удалось назначить задачу" });
+    }
+  });
+
+  // Task comments
+  app.get("/api/tasks/:id/comments", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.TASKS }), async (req, res) => {
+    try {
+      const task = await storage.getTaskById(Number(req.params.id));
+
+      if (!task) {
+        return res.status(404).json({ message: "Задача не найдена" });
+      }
+
+      if (!canSeeTask(req.currentUser!, task)) {
+        return res.status(403).json({ message: "У вас нет доступа к этой задаче" });
+      }
+
+      const comments = await storage.getTaskComments(task.id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching task comments:", error);
+      res.status(500).json({ message: "Не удалось загрузить комментарии" });
+    }
+  });
+
+  app.post("/api/tasks/:id/comments", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.TASKS }), async (req, res) => {
+    try {
+      const comment = typeof req.body.comment === "string" ? req.body.comment.trim() : "";
+
+      if (!comment) {
+        return res.status(400).json({ message: "Комментарий не может быть пустым" });
+      }
+
+      const task = await storage.getTaskById(Number(req.params.id));
+
+      if (!task) {
+        return res.status(404).json({ message: "Задача не найдена" });
+      }
+
+      const user = req.currentUser!;
+
+      if (!canSeeTask(user, task)) {
+        return res.status(403).json({ message: "У вас нет доступа к этой задаче" });
+      }
+
+      const created = await storage.addTaskComment(task.id, user.id, comment);
+
+      // Relay to the creator and the assignee in Telegram
+      await notifyTaskComment(task, user, created.comment);
+
+      const { permissions, ...author } = user;
+      res.status(201).json({ ...created, user: author });
+    } catch (error) {
+      console.error("Error adding task comment:", error);
+      res.status(500).json({ message: "Не удалось добавить комментарий" });
+    }
+  });
+
+  // Secure passwords
+  app.get("/api/secure-passwords", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.PASSWORDS }), async (req, res) => {
+    try {
+      // Admins see metadata of every password, others only their own
+      const user = req.currentUser!;
+      const passwords = isAdminUser(user)
+          ? await storage.getSecurePasswords()
+          : await storage.getUserSecurePasswords(user.id);
+      res.json(passwords);
+    } catch (error) {
+      console.error("Error fetching secure passwords:", error);
+      res.status(500).json({ message: "Не удалось загрузить безопасные пароли" });
+    }
+  });
+
+  app.post("/api/secure-passwords", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.PASSWORDS }), async (req, res) => {
+    try {
+      const senderId = req.currentUser!.id;
+
+      const { receiverId, title, type, content, lifetime } = req.body;
+
+      if (!receiverId || !title || !type || !content) {
+        return res.status(400).json({ message: "Получатель, название, тип и содержимое обязательны" });
+      }
+
+      if (lifetime && !Object.values(schema.SECURE_PASSWORD_LIFETIME).includes(lifetime)) {
+        return res.status(400).json({ message: "Неверный срок хранения" });
+      }
+
+      const securePassword = await storage.createSecurePassword({
+        senderId,
+        receiverId: Number(receiverId),
+        title,
+        type,
+        content,
+        lifetime
+      });
+
+      // Notify the receiver
+      const receiver = await storage.getUserById(securePassword.receiverId);
+      const sender = await storage.getUserById(securePassword.senderId);
+
+      if (receiver && sender) {
+        await notifySecurePasswordReceived(securePassword, sender, receiver);
       }
 
       res.status(201).json(securePassword);
@@ -480,10 +2280,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/secure-passwords/:id/read", authMiddleware, async (req, res) => {
+  app.get("/api/secure-passwords/:id", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.PASSWORDS }), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.currentUser!;
+      const password = await storage.getSecurePasswordById(Number(id));
+
+      if (!password) {
+        return res.status(404).json({ message: "Пароль не найден" });
+      }
+
+      // Content is only ever shown to the sender and the receiver, admins included
+      if (password.senderId !== user.id && password.receiverId !== user.id) {
+        return res.status(403).json({ message: "У вас нет доступа к этому паролю" });
+      }
+
+      res.json(await storage.revealSecurePassword(password.id, user.id));
+    } catch (error) {
+      console.error("Error fetching secure password:", error);
+      res.status(500).json({ message: "Не удалось загрузить безопасный пароль" });
+    }
+  });
+
+  app.post("/api/admin/secure-passwords/reencrypt", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      // License keys are encrypted with the same master key
+      const passwords = await storage.reencryptSecurePasswords();
+      const licenses = await storage.reencryptLicenseKeys();
+
+      res.json({
+        updated: passwords.updated + licenses.updated,
+        total: passwords.total + licenses.total,
+        keyVersion: passwords.keyVersion
+      });
+    } catch (error) {
+      console.error("Error re-encrypting secure passwords:", error);
+      res.status(500).json({ message: "Не удалось перешифровать безопасные пароли" });
+    }
+  });
+
+  app.patch("/api/secure-passwords/:id/read", authMiddleware, requirePermission({ chatType: schema.CHAT_TYPES.PASSWORDS }), async (req, res) => {
     try {
       const { id } = req.params;
-      const updated = await storage.markPasswordAsRead(Number(id));
+      const password = await storage.getSecurePasswordById(Number(id));
+
+      if (!password) {
+        return res.status(404).json({ message: "Пароль не найден" });
+      }
+
+      if (password.receiverId !== req.currentUser!.id) {
+        return res.status(403).json({ message: "Отметить прочтение может только получатель" });
+      }
+
+      const updated = await storage.markPasswordAsRead(password.id);
       res.json(updated);
     } catch (error) {
       console.error("Error marking password as read:", error);
@@ -492,7 +2341,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Bot settings
-  app.get("/api/bot-settings", authMiddleware, async (req, res) => {
+  app.get("/api/bot-settings", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
     try {
       const settings = await storage.getBotSettings();
       res.json(settings);
@@ -502,13 +2351,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/bot-settings", authMiddleware, async (req, res) => {
+  app.patch("/api/bot-settings", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
     try {
-      const settings = await storage.updateBotSettings(req.body);
+      const previous = await storage.getBotSettings();
+
+      // The webhook secret is never edited in the panel: it is kept between saves and generated on first use
+      const webhookSecret = previous?.webhookSecret ||
+        (req.body.updateMode === schema.BOT_UPDATE_MODE.WEBHOOK ? crypto.randomBytes(32).toString("hex") : undefined);
 
-      // Restart bot with new token if provided
-      if (req.body.botToken) {
-        setupBot(req.body.botToken);
+      const settings = await storage.updateBotSettings({ ...req.body, webhookSecret });
+
+      // Next runs follow the new schedule right away
+      await rescheduleJobs(settings);
+
+      // Restart the bot when the token or the way it receives updates changed
+      const launchOptions = getBotLaunchOptions(settings);
+      const previousLaunchOptions = getBotLaunchOptions(previous);
+      const needsRestart = !telegramBot ||
+        previous?.botToken !== settings.botToken ||
+        launchOptions.mode !== previousLaunchOptions.mode ||
+        launchOptions.webhookUrl !== previousLaunchOptions.webhookUrl;
+
+      if (settings.botToken && needsRestart) {
+        setupBot(settings.botToken, launchOptions);
       }
 
       res.json(settings);
@@ -518,28 +2383,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Notification outbox
+  app.get("/api/notifications", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const { status } = req.query;
+      const notifications = await storage.getNotifications(status as string | undefined);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Не удалось загрузить уведомления" });
+    }
+  });
+
+  app.post("/api/notifications/:id/resend", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const notification = await storage.resendNotification(Number(req.params.id));
+
+      if (!notification) {
+        return res.status(404).json({ message: "Уведомление не найдено" });
+      }
+
+      res.json(notification);
+    } catch (error) {
+      console.error("Error resending notification:", error);
+      res.status(500).json({ message: "Не удалось поставить уведомление в очередь" });
+    }
+  });
+
+  // Scheduled jobs
+  app.get("/api/scheduled-jobs", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const jobs = await storage.getScheduledJobs();
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching scheduled jobs:", error);
+      res.status(500).json({ message: "Не удалось загрузить расписание" });
+    }
+  });
+
+  app.post("/api/scheduled-jobs/:name/run", authMiddleware, requirePermission({ adminOnly: true }), async (req, res) => {
+    try {
+      const result = await runScheduledJobNow(req.params.name);
+
+      if (!result) {
+        return res.status(404).json({ message: "Задание не найдено" });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error running scheduled job:", error);
+      res.status(500).json({ message: "Не удалось запустить задание" });
+    }
+  });
+
   return httpServer;
 }
 
-// Helper functions for translating status to Russian
-function taskStatusToRussian(status: string): string {
-  const translations: Record<string, string> = {
-    [schema.TASK_STATUS.NEW]: "Новая",
-    [schema.TASK_STATUS.IN_PROGRESS]: "В процессе",
-    [schema.TASK_STATUS.COMPLETED]: "Выполнено",
-    [schema.TASK_STATUS.URGENT]: "Срочно"
-  };
+/**
+ * Priority and due date from a request body; missing fields mean normal priority without a due date.
+ * Returns null when either value is invalid.
+ */
+function parseTaskPriority(body: { priority?: unknown, dueAt?: unknown }): { priority: schema.TaskPriority, dueAt: Date | null } | null {
+  const priority = body.priority ?? schema.TASK_PRIORITY.NORMAL;
 
-  return translations[status] || status;
-}
+  if (!Object.values(schema.TASK_PRIORITY).includes(priority as schema.TaskPriority)) {
+    return null;
+  }
 
-function securePasswordTypeToRussian(type: string): string {
-  const translations: Record<string, string> = {
-    "credentials": "Учетные данные",
-    "password": "Пароль",
-    "api_key": "API ключ",
-    "other": "Другое"
-  };
+  if (!body.dueAt) {
+    return { priority: priority as schema.TaskPriority, dueAt: null };
+  }
 
-  return translations[type] || type;
-}
\ No newline at end of file
+  const dueAt = new Date(body.dueAt as string);
+
+  if (isNaN(dueAt.getTime())) {
+    return null;
+  }
+
+  return { priority: priority as schema.TaskPriority, dueAt };
+}
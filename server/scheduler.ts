@@ -0,0 +1,441 @@
+import { storage } from "./storage";
+import { notifyTaskDigest, notifyStaleTask, notifyUnreadSecurePasswords, notifyEquipmentReceiptReminder, notifyWarrantyExpiring, notifyRepairOverdue, notifyLicenseExpiring } from "./bot";
+import * as schema from "@shared/schema";
+
+const SCHEDULER_TICK_MS = 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Schedules and quiet hours from settings.schedule. Times are "HH:MM" in the server time zone.
+export interface ScheduleSettings {
+  digestEnabled: boolean;
+  digestTime: string;
+  staleTaskReminderEnabled: boolean;
+  staleTaskAfterHours: number;
+  staleTaskReminderIntervalHours: number;
+  unreadPasswordReminderEnabled: boolean;
+  unreadPasswordAfterHours: number;
+  unreadPasswordReminderIntervalHours: number;
+  equipmentReceiptReminderEnabled: boolean;
+  equipmentReceiptAfterHours: number;
+  equipmentReceiptReminderIntervalHours: number;
+  warrantyAlertEnabled: boolean;
+  warrantyAlertDaysAhead: number;
+  repairOverdueAlertEnabled: boolean;
+  repairOverdueAfterDays: number;
+  licenseExpiryAlertEnabled: boolean;
+  licenseExpiryDaysAhead: number;
+  // Empty or equal start and end turn quiet hours off
+  quietHoursStart: string;
+  quietHoursEnd: string;
+}
+
+type ScheduleKey = keyof ScheduleSettings;
+
+// Settings whose values are of the given type
+type ScheduleKeyWith<T> = { [K in ScheduleKey]: ScheduleSettings[K] extends T ? K : never }[ScheduleKey];
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  digestEnabled: true,
+  digestTime: "09:00",
+  staleTaskReminderEnabled: true,
+  staleTaskAfterHours: 24,
+  staleTaskReminderIntervalHours: 4,
+  unreadPasswordReminderEnabled: true,
+  unreadPasswordAfterHours: 2,
+  unreadPasswordReminderIntervalHours: 6,
+  equipmentReceiptReminderEnabled: true,
+  equipmentReceiptAfterHours: 24,
+  equipmentReceiptReminderIntervalHours: 24,
+  warrantyAlertEnabled: true,
+  warrantyAlertDaysAhead: 30,
+  repairOverdueAlertEnabled: true,
+  repairOverdueAfterDays: 14,
+  licenseExpiryAlertEnabled: true,
+  licenseExpiryDaysAhead: 30,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "08:00"
+};
+
+interface JobDefinition {
+  name: schema.ScheduledJobName;
+  isEnabled(schedule: ScheduleSettings): boolean;
+  // First run strictly after the given time
+  nextRunAfter(schedule: ScheduleSettings, after: Date): Date;
+  // Queues the notifications and returns how many were queued
+  run(schedule: ScheduleSettings): Promise<number>;
+}
+
+export interface JobRunResult {
+  sentCount: number;
+  error: string | null;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Minutes since midnight of an "HH:MM" string, or null when it is not a valid time
+ */
+function parseTime(value: string | undefined): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() || "");
+
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return null;
+  }
+
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Next moment after the given time when the clock shows the given minutes since midnight
+ */
+function nextTimeOfDay(minutes: number, after: Date): Date {
+  const candidate = new Date(after);
+  candidate.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+
+  if (candidate <= after) {
+    candidate.setTime(candidate.getTime() + DAY_MS);
+  }
+
+  return candidate;
+}
+
+/**
+ * Whether the setting holds a value of the given type, judging by its default
+ */
+function isScheduleKeyOf<T extends "boolean" | "number">(
+  key: ScheduleKey,
+  type: T
+): key is ScheduleKeyWith<T extends "boolean" ? boolean : number> {
+  return typeof DEFAULT_SCHEDULE_SETTINGS[key] === type;
+}
+
+/**
+ * Schedule settings from bot settings, falling back to the defaults for missing or invalid values
+ */
+export function getScheduleSettings(settings: any): ScheduleSettings {
+  const saved: Partial<Record<ScheduleKey, unknown>> = settings?.schedule || {};
+  const schedule = { ...DEFAULT_SCHEDULE_SETTINGS };
+
+  for (const key of Object.keys(DEFAULT_SCHEDULE_SETTINGS) as ScheduleKey[]) {
+    const value = saved[key];
+
+    if (isScheduleKeyOf(key, "boolean")) {
+      if (typeof value === "boolean") {
+        schedule[key] = value;
+      }
+    } else if (isScheduleKeyOf(key, "number")) {
+      if (Number(value) > 0) {
+        schedule[key] = Number(value);
+      }
+    } else if (typeof value === "string" && (value === "" || parseTime(value) !== null)) {
+      schedule[key] = value;
+    }
+  }
+
+  return schedule;
+}
+
+/**
+ * End of the quiet hours the given time falls into, or null outside quiet hours
+ */
+export function getQuietHoursEnd(schedule: ScheduleSettings, now: Date): Date | null {
+  const start = parseTime(schedule.quietHoursStart);
+  const end = parseTime(schedule.quietHoursEnd);
+
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const isQuiet = start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+
+  return isQuiet ? nextTimeOfDay(end, now) : null;
+}
+
+const JOBS: JobDefinition[] = [
+  {
+    name: schema.SCHEDULED_JOBS.TASK_DIGEST,
+    isEnabled: schedule => schedule.digestEnabled,
+    nextRunAfter: (schedule, after) =>
+      nextTimeOfDay(parseTime(schedule.digestTime) ?? parseTime(DEFAULT_SCHEDULE_SETTINGS.digestTime)!, after),
+    async run() {
+      const sysadmins = (await storage.getUsersWithChatAccess(schema.CHAT_TYPES.TASKS))
+        .filter(user => user.role === schema.ROLES.SYSADMIN);
+      const openTasks = await storage.getOpenTasks();
+      let sent = 0;
+
+      for (const sysadmin of sysadmins) {
+        const tasks = openTasks.filter(task => task.assignedToUserId === sysadmin.id);
+
+        if (tasks.length > 0) {
+          await notifyTaskDigest(sysadmin, tasks);
+          sent++;
+        }
+      }
+
+      return sent;
+    }
+  },
+  {
+    name: schema.SCHEDULED_JOBS.STALE_TASK_REMINDER,
+    isEnabled: schedule => schedule.staleTaskReminderEnabled,
+    nextRunAfter: (schedule, after) => new Date(after.getTime() + schedule.staleTaskReminderIntervalHours * HOUR_MS),
+    async run(schedule) {
+      // A tick of slack, so tasks reminded on the previous scheduled run are due again on this one
+      const tasks = await storage.getStaleNewTasks(
+        new Date(Date.now() - schedule.staleTaskAfterHours * HOUR_MS),
+        new Date(Date.now() - schedule.staleTaskReminderIntervalHours * HOUR_MS + SCHEDULER_TICK_MS)
+      );
+      const reminded: number[] = [];
+
+      for (const task of tasks) {
+        if (task.createdBy) {
+          await notifyStaleTask({ ...task, createdBy: task.createdBy });
+          reminded.push(task.id);
+        }
+      }
+
+      await storage.markStaleTasksReminded(reminded);
+      return reminded.length;
+    }
+  },
+  {
+    name: schema.SCHEDULED_JOBS.UNREAD_PASSWORD_REMINDER,
+    isEnabled: schedule => schedule.unreadPasswordReminderEnabled,
+    nextRunAfter: (schedule, after) => new Date(after.getTime() + schedule.unreadPasswordReminderIntervalHours * HOUR_MS),
+    async run(schedule) {
+      const passwords = await storage.getUnreadSecurePasswords(new Date(Date.now() - schedule.unreadPasswordAfterHours * HOUR_MS));
+      const byReceiver = new Map<number, typeof passwords>();
+
+      for (const password of passwords) {
+        byReceiver.set(password.receiverId, [...(byReceiver.get(password.receiverId) || []), password]);
+      }
+
+      let sent = 0;
+
+      for (const receiverPasswords of Array.from(byReceiver.values())) {
+        const receiver = receiverPasswords[0].receiver;
+
+        if (receiver) {
+          await notifyUnreadSecurePasswords(receiver, receiverPasswords);
+          sent++;
+        }
+      }
+
+      return sent;
+    }
+  },
+  {
+    name: schema.SCHEDULED_JOBS.EQUIPMENT_RECEIPT_REMINDER,
+    isEnabled: schedule => schedule.equipmentReceiptReminderEnabled,
+    nextRunAfter: (schedule, after) => new Date(after.getTime() + schedule.equipmentReceiptReminderIntervalHours * HOUR_MS),
+    async run(schedule) {
+      const items = await storage.getPendingEquipmentReceipts(new Date(Date.now() - schedule.equipmentReceiptAfterHours * HOUR_MS));
+      const byAct = new Map<number, typeof items>();
+
+      for (const item of items) {
+        if (item.receiptActId) {
+          byAct.set(item.receiptActId, [...(byAct.get(item.receiptActId) || []), item]);
+        }
+      }
+
+      let sent = 0;
+
+      for (const [actId, actItems] of Array.from(byAct.entries())) {
+        const holder = actItems[0].assignedUser;
+        const act = await storage.getTransferActById(actId);
+
+        if (holder && act) {
+          await notifyEquipmentReceiptReminder(holder, act, actItems);
+          sent++;
+        }
+      }
+
+      return sent;
+    }
+  },
+  {
+    name: schema.SCHEDULED_JOBS.WARRANTY_EXPIRY_ALERT,
+    isEnabled: schedule => schedule.warrantyAlertEnabled,
+    // Checked once a day, at the time of the morning digest
+    nextRunAfter: (schedule, after) =>
+      nextTimeOfDay(parseTime(schedule.digestTime) ?? parseTime(DEFAULT_SCHEDULE_SETTINGS.digestTime)!, after),
+    async run(schedule) {
+      const until = new Date(Date.now() + schedule.warrantyAlertDaysAhead * DAY_MS).toISOString().slice(0, 10);
+      const items = await storage.getEquipmentWithWarrantyEnding(until);
+
+      if (items.length === 0) {
+        return 0;
+      }
+
+      const sysadmins = (await storage.getUsersWithChatAccess(schema.CHAT_TYPES.EQUIPMENT))
+        .filter(user => user.role === schema.ROLES.SYSADMIN);
+
+      for (const sysadmin of sysadmins) {
+        await notifyWarrantyExpiring(sysadmin, items);
+      }
+
+      // Without sysadmins the items are left for the next run
+      if (sysadmins.length > 0) {
+        await storage.markWarrantyNotified(items.map(item => item.id));
+      }
+
+      return sysadmins.length;
+    }
+  },
+  {
+    name: schema.SCHEDULED_JOBS.REPAIR_OVERDUE_ALERT,
+    isEnabled: schedule => schedule.repairOverdueAlertEnabled,
+    // Checked once a day, at the time of the morning digest
+    nextRunAfter: (schedule, after) =>
+      nextTimeOfDay(parseTime(schedule.digestTime) ?? parseTime(DEFAULT_SCHEDULE_SETTINGS.digestTime)!, after),
+    async run(schedule) {
+      const sentBefore = new Date(Date.now() - schedule.repairOverdueAfterDays * DAY_MS).toISOString().slice(0, 10);
+      const orders = await storage.getOverdueRepairOrders(sentBefore);
+
+      if (orders.length === 0) {
+        return 0;
+      }
+
+      const sysadmins = (await storage.getUsersWithChatAccess(schema.CHAT_TYPES.EQUIPMENT))
+        .filter(user => user.role === schema.ROLES.SYSADMIN);
+
+      for (const sysadmin of sysadmins) {
+        await notifyRepairOverdue(sysadmin, orders);
+      }
+
+      // Without sysadmins the repairs are left for the next run
+      if (sysadmins.length > 0) {
+        await storage.markRepairOverdueNotified(orders.map(order => order.id));
+      }
+
+      return sysadmins.length;
+    }
+  },
+  {
+    name: schema.SCHEDULED_JOBS.LICENSE_EXPIRY_ALERT,
+    isEnabled: schedule => schedule.licenseExpiryAlertEnabled,
+    // Checked once a day, at the time of the morning digest
+    nextRunAfter: (schedule, after) =>
+      nextTimeOfDay(parseTime(schedule.digestTime) ?? parseTime(DEFAULT_SCHEDULE_SETTINGS.digestTime)!, after),
+    async run(schedule) {
+      const until = new Date(Date.now() + schedule.licenseExpiryDaysAhead * DAY_MS).toISOString().slice(0, 10);
+      const licenses = await storage.getLicensesWithExpiryEnding(until);
+
+      if (licenses.length === 0) {
+        return 0;
+      }
+
+      const sysadmins = (await storage.getUsersWithChatAccess(schema.CHAT_TYPES.EQUIPMENT))
+        .filter(user => user.role === schema.ROLES.SYSADMIN);
+
+      for (const sysadmin of sysadmins) {
+        await notifyLicenseExpiring(sysadmin, licenses);
+      }
+
+      // Without sysadmins the licenses are left for the next run
+      if (sysadmins.length > 0) {
+        await storage.markLicenseExpiryNotified(licenses.map(license => license.id));
+      }
+
+      return sysadmins.length;
+    }
+  }
+];
+
+/**
+ * Run a job and record the outcome
+ */
+async function executeJob(job: JobDefinition, schedule: ScheduleSettings): Promise<JobRunResult> {
+  let result: JobRunResult;
+
+  try {
+    result = { sentCount: await job.run(schedule), error: null };
+  } catch (error) {
+    console.error(`Scheduled job ${job.name} failed:`, error);
+    result = { sentCount: 0, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  await storage.finishScheduledJob(job.name, result);
+  return result;
+}
+
+/**
+ * Start due jobs. Jobs that fall into quiet hours are postponed until the quiet hours end.
+ */
+async function runDueJobs() {
+  try {
+    const schedule = getScheduleSettings(await storage.getBotSettings());
+    const now = new Date();
+
+    for (const job of JOBS) {
+      if (!job.isEnabled(schedule)) {
+        continue;
+      }
+
+      const state = await storage.ensureScheduledJob(job.name, job.nextRunAfter(schedule, now));
+
+      if (!state || state.nextRunAt > now) {
+        continue;
+      }
+
+      const quietHoursEnd = getQuietHoursEnd(schedule, now);
+
+      if (quietHoursEnd) {
+        await storage.claimScheduledJob(job.name, state.nextRunAt, quietHoursEnd);
+        continue;
+      }
+
+      if (await storage.claimScheduledJob(job.name, state.nextRunAt, job.nextRunAfter(schedule, now))) {
+        await executeJob(job, schedule);
+      }
+    }
+  } catch (error) {
+    console.error("Scheduler tick failed:", error);
+  }
+}
+
+/**
+ * Run a job right away, ignoring its schedule and quiet hours. Used to test jobs from the panel.
+ */
+export async function runScheduledJobNow(name: string): Promise<JobRunResult | null> {
+  const job = JOBS.find(definition => definition.name === name);
+
+  if (!job) {
+    return null;
+  }
+
+  const schedule = getScheduleSettings(await storage.getBotSettings());
+  await storage.ensureScheduledJob(job.name, job.nextRunAfter(schedule, new Date()));
+
+  return executeJob(job, schedule);
+}
+
+/**
+ * Recalculate next runs after the schedule in settings was changed
+ */
+export async function rescheduleJobs(settings: any) {
+  const schedule = getScheduleSettings(settings);
+  const now = new Date();
+
+  for (const job of JOBS) {
+    const nextRunAt = job.nextRunAfter(schedule, now);
+    await storage.ensureScheduledJob(job.name, nextRunAt);
+    await storage.rescheduleJob(job.name, nextRunAt);
+  }
+}
+
+/**
+ * Start the in-process scheduler. Job state lives in the scheduled_jobs table, so runs survive restarts.
+ */
+export function startScheduler() {
+  if (schedulerTimer) {
+    return;
+  }
+
+  schedulerTimer = setInterval(runDueJobs, SCHEDULER_TICK_MS);
+  runDueJobs();
+}
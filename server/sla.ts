@@ -0,0 +1,110 @@
+import { storage } from "./storage";
+import { notifyTaskSlaBreach } from "./bot";
+import * as schema from "@shared/schema";
+
+const SLA_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a task may wait to be taken into work and to be completed, in hours
+export interface SlaTarget {
+  responseHours: number;
+  resolveHours: number;
+}
+
+export type SlaTargets = Record<schema.TaskPriority, SlaTarget>;
+
+// Used for priorities without an override in settings.slaTargets
+export const DEFAULT_SLA_TARGETS: SlaTargets = {
+  [schema.TASK_PRIORITY.LOW]: { responseHours: 24, resolveHours: 120 },
+  [schema.TASK_PRIORITY.NORMAL]: { responseHours: 8, resolveHours: 48 },
+  [schema.TASK_PRIORITY.HIGH]: { responseHours: 2, resolveHours: 24 },
+  [schema.TASK_PRIORITY.URGENT]: { responseHours: 1, resolveHours: 4 }
+};
+
+export interface TaskSla {
+  responseDueAt: Date;
+  resolveDueAt: Date;
+  // Not taken into work in time
+  isResponseOverdue: boolean;
+  // Not completed in time
+  isOverdue: boolean;
+}
+
+let slaTimer: NodeJS.Timeout | null = null;
+
+/**
+ * SLA targets from bot settings, falling back to the defaults for missing or invalid values
+ */
+export function getSlaTargets(settings: any): SlaTargets {
+  const targets = { ...DEFAULT_SLA_TARGETS };
+
+  for (const priority of Object.values(schema.TASK_PRIORITY)) {
+    const override = settings?.slaTargets?.[priority];
+    const responseHours = Number(override?.responseHours);
+    const resolveHours = Number(override?.resolveHours);
+
+    targets[priority] = {
+      responseHours: responseHours > 0 ? responseHours : DEFAULT_SLA_TARGETS[priority].responseHours,
+      resolveHours: resolveHours > 0 ? resolveHours : DEFAULT_SLA_TARGETS[priority].resolveHours
+    };
+  }
+
+  return targets;
+}
+
+/**
+ * Deadlines of a task. An explicit due date replaces the resolve target of its priority.
+ */
+export function computeTaskSla(task: schema.Task, targets: SlaTargets, now: Date = new Date()): TaskSla {
+  const target = targets[task.priority as schema.TaskPriority] || targets[schema.TASK_PRIORITY.NORMAL];
+  const createdAt = new Date(task.createdAt).getTime();
+  const isCompleted = task.status === schema.TASK_STATUS.COMPLETED;
+
+  const responseDueAt = new Date(createdAt + target.responseHours * HOUR_MS);
+  const resolveDueAt = task.dueAt ? new Date(task.dueAt) : new Date(createdAt + target.resolveHours * HOUR_MS);
+
+  return {
+    responseDueAt,
+    resolveDueAt,
+    isResponseOverdue: !isCompleted && !task.startedAt && now > responseDueAt,
+    isOverdue: !isCompleted && now > resolveDueAt
+  };
+}
+
+/**
+ * Warn about open tasks that just missed a deadline; each warning is sent once
+ */
+async function checkTaskSla() {
+  try {
+    const targets = getSlaTargets(await storage.getBotSettings());
+    const tasks = await storage.getOpenTasks();
+
+    for (const task of tasks) {
+      const sla = computeTaskSla(task, targets);
+
+      if (sla.isResponseOverdue && !task.responseBreachNotifiedAt) {
+        await notifyTaskSlaBreach(task, 'response', sla.responseDueAt);
+        await storage.markTaskSlaBreachNotified(task.id, 'response');
+      }
+
+      if (sla.isOverdue && !task.resolveBreachNotifiedAt) {
+        await notifyTaskSlaBreach(task, 'resolve', sla.resolveDueAt);
+        await storage.markTaskSlaBreachNotified(task.id, 'resolve');
+      }
+    }
+  } catch (error) {
+    console.error("Task SLA check failed:", error);
+  }
+}
+
+/**
+ * Start the background check of task deadlines
+ */
+export function startTaskSlaMonitor() {
+  if (slaTimer) {
+    return;
+  }
+
+  slaTimer = setInterval(checkTaskSla, SLA_CHECK_INTERVAL_MS);
+  checkTaskSla();
+}
@@ -0,0 +1,98 @@
+import * as XLSX from 'xlsx';
+import * as schema from "@shared/schema";
+
+export const STOCKTAKING_REPORT_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export interface StocktakingProgress {
+  total: number;
+  checked: number;
+  present: number;
+  missing: number;
+  damaged: number;
+  // Missing or damaged items
+  discrepancies: number;
+}
+
+type StocktakingItemWithHolder = schema.StocktakingItem & { holder: schema.User | null };
+
+const RESULT_NAMES: Record<string, string> = {
+  [schema.STOCKTAKING_RESULT.PRESENT]: "На месте",
+  [schema.STOCKTAKING_RESULT.MISSING]: "Отсутствует",
+  [schema.STOCKTAKING_RESULT.DAMAGED]: "Неисправно"
+};
+
+/**
+ * Count checked items and discrepancies of a stocktaking
+ */
+export function summarizeStocktaking(items: schema.StocktakingItem[]): StocktakingProgress {
+  const count = (result: schema.StocktakingResult) => items.filter(item => item.result === result).length;
+  const missing = count(schema.STOCKTAKING_RESULT.MISSING);
+  const damaged = count(schema.STOCKTAKING_RESULT.DAMAGED);
+
+  return {
+    total: items.length,
+    checked: items.filter(item => item.result).length,
+    present: count(schema.STOCKTAKING_RESULT.PRESENT),
+    missing,
+    damaged,
+    discrepancies: missing + damaged
+  };
+}
+
+function holderName(item: StocktakingItemWithHolder): string {
+  if (!item.holder) {
+    return "Склад";
+  }
+
+  return `${item.holder.lastName || ''} ${item.holder.firstName || ''}`.trim() || item.holder.username || "";
+}
+
+function itemRow(item: StocktakingItemWithHolder): (string | number)[] {
+  return [
+    item.inventoryNumber,
+    item.name,
+    item.type,
+    holderName(item),
+    item.result ? RESULT_NAMES[item.result] || item.result : "Не проверено",
+    item.checkedAt ? new Date(item.checkedAt).toLocaleString('ru-RU') : "",
+    item.photoFileId ? "Да" : ""
+  ];
+}
+
+/**
+ * Reconciliation report: summary, every item with its result, and the items that need attention
+ */
+export function buildStocktakingReport(stocktaking: schema.Stocktaking & { items: StocktakingItemWithHolder[] }): Buffer {
+  const progress = summarizeStocktaking(stocktaking.items);
+  const wb = XLSX.utils.book_new();
+
+  const summary = [
+    ['Инвентаризация', stocktaking.title],
+    ['Отдел', stocktaking.department || 'Все'],
+    ['Тип имущества', stocktaking.equipmentType || 'Все'],
+    ['Начата', new Date(stocktaking.createdAt).toLocaleString('ru-RU')],
+    ['Завершена', stocktaking.completedAt ? new Date(stocktaking.completedAt).toLocaleString('ru-RU') : 'Идет'],
+    [],
+    ['Всего предметов', progress.total],
+    ['Проверено', progress.checked],
+    ['На месте', progress.present],
+    ['Отсутствует', progress.missing],
+    ['Неисправно', progress.damaged],
+    ['Не проверено', progress.total - progress.checked]
+  ];
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summary), "Итоги");
+
+  const header = ['Инвентарный номер', 'Наименование', 'Тип', 'Материально ответственный', 'Результат', 'Дата проверки', 'Фото'];
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    header,
+    ...stocktaking.items.map(itemRow)
+  ]), "Сверка");
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([
+    header,
+    ...stocktaking.items.filter(item => item.result !== schema.STOCKTAKING_RESULT.PRESENT).map(itemRow)
+  ]), "Расхождения");
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
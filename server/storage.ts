@@ -1,7 +1,284 @@
 import { db } from "../db";
-import { eq, desc, and, like, or } from "drizzle-orm";
+import { eq, ne, desc, and, like, or, lte, gte, isNull, isNotNull, inArray, max, sql } from "drizzle-orm";
 import * as schema from "@shared/schema";
 import { leftJoin } from "drizzle-orm";
+import { hashPassword, generatePassword } from "./credentials";
+import { encryptContent, decryptContent, reencryptContent, getCurrentKeyVersion } from "./encryption";
+import { locationPaths } from "./locations";
+import { findDepartment, groupDepartmentNames } from "./departments";
+
+// Secure password as accepted from the panel and the bot, before encryption
+export type NewSecurePassword = {
+    senderId: number;
+    receiverId: number;
+    title: string;
+    type: string;
+    content: string;
+    lifetime?: schema.SecurePasswordLifetime;
+};
+
+// File attached in the bot, before it is linked to a task or a secure password
+export type NewAttachment = {
+    kind: schema.AttachmentKind;
+    telegramFileId: string;
+    fileName?: string | null;
+};
+
+// Bot notification as queued by notify* functions
+export type NewNotification = {
+    userId?: number | null;
+    chatId: string;
+    category: string;
+    kind?: schema.NotificationKind;
+    text?: string | null;
+    telegramFileId?: string | null;
+    extra?: Record<string, unknown> | null;
+};
+
+// Filters of the equipment list, used by the panel, the export and the bot
+export type EquipmentFilters = {
+    inventoryNumber?: string;
+    employeeName?: string;
+    status?: string;
+    type?: string;
+    // Departments whose equipment is listed
+    departmentIds?: number[];
+    // A location and the locations inside it
+    locationIds?: number[];
+};
+
+// Repair order as accepted from the panel
+export type NewRepairOrder = {
+    vendor: string | null;
+    issue?: string | null;
+    sentAt: string;
+    isWarranty?: boolean;
+    taskId?: number | null;
+};
+
+// License as accepted from the panel, with the key before encryption
+export type NewLicense = {
+    product: string;
+    seats: number;
+    expiresAt?: string | null;
+    notes?: string | null;
+    // Null or an empty string removes the key
+    key?: string | null;
+};
+
+// Receipt or issue of consumables, as accepted from the panel and the bot
+export type NewStockMovement = {
+    kind: schema.StockMovementKind;
+    quantity: number;
+    issuedToUserId?: number | null;
+    taskId?: number | null;
+    comment?: string | null;
+};
+
+// Sections a role gets access to once its registration is approved
+const DEFAULT_ROLE_PERMISSIONS: Record<string, schema.ChatType[]> = {
+    [schema.ROLES.SYSADMIN]: [schema.CHAT_TYPES.EQUIPMENT, schema.CHAT_TYPES.PASSWORDS, schema.CHAT_TYPES.TASKS],
+    [schema.ROLES.ACCOUNTANT]: [schema.CHAT_TYPES.EQUIPMENT],
+    [schema.ROLES.MANAGER]: [schema.CHAT_TYPES.PASSWORDS, schema.CHAT_TYPES.TASKS],
+    [schema.ROLES.EMPLOYEE]: [schema.CHAT_TYPES.TASKS]
+};
+
+// Expiry of time-limited secure passwords, in hours
+const SECURE_PASSWORD_TTL_HOURS: Record<string, number> = {
+    [schema.SECURE_PASSWORD_LIFETIME.ONE_HOUR]: 1,
+    [schema.SECURE_PASSWORD_LIFETIME.ONE_DAY]: 24,
+    [schema.SECURE_PASSWORD_LIFETIME.ONE_WEEK]: 24 * 7
+};
+
+// Values written over a secure password whose content is destroyed
+const DESTROYED_CONTENT = {
+    encryptedContent: "",
+    encryptedDataKey: null,
+    keyVersion: null
+};
+
+// Giver or receiver in a transfer act when the equipment is not assigned to anyone
+const WAREHOUSE_NAME = "Склад";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Today as a value of a date column ("YYYY-MM-DD")
+function today(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * License without the encrypted key columns, with whether it has a key
+ */
+function withoutLicenseKey<T extends schema.License>(license: T) {
+    const { encryptedContent, encryptedDataKey, keyVersion, ...rest } = license;
+    return { ...rest, hasKey: encryptedContent !== null };
+}
+
+/**
+ * Key columns of a license; an empty key removes it
+ */
+function licenseKeyColumns(key: string | null | undefined) {
+    const trimmed = key?.trim();
+    return trimmed ? encryptContent(trimmed) : { encryptedContent: null, encryptedDataKey: null, keyVersion: null };
+}
+
+/**
+ * Record a change of holder: a numbered transfer act with a copy of the items, and equipment history entries
+ */
+async function recordTransfer(
+    tx: Transaction,
+    items: schema.Equipment[],
+    fromUserId: number | null,
+    toUserId: number | null,
+    createdByUserId?: number
+) {
+    // The lock keeps act numbers sequential when two transfers run at the same time
+    await tx.execute(sql`LOCK TABLE ${schema.transferActs} IN EXCLUSIVE MODE`);
+
+    const [{ lastNumber }] = await tx.select({ lastNumber: max(schema.transferActs.number) })
+        .from(schema.transferActs);
+
+    const holderName = async (userId: number | null) => {
+        const user = userId ? await tx.query.users.findFirst({ where: eq(schema.users.id, userId) }) : null;
+        return user ? `${user.lastName || ''} ${user.firstName || ''}`.trim() || user.username || WAREHOUSE_NAME : WAREHOUSE_NAME;
+    };
+
+    const [act] = await tx.insert(schema.transferActs)
+        .values({
+            number: (lastNumber || 0) + 1,
+            fromUserId,
+            fromName: await holderName(fromUserId),
+            toUserId,
+            toName: await holderName(toUserId),
+            createdByUserId: createdByUserId || null
+        })
+        .returning();
+
+    const actItems = await tx.insert(schema.transferActItems)
+        .values(items.map(item => ({
+            actId: act.id,
+            equipmentId: item.id,
+            inventoryNumber: item.inventoryNumber,
+            name: item.name,
+            type: item.type
+        })))
+        .returning();
+
+    // The new holder is asked to confirm receipt in the bot
+    await tx.update(schema.equipment)
+        .set(toUserId
+            ? { receiptStatus: schema.RECEIPT_STATUS.PENDING, receiptActId: act.id, receiptRequestedAt: new Date(), receiptAnsweredAt: null }
+            : { receiptStatus: null, receiptActId: null, receiptRequestedAt: null, receiptAnsweredAt: null })
+        .where(inArray(schema.equipment.id, items.map(item => item.id)));
+
+    await tx.insert(schema.equipmentHistory)
+        .values(items.map(item => toUserId
+            ? {
+                equipmentId: item.id,
+                userId: toUserId,
+                action: "Назначено",
+                details: `Назначено пользователю: ${act.toName} (акт № ${act.number})`
+            }
+            : {
+                equipmentId: item.id,
+                action: "Возврат",
+                details: `Возвращено на склад (акт № ${act.number})`
+            }));
+
+    return { ...act, items: actItems };
+}
+
+/**
+ * Open a repair order when equipment goes to repair and close the open one when it comes back
+ */
+async function recordRepairStatus(
+    tx: Transaction,
+    equipmentId: number,
+    oldStatus: string,
+    newStatus: string,
+    createdByUserId?: number
+) {
+    if (newStatus === schema.EQUIPMENT_STATUS.REPAIR) {
+        const openOrder = await tx.query.repairOrders.findFirst({
+            where: and(eq(schema.repairOrders.equipmentId, equipmentId), isNull(schema.repairOrders.returnedAt))
+        });
+
+        if (!openOrder) {
+            await tx.insert(schema.repairOrders)
+                .values({ equipmentId, sentAt: today(), previousStatus: oldStatus, createdByUserId });
+        }
+    } else if (oldStatus === schema.EQUIPMENT_STATUS.REPAIR) {
+        await tx.update(schema.repairOrders)
+            .set({ returnedAt: today(), updatedAt: new Date() })
+            .where(and(eq(schema.repairOrders.equipmentId, equipmentId), isNull(schema.repairOrders.returnedAt)));
+    }
+}
+
+/**
+ * Record a move of equipment between locations in its history, with the full paths of both places
+ */
+async function recordMove(
+    executor: typeof db | Transaction,
+    equipmentId: number,
+    fromLocationId: number | null,
+    toLocationId: number | null,
+    userId?: number
+) {
+    const paths = locationPaths(await executor.query.locations.findMany());
+    const from = fromLocationId ? paths.get(fromLocationId) : null;
+    const to = toLocationId ? paths.get(toLocationId) : null;
+
+    await executor.insert(schema.equipmentHistory)
+        .values({
+            equipmentId,
+            userId: userId || null,
+            action: "Перемещение",
+            details: from && to ? `Перемещено: ${from} → ${to}` : to ? `Размещено: ${to}` : `Убрано из: ${from}`
+        });
+}
+
+/**
+ * Secure password with its sender and receiver. Content is decrypted unless it was burnt or has expired.
+ */
+async function findSecurePassword(executor: typeof db | Transaction, id: number) {
+    const password = await executor.query.securePasswords.findFirst({
+        where: eq(schema.securePasswords.id, id),
+        with: {
+            sender: true,
+            receiver: true
+        }
+    });
+
+    if (!password) {
+        return undefined;
+    }
+
+    const { encryptedContent, encryptedDataKey, ...rest } = password;
+    const isDestroyed = !!password.destroyedAt ||
+        (!!password.expiresAt && password.expiresAt <= new Date());
+
+    return {
+        ...rest,
+        isDestroyed,
+        content: isDestroyed ? null : decryptContent(password)
+    };
+}
+
+/**
+ * Wipe the content and attachments of a secure password, keeping only its metadata
+ */
+async function destroyPasswordContent(executor: typeof db | Transaction, id: number) {
+    await executor.delete(schema.securePasswordAttachments)
+        .where(eq(schema.securePasswordAttachments.securePasswordId, id));
+
+    await executor.update(schema.securePasswords)
+        .set({ ...DESTROYED_CONTENT, destroyedAt: new Date(), updatedAt: new Date() })
+        .where(and(
+            eq(schema.securePasswords.id, id),
+            isNull(schema.securePasswords.destroyedAt)
+        ));
+}
 
 // Create default admin user if none exists
 export async function createDefaultAdmin() {
@@ -9,43 +286,127 @@ export async function createDefaultAdmin() {
         // Check if any admin users exist
         const adminUsers = await db.query.users.findMany({
             where: eq(schema.users.isAdmin, true),
+            with: {
+                credentials: true
+            },
             limit: 1
         });
 
-        if (adminUsers.length > 0) {
+        let adminUser = adminUsers[0];
+
+        if (adminUser?.credentials) {
             console.log("Admin user already exists, skipping default admin creation");
             return;
         }
 
-        // Create default admin user
-        const [adminUser] = await db.insert(schema.users).values({
-            telegramId: "admin",
-            username: "admin",
-            firstName: "Администратор",
-            lastName: "Системы",
-            role: schema.ROLES.ADMIN,
-            isAdmin: true,
-            isRegistered: true
-        }).returning();
-
-        // Give admin user all permissions
-        for (const chatType of Object.values(schema.CHAT_TYPES)) {
-            await db.insert(schema.permissions).values({
-                userId: adminUser.id,
-                chatType,
-                hasAccess: true
-            });
+        if (!adminUser) {
+            // Create default admin user
+            const [createdAdmin] = await db.insert(schema.users).values({
+                telegramId: "admin",
+                username: "admin",
+                firstName: "Администратор",
+                lastName: "Системы",
+                role: schema.ROLES.ADMIN,
+                isAdmin: true,
+                isRegistered: true
+            }).returning();
+
+            // Give admin user all permissions
+            for (const chatType of Object.values(schema.CHAT_TYPES)) {
+                await db.insert(schema.permissions).values({
+                    userId: createdAdmin.id,
+                    chatType,
+                    hasAccess: true
+                });
+            }
+
+            adminUser = { ...createdAdmin, credentials: null };
         }
 
-        console.log("Default admin user created successfully");
-        console.log("Username: admin");
-        console.log("Password: admin123");
-        console.log("Please change the default password after first login!");
+        // Issue a one-time password that has to be changed on first login
+        const oneTimePassword = generatePassword();
+        await storage.setUserPassword(adminUser.id, oneTimePassword, true);
+
+        console.log("Default admin credentials created successfully");
+        console.log(`Username: ${adminUser.username}`);
+        console.log(`One-time password: ${oneTimePassword}`);
+        console.log("You will be asked to change this password after first login!");
     } catch (error) {
         console.error("Error creating default admin user:", error);
     }
 }
 
+// Move tasks stored with the old "urgent" status to the urgent priority
+export async function migrateLegacyUrgentTasks() {
+    try {
+        const migrated = await db.update(schema.tasks)
+            .set({ status: schema.TASK_STATUS.NEW, priority: schema.TASK_PRIORITY.URGENT })
+            .where(eq(schema.tasks.status, schema.LEGACY_TASK_STATUS_URGENT))
+            .returning({ id: schema.tasks.id });
+
+        if (migrated.length > 0) {
+            console.log(`Moved ${migrated.length} task(s) from the urgent status to the urgent priority`);
+        }
+    } catch (error) {
+        console.error("Error migrating urgent tasks:", error);
+    }
+}
+
+// Turn free-text departments of equipment and stocktakings into departments,
+// merging spellings of the same department ("IT", "IT отдел", "ИТ")
+export async function migrateEquipmentDepartments() {
+    try {
+        const legacyEquipment = await db.select({ id: schema.equipment.id, department: schema.equipment.legacyDepartment })
+            .from(schema.equipment)
+            .where(and(isNotNull(schema.equipment.legacyDepartment), isNull(schema.equipment.departmentId)));
+
+        const legacyStocktakings = await db.select({ id: schema.stocktakings.id, department: schema.stocktakings.department })
+            .from(schema.stocktakings)
+            .where(and(isNotNull(schema.stocktakings.department), isNull(schema.stocktakings.departmentId)));
+
+        if (legacyEquipment.length === 0 && legacyStocktakings.length === 0) {
+            return;
+        }
+
+        const groups = groupDepartmentNames([...legacyEquipment, ...legacyStocktakings].map(row => row.department!));
+
+        await db.transaction(async (tx) => {
+            const departments = await tx.select().from(schema.departments);
+
+            for (const [name, spellings] of Array.from(groups.entries())) {
+                // Names made only of generic words ("Отдел") have no key and match by themselves
+                let department = findDepartment(departments, name) || departments.find(item => item.name === name);
+
+                if (!department) {
+                    [department] = await tx.insert(schema.departments).values({ name }).returning();
+                    departments.push(department);
+                }
+
+                const inGroup = (row: { department: string | null }) => spellings.includes(row.department!.trim());
+                const equipmentIds = legacyEquipment.filter(inGroup).map(row => row.id);
+                const stocktakingIds = legacyStocktakings.filter(inGroup).map(row => row.id);
+
+                if (equipmentIds.length > 0) {
+                    await tx.update(schema.equipment)
+                        .set({ departmentId: department.id, legacyDepartment: null })
+                        .where(inArray(schema.equipment.id, equipmentIds));
+                }
+
+                // Stocktakings keep the old name as it was when they started
+                if (stocktakingIds.length > 0) {
+                    await tx.update(schema.stocktakings)
+                        .set({ departmentId: department.id })
+                        .where(inArray(schema.stocktakings.id, stocktakingIds));
+                }
+            }
+        });
+
+        console.log(`Moved the department of ${legacyEquipment.length} equipment item(s) to ${groups.size} department(s)`);
+    } catch (error) {
+        console.error("Error migrating equipment departments:", error);
+    }
+}
+
 export const storage = {
     /**
      * Get all users with their permissions
@@ -68,6 +429,21 @@ export const storage = {
         }));
     },
 
+    /**
+     * Get users with their names only, for lists shown to everyone but admins
+     */
+    async getUserDirectory() {
+        return db.query.users.findMany({
+            columns: {
+                id: true,
+                username: true,
+                firstName: true,
+                lastName: true
+            },
+            orderBy: [desc(schema.users.createdAt)]
+        });
+    },
+
     /**
      * Get user by ID
      */
@@ -77,6 +453,18 @@ export const storage = {
         });
     },
 
+    /**
+     * Get user by ID together with permissions
+     */
+    async getUserWithPermissions(id: number) {
+        return db.query.users.findFirst({
+            where: eq(schema.users.id, id),
+            with: {
+                permissions: true
+            }
+        });
+    },
+
     /**
      * Get user by Telegram ID
      */
@@ -89,6 +477,44 @@ export const storage = {
         });
     },
 
+    /**
+     * Get user by username together with panel credentials
+     */
+    async getUserByUsername(username: string) {
+        return db.query.users.findFirst({
+            where: eq(schema.users.username, username),
+            with: {
+                credentials: true
+            }
+        });
+    },
+
+    /**
+     * Get panel credentials of a user
+     */
+    async getUserCredentials(userId: number) {
+        return db.query.userCredentials.findFirst({
+            where: eq(schema.userCredentials.userId, userId)
+        });
+    },
+
+    /**
+     * Set panel password for a user
+     */
+    async setUserPassword(userId: number, password: string, mustChangePassword = false) {
+        const passwordHash = await hashPassword(password);
+
+        const [credentials] = await db.insert(schema.userCredentials)
+            .values({ userId, passwordHash, mustChangePassword })
+            .onConflictDoUpdate({
+                target: schema.userCredentials.userId,
+                set: { passwordHash, mustChangePassword, updatedAt: new Date() }
+            })
+            .returning();
+
+        return credentials;
+    },
+
     /**
      * Create a new user
      */
@@ -107,6 +533,18 @@ export const storage = {
         return user;
     },
 
+    /**
+     * Set or clear the department of a user
+     */
+    async updateUserDepartment(userId: number, departmentId: number | null) {
+        const [user] = await db.update(schema.users)
+            .set({ departmentId, updatedAt: new Date() })
+            .where(eq(schema.users.id, userId))
+            .returning();
+
+        return user;
+    },
+
     /**
      * Update user role
      */
@@ -166,6 +604,137 @@ export const storage = {
         };
     },
 
+    /**
+     * Grant the default section access of a role and revoke the rest
+     */
+    async setDefaultPermissions(userId: number, role: schema.Role) {
+        const granted = DEFAULT_ROLE_PERMISSIONS[role] || [];
+
+        return this.updateUserPermissions(userId, Object.fromEntries(
+            Object.values(schema.CHAT_TYPES).map(chatType => [chatType, granted.includes(chatType)])
+        ));
+    },
+
+    /**
+     * Put a role and department chosen in the bot up for approval. The user has no section access until approved.
+     */
+    async submitRegistration(userId: number, role: schema.Role, departmentId: number | null = null) {
+        const [user] = await db.update(schema.users)
+            .set({
+                role,
+                departmentId,
+                isRegistered: true,
+                registrationStatus: schema.REGISTRATION_STATUS.PENDING,
+                updatedAt: new Date()
+            })
+            .where(eq(schema.users.id, userId))
+            .returning();
+
+        await this.updateUserPermissions(userId, Object.fromEntries(
+            Object.values(schema.CHAT_TYPES).map(chatType => [chatType, false])
+        ));
+
+        return user;
+    },
+
+    /**
+     * Get registrations waiting for approval
+     */
+    async getPendingRegistrations() {
+        return db.query.users.findMany({
+            where: eq(schema.users.registrationStatus, schema.REGISTRATION_STATUS.PENDING),
+            orderBy: [desc(schema.users.updatedAt)]
+        });
+    },
+
+    /**
+     * Approve a pending registration, optionally with a different role than requested.
+     * Returns null if the registration has already been reviewed.
+     */
+    async approveRegistration(userId: number, role?: schema.Role) {
+        const [user] = await db.update(schema.users)
+            .set({
+                registrationStatus: schema.REGISTRATION_STATUS.APPROVED,
+                ...(role ? { role } : {}),
+                updatedAt: new Date()
+            })
+            .where(and(
+                eq(schema.users.id, userId),
+                eq(schema.users.registrationStatus, schema.REGISTRATION_STATUS.PENDING)
+            ))
+            .returning();
+
+        if (!user) {
+            return null;
+        }
+
+        await this.setDefaultPermissions(user.id, user.role as schema.Role);
+        return user;
+    },
+
+    /**
+     * Reject a pending registration. Returns null if it has already been reviewed.
+     */
+    async rejectRegistration(userId: number) {
+        const [user] = await db.update(schema.users)
+            .set({
+                registrationStatus: schema.REGISTRATION_STATUS.REJECTED,
+                updatedAt: new Date()
+            })
+            .where(and(
+                eq(schema.users.id, userId),
+                eq(schema.users.registrationStatus, schema.REGISTRATION_STATUS.PENDING)
+            ))
+            .returning();
+
+        return user ?? null;
+    },
+
+    /**
+     * Change the role of a pending registration before it is approved
+     */
+    async changePendingRegistrationRole(userId: number, role: schema.Role) {
+        const [user] = await db.update(schema.users)
+            .set({ role, updatedAt: new Date() })
+            .where(and(
+                eq(schema.users.id, userId),
+                eq(schema.users.registrationStatus, schema.REGISTRATION_STATUS.PENDING)
+            ))
+            .returning();
+
+        return user ?? null;
+    },
+
+    /**
+     * Users who review registrations: admins and the usernames listed in the adminUsernames setting
+     */
+    async getRegistrationApprovers() {
+        const settings = await this.getBotSettings();
+        const adminUsernames: string[] = (settings?.adminUsernames || [])
+            .map((username: string) => username.replace(/^@/, "").toLowerCase());
+
+        const users = await db.query.users.findMany({
+            where: eq(schema.users.registrationStatus, schema.REGISTRATION_STATUS.APPROVED)
+        });
+
+        return users.filter(user =>
+            user.isAdmin ||
+            user.role === schema.ROLES.ADMIN ||
+            (user.username && adminUsernames.includes(user.username.toLowerCase()))
+        );
+    },
+
+    /**
+     * Get approved panel administrators
+     */
+    async getAdminUsers() {
+        const users = await db.query.users.findMany({
+            where: eq(schema.users.registrationStatus, schema.REGISTRATION_STATUS.APPROVED)
+        });
+
+        return users.filter(user => user.isAdmin || user.role === schema.ROLES.ADMIN);
+    },
+
     /**
      * Delete a user
      */
@@ -174,7 +743,20 @@ export const storage = {
         return await db.transaction(async (tx) => {
             // First delete related records
 
-            // 1. Delete secure passwords
+            // 1. Delete secure passwords with their attachments and revealed messages
+            const userPasswords = tx.select({ id: schema.securePasswords.id })
+                .from(schema.securePasswords)
+                .where(or(
+                    eq(schema.securePasswords.senderId, userId),
+                    eq(schema.securePasswords.receiverId, userId)
+                ));
+
+            await tx.delete(schema.securePasswordAttachments)
+                .where(inArray(schema.securePasswordAttachments.securePasswordId, userPasswords));
+
+            await tx.delete(schema.securePasswordReveals)
+                .where(inArray(schema.securePasswordReveals.securePasswordId, userPasswords));
+
             await tx.delete(schema.securePasswords)
                 .where(or(
                     eq(schema.securePasswords.senderId, userId),
@@ -185,11 +767,40 @@ export const storage = {
             await tx.delete(schema.equipmentHistory)
                 .where(eq(schema.equipmentHistory.userId, userId));
 
-            // 3. Delete permissions
+            // 3. Delete permissions and panel credentials
             await tx.delete(schema.permissions)
                 .where(eq(schema.permissions.userId, userId));
 
+            await tx.delete(schema.userCredentials)
+                .where(eq(schema.userCredentials.userId, userId));
+
             // 4. Handle tasks - either delete or unassign
+            // Comments and attachments of the user and on the tasks being deleted go first
+            const createdTaskIds = tx.select({ id: schema.tasks.id })
+                .from(schema.tasks)
+                .where(eq(schema.tasks.createdByUserId, userId));
+
+            await tx.delete(schema.taskComments)
+                .where(or(
+                    eq(schema.taskComments.userId, userId),
+                    inArray(schema.taskComments.taskId, createdTaskIds)
+                ));
+
+            await tx.delete(schema.taskAttachments)
+                .where(or(
+                    eq(schema.taskAttachments.userId, userId),
+                    inArray(schema.taskAttachments.taskId, createdTaskIds)
+                ));
+
+            // Stock issued and repairs started for those tasks are kept without the task
+            await tx.update(schema.stockMovements)
+                .set({ taskId: null })
+                .where(inArray(schema.stockMovements.taskId, createdTaskIds));
+
+            await tx.update(schema.repairOrders)
+                .set({ taskId: null })
+                .where(inArray(schema.repairOrders.taskId, createdTaskIds));
+
             // Option A: Delete tasks created by the user
             await tx.delete(schema.tasks)
                 .where(eq(schema.tasks.createdByUserId, userId));
@@ -201,15 +812,98 @@ export const storage = {
 
             // 5. Unassign equipment
             await tx.update(schema.equipment)
-                .set({ assignedToUserId: null })
+                .set({ assignedToUserId: null, receiptStatus: null, receiptActId: null, receiptRequestedAt: null, receiptAnsweredAt: null })
                 .where(eq(schema.equipment.assignedToUserId, userId));
 
+            // 6. Delete queued and delivered notifications
+            await tx.delete(schema.notifications)
+                .where(eq(schema.notifications.userId, userId));
+
+            // 7. Keep transfer acts, they already hold the names
+            await tx.update(schema.transferActs)
+                .set({ fromUserId: null })
+                .where(eq(schema.transferActs.fromUserId, userId));
+
+            await tx.update(schema.transferActs)
+                .set({ toUserId: null })
+                .where(eq(schema.transferActs.toUserId, userId));
+
+            await tx.update(schema.transferActs)
+                .set({ createdByUserId: null })
+                .where(eq(schema.transferActs.createdByUserId, userId));
+
+            // 8. Departments headed by the user are left without a head
+            await tx.update(schema.departments)
+                .set({ headUserId: null })
+                .where(eq(schema.departments.headUserId, userId));
+
+            // 9. Keep stocktaking results, items of the user count as unassigned
+            await tx.update(schema.stocktakingItems)
+                .set({ holderUserId: null })
+                .where(eq(schema.stocktakingItems.holderUserId, userId));
+
+            await tx.update(schema.stocktakingItems)
+                .set({ checkedByUserId: null })
+                .where(eq(schema.stocktakingItems.checkedByUserId, userId));
+
+            await tx.update(schema.stocktakings)
+                .set({ createdByUserId: null })
+                .where(eq(schema.stocktakings.createdByUserId, userId));
+
+            // 10. Keep the stock journal and repair orders, records of the user lose the name
+            await tx.update(schema.stockMovements)
+                .set({ issuedToUserId: null })
+                .where(eq(schema.stockMovements.issuedToUserId, userId));
+
+            await tx.update(schema.stockMovements)
+                .set({ createdByUserId: null })
+                .where(eq(schema.stockMovements.createdByUserId, userId));
+
+            await tx.update(schema.repairOrders)
+                .set({ createdByUserId: null })
+                .where(eq(schema.repairOrders.createdByUserId, userId));
+
+            // 11. Free the license seats of the user
+            await tx.delete(schema.licenseAssignments)
+                .where(eq(schema.licenseAssignments.userId, userId));
+
+            await tx.update(schema.licenseAssignments)
+                .set({ assignedByUserId: null })
+                .where(eq(schema.licenseAssignments.assignedByUserId, userId));
+
+            // 12. Keep checklists, they already hold the names
+            await tx.update(schema.staffChecklists)
+                .set({ userId: null })
+                .where(eq(schema.staffChecklists.userId, userId));
+
+            await tx.update(schema.staffChecklists)
+                .set({ createdByUserId: null })
+                .where(eq(schema.staffChecklists.createdByUserId, userId));
+
             // Finally delete the user
             await tx.delete(schema.users)
                 .where(eq(schema.users.id, userId));
         });
     },
 
+    /**
+     * Get approved users with access to a section
+     */
+    async getUsersWithChatAccess(chatType: schema.ChatType) {
+        const users = await db.query.users.findMany({
+            where: and(
+                eq(schema.users.isRegistered, true),
+                eq(schema.users.registrationStatus, schema.REGISTRATION_STATUS.APPROVED)
+            ),
+            with: {
+                permissions: true
+            },
+            orderBy: [schema.users.lastName, schema.users.firstName]
+        });
+
+        return users.filter(user => user.permissions.some(p => p.chatType === chatType && p.hasAccess));
+    },
+
     /**
      * Get admin user
      */
@@ -224,161 +918,1679 @@ export const storage = {
      */
 
     /**
-     * Get all equipment or filter by inventory number or employee name
+     * Get all equipment or the part matching the filters; text filters match a part of the value
      */
-    async getEquipment(inventoryNumber?: string, employeeName?: string) {
-        const baseQuery = db.select()
-            .from(schema.equipment)
-            .leftJoin(
-                schema.users,
-                eq(schema.users.id, schema.equipment.assignedToUserId)
-            )
-            .orderBy(desc(schema.equipment.updatedAt));
+    async getEquipment(filters: EquipmentFilters = {}) {
+        const conditions = [];
 
-        if (!inventoryNumber && !employeeName) {
-            const results = await baseQuery;
-            return results.map(row => ({
-                ...row.equipment,
-                assignedUser: row.users || null
-            }));
+        if (filters.inventoryNumber) {
+            conditions.push(like(schema.equipment.inventoryNumber, `%${filters.inventoryNumber}%`));
         }
 
-        let filteredQuery = baseQuery;
+        if (filters.employeeName) {
+            conditions.push(or(
+                like(schema.users.firstName, `%${filters.employeeName}%`),
+                like(schema.users.lastName, `%${filters.employeeName}%`)
+            ));
+        }
 
-        if (inventoryNumber) {
-            filteredQuery = filteredQuery.where(
-                like(schema.equipment.inventoryNumber, `%${inventoryNumber}%`)
-            );
+        if (filters.status) {
+            conditions.push(eq(schema.equipment.status, filters.status));
         }
 
-        if (employeeName) {
-            filteredQuery = filteredQuery.where(
-                or(
-                    like(schema.users.firstName, `%${employeeName}%`),
-                    like(schema.users.lastName, `%${employeeName}%`)
-                )
-            );
+        if (filters.type) {
+            conditions.push(eq(schema.equipment.type, filters.type));
         }
 
-        const results = await filteredQuery;
+        if (filters.departmentIds) {
+            conditions.push(inArray(schema.equipment.departmentId, filters.departmentIds));
+        }
+
+        if (filters.locationIds) {
+            conditions.push(inArray(schema.equipment.locationId, filters.locationIds));
+        }
+
+        const results = await db.select()
+            .from(schema.equipment)
+            .leftJoin(
+                schema.users,
+                eq(schema.users.id, schema.equipment.assignedToUserId)
+            )
+            .leftJoin(
+                schema.departments,
+                eq(schema.departments.id, schema.equipment.departmentId)
+            )
+            .where(and(...conditions))
+            .orderBy(desc(schema.equipment.updatedAt));
+
         return results.map(row => ({
             ...row.equipment,
-            assignedUser: row.users || null
+            assignedUser: row.users || null,
+            department: row.departments || null
         }));
     },
 
     /**
-     * Create new equipment
+     * Get equipment by ID together with its holder
      */
-    async createEquipment(data: schema.InsertEquipment) {
-        const [equipment] = await db.insert(schema.equipment)
-            .values(data)
-            .returning();
-
-        // Record creation in history
-        await db.insert(schema.equipmentHistory)
-            .values({
-                equipmentId: equipment.id,
-                action: "Создано",
-                details: "Добавлено в систему"
-            });
-
-        // Record assignment in history if assigned
-        if (equipment.assignedToUserId) {
-            const user = await this.getUserById(equipment.assignedToUserId);
-
-            if (user) {
-                await db.insert(schema.equipmentHistory)
-                    .values({
-                        equipmentId: equipment.id,
-                        userId: equipment.assignedToUserId,
-                        action: "Назначено",
-                        details: `Назначено пользователю: ${user.lastName} ${user.firstName}`
-                    });
+    async getEquipmentById(id: number) {
+        return db.query.equipment.findFirst({
+            where: eq(schema.equipment.id, id),
+            with: {
+                assignedUser: true
             }
-        }
-
-        return equipment;
+        });
     },
 
     /**
-     * Update equipment
+     * Get equipment with exactly this inventory number, together with its holder
      */
-    async updateEquipment(id: number, data: Partial<schema.Equipment>) {
-        const oldEquipment = await db.query.equipment.findFirst({
-            where: eq(schema.equipment.id, id)
+    async getEquipmentByInventoryNumber(inventoryNumber: string) {
+        return db.query.equipment.findFirst({
+            where: eq(schema.equipment.inventoryNumber, inventoryNumber),
+            with: {
+                assignedUser: true
+            }
         });
+    },
 
-        const [equipment] = await db.update(schema.equipment)
-            .set({ ...data, updatedAt: new Date() })
-            .where(eq(schema.equipment.id, id))
-            .returning();
+    /**
+     * Get several items by ID, ordered by inventory number
+     */
+    async getEquipmentByIds(ids: number[]) {
+        return db.query.equipment.findMany({
+            where: inArray(schema.equipment.id, ids),
+            orderBy: [schema.equipment.inventoryNumber]
+        });
+    },
+
+    /**
+     * Get the equipment a user holds, ordered by inventory number
+     */
+    async getEquipmentHeldBy(userId: number) {
+        return db.query.equipment.findMany({
+            where: eq(schema.equipment.assignedToUserId, userId),
+            orderBy: [schema.equipment.inventoryNumber]
+        });
+    },
+
+    /**
+     * Create new equipment. Equipment created with a holder is handed over with a transfer act on behalf of actorId,
+     * which is returned as transferAct.
+     */
+    async createEquipment(data: schema.InsertEquipment, actorId?: number) {
+        return db.transaction(async (tx) => {
+            const [equipment] = await tx.insert(schema.equipment)
+                .values(data)
+                .returning();
+
+            // Record creation in history
+            await tx.insert(schema.equipmentHistory)
+                .values({
+                    equipmentId: equipment.id,
+                    action: "Создано",
+                    details: "Добавлено в систему"
+                });
+
+            if (equipment.locationId) {
+                await recordMove(tx, equipment.id, null, equipment.locationId);
+            }
+
+            if (!equipment.assignedToUserId) {
+                return { ...equipment, transferAct: null };
+            }
+
+            const transferAct = await recordTransfer(tx, [equipment], null, equipment.assignedToUserId, actorId);
+
+            const transferred = await tx.query.equipment.findFirst({
+                where: eq(schema.equipment.id, equipment.id)
+            });
+
+            return { ...transferred!, transferAct };
+        });
+    },
+
+    /**
+     * Update equipment. A change of holder is recorded with a transfer act on behalf of actorId,
+     * which is returned as transferAct.
+     */
+    async updateEquipment(id: number, data: Partial<schema.Equipment>, actorId?: number) {
+        return db.transaction(async (tx) => {
+            const oldEquipment = await tx.query.equipment.findFirst({
+                where: eq(schema.equipment.id, id)
+            });
+
+            // A new warranty end date is warned about again
+            const warrantyChanged = data.warrantyEndDate !== undefined && data.warrantyEndDate !== oldEquipment?.warrantyEndDate;
+
+            const [equipment] = await tx.update(schema.equipment)
+                .set({ ...data, ...(warrantyChanged ? { warrantyNotifiedAt: null } : {}), updatedAt: new Date() })
+                .where(eq(schema.equipment.id, id))
+                .returning();
+
+            let transferAct: Awaited<ReturnType<typeof recordTransfer>> | null = null;
+
+            // Record changes in history
+            if (oldEquipment && equipment) {
+                // Check if status changed
+                if (data.status && oldEquipment.status !== data.status) {
+                    await tx.insert(schema.equipmentHistory)
+                        .values({
+                            equipmentId: id,
+                            action: "Изменение статуса",
+                            details: `Статус изменен с ${oldEquipment.status} на ${data.status}`
+                        });
+
+                    // A repair started or finished by the status alone, e.g. with the button in the bot, is still tracked
+                    await recordRepairStatus(tx, id, oldEquipment.status, data.status, actorId);
+                }
+
+                // Check if assignment changed
+                if (data.assignedToUserId !== undefined &&
+                    oldEquipment.assignedToUserId !== data.assignedToUserId) {
+                    transferAct = await recordTransfer(tx, [equipment], oldEquipment.assignedToUserId, data.assignedToUserId, actorId);
+                }
+
+                if (data.locationId !== undefined && oldEquipment.locationId !== data.locationId) {
+                    await recordMove(tx, id, oldEquipment.locationId, data.locationId, actorId);
+                }
+            }
+
+            if (!transferAct) {
+                return equipment && { ...equipment, transferAct };
+            }
+
+            const transferred = await tx.query.equipment.findFirst({
+                where: eq(schema.equipment.id, id)
+            });
+
+            return { ...transferred!, transferAct };
+        });
+    },
+
+    /**
+     * Write a checked Excel import in one transaction, so a failing row leaves nothing behind.
+     * Holders of new equipment and holder changes of existing equipment produce transfer acts as edits in the panel do,
+     * and moving equipment to or from repair opens or closes its repair order.
+     */
+    async importEquipment(
+        creates: schema.InsertEquipment[],
+        updates: { id: number, data: schema.InsertEquipment }[],
+        actorId?: number
+    ) {
+        return db.transaction(async (tx) => {
+            const acts: Awaited<ReturnType<typeof recordTransfer>>[] = [];
+
+            for (const data of creates) {
+                const [equipment] = await tx.insert(schema.equipment)
+                    .values(data)
+                    .returning();
+
+                await tx.insert(schema.equipmentHistory)
+                    .values({
+                        equipmentId: equipment.id,
+                        userId: actorId,
+                        action: "Создано",
+                        details: "Импортировано из Excel"
+                    });
+
+                if (equipment.locationId) {
+                    await recordMove(tx, equipment.id, null, equipment.locationId, actorId);
+                }
+
+                if (equipment.assignedToUserId) {
+                    acts.push(await recordTransfer(tx, [equipment], null, equipment.assignedToUserId, actorId));
+                }
+            }
+
+            for (const { id, data } of updates) {
+                const oldEquipment = await tx.query.equipment.findFirst({
+                    where: eq(schema.equipment.id, id)
+                });
+
+                if (!oldEquipment) {
+                    continue;
+                }
+
+                const [equipment] = await tx.update(schema.equipment)
+                    .set({ ...data, updatedAt: new Date() })
+                    .where(eq(schema.equipment.id, id))
+                    .returning();
+
+                await tx.insert(schema.equipmentHistory)
+                    .values({
+                        equipmentId: id,
+                        userId: actorId,
+                        action: "Изменено",
+                        details: "Обновлено из Excel"
+                    });
+
+                if (oldEquipment.status !== equipment.status) {
+                    await tx.insert(schema.equipmentHistory)
+                        .values({
+                            equipmentId: id,
+                            action: "Изменение статуса",
+                            details: `Статус изменен с ${oldEquipment.status} на ${equipment.status}`
+                        });
+
+                    await recordRepairStatus(tx, id, oldEquipment.status, equipment.status, actorId);
+                }
+
+                if (oldEquipment.locationId !== equipment.locationId) {
+                    await recordMove(tx, id, oldEquipment.locationId, equipment.locationId, actorId);
+                }
+
+                if (oldEquipment.assignedToUserId !== equipment.assignedToUserId) {
+                    acts.push(await recordTransfer(tx, [equipment], oldEquipment.assignedToUserId, equipment.assignedToUserId, actorId));
+                }
+            }
+
+            return { created: creates.length, updated: updates.length, acts };
+        });
+    },
+
+    /**
+     * Equipment on the books, that is not written off, for accounting reports
+     */
+    async getEquipmentOnBooks(departmentId?: number) {
+        return db.query.equipment.findMany({
+            where: and(
+                ne(schema.equipment.status, schema.EQUIPMENT_STATUS.WRITTEN_OFF),
+                departmentId ? eq(schema.equipment.departmentId, departmentId) : undefined
+            ),
+            with: {
+                department: true
+            },
+            orderBy: [schema.equipment.inventoryNumber]
+        });
+    },
+
+    /**
+     * Equipment whose warranty ends between today and the given date ("YYYY-MM-DD")
+     * and nobody was warned about yet
+     */
+    async getEquipmentWithWarrantyEnding(until: string) {
+        return db.query.equipment.findMany({
+            where: and(
+                gte(schema.equipment.warrantyEndDate, new Date().toISOString().slice(0, 10)),
+                lte(schema.equipment.warrantyEndDate, until),
+                isNull(schema.equipment.warrantyNotifiedAt),
+                ne(schema.equipment.status, schema.EQUIPMENT_STATUS.WRITTEN_OFF)
+            ),
+            with: {
+                assignedUser: true
+            },
+            orderBy: [schema.equipment.warrantyEndDate]
+        });
+    },
+
+    async markWarrantyNotified(equipmentIds: number[]) {
+        if (equipmentIds.length === 0) {
+            return;
+        }
+
+        await db.update(schema.equipment)
+            .set({ warrantyNotifiedAt: new Date() })
+            .where(inArray(schema.equipment.id, equipmentIds));
+    },
+
+    /**
+     * Equipment with the given inventory numbers
+     */
+    async getEquipmentByInventoryNumbers(inventoryNumbers: string[]) {
+        if (inventoryNumbers.length === 0) {
+            return [];
+        }
+
+        return db.query.equipment.findMany({
+            where: inArray(schema.equipment.inventoryNumber, inventoryNumbers)
+        });
+    },
+
+    /**
+     * Hand several items over to a user, or return them to the warehouse when toUserId is null.
+     * One act is made per previous holder; items the receiver already holds are skipped.
+     */
+    async transferEquipment(equipmentIds: number[], toUserId: number | null, actorId?: number) {
+        return db.transaction(async (tx) => {
+            const items = await tx.query.equipment.findMany({
+                where: inArray(schema.equipment.id, equipmentIds),
+                orderBy: [schema.equipment.inventoryNumber]
+            });
+
+            const byHolder = new Map<number | null, schema.Equipment[]>();
+
+            for (const item of items) {
+                if (item.assignedToUserId !== toUserId) {
+                    byHolder.set(item.assignedToUserId, [...(byHolder.get(item.assignedToUserId) || []), item]);
+                }
+            }
+
+            const acts: Awaited<ReturnType<typeof recordTransfer>>[] = [];
+
+            for (const [fromUserId, holderItems] of Array.from(byHolder.entries())) {
+                await tx.update(schema.equipment)
+                    .set({ assignedToUserId: toUserId, updatedAt: new Date() })
+                    .where(inArray(schema.equipment.id, holderItems.map(item => item.id)));
+
+                acts.push(await recordTransfer(tx, holderItems, fromUserId, toUserId, actorId));
+            }
+
+            return acts;
+        });
+    },
+
+    /**
+     * Record the holder's answer to a receipt confirmation for the items of a transfer act
+     * they still hold unanswered. Returns the answered items.
+     */
+    async answerEquipmentReceipt(actId: number, userId: number, confirmed: boolean) {
+        return db.transaction(async (tx) => {
+            const act = await tx.query.transferActs.findFirst({
+                where: eq(schema.transferActs.id, actId)
+            });
+
+            if (!act) {
+                return [];
+            }
+
+            const answeredAt = new Date();
+            const items = await tx.update(schema.equipment)
+                .set({
+                    receiptStatus: confirmed ? schema.RECEIPT_STATUS.CONFIRMED : schema.RECEIPT_STATUS.REJECTED,
+                    receiptAnsweredAt: answeredAt
+                })
+                .where(and(
+                    eq(schema.equipment.receiptActId, actId),
+                    eq(schema.equipment.assignedToUserId, userId),
+                    eq(schema.equipment.receiptStatus, schema.RECEIPT_STATUS.PENDING)
+                ))
+                .returning();
+
+            if (items.length > 0) {
+                await tx.insert(schema.equipmentHistory)
+                    .values(items.map(item => ({
+                        equipmentId: item.id,
+                        userId,
+                        action: confirmed ? "Получение подтверждено" : "Получение не подтверждено",
+                        details: `${confirmed ? "Сотрудник подтвердил получение" : "Сотрудник сообщил, что не получал имущество"} ` +
+                            `по акту № ${act.number} (${answeredAt.toLocaleString('ru-RU')})`
+                    })));
+            }
+
+            return items;
+        });
+    },
+
+    /**
+     * Get equipment whose holder has not confirmed receipt since before the given time, with the holder
+     */
+    async getPendingEquipmentReceipts(requestedBefore: Date) {
+        return db.query.equipment.findMany({
+            where: and(
+                eq(schema.equipment.receiptStatus, schema.RECEIPT_STATUS.PENDING),
+                lte(schema.equipment.receiptRequestedAt, requestedBefore)
+            ),
+            with: {
+                assignedUser: true
+            },
+            orderBy: [schema.equipment.inventoryNumber]
+        });
+    },
+
+    /**
+     * Get equipment history
+     */
+    async getEquipmentHistory(equipmentId: number) {
+        return db.query.equipmentHistory.findMany({
+            where: eq(schema.equipmentHistory.equipmentId, equipmentId),
+            with: {
+                user: true
+            },
+            orderBy: [desc(schema.equipmentHistory.timestamp)]
+        });
+    },
+
+    /**
+     * History of several items at once, oldest first
+     */
+    async getEquipmentHistoryForItems(equipmentIds: number[]) {
+        if (equipmentIds.length === 0) {
+            return [];
+        }
+
+        return db.query.equipmentHistory.findMany({
+            where: inArray(schema.equipmentHistory.equipmentId, equipmentIds),
+            with: {
+                user: true
+            },
+            orderBy: [schema.equipmentHistory.timestamp]
+        });
+    },
+
+    /**
+     * Location functions
+     */
+
+    /**
+     * Get all locations as a flat list; the tree is built from parentId
+     */
+    async getLocations() {
+        return db.query.locations.findMany({
+            orderBy: [schema.locations.name]
+        });
+    },
+
+    async getLocationById(id: number) {
+        return db.query.locations.findFirst({
+            where: eq(schema.locations.id, id)
+        });
+    },
+
+    async createLocation(data: schema.InsertLocation) {
+        const [location] = await db.insert(schema.locations)
+            .values(data)
+            .returning();
+
+        return location;
+    },
+
+    /**
+     * Rename a location or move it with everything inside to another parent
+     */
+    async updateLocation(id: number, data: { name?: string, parentId?: number | null }) {
+        const [location] = await db.update(schema.locations)
+            .set({ ...data, updatedAt: new Date() })
+            .where(eq(schema.locations.id, id))
+            .returning();
+
+        return location;
+    },
+
+    /**
+     * Delete a location. Returns false when locations or equipment are still inside it.
+     */
+    async deleteLocation(id: number) {
+        return db.transaction(async (tx) => {
+            const child = await tx.query.locations.findFirst({
+                where: eq(schema.locations.parentId, id)
+            });
+            const item = await tx.query.equipment.findFirst({
+                where: eq(schema.equipment.locationId, id)
+            });
+
+            if (child || item) {
+                return false;
+            }
+
+            await tx.delete(schema.locations)
+                .where(eq(schema.locations.id, id));
+
+            return true;
+        });
+    },
+
+    /**
+     * Department functions
+     */
+
+    /**
+     * Get all departments with their heads
+     */
+    async getDepartments() {
+        return db.query.departments.findMany({
+            with: {
+                head: true
+            },
+            orderBy: [schema.departments.name]
+        });
+    },
+
+    async getDepartmentById(id: number) {
+        return db.query.departments.findFirst({
+            where: eq(schema.departments.id, id)
+        });
+    },
+
+    /**
+     * Departments headed by the user
+     */
+    async getDepartmentsHeadedBy(userId: number) {
+        return db.query.departments.findMany({
+            where: eq(schema.departments.headUserId, userId)
+        });
+    },
+
+    async createDepartment(data: schema.InsertDepartment) {
+        const [department] = await db.insert(schema.departments)
+            .values(data)
+            .returning();
+
+        return department;
+    },
+
+    async updateDepartment(id: number, data: { name?: string, headUserId?: number | null }) {
+        const [department] = await db.update(schema.departments)
+            .set({ ...data, updatedAt: new Date() })
+            .where(eq(schema.departments.id, id))
+            .returning();
+
+        return department;
+    },
+
+    /**
+     * Delete a department. Returns false when users or equipment still belong to it.
+     */
+    async deleteDepartment(id: number) {
+        return db.transaction(async (tx) => {
+            const member = await tx.query.users.findFirst({
+                where: eq(schema.users.departmentId, id)
+            });
+            const item = await tx.query.equipment.findFirst({
+                where: eq(schema.equipment.departmentId, id)
+            });
+
+            if (member || item) {
+                return false;
+            }
+
+            await tx.update(schema.stocktakings)
+                .set({ departmentId: null })
+                .where(eq(schema.stocktakings.departmentId, id));
+
+            await tx.delete(schema.departments)
+                .where(eq(schema.departments.id, id));
+
+            return true;
+        });
+    },
+
+    /**
+     * Move users, equipment and stocktakings of one department to another and delete the first,
+     * for spellings of the same department created separately
+     */
+    async mergeDepartments(sourceId: number, targetId: number) {
+        return db.transaction(async (tx) => {
+            const [source] = await tx.select().from(schema.departments).where(eq(schema.departments.id, sourceId));
+            const [target] = await tx.select().from(schema.departments).where(eq(schema.departments.id, targetId));
+
+            if (!source || !target || sourceId === targetId) {
+                return null;
+            }
+
+            await tx.update(schema.users)
+                .set({ departmentId: targetId, updatedAt: new Date() })
+                .where(eq(schema.users.departmentId, sourceId));
+
+            await tx.update(schema.equipment)
+                .set({ departmentId: targetId, updatedAt: new Date() })
+                .where(eq(schema.equipment.departmentId, sourceId));
+
+            await tx.update(schema.stocktakings)
+                .set({ departmentId: targetId })
+                .where(eq(schema.stocktakings.departmentId, sourceId));
+
+            if (!target.headUserId && source.headUserId) {
+                await tx.update(schema.departments)
+                    .set({ headUserId: source.headUserId, updatedAt: new Date() })
+                    .where(eq(schema.departments.id, targetId));
+            }
+
+            await tx.delete(schema.departments)
+                .where(eq(schema.departments.id, sourceId));
+
+            return target;
+        });
+    },
+
+    /**
+     * Repair order functions
+     */
+
+    /**
+     * Repair orders, newest first: of one item, only those in progress, or sent within a period ("YYYY-MM-DD")
+     */
+    async getRepairOrders(filters: { equipmentId?: number, open?: boolean, from?: string, to?: string } = {}) {
+        return db.query.repairOrders.findMany({
+            where: and(
+                filters.equipmentId ? eq(schema.repairOrders.equipmentId, filters.equipmentId) : undefined,
+                filters.open ? isNull(schema.repairOrders.returnedAt) : undefined,
+                filters.from ? gte(schema.repairOrders.sentAt, filters.from) : undefined,
+                filters.to ? lte(schema.repairOrders.sentAt, filters.to) : undefined
+            ),
+            with: {
+                equipment: true,
+                task: true,
+                createdBy: true
+            },
+            orderBy: [desc(schema.repairOrders.sentAt), desc(schema.repairOrders.id)]
+        });
+    },
+
+    async getRepairOrderById(id: number) {
+        return db.query.repairOrders.findFirst({
+            where: eq(schema.repairOrders.id, id)
+        });
+    },
+
+    /**
+     * Send equipment to repair. Returns null when the equipment does not exist or is already in repair with an open order.
+     */
+    async createRepairOrder(equipmentId: number, data: NewRepairOrder, actorId: number) {
+        return db.transaction(async (tx) => {
+            const equipment = await tx.query.equipment.findFirst({
+                where: eq(schema.equipment.id, equipmentId)
+            });
+            const openOrder = await tx.query.repairOrders.findFirst({
+                where: and(eq(schema.repairOrders.equipmentId, equipmentId), isNull(schema.repairOrders.returnedAt))
+            });
+
+            if (!equipment || openOrder) {
+                return null;
+            }
+
+            const [order] = await tx.insert(schema.repairOrders)
+                .values({
+                    equipmentId,
+                    vendor: data.vendor,
+                    issue: data.issue || null,
+                    sentAt: data.sentAt,
+                    isWarranty: !!data.isWarranty,
+                    taskId: data.taskId ?? null,
+                    previousStatus: equipment.status === schema.EQUIPMENT_STATUS.REPAIR ? null : equipment.status,
+                    createdByUserId: actorId
+                })
+                .returning();
+
+            if (equipment.status !== schema.EQUIPMENT_STATUS.REPAIR) {
+                await tx.update(schema.equipment)
+                    .set({ status: schema.EQUIPMENT_STATUS.REPAIR, updatedAt: new Date() })
+                    .where(eq(schema.equipment.id, equipmentId));
+            }
+
+            await tx.insert(schema.equipmentHistory)
+                .values({
+                    equipmentId,
+                    userId: actorId,
+                    action: "Отправлено в ремонт",
+                    details: `${data.vendor || "Сервис не указан"}${data.issue ? `: ${data.issue}` : ""}${data.isWarranty ? " (гарантийный)" : ""}`
+                });
+
+            return order;
+        });
+    },
+
+    async updateRepairOrder(id: number, data: Partial<NewRepairOrder> & { cost?: string | null }) {
+        const [order] = await db.update(schema.repairOrders)
+            .set({ ...data, updatedAt: new Date() })
+            .where(eq(schema.repairOrders.id, id))
+            .returning();
+
+        return order || null;
+    },
+
+    /**
+     * Record the return of equipment from repair. The equipment gets back the status it had before,
+     * unless it was changed meanwhile. Returns null when the order is not open.
+     */
+    async completeRepairOrder(id: number, data: { returnedAt: string, cost?: string | null }, actorId: number) {
+        return db.transaction(async (tx) => {
+            const [order] = await tx.update(schema.repairOrders)
+                .set({
+                    returnedAt: data.returnedAt,
+                    ...(data.cost !== undefined ? { cost: data.cost } : {}),
+                    updatedAt: new Date()
+                })
+                .where(and(eq(schema.repairOrders.id, id), isNull(schema.repairOrders.returnedAt)))
+                .returning();
+
+            if (!order) {
+                return null;
+            }
+
+            const equipment = await tx.query.equipment.findFirst({
+                where: eq(schema.equipment.id, order.equipmentId)
+            });
+
+            if (equipment?.status === schema.EQUIPMENT_STATUS.REPAIR) {
+                const status = order.previousStatus ||
+                    (equipment.assignedToUserId ? schema.EQUIPMENT_STATUS.ACTIVE : schema.EQUIPMENT_STATUS.STORAGE);
+
+                await tx.update(schema.equipment)
+                    .set({ status, updatedAt: new Date() })
+                    .where(eq(schema.equipment.id, order.equipmentId));
+            }
+
+            await tx.insert(schema.equipmentHistory)
+                .values({
+                    equipmentId: order.equipmentId,
+                    userId: actorId,
+                    action: "Возвращено из ремонта",
+                    details: `${order.vendor || "Сервис не указан"}${order.cost ? `, стоимость ${order.cost} ₽` : ""}`
+                });
+
+            return order;
+        });
+    },
+
+    /**
+     * Repairs in progress since the given date ("YYYY-MM-DD") or earlier that nobody was reminded about yet
+     */
+    async getOverdueRepairOrders(sentBefore: string) {
+        return db.query.repairOrders.findMany({
+            where: and(
+                isNull(schema.repairOrders.returnedAt),
+                lte(schema.repairOrders.sentAt, sentBefore),
+                isNull(schema.repairOrders.overdueNotifiedAt)
+            ),
+            with: {
+                equipment: true
+            },
+            orderBy: [schema.repairOrders.sentAt]
+        });
+    },
+
+    async markRepairOverdueNotified(ids: number[]) {
+        if (ids.length === 0) {
+            return;
+        }
+
+        await db.update(schema.repairOrders)
+            .set({ overdueNotifiedAt: new Date() })
+            .where(inArray(schema.repairOrders.id, ids));
+    },
+
+    /**
+     * License functions
+     */
+
+    /**
+     * Licenses with their seats; keys are left out, see getLicenseKey
+     */
+    async getLicenses() {
+        const licenses = await db.query.licenses.findMany({
+            with: {
+                assignments: {
+                    with: {
+                        user: true,
+                        equipment: true
+                    },
+                    orderBy: [schema.licenseAssignments.createdAt]
+                }
+            },
+            orderBy: [schema.licenses.product]
+        });
+
+        return licenses.map(withoutLicenseKey);
+    },
+
+    async getLicenseById(id: number) {
+        const license = await db.query.licenses.findFirst({
+            where: eq(schema.licenses.id, id),
+            with: {
+                assignments: true
+            }
+        });
+
+        return license && withoutLicenseKey(license);
+    },
+
+    /**
+     * Decrypted license key. Null when the license has no key, undefined when there is no such license.
+     */
+    async getLicenseKey(id: number) {
+        const license = await db.query.licenses.findFirst({
+            where: eq(schema.licenses.id, id)
+        });
+
+        if (!license) {
+            return undefined;
+        }
+
+        const { encryptedContent } = license;
+        return encryptedContent === null ? null : decryptContent({ ...license, encryptedContent });
+    },
+
+    async createLicense(data: NewLicense) {
+        const { key, ...rest } = data;
+
+        const [license] = await db.insert(schema.licenses)
+            .values({ ...rest, ...licenseKeyColumns(key) })
+            .returning();
+
+        return withoutLicenseKey(license);
+    },
+
+    /**
+     * Update a license; the key is kept unless given
+     */
+    async updateLicense(id: number, data: Partial<NewLicense>) {
+        const { key, ...rest } = data;
+        const oldLicense = await db.query.licenses.findFirst({
+            where: eq(schema.licenses.id, id)
+        });
+
+        if (!oldLicense) {
+            return undefined;
+        }
+
+        // A new expiry date is warned about again
+        const expiryChanged = rest.expiresAt !== undefined && rest.expiresAt !== oldLicense.expiresAt;
+
+        const [license] = await db.update(schema.licenses)
+            .set({
+                ...rest,
+                ...(key !== undefined ? licenseKeyColumns(key) : {}),
+                ...(expiryChanged ? { expiryNotifiedAt: null } : {}),
+                updatedAt: new Date()
+            })
+            .where(eq(schema.licenses.id, id))
+            .returning();
+
+        return withoutLicenseKey(license);
+    },
+
+    /**
+     * Delete a license with its seats
+     */
+    async deleteLicense(id: number) {
+        return db.transaction(async (tx) => {
+            await tx.delete(schema.licenseAssignments)
+                .where(eq(schema.licenseAssignments.licenseId, id));
+
+            const deleted = await tx.delete(schema.licenses)
+                .where(eq(schema.licenses.id, id))
+                .returning({ id: schema.licenses.id });
+
+            return deleted.length > 0;
+        });
+    },
+
+    /**
+     * Give a seat of a license to a user or an equipment item. Seats may exceed the license count,
+     * the caller warns about it with the returned numbers. Returns null when the license does not exist
+     * or the seat is already taken by the same user or item.
+     */
+    async assignLicenseSeat(licenseId: number, target: { userId: number } | { equipmentId: number }, actorId: number) {
+        return db.transaction(async (tx) => {
+            const license = await tx.query.licenses.findFirst({
+                where: eq(schema.licenses.id, licenseId),
+                with: {
+                    assignments: true
+                }
+            });
+
+            if (!license) {
+                return null;
+            }
+
+            const taken = license.assignments.some(assignment => "userId" in target
+                ? assignment.userId === target.userId
+                : assignment.equipmentId === target.equipmentId);
+
+            if (taken) {
+                return null;
+            }
+
+            const [assignment] = await tx.insert(schema.licenseAssignments)
+                .values({ licenseId, ...target, assignedByUserId: actorId })
+                .returning();
+
+            return { assignment, seats: license.seats, assignedSeats: license.assignments.length + 1 };
+        });
+    },
+
+    /**
+     * Free a seat. Returns false when there is no such seat.
+     */
+    async removeLicenseSeat(assignmentId: number) {
+        const deleted = await db.delete(schema.licenseAssignments)
+            .where(eq(schema.licenseAssignments.id, assignmentId))
+            .returning({ id: schema.licenseAssignments.id });
+
+        return deleted.length > 0;
+    },
+
+    /**
+     * Seats held by employees whose first or last name contains the text, directly or through their equipment
+     */
+    async getEmployeeLicenseSeats(employeeName: string) {
+        const employeeIds = db.select({ id: schema.users.id })
+            .from(schema.users)
+            .where(or(
+                like(schema.users.firstName, `%${employeeName}%`),
+                like(schema.users.lastName, `%${employeeName}%`)
+            ));
+
+        return db.query.licenseAssignments.findMany({
+            where: or(
+                inArray(schema.licenseAssignments.userId, employeeIds),
+                inArray(
+                    schema.licenseAssignments.equipmentId,
+                    db.select({ id: schema.equipment.id })
+                        .from(schema.equipment)
+                        .where(inArray(schema.equipment.assignedToUserId, employeeIds))
+                )
+            ),
+            with: {
+                license: {
+                    columns: {
+                        encryptedContent: false,
+                        encryptedDataKey: false,
+                        keyVersion: false
+                    }
+                },
+                user: true,
+                equipment: {
+                    with: {
+                        assignedUser: true
+                    }
+                }
+            },
+            orderBy: [schema.licenseAssignments.createdAt]
+        });
+    },
+
+    /**
+     * Licenses expiring between today and the given date ("YYYY-MM-DD") that nobody was warned about yet
+     */
+    async getLicensesWithExpiryEnding(until: string) {
+        const licenses = await db.query.licenses.findMany({
+            where: and(
+                gte(schema.licenses.expiresAt, today()),
+                lte(schema.licenses.expiresAt, until),
+                isNull(schema.licenses.expiryNotifiedAt)
+            ),
+            with: {
+                assignments: true
+            },
+            orderBy: [schema.licenses.expiresAt]
+        });
+
+        return licenses.map(withoutLicenseKey);
+    },
+
+    async markLicenseExpiryNotified(ids: number[]) {
+        if (ids.length === 0) {
+            return;
+        }
+
+        await db.update(schema.licenses)
+            .set({ expiryNotifiedAt: new Date() })
+            .where(inArray(schema.licenses.id, ids));
+    },
+
+    /**
+     * Re-encrypt every license key under the current master key
+     */
+    async reencryptLicenseKeys() {
+        const keyVersion = getCurrentKeyVersion();
+
+        const licenses = await db.query.licenses.findMany({
+            columns: {
+                id: true,
+                encryptedContent: true,
+                encryptedDataKey: true,
+                keyVersion: true
+            },
+            where: isNotNull(schema.licenses.encryptedContent)
+        });
+
+        let updated = 0;
+
+        await db.transaction(async (tx) => {
+            for (const license of licenses) {
+                if (license.keyVersion === keyVersion || license.encryptedContent === null) {
+                    continue;
+                }
+
+                await tx.update(schema.licenses)
+                    .set({ ...reencryptContent({ ...license, encryptedContent: license.encryptedContent }), updatedAt: new Date() })
+                    .where(eq(schema.licenses.id, license.id));
+
+                updated++;
+            }
+        });
+
+        return { updated, total: licenses.length, keyVersion };
+    },
+
+    /**
+     * Staff checklist functions
+     */
+
+    /**
+     * Offboarding and onboarding checklists, newest first
+     */
+    async getStaffChecklists() {
+        return db.query.staffChecklists.findMany({
+            with: {
+                user: true
+            },
+            orderBy: [desc(schema.staffChecklists.createdAt)]
+        });
+    },
+
+    /**
+     * Get a checklist with what was done for it
+     */
+    async getStaffChecklistById(id: number) {
+        return db.query.staffChecklists.findFirst({
+            where: eq(schema.staffChecklists.id, id),
+            with: {
+                user: true,
+                entries: {
+                    orderBy: [schema.staffChecklistEntries.createdAt]
+                }
+            }
+        });
+    },
+
+    /**
+     * Start a checklist for a user. Returns null while a checklist of the same kind is not signed off.
+     */
+    async createStaffChecklist(data: { kind: schema.ChecklistKind, userId: number, employeeName: string, createdByUserId: number }) {
+        const open = await db.query.staffChecklists.findFirst({
+            where: and(
+                eq(schema.staffChecklists.userId, data.userId),
+                eq(schema.staffChecklists.kind, data.kind),
+                isNull(schema.staffChecklists.signedOffAt)
+            )
+        });
+
+        if (open) {
+            return null;
+        }
+
+        const [checklist] = await db.insert(schema.staffChecklists)
+            .values(data)
+            .returning();
+
+        return checklist;
+    },
+
+    /**
+     * Record what was done for a checklist step
+     */
+    async addStaffChecklistEntry(checklistId: number, step: schema.ChecklistStep, text: string, actorName: string) {
+        const [entry] = await db.insert(schema.staffChecklistEntries)
+            .values({ checklistId, step, text, actorName })
+            .returning();
+
+        await db.update(schema.staffChecklists)
+            .set({ updatedAt: new Date() })
+            .where(eq(schema.staffChecklists.id, checklistId));
+
+        return entry;
+    },
+
+    /**
+     * Sign a checklist off. Returns null if it has already been signed off.
+     */
+    async signOffStaffChecklist(id: number, signedOffByName: string) {
+        const [checklist] = await db.update(schema.staffChecklists)
+            .set({ signedOffByName, signedOffAt: new Date(), updatedAt: new Date() })
+            .where(and(
+                eq(schema.staffChecklists.id, id),
+                isNull(schema.staffChecklists.signedOffAt)
+            ))
+            .returning();
+
+        return checklist ?? null;
+    },
+
+    /**
+     * What is left to do when a user leaves: held equipment, open tasks, access to the panel and sections,
+     * and received passwords the user may have seen that are not flagged for rotation yet
+     */
+    async getOffboardingState(userId: number) {
+        const user = await this.getUserWithPermissions(userId);
+
+        if (!user) {
+            return null;
+        }
+
+        const [equipment, tasks, credentials, passwords] = await Promise.all([
+            db.query.equipment.findMany({
+                where: eq(schema.equipment.assignedToUserId, userId),
+                orderBy: [schema.equipment.inventoryNumber]
+            }),
+            db.query.tasks.findMany({
+                where: and(
+                    ne(schema.tasks.status, schema.TASK_STATUS.COMPLETED),
+                    or(
+                        eq(schema.tasks.createdByUserId, userId),
+                        eq(schema.tasks.assignedToUserId, userId)
+                    )
+                ),
+                with: {
+                    assignedTo: true,
+                    createdBy: true
+                },
+                orderBy: [desc(schema.tasks.createdAt)]
+            }),
+            this.getUserCredentials(userId),
+            db.query.securePasswords.findMany({
+                columns: {
+                    encryptedContent: false,
+                    encryptedDataKey: false
+                },
+                where: and(
+                    eq(schema.securePasswords.receiverId, userId),
+                    isNull(schema.securePasswords.rotationRequiredAt),
+                    or(
+                        isNull(schema.securePasswords.destroyedAt),
+                        eq(schema.securePasswords.isRead, true)
+                    )
+                ),
+                with: {
+                    sender: true
+                },
+                orderBy: [desc(schema.securePasswords.createdAt)]
+            })
+        ]);
+
+        return {
+            user,
+            equipment,
+            tasks,
+            hasAccess: !!user.isAdmin || user.role === schema.ROLES.ADMIN || !!credentials || user.permissions.some(p => p.hasAccess),
+            passwords,
+            isBlocked: user.registrationStatus === schema.REGISTRATION_STATUS.BLOCKED
+        };
+    },
+
+    /**
+     * What a new user already has: approved registration, held equipment
+     */
+    async getOnboardingState(userId: number) {
+        const user = await this.getUserById(userId);
+
+        if (!user) {
+            return null;
+        }
+
+        const equipment = await db.query.equipment.findMany({
+            where: eq(schema.equipment.assignedToUserId, userId),
+            orderBy: [schema.equipment.inventoryNumber]
+        });
+
+        return {
+            user,
+            equipment,
+            isApproved: user.registrationStatus === schema.REGISTRATION_STATUS.APPROVED
+        };
+    },
+
+    /**
+     * Hand the open tasks of a user to another one: tasks assigned to the user get the new assignee,
+     * tasks created by the user get the new creator
+     */
+    async reassignOpenTasks(fromUserId: number, toUserId: number) {
+        return db.transaction(async (tx) => {
+            const assigned = await tx.update(schema.tasks)
+                .set({ assignedToUserId: toUserId, updatedAt: new Date() })
+                .where(and(
+                    ne(schema.tasks.status, schema.TASK_STATUS.COMPLETED),
+                    eq(schema.tasks.assignedToUserId, fromUserId)
+                ))
+                .returning();
+
+            const created = await tx.update(schema.tasks)
+                .set({ createdByUserId: toUserId, updatedAt: new Date() })
+                .where(and(
+                    ne(schema.tasks.status, schema.TASK_STATUS.COMPLETED),
+                    eq(schema.tasks.createdByUserId, fromUserId)
+                ))
+                .returning();
+
+            return { assigned, created };
+        });
+    },
+
+    /**
+     * Take away access to all sections, admin rights and the panel password of a user
+     */
+    async revokeUserAccess(userId: number) {
+        await db.transaction(async (tx) => {
+            await tx.update(schema.permissions)
+                .set({ hasAccess: false, updatedAt: new Date() })
+                .where(eq(schema.permissions.userId, userId));
+
+            await tx.delete(schema.userCredentials)
+                .where(eq(schema.userCredentials.userId, userId));
+
+            await tx.update(schema.users)
+                .set({ isAdmin: false, updatedAt: new Date() })
+                .where(eq(schema.users.id, userId));
+
+            await tx.update(schema.users)
+                .set({ role: schema.ROLES.EMPLOYEE })
+                .where(and(
+                    eq(schema.users.id, userId),
+                    eq(schema.users.role, schema.ROLES.ADMIN)
+                ));
+        });
+    },
+
+    /**
+     * Flag the passwords a leaving user received and may have seen, so the senders change them.
+     * Returns the flagged passwords with their senders.
+     */
+    async flagPasswordsForRotation(receiverId: number) {
+        const flagged = await db.update(schema.securePasswords)
+            .set({ rotationRequiredAt: new Date(), updatedAt: new Date() })
+            .where(and(
+                eq(schema.securePasswords.receiverId, receiverId),
+                isNull(schema.securePasswords.rotationRequiredAt),
+                or(
+                    isNull(schema.securePasswords.destroyedAt),
+                    eq(schema.securePasswords.isRead, true)
+                )
+            ))
+            .returning({ id: schema.securePasswords.id });
+
+        if (flagged.length === 0) {
+            return [];
+        }
+
+        return db.query.securePasswords.findMany({
+            columns: {
+                encryptedContent: false,
+                encryptedDataKey: false
+            },
+            where: inArray(schema.securePasswords.id, flagged.map(password => password.id)),
+            with: {
+                sender: true
+            },
+            orderBy: [schema.securePasswords.title]
+        });
+    },
+
+    /**
+     * Close the bot to a user who left. Returns null if there is no such user.
+     */
+    async blockUser(userId: number) {
+        const [user] = await db.update(schema.users)
+            .set({ registrationStatus: schema.REGISTRATION_STATUS.BLOCKED, updatedAt: new Date() })
+            .where(eq(schema.users.id, userId))
+            .returning();
+
+        return user ?? null;
+    },
+
+    /**
+     * Free warehouse items for the standard kit of a new user: one item of each kit type the user
+     * does not hold yet. Types are compared case-insensitively; types without a free item are returned as missing.
+     */
+    async findOnboardingKitItems(userId: number, kit: string[]) {
+        const held = await db.query.equipment.findMany({
+            where: eq(schema.equipment.assignedToUserId, userId)
+        });
+
+        const heldTypes = new Set(held.map(item => item.type.toLowerCase()));
+        const items: schema.Equipment[] = [];
+        const missingTypes: string[] = [];
+
+        for (const type of kit) {
+            if (heldTypes.has(type.toLowerCase())) {
+                continue;
+            }
+
+            const item = await db.query.equipment.findFirst({
+                where: and(
+                    sql`lower(${schema.equipment.type}) = ${type.toLowerCase()}`,
+                    isNull(schema.equipment.assignedToUserId),
+                    inArray(schema.equipment.status, [schema.EQUIPMENT_STATUS.STORAGE, schema.EQUIPMENT_STATUS.ACTIVE])
+                ),
+                orderBy: [schema.equipment.inventoryNumber]
+            });
+
+            if (item) {
+                items.push(item);
+            } else {
+                missingTypes.push(type);
+            }
+        }
+
+        return { items, missingTypes };
+    },
+
+    /**
+     * Transfer act functions
+     */
+
+    /**
+     * Get transfer acts, newest first, optionally only those listing the given equipment
+     */
+    async getTransferActs(equipmentId?: number) {
+        return db.query.transferActs.findMany({
+            where: equipmentId
+                ? inArray(
+                    schema.transferActs.id,
+                    db.select({ id: schema.transferActItems.actId })
+                        .from(schema.transferActItems)
+                        .where(eq(schema.transferActItems.equipmentId, equipmentId))
+                )
+                : undefined,
+            with: {
+                items: true
+            },
+            orderBy: [desc(schema.transferActs.number)]
+        });
+    },
+
+    /**
+     * Get a transfer act with its items
+     */
+    async getTransferActById(id: number) {
+        return db.query.transferActs.findFirst({
+            where: eq(schema.transferActs.id, id),
+            with: {
+                items: {
+                    orderBy: [schema.transferActItems.inventoryNumber]
+                }
+            }
+        });
+    },
+
+    /**
+     * Stocktaking functions
+     */
+
+    /**
+     * Start a stocktaking of equipment in the given department and of the given type (all when empty).
+     * Written-off equipment is left out. Returns null when nothing is in scope.
+     */
+    async createStocktaking(data: { title: string, departmentId?: number | null, equipmentType?: string | null, createdByUserId: number }) {
+        return db.transaction(async (tx) => {
+            const department = data.departmentId
+                ? await tx.query.departments.findFirst({ where: eq(schema.departments.id, data.departmentId) })
+                : undefined;
+
+            if (data.departmentId && !department) {
+                return null;
+            }
+
+            const items = await tx.query.equipment.findMany({
+                where: and(
+                    ne(schema.equipment.status, schema.EQUIPMENT_STATUS.WRITTEN_OFF),
+                    department ? eq(schema.equipment.departmentId, department.id) : undefined,
+                    data.equipmentType ? eq(schema.equipment.type, data.equipmentType) : undefined
+                ),
+                orderBy: [schema.equipment.inventoryNumber]
+            });
+
+            if (items.length === 0) {
+                return null;
+            }
+
+            const [stocktaking] = await tx.insert(schema.stocktakings)
+                .values({
+                    title: data.title,
+                    departmentId: department?.id ?? null,
+                    department: department?.name ?? null,
+                    equipmentType: data.equipmentType || null,
+                    createdByUserId: data.createdByUserId
+                })
+                .returning();
+
+            const stocktakingItems = await tx.insert(schema.stocktakingItems)
+                .values(items.map(item => ({
+                    stocktakingId: stocktaking.id,
+                    equipmentId: item.id,
+                    inventoryNumber: item.inventoryNumber,
+                    name: item.name,
+                    type: item.type,
+                    holderUserId: item.assignedToUserId
+                })))
+                .returning();
+
+            return { ...stocktaking, items: stocktakingItems };
+        });
+    },
+
+    /**
+     * Get all stocktakings with their items, newest first
+     */
+    async getStocktakings() {
+        return db.query.stocktakings.findMany({
+            with: {
+                items: true
+            },
+            orderBy: [desc(schema.stocktakings.createdAt)]
+        });
+    },
+
+    /**
+     * Get a stocktaking with its items and their holders
+     */
+    async getStocktakingById(id: number) {
+        return db.query.stocktakings.findFirst({
+            where: eq(schema.stocktakings.id, id),
+            with: {
+                items: {
+                    with: {
+                        holder: true
+                    },
+                    orderBy: [schema.stocktakingItems.inventoryNumber]
+                }
+            }
+        });
+    },
+
+    /**
+     * Get a stocktaking item with its campaign
+     */
+    async getStocktakingItemById(id: number) {
+        return db.query.stocktakingItems.findFirst({
+            where: eq(schema.stocktakingItems.id, id),
+            with: {
+                stocktaking: true
+            }
+        });
+    },
+
+    /**
+     * Record the result of checking an item while its stocktaking is active.
+     * With holderUserId only the holder's own item is updated. Returns null when nothing was updated.
+     */
+    async checkStocktakingItem(id: number, result: schema.StocktakingResult, checkedByUserId: number, holderUserId?: number) {
+        const [item] = await db.update(schema.stocktakingItems)
+            .set({ result, checkedByUserId, checkedAt: new Date() })
+            .where(and(
+                eq(schema.stocktakingItems.id, id),
+                holderUserId ? eq(schema.stocktakingItems.holderUserId, holderUserId) : undefined,
+                inArray(
+                    schema.stocktakingItems.stocktakingId,
+                    db.select({ id: schema.stocktakings.id })
+                        .from(schema.stocktakings)
+                        .where(eq(schema.stocktakings.status, schema.STOCKTAKING_STATUS.ACTIVE))
+                )
+            ))
+            .returning();
+
+        return item || null;
+    },
+
+    /**
+     * Attach a photo sent by the holder to an item of an active stocktaking
+     */
+    async setStocktakingItemPhoto(id: number, holderUserId: number, photoFileId: string) {
+        const [item] = await db.update(schema.stocktakingItems)
+            .set({ photoFileId })
+            .where(and(
+                eq(schema.stocktakingItems.id, id),
+                eq(schema.stocktakingItems.holderUserId, holderUserId),
+                inArray(
+                    schema.stocktakingItems.stocktakingId,
+                    db.select({ id: schema.stocktakings.id })
+                        .from(schema.stocktakings)
+                        .where(eq(schema.stocktakings.status, schema.STOCKTAKING_STATUS.ACTIVE))
+                )
+            ))
+            .returning();
+
+        return item || null;
+    },
+
+    /**
+     * Close a stocktaking; results can no longer be changed
+     */
+    async completeStocktaking(id: number) {
+        const [stocktaking] = await db.update(schema.stocktakings)
+            .set({ status: schema.STOCKTAKING_STATUS.COMPLETED, completedAt: new Date() })
+            .where(and(
+                eq(schema.stocktakings.id, id),
+                eq(schema.stocktakings.status, schema.STOCKTAKING_STATUS.ACTIVE)
+            ))
+            .returning();
+
+        return stocktaking || null;
+    },
+
+    /**
+     * Consumables stock functions
+     */
+
+    async getStockItems() {
+        return db.query.stockItems.findMany({
+            orderBy: [schema.stockItems.name]
+        });
+    },
+
+    async getStockItemById(id: number) {
+        return db.query.stockItems.findFirst({
+            where: eq(schema.stockItems.id, id)
+        });
+    },
+
+    /**
+     * Stock items whose name contains the query, for the bot
+     */
+    async searchStockItems(query: string) {
+        return db.query.stockItems.findMany({
+            where: sql`lower(${schema.stockItems.name}) like ${`%${query.toLowerCase()}%`}`,
+            orderBy: [schema.stockItems.name]
+        });
+    },
+
+    /**
+     * Add a stock item. It starts empty, the quantity only changes with receipts and issues.
+     */
+    async createStockItem(data: { name: string, unit?: string, minQuantity?: number }) {
+        const [item] = await db.insert(schema.stockItems)
+            .values(data)
+            .returning();
+
+        return item;
+    },
+
+    async updateStockItem(id: number, data: { name?: string, unit?: string, minQuantity?: number }) {
+        const [item] = await db.update(schema.stockItems)
+            .set({ ...data, updatedAt: new Date() })
+            .where(eq(schema.stockItems.id, id))
+            .returning();
+
+        return item || null;
+    },
+
+    /**
+     * Receive or issue a stock item and write the movement to the journal.
+     * Returns null when the item does not exist or there is not enough of it to issue.
+     */
+    async recordStockMovement(stockItemId: number, data: NewStockMovement, actorId: number | null) {
+        return db.transaction(async (tx) => {
+            const isIssue = data.kind === schema.STOCK_MOVEMENT_KIND.ISSUE;
+
+            // A single conditional update, so concurrent issues cannot take the quantity below zero
+            const [item] = await tx.update(schema.stockItems)
+                .set({
+                    quantity: sql`${schema.stockItems.quantity} ${isIssue ? sql`-` : sql`+`} ${data.quantity}`,
+                    updatedAt: new Date()
+                })
+                .where(and(
+                    eq(schema.stockItems.id, stockItemId),
+                    isIssue ? gte(schema.stockItems.quantity, data.quantity) : undefined
+                ))
+                .returning();
 
-        // Record changes in history
-        if (oldEquipment) {
-            // Check if status changed
-            if (data.status && oldEquipment.status !== data.status) {
-                await db.insert(schema.equipmentHistory)
-                    .values({
-                        equipmentId: id,
-                        action: "Изменение статуса",
-                        details: `Статус изменен с ${oldEquipment.status} на ${data.status}`
-                    });
+            if (!item) {
+                return null;
             }
 
-            // Check if assignment changed
-            if (data.assignedToUserId !== undefined &&
-                oldEquipment.assignedToUserId !== data.assignedToUserId) {
-
-                if (data.assignedToUserId) {
-                    const user = await this.getUserById(data.assignedToUserId);
+            // Replenished stock is alerted about again the next time it runs low
+            if (!isIssue && item.lowStockNotifiedAt && item.quantity > item.minQuantity) {
+                await tx.update(schema.stockItems)
+                    .set({ lowStockNotifiedAt: null })
+                    .where(eq(schema.stockItems.id, stockItemId));
 
-                    if (user) {
-                        await db.insert(schema.equipmentHistory)
-                            .values({
-                                equipmentId: id,
-                                userId: data.assignedToUserId,
-                                action: "Назначено",
-                                details: `Назначено пользователю: ${user.lastName} ${user.firstName}`
-                            });
-                    }
-                } else {
-                    await db.insert(schema.equipmentHistory)
-                        .values({
-                            equipmentId: id,
-                            action: "Возврат",
-                            details: "Возвращено на склад"
-                        });
-                }
+                item.lowStockNotifiedAt = null;
             }
-        }
 
-        return equipment;
+            const [movement] = await tx.insert(schema.stockMovements)
+                .values({
+                    stockItemId,
+                    kind: data.kind,
+                    quantity: data.quantity,
+                    balance: item.quantity,
+                    issuedToUserId: isIssue ? data.issuedToUserId ?? null : null,
+                    taskId: isIssue ? data.taskId ?? null : null,
+                    comment: data.comment || null,
+                    createdByUserId: actorId
+                })
+                .returning();
+
+            return { item, movement };
+        });
     },
 
     /**
-     * Get equipment history
+     * Journal of stock movements, newest first, optionally of one item
      */
-    async getEquipmentHistory(equipmentId: number) {
-        return db.query.equipmentHistory.findMany({
-            where: eq(schema.equipmentHistory.equipmentId, equipmentId),
+    async getStockMovements(stockItemId?: number) {
+        return db.query.stockMovements.findMany({
+            where: stockItemId ? eq(schema.stockMovements.stockItemId, stockItemId) : undefined,
             with: {
-                user: true
+                item: true,
+                issuedTo: true,
+                task: true,
+                createdBy: true
             },
-            orderBy: [desc(schema.equipmentHistory.timestamp)]
+            orderBy: [desc(schema.stockMovements.createdAt), desc(schema.stockMovements.id)],
+            limit: 500
         });
     },
 
+    async markLowStockNotified(id: number) {
+        await db.update(schema.stockItems)
+            .set({ lowStockNotifiedAt: new Date() })
+            .where(eq(schema.stockItems.id, id));
+    },
+
     /**
      * Task functions
      */
 
     /**
-     * Get all tasks or filter by status
+     * Get all tasks or filter by status, by a participant (creator or assignee)
+     * and by the department of the creator
      */
-    async getTasks(status?: string) {
+    async getTasks(status?: string, participantId?: number, departmentId?: number) {
         return db.query.tasks.findMany({
-            where: status ? eq(schema.tasks.status, status) : undefined,
+            where: and(
+                status ? eq(schema.tasks.status, status) : undefined,
+                participantId ? or(
+                    eq(schema.tasks.createdByUserId, participantId),
+                    eq(schema.tasks.assignedToUserId, participantId)
+                ) : undefined,
+                departmentId ? inArray(
+                    schema.tasks.createdByUserId,
+                    db.select({ id: schema.users.id })
+                        .from(schema.users)
+                        .where(eq(schema.users.departmentId, departmentId))
+                ) : undefined
+            ),
             with: {
                 assignedTo: true,
                 createdBy: true
@@ -390,26 +2602,89 @@ export const storage = {
     /**
      * Create a new task
      */
-    async createTask(data: Partial<schema.Task>) {
+    async createTask(data: typeof schema.tasks.$inferInsert) {
+        // A task created already assigned counts as taken into work
+        const startedAt = data.status === schema.TASK_STATUS.IN_PROGRESS ? new Date() : null;
+
         const [task] = await db.insert(schema.tasks)
-            .values(data as any)
+            .values({ startedAt, ...data })
             .returning();
 
         return task;
     },
 
     /**
-     * Update task status
+     * Update task status, recording when the task was first taken into work and when it was completed.
+     * Returns undefined when there is no such task.
      */
     async updateTaskStatus(id: number, status: schema.TaskStatus) {
+        const existing = await db.query.tasks.findFirst({
+            where: eq(schema.tasks.id, id)
+        });
+
+        if (!existing) {
+            return undefined;
+        }
+
+        const now = new Date();
+        const startedAt = existing.startedAt ?? (status === schema.TASK_STATUS.NEW ? null : now);
+
+        const [task] = await db.update(schema.tasks)
+            .set({
+                status,
+                startedAt,
+                completedAt: status === schema.TASK_STATUS.COMPLETED ? now : null,
+                updatedAt: now
+            })
+            .where(eq(schema.tasks.id, id))
+            .returning();
+
+        return task;
+    },
+
+    /**
+     * Change priority and due date of a task.
+     * SLA warnings are re-armed because the deadlines they were sent for no longer apply.
+     */
+    async updateTaskPriority(id: number, priority: schema.TaskPriority, dueAt: Date | null) {
         const [task] = await db.update(schema.tasks)
-            .set({ status, updatedAt: new Date() })
+            .set({
+                priority,
+                dueAt,
+                responseBreachNotifiedAt: null,
+                resolveBreachNotifiedAt: null,
+                updatedAt: new Date()
+            })
             .where(eq(schema.tasks.id, id))
             .returning();
 
         return task;
     },
 
+    /**
+     * Get tasks that are not completed yet, with creator and assignee
+     */
+    async getOpenTasks() {
+        return db.query.tasks.findMany({
+            where: ne(schema.tasks.status, schema.TASK_STATUS.COMPLETED),
+            with: {
+                assignedTo: true,
+                createdBy: true
+            }
+        });
+    },
+
+    /**
+     * Remember that an SLA breach warning was sent for a task
+     */
+    async markTaskSlaBreachNotified(id: number, kind: 'response' | 'resolve') {
+        await db.update(schema.tasks)
+            .set(kind === 'response'
+                ? { responseBreachNotifiedAt: new Date() }
+                : { resolveBreachNotifiedAt: new Date() })
+            .where(eq(schema.tasks.id, id));
+    },
+
     /**
      * Assign task to user
      */
@@ -422,15 +2697,79 @@ export const storage = {
         return task;
     },
 
+    /**
+     * Get task by ID with creator and assignee
+     */
+    async getTaskById(id: number) {
+        return db.query.tasks.findFirst({
+            where: eq(schema.tasks.id, id),
+            with: {
+                assignedTo: true,
+                createdBy: true
+            }
+        });
+    },
+
+    /**
+     * Get comments of a task, oldest first
+     */
+    async getTaskComments(taskId: number) {
+        return db.query.taskComments.findMany({
+            where: eq(schema.taskComments.taskId, taskId),
+            with: {
+                user: true
+            },
+            orderBy: [schema.taskComments.createdAt]
+        });
+    },
+
+    /**
+     * Add a comment to a task
+     */
+    async addTaskComment(taskId: number, userId: number, comment: string) {
+        const [created] = await db.insert(schema.taskComments)
+            .values({ taskId, userId, comment })
+            .returning();
+
+        return created;
+    },
+
+    /**
+     * Attach files sent in the bot to a task
+     */
+    async addTaskAttachments(taskId: number, userId: number, attachments: NewAttachment[]) {
+        if (attachments.length === 0) {
+            return [];
+        }
+
+        return db.insert(schema.taskAttachments)
+            .values(attachments.map(attachment => ({ ...attachment, taskId, userId })))
+            .returning();
+    },
+
+    /**
+     * Get files attached to a task
+     */
+    async getTaskAttachments(taskId: number) {
+        return db.query.taskAttachments.findMany({
+            where: eq(schema.taskAttachments.taskId, taskId),
+            orderBy: [schema.taskAttachments.createdAt]
+        });
+    },
+
     /**
      * Secure passwords functions
      */
 
     /**
-     * Get all secure passwords
+     * Get all secure passwords (without their content)
      */
     async getSecurePasswords() {
         return db.query.securePasswords.findMany({
+            columns: {
+                encryptedContent: false,
+                encryptedDataKey: false
+            },
             with: {
                 sender: true,
                 receiver: true
@@ -440,10 +2779,14 @@ export const storage = {
     },
 
     /**
-     * Get secure passwords for a specific user
+     * Get secure passwords for a specific user (without their content)
      */
     async getUserSecurePasswords(userId: number) {
         return db.query.securePasswords.findMany({
+            columns: {
+                encryptedContent: false,
+                encryptedDataKey: false
+            },
             where: or(
                 eq(schema.securePasswords.senderId, userId),
                 eq(schema.securePasswords.receiverId, userId)
@@ -457,29 +2800,192 @@ export const storage = {
     },
 
     /**
-     * Get a specific secure password
+     * Get a specific secure password with decrypted content.
+     * Content is null once the password was burnt or has expired.
      */
     async getSecurePasswordById(id: number) {
-        return db.query.securePasswords.findFirst({
-            where: eq(schema.securePasswords.id, id),
-            with: {
-                sender: true,
-                receiver: true
+        return findSecurePassword(db, id);
+    },
+
+    /**
+     * Reveal a secure password to a viewer.
+     * When the receiver views it, it is marked as read and burnt if requested by the sender.
+     */
+    async revealSecurePassword(id: number, viewerId: number) {
+        return db.transaction(async (tx) => {
+            // Concurrent reveals wait for each other, so a password burnt after reading is shown only once
+            await tx.select({ id: schema.securePasswords.id })
+                .from(schema.securePasswords)
+                .where(eq(schema.securePasswords.id, id))
+                .for("update");
+
+            const password = await findSecurePassword(tx, id);
+
+            if (!password || password.isDestroyed || password.receiverId !== viewerId) {
+                return password;
+            }
+
+            if (!password.isRead) {
+                await tx.update(schema.securePasswords)
+                    .set({ isRead: true, updatedAt: new Date() })
+                    .where(eq(schema.securePasswords.id, id));
             }
+
+            if (password.burnAfterReading) {
+                await destroyPasswordContent(tx, id);
+            }
+
+            return { ...password, isRead: true };
         });
     },
 
     /**
-     * Create a new secure password
+     * Create a new secure password, encrypting its content
      */
-    async createSecurePassword(data: Partial<schema.SecurePassword>) {
+    async createSecurePassword(data: NewSecurePassword) {
+        const { content, lifetime, ...rest } = data;
+
+        const ttlHours = lifetime ? SECURE_PASSWORD_TTL_HOURS[lifetime] : undefined;
+
         const [password] = await db.insert(schema.securePasswords)
-            .values(data as any)
-            .returning();
+            .values({
+                ...rest,
+                ...encryptContent(content),
+                burnAfterReading: lifetime === schema.SECURE_PASSWORD_LIFETIME.BURN_AFTER_READING,
+                expiresAt: ttlHours ? new Date(Date.now() + ttlHours * 60 * 60 * 1000) : null
+            })
+            .returning({
+                id: schema.securePasswords.id,
+                senderId: schema.securePasswords.senderId,
+                receiverId: schema.securePasswords.receiverId,
+                title: schema.securePasswords.title,
+                type: schema.securePasswords.type,
+                keyVersion: schema.securePasswords.keyVersion,
+                isRead: schema.securePasswords.isRead,
+                burnAfterReading: schema.securePasswords.burnAfterReading,
+                expiresAt: schema.securePasswords.expiresAt,
+                createdAt: schema.securePasswords.createdAt,
+                updatedAt: schema.securePasswords.updatedAt
+            });
 
         return password;
     },
 
+    /**
+     * Attach files sent in the bot to a secure password
+     */
+    async addSecurePasswordAttachments(securePasswordId: number, attachments: NewAttachment[]) {
+        if (attachments.length === 0) {
+            return [];
+        }
+
+        return db.insert(schema.securePasswordAttachments)
+            .values(attachments.map(attachment => ({ ...attachment, securePasswordId })))
+            .returning();
+    },
+
+    /**
+     * Get files attached to a secure password; they are removed together with the content
+     */
+    async getSecurePasswordAttachments(securePasswordId: number) {
+        return db.query.securePasswordAttachments.findMany({
+            where: eq(schema.securePasswordAttachments.securePasswordId, securePasswordId),
+            orderBy: [schema.securePasswordAttachments.createdAt]
+        });
+    },
+
+    /**
+     * Wipe the content of a secure password, keeping only its metadata
+     */
+    async destroySecurePasswordContent(id: number) {
+        await destroyPasswordContent(db, id);
+    },
+
+    /**
+     * Wipe the content of all expired secure passwords
+     */
+    async destroyExpiredSecurePasswords() {
+        const destroyed = await db.update(schema.securePasswords)
+            .set({ ...DESTROYED_CONTENT, destroyedAt: new Date(), updatedAt: new Date() })
+            .where(and(
+                lte(schema.securePasswords.expiresAt, new Date()),
+                isNull(schema.securePasswords.destroyedAt)
+            ))
+            .returning({ id: schema.securePasswords.id });
+
+        if (destroyed.length > 0) {
+            await db.delete(schema.securePasswordAttachments)
+                .where(inArray(schema.securePasswordAttachments.securePasswordId, destroyed.map(password => password.id)));
+        }
+
+        return destroyed.length;
+    },
+
+    /**
+     * Remember bot messages that revealed a password so they can be deleted later.
+     * Every reveal is kept, so repeated views are all deleted.
+     */
+    async addRevealMessages(id: number, chatId: string, messageIds: number[], deleteAt: Date) {
+        if (messageIds.length === 0) {
+            return;
+        }
+
+        await db.insert(schema.securePasswordReveals)
+            .values(messageIds.map(messageId => ({ securePasswordId: id, chatId, messageId, deleteAt })));
+    },
+
+    /**
+     * Get revealed messages that are due for deletion
+     */
+    async getDueRevealMessages() {
+        return db.query.securePasswordReveals.findMany({
+            where: lte(schema.securePasswordReveals.deleteAt, new Date())
+        });
+    },
+
+    /**
+     * Forget a revealed message after it was deleted
+     */
+    async deleteRevealMessage(id: number) {
+        await db.delete(schema.securePasswordReveals)
+            .where(eq(schema.securePasswordReveals.id, id));
+    },
+
+    /**
+     * Re-encrypt every secure password under the current master key
+     */
+    async reencryptSecurePasswords() {
+        const keyVersion = getCurrentKeyVersion();
+
+        const passwords = await db.query.securePasswords.findMany({
+            columns: {
+                id: true,
+                encryptedContent: true,
+                encryptedDataKey: true,
+                keyVersion: true
+            },
+            where: isNull(schema.securePasswords.destroyedAt)
+        });
+
+        let updated = 0;
+
+        await db.transaction(async (tx) => {
+            for (const password of passwords) {
+                if (password.keyVersion === keyVersion) {
+                    continue;
+                }
+
+                await tx.update(schema.securePasswords)
+                    .set({ ...reencryptContent(password), updatedAt: new Date() })
+                    .where(eq(schema.securePasswords.id, password.id));
+
+                updated++;
+            }
+        });
+
+        return { updated, total: passwords.length, keyVersion };
+    },
+
     /**
      * Mark a password as read
      */
@@ -508,7 +3014,8 @@ export const storage = {
     },
 
     /**
-     * Update bot settings
+     * Update bot settings; settings missing from the data keep their saved values.
+     * Returns the settings as saved.
      */
     async updateBotSettings(data: any) {
         const settings = await db.query.botSettings.findFirst({
@@ -518,13 +3025,13 @@ export const storage = {
         if (settings) {
             const [updated] = await db.update(schema.botSettings)
                 .set({
-                    value: data,
+                    value: { ...(settings.value as object), ...data },
                     updatedAt: new Date()
                 })
                 .where(eq(schema.botSettings.id, settings.id))
                 .returning();
 
-            return updated.value;
+            return updated.value as any;
         } else {
             const [created] = await db.insert(schema.botSettings)
                 .values({
@@ -533,7 +3040,229 @@ export const storage = {
                 })
                 .returning();
 
-            return created.value;
+            return created.value as any;
+        }
+    },
+
+    /**
+     * Put a notification into the outbox; the notification worker delivers it
+     */
+    async enqueueNotification(data: NewNotification) {
+        const [notification] = await db.insert(schema.notifications)
+            .values({
+                userId: data.userId ?? null,
+                chatId: data.chatId,
+                category: data.category,
+                kind: data.kind ?? schema.NOTIFICATION_KIND.MESSAGE,
+                text: data.text ?? null,
+                telegramFileId: data.telegramFileId ?? null,
+                extra: data.extra ?? null
+            })
+            .returning();
+
+        return notification;
+    },
+
+    /**
+     * Get pending notifications whose next attempt is due, oldest first
+     */
+    async getDueNotifications(limit: number) {
+        return db.query.notifications.findMany({
+            where: and(
+                eq(schema.notifications.status, schema.NOTIFICATION_STATUS.PENDING),
+                lte(schema.notifications.nextAttemptAt, new Date())
+            ),
+            orderBy: [schema.notifications.nextAttemptAt, schema.notifications.id],
+            limit
+        });
+    },
+
+    /**
+     * Record a delivered notification
+     */
+    async markNotificationSent(id: number, attempts: number) {
+        await db.update(schema.notifications)
+            .set({
+                status: schema.NOTIFICATION_STATUS.SENT,
+                attempts,
+                lastError: null,
+                sentAt: new Date(),
+                updatedAt: new Date()
+            })
+            .where(eq(schema.notifications.id, id));
+    },
+
+    /**
+     * Record a failed attempt: retried at nextAttemptAt, or failed for good when nextAttemptAt is null
+     */
+    async markNotificationAttemptFailed(id: number, attempts: number, error: string, nextAttemptAt: Date | null) {
+        await db.update(schema.notifications)
+            .set({
+                status: nextAttemptAt ? schema.NOTIFICATION_STATUS.PENDING : schema.NOTIFICATION_STATUS.FAILED,
+                attempts,
+                lastError: error,
+                ...(nextAttemptAt ? { nextAttemptAt } : {}),
+                updatedAt: new Date()
+            })
+            .where(eq(schema.notifications.id, id));
+    },
+
+    /**
+     * Get notifications for the admin panel, newest first
+     */
+    async getNotifications(status?: string, limit: number = 200) {
+        return db.query.notifications.findMany({
+            where: status ? eq(schema.notifications.status, status) : undefined,
+            with: {
+                user: true
+            },
+            orderBy: [desc(schema.notifications.createdAt)],
+            limit
+        });
+    },
+
+    /**
+     * Queue a notification again from scratch
+     */
+    async resendNotification(id: number) {
+        const [notification] = await db.update(schema.notifications)
+            .set({
+                status: schema.NOTIFICATION_STATUS.PENDING,
+                attempts: 0,
+                lastError: null,
+                sentAt: null,
+                nextAttemptAt: new Date(),
+                updatedAt: new Date()
+            })
+            .where(eq(schema.notifications.id, id))
+            .returning();
+
+        return notification;
+    },
+
+    /**
+     * Mark or unmark a user as having blocked the bot
+     */
+    async setUserBotBlocked(userId: number, blocked: boolean) {
+        await db.update(schema.users)
+            .set({ botBlockedAt: blocked ? new Date() : null, updatedAt: new Date() })
+            .where(eq(schema.users.id, userId));
+    },
+
+    /**
+     * Get state of all scheduled jobs
+     */
+    async getScheduledJobs() {
+        return db.query.scheduledJobs.findMany({
+            orderBy: [schema.scheduledJobs.name]
+        });
+    },
+
+    /**
+     * Get a scheduled job, creating it with the given next run when it does not exist yet
+     */
+    async ensureScheduledJob(name: schema.ScheduledJobName, nextRunAt: Date) {
+        await db.insert(schema.scheduledJobs)
+            .values({ name, nextRunAt })
+            .onConflictDoNothing({ target: schema.scheduledJobs.name });
+
+        return db.query.scheduledJobs.findFirst({
+            where: eq(schema.scheduledJobs.name, name)
+        });
+    },
+
+    /**
+     * Move a due job to its next run. Returns false when another process already did,
+     * so a run is never started twice.
+     */
+    async claimScheduledJob(name: schema.ScheduledJobName, dueAt: Date, nextRunAt: Date) {
+        const claimed = await db.update(schema.scheduledJobs)
+            .set({ nextRunAt, updatedAt: new Date() })
+            .where(and(
+                eq(schema.scheduledJobs.name, name),
+                eq(schema.scheduledJobs.nextRunAt, dueAt)
+            ))
+            .returning({ id: schema.scheduledJobs.id });
+
+        return claimed.length > 0;
+    },
+
+    /**
+     * Set the next run of a job, e.g. after its schedule was changed
+     */
+    async rescheduleJob(name: schema.ScheduledJobName, nextRunAt: Date) {
+        await db.update(schema.scheduledJobs)
+            .set({ nextRunAt, updatedAt: new Date() })
+            .where(eq(schema.scheduledJobs.name, name));
+    },
+
+    /**
+     * Record the outcome of a job run
+     */
+    async finishScheduledJob(name: schema.ScheduledJobName, result: { sentCount: number, error: string | null }) {
+        await db.update(schema.scheduledJobs)
+            .set({
+                lastRunAt: new Date(),
+                lastSentCount: result.sentCount,
+                lastError: result.error,
+                updatedAt: new Date()
+            })
+            .where(eq(schema.scheduledJobs.name, name));
+    },
+
+    /**
+     * Get tasks still in the "new" status that were created before the given time
+     * and were not reminded about after the other given time
+     */
+    async getStaleNewTasks(createdBefore: Date, remindedBefore: Date) {
+        return db.query.tasks.findMany({
+            where: and(
+                eq(schema.tasks.status, schema.TASK_STATUS.NEW),
+                lte(schema.tasks.createdAt, createdBefore),
+                or(
+                    isNull(schema.tasks.staleRemindedAt),
+                    lte(schema.tasks.staleRemindedAt, remindedBefore)
+                )
+            ),
+            with: {
+                assignedTo: true,
+                createdBy: true
+            },
+            orderBy: [schema.tasks.createdAt]
+        });
+    },
+
+    async markStaleTasksReminded(taskIds: number[]) {
+        if (taskIds.length === 0) {
+            return;
         }
+
+        await db.update(schema.tasks)
+            .set({ staleRemindedAt: new Date() })
+            .where(inArray(schema.tasks.id, taskIds));
+    },
+
+    /**
+     * Get unread secure passwords sent before the given time whose content still exists
+     */
+    async getUnreadSecurePasswords(createdBefore: Date) {
+        return db.query.securePasswords.findMany({
+            columns: {
+                id: true,
+                title: true,
+                receiverId: true,
+                createdAt: true
+            },
+            where: and(
+                eq(schema.securePasswords.isRead, false),
+                isNull(schema.securePasswords.destroyedAt),
+                lte(schema.securePasswords.createdAt, createdBefore)
+            ),
+            with: {
+                sender: true,
+                receiver: true
+            },
+            orderBy: [schema.securePasswords.createdAt]
+        });
     }
 };
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { storage } from "./storage";
+import { telegramBot } from "./bot";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Wipe expired secure passwords and delete bot messages that revealed them
+ */
+async function sweepSecurePasswords() {
+  try {
+    const destroyed = await storage.destroyExpiredSecurePasswords();
+
+    if (destroyed > 0) {
+      console.log(`Destroyed content of ${destroyed} expired secure password(s)`);
+    }
+
+    // Revealed messages can only be deleted while the bot is running; they stay queued otherwise
+    if (!telegramBot) {
+      return;
+    }
+
+    const dueMessages = await storage.getDueRevealMessages();
+
+    for (const message of dueMessages) {
+      await telegramBot.telegram.deleteMessage(message.chatId, message.messageId)
+        .catch(err => console.error("Failed to delete revealed password message:", err));
+
+      await storage.deleteRevealMessage(message.id);
+    }
+  } catch (error) {
+    console.error("Secure password sweep failed:", error);
+  }
+}
+
+/**
+ * Start the background sweeper for secure passwords
+ */
+export function startSecurePasswordSweeper() {
+  if (sweepTimer) {
+    return;
+  }
+
+  sweepTimer = setInterval(sweepSecurePasswords, SWEEP_INTERVAL_MS);
+  sweepSecurePasswords();
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from "vitest";
+import express, { type Express } from "express";
+import { readFile } from "fs/promises";
+import path from "path";
+import request from "supertest";
+import { Telegram } from "telegraf";
+import type { Update } from "telegraf/types";
+import * as schema from "@shared/schema";
+
+vi.mock("@db", () => ({ db: {} }));
+
+vi.mock("./storage", () => ({
+  storage: {
+    getBotSettings: vi.fn(async () => undefined)
+  }
+}));
+
+const WEBHOOK_SECRET = "test-webhook-secret";
+const FIXTURE = path.resolve(import.meta.dirname, "../scripts/fixtures/telegram-updates.json");
+
+let app: Express;
+let updates: Update[];
+let handleUpdate: ReturnType<typeof vi.fn>;
+
+beforeAll(async () => {
+  const { registerRoutes } = await import("./routes");
+  const { setupBot } = await import("./bot");
+
+  // The bot must not reach Telegram: setting the webhook and replies go nowhere
+  vi.spyOn(Telegram.prototype, "callApi").mockResolvedValue(true as never);
+
+  const bot = setupBot("123456:test-token", {
+    mode: schema.BOT_UPDATE_MODE.WEBHOOK,
+    webhookUrl: "https://example.com",
+    webhookSecret: WEBHOOK_SECRET
+  });
+
+  // Handling of each update is up to the bot handlers, here only its delivery is tested
+  handleUpdate = vi.fn();
+  bot!.handleUpdate = handleUpdate;
+
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+
+  updates = JSON.parse(await readFile(FIXTURE, "utf8"));
+});
+
+beforeEach(() => {
+  handleUpdate.mockReset();
+  handleUpdate.mockResolvedValue(undefined);
+});
+
+function post(update: Update) {
+  return request(app).post("/api/telegram/webhook").send(update);
+}
+
+describe("POST /api/telegram/webhook", () => {
+  it("hands every recorded update to the bot", async () => {
+    for (const update of updates) {
+      const res = await post(update).set("X-Telegram-Bot-Api-Secret-Token", WEBHOOK_SECRET);
+
+      expect(res.status).toBe(200);
+    }
+
+    expect(handleUpdate.mock.calls.map(([update]) => update)).toEqual(updates);
+  });
+
+  it("rejects updates without the secret", async () => {
+    const res = await post(updates[0]);
+
+    expect(res.status).toBe(401);
+    expect(handleUpdate).not.toHaveBeenCalled();
+  });
+
+  it("rejects updates with a wrong secret", async () => {
+    const res = await post(updates[0]).set("X-Telegram-Bot-Api-Secret-Token", "wrong-secret");
+
+    expect(res.status).toBe(401);
+    expect(handleUpdate).not.toHaveBeenCalled();
+  });
+
+  it("accepts an update the bot failed to handle, so Telegram does not redeliver it", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    handleUpdate.mockRejectedValue(new Error("Handler failed"));
+
+    const res = await post(updates[0]).set("X-Telegram-Bot-Api-Secret-Token", WEBHOOK_SECRET);
+
+    expect(res.status).toBe(200);
+  });
+});
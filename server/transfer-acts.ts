@@ -0,0 +1,121 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Packer,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from "docx";
+import * as schema from "@shared/schema";
+
+export const TRANSFER_ACT_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const FONT = "Times New Roman";
+// Font sizes are in half-points
+const TEXT_SIZE = 24;
+const TABLE_SIZE = 22;
+
+const ITEM_COLUMNS = [
+  { title: "№ п/п", width: 8 },
+  { title: "Инвентарный номер", width: 22 },
+  { title: "Наименование", width: 40 },
+  { title: "Тип", width: 20 },
+  { title: "Кол-во", width: 10 }
+];
+
+type TransferActWithItems = schema.TransferAct & { items: schema.TransferActItem[] };
+
+function text(value: string, options: { bold?: boolean, size?: number } = {}): TextRun {
+  return new TextRun({ text: value, font: FONT, size: options.size || TEXT_SIZE, bold: options.bold });
+}
+
+export function paragraph(value: string, options: { bold?: boolean, alignment?: typeof AlignmentType[keyof typeof AlignmentType], spacingAfter?: number } = {}): Paragraph {
+  return new Paragraph({
+    alignment: options.alignment,
+    spacing: { after: options.spacingAfter ?? 120 },
+    children: [text(value, { bold: options.bold })]
+  });
+}
+
+export function cell(value: string, width: number, bold = false): TableCell {
+  return new TableCell({
+    width: { size: width, type: WidthType.PERCENTAGE },
+    children: [new Paragraph({ children: [text(value, { bold, size: TABLE_SIZE })] })]
+  });
+}
+
+function itemsTable(items: schema.TransferActItem[]): Table {
+  const header = new TableRow({
+    tableHeader: true,
+    children: ITEM_COLUMNS.map(column => cell(column.title, column.width, true))
+  });
+
+  const rows = items.map((item, index) => new TableRow({
+    children: [String(index + 1), item.inventoryNumber, item.name, item.type, "1"]
+      .map((value, column) => cell(value, ITEM_COLUMNS[column].width))
+  }));
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [header, ...rows]
+  });
+}
+
+function signatureTable(act: schema.TransferAct): Table {
+  const noBorder = { style: BorderStyle.NONE, size: 0, color: "FFFFFF" };
+  const side = (title: string, name: string) => new TableCell({
+    width: { size: 50, type: WidthType.PERCENTAGE },
+    borders: { top: noBorder, bottom: noBorder, left: noBorder, right: noBorder },
+    children: [
+      paragraph(title, { bold: true }),
+      paragraph(name),
+      paragraph("________________ / подпись /", { spacingAfter: 0 })
+    ]
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [new TableRow({ children: [side("Передал:", act.fromName), side("Принял:", act.toName)] })]
+  });
+}
+
+/**
+ * File name of the downloaded act
+ */
+export function transferActFileName(act: schema.TransferAct): string {
+  return `transfer_act_${act.number}.docx`;
+}
+
+/**
+ * Build the act of transfer as a DOCX document. Only the data stored with the act is used,
+ * so a reprint is identical to the first copy.
+ */
+export async function buildTransferActDocument(act: TransferActWithItems): Promise<Buffer> {
+  const date = new Date(act.createdAt).toLocaleDateString('ru-RU');
+
+  const document = new Document({
+    creator: "Inventory bot",
+    title: `Акт приема-передачи № ${act.number}`,
+    sections: [{
+      children: [
+        paragraph(`АКТ № ${act.number}`, { bold: true, alignment: AlignmentType.CENTER, spacingAfter: 0 }),
+        paragraph("приема-передачи имущества", { bold: true, alignment: AlignmentType.CENTER }),
+        paragraph(`Дата: ${date}`, { alignment: AlignmentType.RIGHT, spacingAfter: 240 }),
+        paragraph(`Передающая сторона: ${act.fromName}`),
+        paragraph(`Принимающая сторона: ${act.toName}`),
+        paragraph("Передающая сторона передала, а принимающая сторона приняла следующее имущество:", { spacingAfter: 240 }),
+        itemsTable(act.items),
+        paragraph("", { spacingAfter: 0 }),
+        paragraph(`Всего передано предметов: ${act.items.length}`),
+        paragraph("Имущество передано в исправном состоянии. Стороны претензий друг к другу не имеют.", { spacingAfter: 480 }),
+        signatureTable(act)
+      ]
+    }]
+  });
+
+  return Packer.toBuffer(document);
+}
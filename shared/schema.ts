@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date, numeric, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -14,6 +14,16 @@ export const ROLES = {
 
 export type Role = (typeof ROLES)[keyof typeof ROLES];
 
+// Registration status; roles chosen in the bot have to be approved. Employees who left are blocked.
+export const REGISTRATION_STATUS = {
+  PENDING: "pending",
+  APPROVED: "approved",
+  REJECTED: "rejected",
+  BLOCKED: "blocked"
+} as const;
+
+export type RegistrationStatus = (typeof REGISTRATION_STATUS)[keyof typeof REGISTRATION_STATUS];
+
 // Chat types
 export const CHAT_TYPES = {
   EQUIPMENT: "equipment",
@@ -34,16 +44,180 @@ export const EQUIPMENT_STATUS = {
 
 export type EquipmentStatus = (typeof EQUIPMENT_STATUS)[keyof typeof EQUIPMENT_STATUS];
 
+// Levels of the locations tree: a building has floors, a floor has rooms
+export const LOCATION_KIND = {
+  BUILDING: "building",
+  FLOOR: "floor",
+  ROOM: "room"
+} as const;
+
+export type LocationKind = (typeof LOCATION_KIND)[keyof typeof LOCATION_KIND];
+
+// Kind of the parent each level is placed in; buildings are at the top
+export const LOCATION_PARENT_KIND: Record<LocationKind, LocationKind | null> = {
+  [LOCATION_KIND.BUILDING]: null,
+  [LOCATION_KIND.FLOOR]: LOCATION_KIND.BUILDING,
+  [LOCATION_KIND.ROOM]: LOCATION_KIND.FLOOR
+};
+
+// Holder's answer to an equipment assignment, asked in the bot
+export const RECEIPT_STATUS = {
+  PENDING: "pending",
+  CONFIRMED: "confirmed",
+  REJECTED: "rejected"
+} as const;
+
+export type ReceiptStatus = (typeof RECEIPT_STATUS)[keyof typeof RECEIPT_STATUS];
+
+// Stocktaking campaign status
+export const STOCKTAKING_STATUS = {
+  ACTIVE: "active",
+  COMPLETED: "completed"
+} as const;
+
+export type StocktakingStatus = (typeof STOCKTAKING_STATUS)[keyof typeof STOCKTAKING_STATUS];
+
+// What the holder found when checking an item during stocktaking
+export const STOCKTAKING_RESULT = {
+  PRESENT: "present",
+  MISSING: "missing",
+  DAMAGED: "damaged"
+} as const;
+
+export type StocktakingResult = (typeof STOCKTAKING_RESULT)[keyof typeof STOCKTAKING_RESULT];
+
+// Direction of a consumables stock movement
+export const STOCK_MOVEMENT_KIND = {
+  RECEIPT: "receipt",
+  ISSUE: "issue"
+} as const;
+
+export type StockMovementKind = (typeof STOCK_MOVEMENT_KIND)[keyof typeof STOCK_MOVEMENT_KIND];
+
+// Checklist of an employee leaving or joining the company
+export const CHECKLIST_KIND = {
+  OFFBOARDING: "offboarding",
+  ONBOARDING: "onboarding"
+} as const;
+
+export type ChecklistKind = (typeof CHECKLIST_KIND)[keyof typeof CHECKLIST_KIND];
+
+// Steps of the checklists; onboarding uses the first three
+export const CHECKLIST_STEP = {
+  EQUIPMENT: "equipment",
+  TASKS: "tasks",
+  ACCESS: "access",
+  PASSWORDS: "passwords",
+  BOT: "bot"
+} as const;
+
+export type ChecklistStep = (typeof CHECKLIST_STEP)[keyof typeof CHECKLIST_STEP];
+
 // Task status
 export const TASK_STATUS = {
   NEW: "new",
   IN_PROGRESS: "in_progress",
-  COMPLETED: "completed",
-  URGENT: "urgent"
+  COMPLETED: "completed"
 } as const;
 
 export type TaskStatus = (typeof TASK_STATUS)[keyof typeof TASK_STATUS];
 
+// Status older versions used for urgent tasks; such rows are moved to TASK_PRIORITY.URGENT on startup
+export const LEGACY_TASK_STATUS_URGENT = "urgent";
+
+// Task priority, from lowest to highest
+export const TASK_PRIORITY = {
+  LOW: "low",
+  NORMAL: "normal",
+  HIGH: "high",
+  URGENT: "urgent"
+} as const;
+
+export type TaskPriority = (typeof TASK_PRIORITY)[keyof typeof TASK_PRIORITY];
+
+// Secure password lifetime
+export const SECURE_PASSWORD_LIFETIME = {
+  FOREVER: "forever",
+  BURN_AFTER_READING: "burn",
+  ONE_HOUR: "1h",
+  ONE_DAY: "24h",
+  ONE_WEEK: "7d"
+} as const;
+
+export type SecurePasswordLifetime = (typeof SECURE_PASSWORD_LIFETIME)[keyof typeof SECURE_PASSWORD_LIFETIME];
+
+// Kind of a file attached in the bot
+export const ATTACHMENT_KIND = {
+  PHOTO: "photo",
+  DOCUMENT: "document"
+} as const;
+
+export type AttachmentKind = (typeof ATTACHMENT_KIND)[keyof typeof ATTACHMENT_KIND];
+
+// How the Telegram bot receives updates
+export const BOT_UPDATE_MODE = {
+  POLLING: "polling",
+  WEBHOOK: "webhook"
+} as const;
+
+export type BotUpdateMode = (typeof BOT_UPDATE_MODE)[keyof typeof BOT_UPDATE_MODE];
+
+// Background jobs run by the scheduler
+export const SCHEDULED_JOBS = {
+  TASK_DIGEST: "task_digest",
+  STALE_TASK_REMINDER: "stale_task_reminder",
+  UNREAD_PASSWORD_REMINDER: "unread_password_reminder",
+  EQUIPMENT_RECEIPT_REMINDER: "equipment_receipt_reminder",
+  WARRANTY_EXPIRY_ALERT: "warranty_expiry_alert",
+  REPAIR_OVERDUE_ALERT: "repair_overdue_alert",
+  LICENSE_EXPIRY_ALERT: "license_expiry_alert"
+} as const;
+
+export type ScheduledJobName = (typeof SCHEDULED_JOBS)[keyof typeof SCHEDULED_JOBS];
+
+// Delivery state of an outbox notification
+export const NOTIFICATION_STATUS = {
+  PENDING: "pending",
+  SENT: "sent",
+  FAILED: "failed"
+} as const;
+
+export type NotificationStatus = (typeof NOTIFICATION_STATUS)[keyof typeof NOTIFICATION_STATUS];
+
+// What an outbox notification sends: a text message or a stored bot file
+export const NOTIFICATION_KIND = {
+  MESSAGE: "message",
+  PHOTO: "photo",
+  DOCUMENT: "document"
+} as const;
+
+export type NotificationKind = (typeof NOTIFICATION_KIND)[keyof typeof NOTIFICATION_KIND];
+
+// What triggered an outbox notification
+export const NOTIFICATION_CATEGORY = {
+  TASK_ASSIGNED: "task_assigned",
+  TASK_STATUS: "task_status",
+  TASK_COMMENT: "task_comment",
+  TASK_SLA: "task_sla",
+  TASK_DIGEST: "task_digest",
+  TASK_STALE: "task_stale",
+  SECURE_PASSWORD: "secure_password",
+  PASSWORD_REMINDER: "password_reminder",
+  REGISTRATION_REQUEST: "registration_request",
+  REGISTRATION_DECISION: "registration_decision",
+  EQUIPMENT_RECEIPT: "equipment_receipt",
+  EQUIPMENT_RECEIPT_REMINDER: "equipment_receipt_reminder",
+  EQUIPMENT_RECEIPT_REJECTED: "equipment_receipt_rejected",
+  STOCKTAKING: "stocktaking",
+  WARRANTY_EXPIRY: "warranty_expiry",
+  LOW_STOCK: "low_stock",
+  REPAIR_OVERDUE: "repair_overdue",
+  LICENSE_EXPIRY: "license_expiry",
+  PASSWORD_ROTATION: "password_rotation"
+} as const;
+
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORY)[keyof typeof NOTIFICATION_CATEGORY];
+
 // Users table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -54,6 +228,30 @@ export const users = pgTable("users", {
   role: text("role").notNull().default(ROLES.EMPLOYEE),
   isAdmin: boolean("is_admin").default(false),
   isRegistered: boolean("is_registered").default(false),
+  registrationStatus: text("registration_status").notNull().default(REGISTRATION_STATUS.APPROVED),
+  // Chosen during registration in the bot, changed by admins
+  departmentId: integer("department_id").references((): AnyPgColumn => departments.id),
+  // Set when Telegram refused a message because the user blocked the bot
+  botBlockedAt: timestamp("bot_blocked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Departments of the company; the head is usually a manager who sees the department's equipment
+export const departments = pgTable("departments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  headUserId: integer("head_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Admin panel credentials
+export const userCredentials = pgTable("user_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  mustChangePassword: boolean("must_change_password").default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -68,6 +266,16 @@ export const permissions = pgTable("permissions", {
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Physical locations: buildings, floors and rooms
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  kind: text("kind").notNull(),
+  parentId: integer("parent_id").references((): AnyPgColumn => locations.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
 // Equipment table
 export const equipment = pgTable("equipment", {
   id: serial("id").primaryKey(),
@@ -77,7 +285,26 @@ export const equipment = pgTable("equipment", {
   status: text("status").notNull().default(EQUIPMENT_STATUS.STORAGE),
   assignedToUserId: integer("assigned_to_user_id").references(() => users.id),
   description: text("description"),
-  department: text("department"),
+  departmentId: integer("department_id").references(() => departments.id),
+  // Free-text department from before departments existed; moved to departmentId on startup
+  legacyDepartment: text("department"),
+  locationId: integer("location_id").references(() => locations.id),
+  // Whether the holder confirmed receipt; null while the item is in the warehouse
+  receiptStatus: text("receipt_status"),
+  // Transfer act the confirmation was asked for
+  receiptActId: integer("receipt_act_id").references((): AnyPgColumn => transferActs.id),
+  receiptRequestedAt: timestamp("receipt_requested_at"),
+  receiptAnsweredAt: timestamp("receipt_answered_at"),
+  // Accounting data; dates are "YYYY-MM-DD", the cost is in rubles
+  purchaseDate: date("purchase_date"),
+  purchaseCost: numeric("purchase_cost", { precision: 12, scale: 2 }),
+  supplier: text("supplier"),
+  invoiceNumber: text("invoice_number"),
+  warrantyEndDate: date("warranty_end_date"),
+  // Straight-line depreciation period
+  usefulLifeMonths: integer("useful_life_months"),
+  // Sysadmins were warned about the end of warranty; cleared when the date changes
+  warrantyNotifiedAt: timestamp("warranty_notified_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -92,6 +319,166 @@ export const equipmentHistory = pgTable("equipment_history", {
   timestamp: timestamp("timestamp").defaultNow().notNull()
 });
 
+// Acts of transfer (акт приема-передачи), numbered sequentially.
+// Names are copied into the act so a reprint matches the original after users change or leave.
+export const transferActs = pgTable("transfer_acts", {
+  id: serial("id").primaryKey(),
+  number: integer("number").notNull().unique(),
+  // Null means the warehouse
+  fromUserId: integer("from_user_id").references(() => users.id),
+  fromName: text("from_name").notNull(),
+  toUserId: integer("to_user_id").references(() => users.id),
+  toName: text("to_name").notNull(),
+  createdByUserId: integer("created_by_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Equipment listed in a transfer act, as it was at the time of the transfer
+export const transferActItems = pgTable("transfer_act_items", {
+  id: serial("id").primaryKey(),
+  actId: integer("act_id").references(() => transferActs.id).notNull(),
+  equipmentId: integer("equipment_id").references(() => equipment.id).notNull(),
+  inventoryNumber: text("inventory_number").notNull(),
+  name: text("name").notNull(),
+  type: text("type").notNull()
+});
+
+// Stocktaking campaigns (инвентаризация). Scope filters are empty for "all".
+export const stocktakings = pgTable("stocktakings", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  departmentId: integer("department_id").references(() => departments.id),
+  // Name of the department when the campaign started, kept for reports
+  department: text("department"),
+  equipmentType: text("equipment_type"),
+  status: text("status").notNull().default(STOCKTAKING_STATUS.ACTIVE),
+  createdByUserId: integer("created_by_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at")
+});
+
+// Equipment in the scope of a stocktaking, copied when the campaign starts
+export const stocktakingItems = pgTable("stocktaking_items", {
+  id: serial("id").primaryKey(),
+  stocktakingId: integer("stocktaking_id").references(() => stocktakings.id).notNull(),
+  equipmentId: integer("equipment_id").references(() => equipment.id).notNull(),
+  inventoryNumber: text("inventory_number").notNull(),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  // Who had the item when the campaign started and is asked to check it; null for the warehouse
+  holderUserId: integer("holder_user_id").references(() => users.id),
+  // Null until the item is checked
+  result: text("result"),
+  photoFileId: text("photo_file_id"),
+  checkedByUserId: integer("checked_by_user_id").references(() => users.id),
+  checkedAt: timestamp("checked_at")
+});
+
+// Repair orders: equipment sent to a vendor or service centre and returned from it
+export const repairOrders = pgTable("repair_orders", {
+  id: serial("id").primaryKey(),
+  equipmentId: integer("equipment_id").references(() => equipment.id).notNull(),
+  // Null while unknown, e.g. for equipment sent to repair with a button in the bot
+  vendor: text("vendor"),
+  issue: text("issue"),
+  sentAt: date("sent_at").notNull(),
+  // Null while the equipment is in repair
+  returnedAt: date("returned_at"),
+  cost: numeric("cost", { precision: 12, scale: 2 }),
+  isWarranty: boolean("is_warranty").notNull().default(false),
+  // Task that reported the fault
+  taskId: integer("task_id").references((): AnyPgColumn => tasks.id),
+  // Status the equipment returns to after the repair
+  previousStatus: text("previous_status"),
+  createdByUserId: integer("created_by_user_id").references(() => users.id),
+  // When sysadmins were reminded that the repair takes too long
+  overdueNotifiedAt: timestamp("overdue_notified_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Consumables and spare parts (cartridges, cables, mice) counted by quantity instead of inventory numbers
+export const stockItems = pgTable("stock_items", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  unit: text("unit").notNull().default("шт."),
+  quantity: integer("quantity").notNull().default(0),
+  // Sysadmins are alerted when the quantity drops to this level
+  minQuantity: integer("min_quantity").notNull().default(0),
+  // When the low stock alert was sent; cleared once the stock is replenished
+  lowStockNotifiedAt: timestamp("low_stock_notified_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Journal of receipts and issues of consumables
+export const stockMovements = pgTable("stock_movements", {
+  id: serial("id").primaryKey(),
+  stockItemId: integer("stock_item_id").references(() => stockItems.id).notNull(),
+  kind: text("kind").notNull(),
+  quantity: integer("quantity").notNull(),
+  // Quantity left in stock after the movement
+  balance: integer("balance").notNull(),
+  // Who the items were issued to, and the task they were issued against
+  issuedToUserId: integer("issued_to_user_id").references(() => users.id),
+  taskId: integer("task_id").references((): AnyPgColumn => tasks.id),
+  comment: text("comment"),
+  createdByUserId: integer("created_by_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Software licenses and subscriptions (Windows, Office, antivirus, SaaS) with a number of seats
+export const licenses = pgTable("licenses", {
+  id: serial("id").primaryKey(),
+  product: text("product").notNull(),
+  seats: integer("seats").notNull(),
+  // Null for perpetual licenses
+  expiresAt: date("expires_at"),
+  // License key, encrypted like secure password content; null for products without a key
+  encryptedContent: text("encrypted_content"),
+  encryptedDataKey: text("encrypted_data_key"),
+  keyVersion: integer("key_version"),
+  notes: text("notes"),
+  // Sysadmins were warned about the expiry; cleared when the date changes
+  expiryNotifiedAt: timestamp("expiry_notified_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// Seats of a license, each taken by a user or by an equipment item
+export const licenseAssignments = pgTable("license_assignments", {
+  id: serial("id").primaryKey(),
+  licenseId: integer("license_id").references(() => licenses.id).notNull(),
+  userId: integer("user_id").references(() => users.id),
+  equipmentId: integer("equipment_id").references(() => equipment.id),
+  assignedByUserId: integer("assigned_by_user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Offboarding and onboarding checklists. Names are copied, so the signed-off report outlives the users.
+export const staffChecklists = pgTable("staff_checklists", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(),
+  // Null once the employee is deleted
+  userId: integer("user_id").references(() => users.id),
+  employeeName: text("employee_name").notNull(),
+  createdByUserId: integer("created_by_user_id").references(() => users.id),
+  signedOffByName: text("signed_off_by_name"),
+  signedOffAt: timestamp("signed_off_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// What was done for a checklist, in order; listed in the report
+export const staffChecklistEntries = pgTable("staff_checklist_entries", {
+  id: serial("id").primaryKey(),
+  checklistId: integer("checklist_id").references(() => staffChecklists.id).notNull(),
+  step: text("step").notNull(),
+  text: text("text").notNull(),
+  actorName: text("actor_name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
 // Secure passwords
 export const securePasswords = pgTable("secure_passwords", {
   id: serial("id").primaryKey(),
@@ -100,11 +487,38 @@ export const securePasswords = pgTable("secure_passwords", {
   title: text("title").notNull(),
   type: text("type").notNull(),
   encryptedContent: text("encrypted_content").notNull(),
+  encryptedDataKey: text("encrypted_data_key"),
+  keyVersion: integer("key_version"),
   isRead: boolean("is_read").default(false),
+  burnAfterReading: boolean("burn_after_reading").default(false),
+  expiresAt: timestamp("expires_at"),
+  destroyedAt: timestamp("destroyed_at"),
+  // Set when the receiver leaves the company: the sender should change the credentials
+  rotationRequiredAt: timestamp("rotation_required_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Files attached to secure passwords in the bot, kept as Telegram file ids
+export const securePasswordAttachments = pgTable("secure_password_attachments", {
+  id: serial("id").primaryKey(),
+  securePasswordId: integer("secure_password_id").references(() => securePasswords.id).notNull(),
+  kind: text("kind").notNull(),
+  telegramFileId: text("telegram_file_id").notNull(),
+  fileName: text("file_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+// Bot messages that showed a secure password or its files; every reveal is deleted from the chat when due
+export const securePasswordReveals = pgTable("secure_password_reveals", {
+  id: serial("id").primaryKey(),
+  securePasswordId: integer("secure_password_id").references(() => securePasswords.id).notNull(),
+  chatId: text("chat_id").notNull(),
+  messageId: integer("message_id").notNull(),
+  deleteAt: timestamp("delete_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
 // Tasks
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
@@ -113,6 +527,15 @@ export const tasks = pgTable("tasks", {
   createdByUserId: integer("created_by_user_id").references(() => users.id).notNull(),
   assignedToUserId: integer("assigned_to_user_id").references(() => users.id),
   status: text("status").notNull().default(TASK_STATUS.NEW),
+  priority: text("priority").notNull().default(TASK_PRIORITY.NORMAL),
+  dueAt: timestamp("due_at"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  // When SLA breach warnings were sent, so each is sent only once
+  responseBreachNotifiedAt: timestamp("response_breach_notified_at"),
+  resolveBreachNotifiedAt: timestamp("resolve_breach_notified_at"),
+  // Last reminder to the author that the task is still new, so reminders keep to their interval
+  staleRemindedAt: timestamp("stale_reminded_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
@@ -126,6 +549,17 @@ export const taskComments = pgTable("task_comments", {
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
+// Files attached to tasks in the bot, kept as Telegram file ids
+export const taskAttachments = pgTable("task_attachments", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").references(() => tasks.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  kind: text("kind").notNull(),
+  telegramFileId: text("telegram_file_id").notNull(),
+  fileName: text("file_name"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
 // Bot settings
 export const botSettings = pgTable("bot_settings", {
   id: serial("id").primaryKey(),
@@ -134,16 +568,72 @@ export const botSettings = pgTable("bot_settings", {
   updatedAt: timestamp("updated_at").defaultNow().notNull()
 });
 
+// Outbox of bot notifications, delivered by the notification worker with retries
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  chatId: text("chat_id").notNull(),
+  kind: text("kind").notNull().default(NOTIFICATION_KIND.MESSAGE),
+  // Short name of what triggered the notification, shown in the admin panel
+  category: text("category").notNull(),
+  // Message text, or caption of a file
+  text: text("text"),
+  telegramFileId: text("telegram_file_id"),
+  // Extra sendMessage/sendPhoto/sendDocument options such as reply_markup
+  extra: jsonb("extra"),
+  status: text("status").notNull().default(NOTIFICATION_STATUS.PENDING),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+// State of scheduled jobs, so runs survive restarts of the server
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastError: text("last_error"),
+  // Messages sent by the last run
+  lastSentCount: integer("last_sent_count"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
 // Relations
 
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  credentials: one(userCredentials),
+  department: one(departments, { fields: [users.departmentId], references: [departments.id], relationName: "department_members" }),
+  headedDepartments: many(departments, { relationName: "department_head" }),
   permissions: many(permissions),
   assignedEquipment: many(equipment, { relationName: "assigned_equipment" }),
   securePasswordsSent: many(securePasswords, { relationName: "passwords_sent" }),
   securePasswordsReceived: many(securePasswords, { relationName: "passwords_received" }),
   createdTasks: many(tasks, { relationName: "created_tasks" }),
   assignedTasks: many(tasks, { relationName: "assigned_tasks" }),
-  taskComments: many(taskComments)
+  taskComments: many(taskComments),
+  notifications: many(notifications),
+  transferActsGiven: many(transferActs, { relationName: "transfer_acts_given" }),
+  transferActsReceived: many(transferActs, { relationName: "transfer_acts_received" }),
+  stocktakingItemsHeld: many(stocktakingItems, { relationName: "stocktaking_items_held" }),
+  stockIssued: many(stockMovements, { relationName: "stock_issued_to" }),
+  stockMovementsCreated: many(stockMovements, { relationName: "stock_movements_created" }),
+  repairOrdersCreated: many(repairOrders),
+  licenseSeats: many(licenseAssignments, { relationName: "license_seats" }),
+  licenseSeatsAssigned: many(licenseAssignments, { relationName: "license_seats_assigned" })
+}));
+
+export const departmentsRelations = relations(departments, ({ one, many }) => ({
+  head: one(users, { fields: [departments.headUserId], references: [users.id], relationName: "department_head" }),
+  members: many(users, { relationName: "department_members" }),
+  equipment: many(equipment)
+}));
+
+export const userCredentialsRelations = relations(userCredentials, ({ one }) => ({
+  user: one(users, { fields: [userCredentials.userId], references: [users.id] })
 }));
 
 export const permissionsRelations = relations(permissions, ({ one }) => ({
@@ -152,7 +642,18 @@ export const permissionsRelations = relations(permissions, ({ one }) => ({
 
 export const equipmentRelations = relations(equipment, ({ one, many }) => ({
   assignedUser: one(users, { fields: [equipment.assignedToUserId], references: [users.id], relationName: "assigned_equipment" }),
-  history: many(equipmentHistory)
+  department: one(departments, { fields: [equipment.departmentId], references: [departments.id] }),
+  location: one(locations, { fields: [equipment.locationId], references: [locations.id] }),
+  history: many(equipmentHistory),
+  transferActItems: many(transferActItems),
+  repairOrders: many(repairOrders),
+  licenseSeats: many(licenseAssignments)
+}));
+
+export const locationsRelations = relations(locations, ({ one, many }) => ({
+  parent: one(locations, { fields: [locations.parentId], references: [locations.id], relationName: "location_children" }),
+  children: many(locations, { relationName: "location_children" }),
+  equipment: many(equipment)
 }));
 
 export const equipmentHistoryRelations = relations(equipmentHistory, ({ one }) => ({
@@ -160,15 +661,90 @@ export const equipmentHistoryRelations = relations(equipmentHistory, ({ one }) =
   user: one(users, { fields: [equipmentHistory.userId], references: [users.id] })
 }));
 
-export const securePasswordsRelations = relations(securePasswords, ({ one }) => ({
+export const transferActsRelations = relations(transferActs, ({ one, many }) => ({
+  fromUser: one(users, { fields: [transferActs.fromUserId], references: [users.id], relationName: "transfer_acts_given" }),
+  toUser: one(users, { fields: [transferActs.toUserId], references: [users.id], relationName: "transfer_acts_received" }),
+  items: many(transferActItems)
+}));
+
+export const transferActItemsRelations = relations(transferActItems, ({ one }) => ({
+  act: one(transferActs, { fields: [transferActItems.actId], references: [transferActs.id] }),
+  equipment: one(equipment, { fields: [transferActItems.equipmentId], references: [equipment.id] })
+}));
+
+export const stocktakingsRelations = relations(stocktakings, ({ many }) => ({
+  items: many(stocktakingItems)
+}));
+
+export const stocktakingItemsRelations = relations(stocktakingItems, ({ one }) => ({
+  stocktaking: one(stocktakings, { fields: [stocktakingItems.stocktakingId], references: [stocktakings.id] }),
+  equipment: one(equipment, { fields: [stocktakingItems.equipmentId], references: [equipment.id] }),
+  holder: one(users, { fields: [stocktakingItems.holderUserId], references: [users.id], relationName: "stocktaking_items_held" })
+}));
+
+export const repairOrdersRelations = relations(repairOrders, ({ one }) => ({
+  equipment: one(equipment, { fields: [repairOrders.equipmentId], references: [equipment.id] }),
+  task: one(tasks, { fields: [repairOrders.taskId], references: [tasks.id] }),
+  createdBy: one(users, { fields: [repairOrders.createdByUserId], references: [users.id] })
+}));
+
+export const stockItemsRelations = relations(stockItems, ({ many }) => ({
+  movements: many(stockMovements)
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  item: one(stockItems, { fields: [stockMovements.stockItemId], references: [stockItems.id] }),
+  issuedTo: one(users, { fields: [stockMovements.issuedToUserId], references: [users.id], relationName: "stock_issued_to" }),
+  task: one(tasks, { fields: [stockMovements.taskId], references: [tasks.id] }),
+  createdBy: one(users, { fields: [stockMovements.createdByUserId], references: [users.id], relationName: "stock_movements_created" })
+}));
+
+export const licensesRelations = relations(licenses, ({ many }) => ({
+  assignments: many(licenseAssignments)
+}));
+
+export const licenseAssignmentsRelations = relations(licenseAssignments, ({ one }) => ({
+  license: one(licenses, { fields: [licenseAssignments.licenseId], references: [licenses.id] }),
+  user: one(users, { fields: [licenseAssignments.userId], references: [users.id], relationName: "license_seats" }),
+  equipment: one(equipment, { fields: [licenseAssignments.equipmentId], references: [equipment.id] }),
+  assignedBy: one(users, { fields: [licenseAssignments.assignedByUserId], references: [users.id], relationName: "license_seats_assigned" })
+}));
+
+export const staffChecklistsRelations = relations(staffChecklists, ({ one, many }) => ({
+  user: one(users, { fields: [staffChecklists.userId], references: [users.id] }),
+  entries: many(staffChecklistEntries)
+}));
+
+export const staffChecklistEntriesRelations = relations(staffChecklistEntries, ({ one }) => ({
+  checklist: one(staffChecklists, { fields: [staffChecklistEntries.checklistId], references: [staffChecklists.id] })
+}));
+
+export const securePasswordsRelations = relations(securePasswords, ({ one, many }) => ({
   sender: one(users, { fields: [securePasswords.senderId], references: [users.id], relationName: "passwords_sent" }),
-  receiver: one(users, { fields: [securePasswords.receiverId], references: [users.id], relationName: "passwords_received" })
+  receiver: one(users, { fields: [securePasswords.receiverId], references: [users.id], relationName: "passwords_received" }),
+  attachments: many(securePasswordAttachments),
+  reveals: many(securePasswordReveals)
+}));
+
+export const securePasswordAttachmentsRelations = relations(securePasswordAttachments, ({ one }) => ({
+  securePassword: one(securePasswords, { fields: [securePasswordAttachments.securePasswordId], references: [securePasswords.id] })
+}));
+
+export const securePasswordRevealsRelations = relations(securePasswordReveals, ({ one }) => ({
+  securePassword: one(securePasswords, { fields: [securePasswordReveals.securePasswordId], references: [securePasswords.id] })
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, { fields: [notifications.userId], references: [users.id] })
 }));
 
 export const tasksRelations = relations(tasks, ({ one, many }) => ({
   createdBy: one(users, { fields: [tasks.createdByUserId], references: [users.id], relationName: "created_tasks" }),
   assignedTo: one(users, { fields: [tasks.assignedToUserId], references: [users.id], relationName: "assigned_tasks" }),
-  comments: many(taskComments)
+  comments: many(taskComments),
+  attachments: many(taskAttachments),
+  stockMovements: many(stockMovements),
+  repairOrders: many(repairOrders)
 }));
 
 export const taskCommentsRelations = relations(taskComments, ({ one }) => ({
@@ -176,12 +752,21 @@ export const taskCommentsRelations = relations(taskComments, ({ one }) => ({
   user: one(users, { fields: [taskComments.userId], references: [users.id] })
 }));
 
+export const taskAttachmentsRelations = relations(taskAttachments, ({ one }) => ({
+  task: one(tasks, { fields: [taskAttachments.taskId], references: [tasks.id] }),
+  user: one(users, { fields: [taskAttachments.userId], references: [users.id] })
+}));
+
 // Schemas for inserts with validation
 
 export const userInsertSchema = createInsertSchema(users, {
   role: (schema) => z.enum([ROLES.SYSADMIN, ROLES.ACCOUNTANT, ROLES.MANAGER, ROLES.EMPLOYEE, ROLES.ADMIN])
 });
 
+export const departmentInsertSchema = createInsertSchema(departments, {
+  name: (schema) => schema.trim().min(1, "Название отдела обязательно")
+});
+
 export const permissionInsertSchema = createInsertSchema(permissions, {
   chatType: (schema) => z.enum([CHAT_TYPES.EQUIPMENT, CHAT_TYPES.PASSWORDS, CHAT_TYPES.TASKS])
 });
@@ -191,11 +776,62 @@ export const equipmentInsertSchema = createInsertSchema(equipment, {
 
   inventoryNumber: (schema) => schema.min(1, "Инвентарный номер обязателен"),
   name: (schema) => schema.min(1, "Название обязательно"),
-  type: (schema) => schema.min(1, "Тип обязателен")
+  type: (schema) => schema.min(1, "Тип обязателен"),
+  purchaseCost: (schema) => schema.regex(/^\d+(\.\d{1,2})?$/, "Стоимость указывается числом, до копеек"),
+  usefulLifeMonths: (schema) => schema.int().positive("Срок полезного использования должен быть больше нуля")
+});
+
+// Fields of the equipment form: the receipt is confirmed only through transfer acts
+export const equipmentFormSchema = equipmentInsertSchema.omit({
+  id: true,
+  receiptStatus: true,
+  receiptActId: true,
+  receiptRequestedAt: true,
+  receiptAnsweredAt: true,
+  warrantyNotifiedAt: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// Equipment already on the books may also be written off from the form
+export const equipmentUpdateSchema = equipmentFormSchema.extend({
+  status: z.enum([
+    EQUIPMENT_STATUS.ACTIVE,
+    EQUIPMENT_STATUS.STORAGE,
+    EQUIPMENT_STATUS.REPAIR,
+    EQUIPMENT_STATUS.DECOMMISSIONED,
+    EQUIPMENT_STATUS.WRITTEN_OFF
+  ])
+}).partial();
+
+export const locationInsertSchema = createInsertSchema(locations, {
+  kind: (schema) => z.enum([LOCATION_KIND.BUILDING, LOCATION_KIND.FLOOR, LOCATION_KIND.ROOM]),
+
+  name: (schema) => schema.min(1, "Название обязательно")
+});
+
+export const repairOrderInsertSchema = createInsertSchema(repairOrders, {
+  vendor: (schema) => schema.trim().min(1, "Укажите сервисный центр"),
+  sentAt: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "Неверная дата отправки"),
+  returnedAt: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "Неверная дата возврата"),
+  cost: (schema) => schema.regex(/^\d+(\.\d{1,2})?$/, "Стоимость указывается числом, до копеек")
+});
+
+export const stockItemInsertSchema = createInsertSchema(stockItems, {
+  name: (schema) => schema.trim().min(1, "Название обязательно"),
+  unit: (schema) => schema.trim().min(1, "Единица измерения обязательна"),
+  minQuantity: (schema) => schema.int().min(0, "Минимальный остаток не может быть отрицательным")
+});
+
+export const licenseInsertSchema = createInsertSchema(licenses, {
+  product: (schema) => schema.trim().min(1, "Название продукта обязательно"),
+  seats: (schema) => schema.int().positive("Количество мест должно быть больше нуля"),
+  expiresAt: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "Неверная дата окончания")
 });
 
 export const taskInsertSchema = createInsertSchema(tasks, {
-  status: (schema) => z.enum([TASK_STATUS.NEW, TASK_STATUS.IN_PROGRESS, TASK_STATUS.COMPLETED, TASK_STATUS.URGENT]),
+  status: (schema) => z.enum([TASK_STATUS.NEW, TASK_STATUS.IN_PROGRESS, TASK_STATUS.COMPLETED]),
+  priority: (schema) => z.enum([TASK_PRIORITY.LOW, TASK_PRIORITY.NORMAL, TASK_PRIORITY.HIGH, TASK_PRIORITY.URGENT]),
 
   title: (schema) => schema.min(1, "Название задачи обязательно")
 });
@@ -209,14 +845,42 @@ export const securePasswordInsertSchema = createInsertSchema(securePasswords, {
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof userInsertSchema>;
 
+export type Department = typeof departments.$inferSelect;
+export type InsertDepartment = z.infer<typeof departmentInsertSchema>;
+
+export type UserCredentials = typeof userCredentials.$inferSelect;
+
 export type Permission = typeof permissions.$inferSelect;
 export type InsertPermission = z.infer<typeof permissionInsertSchema>;
 
 export type Equipment = typeof equipment.$inferSelect;
 export type InsertEquipment = z.infer<typeof equipmentInsertSchema>;
 
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof locationInsertSchema>;
+
 export type EquipmentHistory = typeof equipmentHistory.$inferSelect;
 
+export type TransferAct = typeof transferActs.$inferSelect;
+export type TransferActItem = typeof transferActItems.$inferSelect;
+
+export type Stocktaking = typeof stocktakings.$inferSelect;
+export type StocktakingItem = typeof stocktakingItems.$inferSelect;
+
+export type RepairOrder = typeof repairOrders.$inferSelect;
+export type InsertRepairOrder = z.infer<typeof repairOrderInsertSchema>;
+
+export type StockItem = typeof stockItems.$inferSelect;
+export type InsertStockItem = z.infer<typeof stockItemInsertSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+export type License = typeof licenses.$inferSelect;
+export type InsertLicense = z.infer<typeof licenseInsertSchema>;
+export type LicenseAssignment = typeof licenseAssignments.$inferSelect;
+
+export type StaffChecklist = typeof staffChecklists.$inferSelect;
+export type StaffChecklistEntry = typeof staffChecklistEntries.$inferSelect;
+
 export type SecurePassword = typeof securePasswords.$inferSelect;
 export type InsertSecurePassword = z.infer<typeof securePasswordInsertSchema>;
 
@@ -225,4 +889,14 @@ export type InsertTask = z.infer<typeof taskInsertSchema>;
 
 export type TaskComment = typeof taskComments.$inferSelect;
 
+export type TaskAttachment = typeof taskAttachments.$inferSelect;
+
+export type SecurePasswordAttachment = typeof securePasswordAttachments.$inferSelect;
+
+export type SecurePasswordReveal = typeof securePasswordReveals.$inferSelect;
+
 export type BotSetting = typeof botSettings.$inferSelect;
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+
+export type Notification = typeof notifications.$inferSelect;